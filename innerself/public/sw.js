@@ -0,0 +1,153 @@
+// ============================================================
+// INNER SELF — Service Worker
+// - App shell: pages are network-first with the last good copy as
+//   the offline fallback; hashed /_next/static assets are cache-first.
+//   API calls are never cached.
+// - Share target: POST /share (from the manifest) is answered here —
+//   shared text and files are parked in SHARE_CACHE and the app is
+//   opened at /?share=<id> to pick them up (see src/lib/pwa.ts).
+// - Background Sync for the offline outbox: when the browser is back
+//   online it fires 'sync' with the outbox tag, and every open tab is
+//   told to flush its IndexedDB queue (see src/lib/outbox.ts). With
+//   no tab open, the queue is flushed the next time the app loads.
+// - Web Push: payloads are { title, body, url, tag } from
+//   src/lib/push.ts; tapping one focuses an open tab (or opens the
+//   app) at its url.
+// ============================================================
+const SHELL_CACHE = 'inner-self-shell-v1';
+const SHARE_CACHE = 'inner-self-shares';
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys.filter((key) => key.startsWith('inner-self-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// ---- Fetch ----
+self.addEventListener('fetch', (event) => {
+    const request = event.request;
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) return;
+
+    if (request.method === 'POST' && url.pathname === '/share') {
+        event.respondWith(receiveShare(request));
+        return;
+    }
+    if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request));
+    } else if (url.pathname.startsWith('/_next/static/')) {
+        event.respondWith(cacheFirst(request));
+    }
+});
+
+async function networkFirst(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        // Only the app itself — not the login page or a redirect to it
+        if (response.ok && !response.redirected && new URL(request.url).pathname === '/') {
+            await cache.put('/', response.clone());
+        }
+        return response;
+    } catch (err) {
+        const cached = await cache.match('/');
+        if (cached) return cached;
+        throw err;
+    }
+}
+
+async function cacheFirst(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+}
+
+// ---- Share target ----
+async function receiveShare(request) {
+    const form = await request.formData();
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const cache = await caches.open(SHARE_CACHE);
+
+    const files = form.getAll('files').filter((file) => typeof file !== 'string' && file.size > 0);
+    await Promise.all(files.map((file, i) =>
+        cache.put(`/shared/${id}/files/${i}`, new Response(file, {
+            headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+        }))
+    ));
+    await cache.put(`/shared/${id}/meta`, Response.json({
+        title: form.get('title') || '',
+        text: form.get('text') || '',
+        url: form.get('url') || '',
+        fileCount: files.length,
+    }));
+
+    return Response.redirect(`/?share=${id}`, 303);
+}
+
+// ---- Background Sync ----
+self.addEventListener('sync', (event) => {
+    if (event.tag !== OUTBOX_SYNC_TAG) return;
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            for (const client of clients) client.postMessage({ type: OUTBOX_SYNC_TAG });
+        })
+    );
+});
+
+// ---- Push notifications ----
+self.addEventListener('push', (event) => {
+    let payload = {};
+    try {
+        payload = event.data ? event.data.json() : {};
+    } catch {
+        payload = { body: event.data ? event.data.text() : '' };
+    }
+    event.waitUntil(
+        self.registration.showNotification(payload.title || 'Inner Self', {
+            body: payload.body || '',
+            icon: '/icon-192.png',
+            badge: '/icon-192.png',
+            tag: payload.tag,
+            data: { url: payload.url || '/' },
+        })
+    );
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const open = clients.find((client) => new URL(client.url).origin === self.location.origin);
+            if (open) return open.focus().then((client) => client.navigate(url));
+            return self.clients.openWindow(url);
+        })
+    );
+});
+
+self.addEventListener('pushsubscriptionchange', (event) => {
+    // The browser rotated the subscription; re-register it with the same key
+    const options = event.oldSubscription?.options;
+    if (!options) return;
+    event.waitUntil(
+        self.registration.pushManager.subscribe(options).then((subscription) =>
+            fetch('/api/push/subscribe', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(subscription.toJSON()),
+            })
+        )
+    );
+});
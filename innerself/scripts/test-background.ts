@@ -1,5 +1,6 @@
 
 import { processBackgroundFeatures } from '../src/lib/extraction';
+import { getUserProfile } from '../src/lib/auth';
 import { config } from 'dotenv';
 import path from 'path';
 
@@ -7,6 +8,12 @@ import path from 'path';
 config({ path: path.resolve(process.cwd(), '.env.local') });
 
 async function test() {
+    const user = await getUserProfile(process.env.TEST_USER_ID || '');
+    if (!user) {
+        console.error("❌ Set TEST_USER_ID in .env.local to an app_users id.");
+        process.exit(1);
+    }
+
     console.log("Testing Background Features Pipeline...");
 
     // Use a fake entry ID but real text that should trigger detectors
@@ -16,7 +23,7 @@ async function test() {
     console.log(`Analyzing: "${text}"`);
 
     try {
-        const result = await processBackgroundFeatures(fakeEntryId, text);
+        const result = await processBackgroundFeatures(user, fakeEntryId, text);
 
         if (result.success) {
             console.log("✅ processBackgroundFeatures returned success.");
@@ -1,5 +1,6 @@
 
 import { processEntry, processBackgroundFeatures } from '../src/lib/extraction';
+import { getUserProfile } from '../src/lib/auth';
 import { config } from 'dotenv';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
@@ -12,6 +13,12 @@ const getEntryId = () => uuidv4();
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 async function runTests() {
+    const user = await getUserProfile(process.env.TEST_USER_ID || '');
+    if (!user) {
+        console.error("❌ Set TEST_USER_ID in .env.local to an app_users id.");
+        process.exit(1);
+    }
+
     console.log('============================================================');
     console.log('🧪 STARTING COMPREHENSIVE E2E SCENARIO TESTING 🧪');
     console.log('============================================================\n');
@@ -20,7 +27,7 @@ async function runTests() {
     console.log('🔵 SCENARIO 1: Simple Emotional Vent');
     const text1 = "I'm feeling really overwhelmed today. Work is piling up and I just can't focus.";
     try {
-        const res1 = await processEntry(text1, 'text', {});
+        const res1 = await processEntry(user, text1, 'text', {});
         if (res1.success) {
             console.log('✅ Extraction Success');
             console.log(`   Title: "${res1.extraction.title}"`);
@@ -38,7 +45,7 @@ async function runTests() {
     console.log('🔵 SCENARIO 2: Task Extraction');
     const text2 = "I need to call mom tomorrow at 5pm and finish the Q3 report by Friday.";
     try {
-        const res2 = await processEntry(text2, 'text', {});
+        const res2 = await processEntry(user, text2, 'text', {});
         if (res2.success && res2.extraction.is_task) {
             console.log('✅ Task Detect Success');
             console.log(`   Is Task: ${res2.extraction.is_task}`);
@@ -56,7 +63,7 @@ async function runTests() {
     const text3 = "Big news! I finally bought my first car today. It's a Honda City. I'm so proud.";
     const entryId3 = getEntryId();
     try {
-        const res3 = await processBackgroundFeatures(entryId3, text3);
+        const res3 = await processBackgroundFeatures(user, entryId3, text3);
         if (res3.success) {
             console.log('✅ Background Process Success');
             console.log('(Check logs above for "1 Life Event" confirmation)');
@@ -72,7 +79,7 @@ async function runTests() {
     const text4 = "Feeling a bit feverish. Temperature is 101F. Resting today.";
     const entryId4 = getEntryId();
     try {
-        const res4 = await processBackgroundFeatures(entryId4, text4);
+        const res4 = await processBackgroundFeatures(user, entryId4, text4);
         if (res4.success) {
             console.log('✅ Health Metric Success');
             console.log('(Check logs above for "Health Metrics" count)');
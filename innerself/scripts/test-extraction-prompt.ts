@@ -1,5 +1,6 @@
 
 import { extractFromEntry } from '../src/lib/ai';
+import { getUserProfile } from '../src/lib/auth';
 import { config } from 'dotenv';
 import path from 'path';
 
@@ -7,17 +8,29 @@ import path from 'path';
 config({ path: path.resolve(process.cwd(), '.env.local') });
 
 async function test() {
+    const user = await getUserProfile(process.env.TEST_USER_ID || '');
+    if (!user) {
+        console.error("❌ Set TEST_USER_ID in .env.local to an app_users id.");
+        process.exit(1);
+    }
+
     const exampleText = "Yaar aaj bahut frustrating day tha at office. Lloyds mein ye naya project hai na, usmein Rajesh ne pura credit le liya for my work. I built that entire Power BI dashboard and he presented it as his own. Bahut gussa aa raha hai but I can't say anything because he's my skip-level. Came home, didn't eat dinner. Just lying in bed.";
 
     console.log("Testing extraction with Example 1...");
     console.log("Input:", exampleText);
 
     try {
-        const result = await extractFromEntry(exampleText, "", "");
+        const { value: result, issues } = await extractFromEntry(user, exampleText, "", "");
         console.log("\n--- Extraction Result ---");
         console.log(JSON.stringify(result, null, 2));
         console.log("-------------------------\n");
 
+        if (issues.length > 0) {
+            console.log("--- Schema Issues ---");
+            issues.forEach(issue => console.log(`⚠️  ${issue.field}: ${issue.problem} (${issue.action})`));
+            console.log("");
+        }
+
         // Assertions
         const checks = [
             { name: "Mood is low (approx 3)", passed: result.mood_score <= 4 },
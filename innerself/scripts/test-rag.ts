@@ -1,5 +1,6 @@
 
 import { findSimilarEntries } from '../src/lib/embeddings';
+import { getUserProfile } from '../src/lib/auth';
 import { config } from 'dotenv';
 import path from 'path';
 
@@ -7,6 +8,12 @@ import path from 'path';
 config({ path: path.resolve(process.cwd(), '.env.local') });
 
 async function test() {
+    const user = await getUserProfile(process.env.TEST_USER_ID || '');
+    if (!user) {
+        console.error("❌ Set TEST_USER_ID in .env.local to an app_users id.");
+        process.exit(1);
+    }
+
     console.log("Testing RAG Pipeline (Simple Retrieval)...");
 
     const query = "anxiety about work";
@@ -15,7 +22,7 @@ async function test() {
     try {
         // Note: This test might return empty string if no embeddings exist yet.
         // That is acceptable for a cold start test, as long as it doesn't crash.
-        const result = await findSimilarEntries(query);
+        const result = await findSimilarEntries(user.id, query);
 
         console.log("\n--- Result ---");
         if (result) {
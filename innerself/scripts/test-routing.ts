@@ -1,5 +1,6 @@
 
 import { updatePeopleMap, updateBeliefSystem } from '../src/lib/extraction';
+import { getUserProfile } from '../src/lib/auth';
 import { config } from 'dotenv';
 import path from 'path';
 
@@ -7,6 +8,12 @@ import path from 'path';
 config({ path: path.resolve(process.cwd(), '.env.local') });
 
 async function test() {
+    const user = await getUserProfile(process.env.TEST_USER_ID || '');
+    if (!user) {
+        console.error("❌ Set TEST_USER_ID in .env.local to an app_users id.");
+        process.exit(1);
+    }
+
     console.log("Testing Field-to-Tab Routing...");
 
     // Test Belief System
@@ -15,7 +22,7 @@ async function test() {
     const fakeEntryId = "00000000-0000-0000-0000-000000000000"; // Fake ID
 
     try {
-        await updateBeliefSystem(testBeliefs, fakeEntryId);
+        await updateBeliefSystem(user.id, testBeliefs, fakeEntryId);
         console.log("✅ updateBeliefSystem executed without error.");
     } catch (e) {
         console.error("❌ updateBeliefSystem failed:", e);
@@ -29,7 +36,7 @@ async function test() {
     ];
 
     try {
-        await updatePeopleMap(testPeople);
+        await updatePeopleMap(user.id, testPeople);
         console.log("✅ updatePeopleMap executed without error.");
     } catch (e) {
         console.error("❌ updatePeopleMap failed:", e);
@@ -0,0 +1,54 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V10: Journal Imports
+-- Run this in Supabase SQL Editor AFTER migration-v9
+-- Entries imported from Day One, Journey, Markdown notes or a
+-- WhatsApp export wait here and are fed through the extraction
+-- pipeline a few at a time.
+-- ============================================================
+
+-- 1. One row per uploaded export
+CREATE TABLE IF NOT EXISTS journal_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    source_app TEXT NOT NULL CHECK (source_app IN ('dayone', 'journey', 'markdown', 'whatsapp')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed')),
+    total_items INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_journal_imports_user_id ON journal_imports(user_id, created_at DESC);
+
+-- 2. One row per entry waiting to be processed
+CREATE TABLE IF NOT EXISTS journal_import_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    import_id UUID NOT NULL REFERENCES journal_imports(id) ON DELETE CASCADE,
+    position INT NOT NULL,
+    raw_text TEXT NOT NULL,                   -- vault-encrypted when encryption is on
+    occurred_at TIMESTAMPTZ NOT NULL,         -- original timestamp → raw_entries.created_at
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'skipped', 'failed')),
+    entry_id UUID REFERENCES raw_entries(id) ON DELETE SET NULL,
+    error TEXT,
+    claimed_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_journal_import_items_queue ON journal_import_items(import_id, status, position);
+
+-- 3. Own rows only (same policy as every other data table)
+DO $$
+DECLARE
+    tbl TEXT;
+BEGIN
+    FOR tbl IN SELECT unnest(ARRAY['journal_imports', 'journal_import_items'])
+    LOOP
+        EXECUTE format('ALTER TABLE %1$s ENABLE ROW LEVEL SECURITY', tbl);
+        EXECUTE format('DROP POLICY IF EXISTS "Own rows only" ON %1$s', tbl);
+        EXECUTE format(
+            'CREATE POLICY "Own rows only" ON %1$s FOR ALL TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid())',
+            tbl
+        );
+    END LOOP;
+END;
+$$;
+
+SELECT 'Migration V10 (Journal Import) complete' AS status;
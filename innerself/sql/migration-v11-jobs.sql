@@ -0,0 +1,34 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V11: Durable Job Queue
+-- Run this in Supabase SQL Editor AFTER migration-v10
+-- Background work (deep analysis, chat extraction, re-processing)
+-- is recorded here before it runs, retried with backoff, and
+-- drained by /api/jobs/run and the /api/cron/jobs sweep.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    job_type TEXT NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',           -- ids only, never journal text
+    idempotency_key TEXT NOT NULL,                 -- e.g. background_features:<entry_id>
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    attempts INT NOT NULL DEFAULT 0,
+    max_attempts INT NOT NULL DEFAULT 5,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),  -- backoff: not picked up before this
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    result JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    CONSTRAINT jobs_user_idempotency_key UNIQUE (user_id, idempotency_key)
+);
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(user_id, status, run_after);
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Own rows only" ON jobs;
+CREATE POLICY "Own rows only" ON jobs FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+SELECT 'Migration V11 (Jobs) complete' AS status;
@@ -0,0 +1,23 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V12: When It Happened (occurred_at)
+-- Run this in Supabase SQL Editor AFTER migration-v11
+-- An entry written today about yesterday is dated to yesterday.
+-- created_at stays the time it was written; occurred_at is the day
+-- it describes (resolved by extraction, or backdated by the user).
+-- ============================================================
+
+ALTER TABLE extracted_entities ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ;
+
+-- Existing extractions happened when their entry was written
+UPDATE extracted_entities e
+SET occurred_at = r.created_at
+FROM raw_entries r
+WHERE e.entry_id = r.id AND e.occurred_at IS NULL;
+
+UPDATE extracted_entities SET occurred_at = created_at WHERE occurred_at IS NULL;
+
+ALTER TABLE extracted_entities ALTER COLUMN occurred_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_occurred_at ON extracted_entities(user_id, occurred_at DESC);
+
+SELECT 'Migration V12 (Occurred At) complete' AS status;
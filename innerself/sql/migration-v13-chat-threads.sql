@@ -0,0 +1,44 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V13: Chat Threads
+-- Run this in Supabase SQL Editor AFTER migration-v12
+-- Chat messages belong to a thread (one persona, one conversation)
+-- instead of one flat stream. The chat route loads a thread's
+-- history itself rather than trusting the client's copy.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS chat_threads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    title TEXT,                                    -- auto-generated after the first exchange; vault-encrypted
+    persona TEXT NOT NULL DEFAULT 'friend',
+    archived BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_recent ON chat_threads(user_id, archived, last_message_at DESC);
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES chat_threads(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_conversations_thread ON conversations(thread_id, created_at);
+
+-- Existing messages: one "Earlier chats" thread per user and persona
+INSERT INTO chat_threads (user_id, title, persona, created_at, last_message_at)
+SELECT user_id, 'Earlier chats', COALESCE(persona_used, 'friend'), MIN(created_at), MAX(created_at)
+FROM conversations
+WHERE thread_id IS NULL
+GROUP BY user_id, COALESCE(persona_used, 'friend');
+
+UPDATE conversations c
+SET thread_id = t.id
+FROM chat_threads t
+WHERE c.thread_id IS NULL
+  AND t.user_id = c.user_id
+  AND t.persona = COALESCE(c.persona_used, 'friend')
+  AND t.title = 'Earlier chats';
+
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Own rows only" ON chat_threads;
+CREATE POLICY "Own rows only" ON chat_threads FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+SELECT 'Migration V13 (Chat Threads) complete' AS status;
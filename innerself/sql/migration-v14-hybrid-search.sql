@@ -0,0 +1,119 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V14: Hybrid Search
+-- Run this in Supabase SQL Editor AFTER migration-v13
+-- Chat retrieval combines Postgres full-text search with the pgvector
+-- search (lib/embeddings.ts fuses and reranks the two). Adds the
+-- full-text indexes, a match_entries_text() RPC, and mood/persona
+-- filters to match_embeddings().
+-- ============================================================
+
+-- Full-text over what was written and what extraction made of it.
+-- Vault-encrypted raw_text indexes as noise; the extracted title and
+-- content stay searchable either way.
+ALTER TABLE raw_entries ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(raw_text, ''))) STORED;
+ALTER TABLE extracted_entities ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(title, '') || ' ' || COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_raw_entries_search ON raw_entries USING gin(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_search ON extracted_entities USING gin(search_tsv);
+
+-- New parameters change the signature, so the old function has to go first
+DROP FUNCTION IF EXISTS match_embeddings(vector, FLOAT, INT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector(1536),
+    match_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 10,
+    filter_category TEXT DEFAULT NULL,
+    filter_person TEXT DEFAULT NULL,
+    filter_start_date TEXT DEFAULT NULL,
+    filter_end_date TEXT DEFAULT NULL,
+    filter_min_mood INT DEFAULT NULL,
+    filter_max_mood INT DEFAULT NULL,
+    filter_persona TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    entry_id UUID,
+    content_text TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.entry_id,
+        e.content_text,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE 1 - (e.embedding <=> query_embedding) > match_threshold
+        AND (filter_category IS NULL OR e.metadata->>'category' = filter_category)
+        AND (filter_person IS NULL OR e.metadata->'people' ? filter_person)
+        AND (filter_start_date IS NULL OR (e.metadata->>'date')::date >= filter_start_date::date)
+        AND (filter_end_date IS NULL OR (e.metadata->>'date')::date <= filter_end_date::date)
+        AND (filter_min_mood IS NULL OR (e.metadata->>'mood')::int >= filter_min_mood)
+        AND (filter_max_mood IS NULL OR (e.metadata->>'mood')::int <= filter_max_mood)
+        AND (filter_persona IS NULL OR e.metadata->>'persona' = filter_persona)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Keyword side of hybrid search. Returns rows shaped like
+-- match_embeddings() so the two lists can be fused directly.
+-- Runs as the caller, so RLS limits it to the signed-in user.
+CREATE OR REPLACE FUNCTION match_entries_text(
+    query_text TEXT,
+    match_count INT DEFAULT 10,
+    filter_category TEXT DEFAULT NULL,
+    filter_person TEXT DEFAULT NULL,
+    filter_start_date TEXT DEFAULT NULL,
+    filter_end_date TEXT DEFAULT NULL,
+    filter_min_mood INT DEFAULT NULL,
+    filter_max_mood INT DEFAULT NULL,
+    filter_persona TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    entry_id UUID,
+    content_text TEXT,
+    metadata JSONB,
+    rank FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    q tsquery := websearch_to_tsquery('english', query_text);
+BEGIN
+    RETURN QUERY
+    SELECT
+        x.entry_id,
+        x.title || '. ' || x.content AS content_text,
+        jsonb_build_object(
+            'category', x.category,
+            'mood', x.mood_score,
+            'date', to_char(x.occurred_at, 'YYYY-MM-DD'),
+            'persona', x.identity_persona
+        ) AS metadata,
+        (ts_rank_cd(x.search_tsv, q) + ts_rank_cd(r.search_tsv, q))::FLOAT AS rank
+    FROM extracted_entities x
+    JOIN raw_entries r ON r.id = x.entry_id
+    WHERE r.deleted_at IS NULL
+        AND (x.search_tsv @@ q OR r.search_tsv @@ q)
+        AND (filter_category IS NULL OR x.category = filter_category)
+        AND (filter_person IS NULL OR x.people_mentioned @> jsonb_build_array(jsonb_build_object('name', filter_person)))
+        AND (filter_start_date IS NULL OR x.occurred_at::date >= filter_start_date::date)
+        AND (filter_end_date IS NULL OR x.occurred_at::date <= filter_end_date::date)
+        AND (filter_min_mood IS NULL OR x.mood_score >= filter_min_mood)
+        AND (filter_max_mood IS NULL OR x.mood_score <= filter_max_mood)
+        AND (filter_persona IS NULL OR x.identity_persona = filter_persona)
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$;
+
+SELECT 'Migration V14 (Hybrid Search) complete' AS status;
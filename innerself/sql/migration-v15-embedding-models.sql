@@ -0,0 +1,61 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V15: Embedding Model Versions
+-- Run this in Supabase SQL Editor AFTER migration-v14
+-- Every embedding row records the model that produced it
+-- ("provider:model@dimensions"), and vector search only compares
+-- vectors from the same model. Rows from an older model are rebuilt
+-- by the reembed job; search reads both until it finishes.
+-- ============================================================
+
+-- Everything so far came from OpenAI text-embedding-3-large at 1536 dims
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS model TEXT NOT NULL DEFAULT 'openai:text-embedding-3-large@1536';
+CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(user_id, model);
+
+DROP FUNCTION IF EXISTS match_embeddings(vector, FLOAT, INT, TEXT, TEXT, TEXT, TEXT, INT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector(1536),
+    match_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 10,
+    filter_category TEXT DEFAULT NULL,
+    filter_person TEXT DEFAULT NULL,
+    filter_start_date TEXT DEFAULT NULL,
+    filter_end_date TEXT DEFAULT NULL,
+    filter_min_mood INT DEFAULT NULL,
+    filter_max_mood INT DEFAULT NULL,
+    filter_persona TEXT DEFAULT NULL,
+    filter_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    entry_id UUID,
+    content_text TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.entry_id,
+        e.content_text,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE 1 - (e.embedding <=> query_embedding) > match_threshold
+        AND (filter_model IS NULL OR e.model = filter_model)
+        AND (filter_category IS NULL OR e.metadata->>'category' = filter_category)
+        AND (filter_person IS NULL OR e.metadata->'people' ? filter_person)
+        AND (filter_start_date IS NULL OR (e.metadata->>'date')::date >= filter_start_date::date)
+        AND (filter_end_date IS NULL OR (e.metadata->>'date')::date <= filter_end_date::date)
+        AND (filter_min_mood IS NULL OR (e.metadata->>'mood')::int >= filter_min_mood)
+        AND (filter_max_mood IS NULL OR (e.metadata->>'mood')::int <= filter_max_mood)
+        AND (filter_persona IS NULL OR e.metadata->>'persona' = filter_persona)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$;
+
+SELECT 'Migration V15 (Embedding Models) complete' AS status;
@@ -0,0 +1,84 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V16: Chunked Embeddings
+-- Run this in Supabase SQL Editor AFTER migration-v15
+-- A source can have many embedding rows, one per chunk, and uploaded
+-- documents are embedded too. source_type says which table a row
+-- belongs to; chunk_start / chunk_end are character offsets into the
+-- source text (null for an entry's summary row, chunk_index 0).
+-- ============================================================
+
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS source_type TEXT NOT NULL DEFAULT 'entry';
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES uploaded_documents(id) ON DELETE CASCADE;
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS chunk_index INT NOT NULL DEFAULT 0;
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS chunk_start INT;
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS chunk_end INT;
+
+ALTER TABLE embeddings ALTER COLUMN entry_id DROP NOT NULL;
+
+ALTER TABLE embeddings DROP CONSTRAINT IF EXISTS embeddings_source_check;
+ALTER TABLE embeddings ADD CONSTRAINT embeddings_source_check CHECK (
+    (source_type = 'entry' AND entry_id IS NOT NULL AND document_id IS NULL)
+    OR (source_type = 'document' AND document_id IS NOT NULL AND entry_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_document_id ON embeddings(document_id);
+
+-- The result columns change, so the old function has to go first
+DROP FUNCTION IF EXISTS match_embeddings(vector, FLOAT, INT, TEXT, TEXT, TEXT, TEXT, INT, INT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector(1536),
+    match_threshold FLOAT DEFAULT 0.3,
+    match_count INT DEFAULT 10,
+    filter_category TEXT DEFAULT NULL,
+    filter_person TEXT DEFAULT NULL,
+    filter_start_date TEXT DEFAULT NULL,
+    filter_end_date TEXT DEFAULT NULL,
+    filter_min_mood INT DEFAULT NULL,
+    filter_max_mood INT DEFAULT NULL,
+    filter_persona TEXT DEFAULT NULL,
+    filter_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    source_type TEXT,
+    entry_id UUID,
+    document_id UUID,
+    chunk_index INT,
+    chunk_start INT,
+    chunk_end INT,
+    content_text TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.source_type,
+        e.entry_id,
+        e.document_id,
+        e.chunk_index,
+        e.chunk_start,
+        e.chunk_end,
+        e.content_text,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE 1 - (e.embedding <=> query_embedding) > match_threshold
+        AND (filter_model IS NULL OR e.model = filter_model)
+        AND (filter_category IS NULL OR e.metadata->>'category' = filter_category)
+        AND (filter_person IS NULL OR e.metadata->'people' ? filter_person)
+        AND (filter_start_date IS NULL OR (e.metadata->>'date')::date >= filter_start_date::date)
+        AND (filter_end_date IS NULL OR (e.metadata->>'date')::date <= filter_end_date::date)
+        AND (filter_min_mood IS NULL OR (e.metadata->>'mood')::int >= filter_min_mood)
+        AND (filter_max_mood IS NULL OR (e.metadata->>'mood')::int <= filter_max_mood)
+        AND (filter_persona IS NULL OR e.metadata->>'persona' = filter_persona)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$;
+
+SELECT 'Migration V16 (Embedding Chunks) complete' AS status;
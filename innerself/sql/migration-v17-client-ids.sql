@@ -0,0 +1,16 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V17: Offline Capture (client ids)
+-- Run this in Supabase SQL Editor AFTER migration-v16
+-- Brain dumps captured offline are queued in the browser and sent
+-- later, possibly more than once (retries, two open tabs). Each
+-- carries a client-generated id; the unique index makes a replay
+-- land on the entry that already exists instead of a second copy.
+-- ============================================================
+
+ALTER TABLE raw_entries ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_raw_entries_client_id
+    ON raw_entries(user_id, client_id)
+    WHERE client_id IS NOT NULL;
+
+SELECT 'Migration V17 (Client IDs) complete' AS status;
@@ -0,0 +1,26 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V18: Voice Recordings
+-- Run this in Supabase SQL Editor AFTER migration-v17
+-- Voice entries can keep their original recording (opt-in) for
+-- playback and re-transcription. raw_entries.audio_url holds the
+-- storage key ("<user_id>/<uuid>.webm"); audio_duration_sec is the
+-- length Whisper decoded. Recordings older than the retention window
+-- are deleted by the daily cleanup.
+-- ============================================================
+
+-- 1. Per-user settings (off by default; NULL retention = keep forever)
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS audio_preservation BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS audio_retention_days INT
+    CHECK (audio_retention_days IS NULL OR audio_retention_days > 0);
+
+-- 2. Retention sweeps look for old entries that still have a recording
+CREATE INDEX IF NOT EXISTS idx_raw_entries_audio
+    ON raw_entries(user_id, created_at)
+    WHERE audio_url IS NOT NULL;
+
+-- 3. Private bucket for AUDIO_STORAGE=supabase (the server reads it with the service role)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voice-recordings', 'voice-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+SELECT 'Migration V18 (Voice Recordings) complete' AS status;
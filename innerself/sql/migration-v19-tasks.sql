@@ -0,0 +1,48 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V19: Tasks
+-- Run this in Supabase SQL Editor AFTER migration-v18
+-- Tasks get their own table (priority, recurrence, subtasks,
+-- snooze) instead of living on extracted_entities.is_task. The
+-- extractor still fills is_task/task_status on the entity as a
+-- record of what it saw; the tasks table is what TasksView edits.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES tasks(id) ON DELETE CASCADE,          -- subtasks, one level deep
+    title TEXT NOT NULL,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'cancelled')),
+    priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+    due_date DATE,
+    recurrence TEXT,                                                -- 'daily' | 'weekly' | 'monthly' | 'yearly' | 'RRULE:...'
+    snoozed_until TIMESTAMPTZ,                                      -- hidden from the pending list until then
+    position INT NOT NULL DEFAULT 0,                                -- order among siblings
+    source_entry_id UUID REFERENCES raw_entries(id) ON DELETE SET NULL,
+    completed_entry_id UUID REFERENCES raw_entries(id) ON DELETE SET NULL, -- the dump that reported it done
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_open ON tasks(user_id, status, due_date) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id, position) WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_source_entry ON tasks(source_entry_id);
+
+-- Existing extracted tasks become rows (once — re-running skips entries already copied)
+INSERT INTO tasks (user_id, title, notes, status, due_date, source_entry_id, completed_at, created_at, updated_at)
+SELECT e.user_id, e.title, e.content, COALESCE(e.task_status, 'pending'), e.task_due_date, e.entry_id,
+       CASE WHEN e.task_status = 'done' THEN e.created_at END, e.created_at, e.created_at
+FROM extracted_entities e
+JOIN raw_entries r ON r.id = e.entry_id
+WHERE e.is_task = TRUE
+  AND r.deleted_at IS NULL
+  AND NOT EXISTS (SELECT 1 FROM tasks t WHERE t.source_entry_id = e.entry_id);
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Own rows only" ON tasks;
+CREATE POLICY "Own rows only" ON tasks FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+SELECT 'Migration V19 (Tasks) complete' AS status;
@@ -0,0 +1,24 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V20: Due Times & Task Reminders
+-- Run this in Supabase SQL Editor AFTER migration-v19
+-- Due phrases ("tomorrow at 5pm", "by Friday") are resolved in the
+-- user's own timezone. due_date + due_time are local wall-clock
+-- values; the reminder cron turns them into instants with
+-- app_users.timezone. reminded_at is set once a reminder has gone
+-- out and cleared whenever the due date or time is edited.
+-- ============================================================
+
+-- 1. Where the user lives (IANA name)
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- 2. Time-of-day precision and reminder bookkeeping
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_time TIME;            -- local; NULL = any time that day
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_phrase TEXT;          -- the words it was resolved from
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reminded_at TIMESTAMPTZ;
+
+-- 3. The cron looks for pending tasks that haven't been reminded yet
+CREATE INDEX IF NOT EXISTS idx_tasks_reminders
+    ON tasks(user_id, due_date)
+    WHERE status = 'pending' AND reminded_at IS NULL AND due_date IS NOT NULL;
+
+SELECT 'Migration V20 (Task Reminders) complete' AS status;
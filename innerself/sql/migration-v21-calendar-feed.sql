@@ -0,0 +1,16 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V21: Calendar Feed
+-- Run this in Supabase SQL Editor AFTER migration-v20
+-- A private ICS feed (/api/calendar/feed?token=...) that calendar
+-- apps subscribe to. Only a SHA-256 of the token is stored, like
+-- auth_sessions.token_hash; rotating the token breaks old links.
+-- ============================================================
+
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS calendar_token_hash TEXT;
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS calendar_token_created_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_app_users_calendar_token
+    ON app_users(calendar_token_hash)
+    WHERE calendar_token_hash IS NOT NULL;
+
+SELECT 'Migration V21 (Calendar Feed) complete' AS status;
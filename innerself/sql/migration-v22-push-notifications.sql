@@ -0,0 +1,47 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V22: Push Notifications
+-- Run this in Supabase SQL Editor AFTER migration-v21
+-- Web Push (VAPID): one row per browser/device that subscribed,
+-- per-user notification preferences, and insights.pushed_at so the
+-- daily limit can count what was actually sent.
+-- ============================================================
+
+-- 1. Devices (the PushSubscription the browser handed us)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_sent_at TIMESTAMPTZ,
+    UNIQUE (user_id, endpoint)
+);
+
+-- 2. What to send, and when not to
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES app_users(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    insight_types TEXT[] NOT NULL DEFAULT ARRAY['warning', 'reminder', 'anniversary'],
+    quiet_start TIME DEFAULT '22:00',                               -- local (app_users.timezone); NULL = no quiet hours
+    quiet_end TIME DEFAULT '08:00',
+    max_per_day INT NOT NULL DEFAULT 5 CHECK (max_per_day BETWEEN 1 AND 50),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 3. Which insights went out as a notification
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS pushed_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_insights_pushed ON insights(user_id, pushed_at) WHERE pushed_at IS NOT NULL;
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Own rows only" ON push_subscriptions;
+CREATE POLICY "Own rows only" ON push_subscriptions FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Own rows only" ON notification_preferences;
+CREATE POLICY "Own rows only" ON notification_preferences FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+SELECT 'Migration V22 (Push Notifications) complete' AS status;
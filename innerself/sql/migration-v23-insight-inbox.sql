@@ -0,0 +1,26 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V23: Insights Inbox
+-- Run this in Supabase SQL Editor AFTER migration-v22
+-- Insights get a lifecycle (new → read → dismissed), a snooze, and
+-- the user's verdict (helpful / not helpful). The daily-insights
+-- cron reads the verdicts so rejected observations aren't repeated.
+-- ============================================================
+
+-- 1. Lifecycle (anything unrecognised from older code counts as unread)
+UPDATE insights SET status = 'new' WHERE status IS NULL OR status NOT IN ('new', 'read', 'dismissed');
+ALTER TABLE insights ALTER COLUMN status SET DEFAULT 'new';
+ALTER TABLE insights ALTER COLUMN status SET NOT NULL;
+ALTER TABLE insights DROP CONSTRAINT IF EXISTS insights_status_check;
+ALTER TABLE insights ADD CONSTRAINT insights_status_check CHECK (status IN ('new', 'read', 'dismissed'));
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;   -- hidden from the inbox until then
+
+-- 2. Feedback
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS feedback TEXT CHECK (feedback IN ('helpful', 'not_helpful'));
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMPTZ;
+
+-- 3. The inbox lists by status, newest first; the cron reads recent verdicts
+CREATE INDEX IF NOT EXISTS idx_insights_inbox ON insights(user_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_insights_feedback ON insights(user_id, feedback_at DESC) WHERE feedback IS NOT NULL;
+
+SELECT 'Migration V23 (Insights Inbox) complete' AS status;
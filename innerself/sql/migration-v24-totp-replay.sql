@@ -0,0 +1,12 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V24: TOTP Replay Protection
+-- Run this in Supabase SQL Editor AFTER migration-v23
+-- The time step of the last authenticator code accepted. Codes for
+-- that step or earlier are refused, so a code that was seen once
+-- (shoulder-surfed, phished, logged) can't be used again while it's
+-- still inside its 30-second window.
+-- ============================================================
+
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+SELECT 'Migration V24 (TOTP Replay Protection) complete' AS status;
@@ -0,0 +1,12 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V25: Deferred Push
+-- Run this in Supabase SQL Editor AFTER migration-v24
+-- An insight created during the user's quiet hours is marked
+-- push_deferred_at instead of being dropped; the 15-minute jobs cron
+-- sends it once quiet hours are over (see lib/push.ts).
+-- ============================================================
+
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS push_deferred_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_insights_push_deferred ON insights(user_id, created_at) WHERE push_deferred_at IS NOT NULL;
+
+SELECT 'Migration V25 (Deferred Push) complete' AS status;
@@ -0,0 +1,17 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V26: Entry Insert Time
+-- Run this in Supabase SQL Editor AFTER migration-v25
+-- raw_entries.created_at is when the entry was written — imported,
+-- backdated and offline-synced entries keep their original, older
+-- date. inserted_at is when the row reached the database, so the
+-- orphan sweep (lib/jobs.ts) gives every entry the same grace period
+-- to be extracted before it re-queues it.
+-- ============================================================
+
+ALTER TABLE raw_entries ADD COLUMN IF NOT EXISTS inserted_at TIMESTAMPTZ;
+UPDATE raw_entries SET inserted_at = created_at WHERE inserted_at IS NULL;
+ALTER TABLE raw_entries ALTER COLUMN inserted_at SET DEFAULT NOW();
+ALTER TABLE raw_entries ALTER COLUMN inserted_at SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_raw_entries_inserted ON raw_entries(user_id, inserted_at DESC) WHERE deleted_at IS NULL;
+
+SELECT 'Migration V26 (Entry Insert Time) complete' AS status;
@@ -0,0 +1,14 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V27: Reminder Digest Date
+-- Run this in Supabase SQL Editor AFTER migration-v26
+-- The task-reminders cron sends one overdue digest per user per local
+-- day. digest_date marks the digest insight with that day, so the cron
+-- dedupes on it rather than on the insight's wording, and the unique
+-- index stops two overlapping runs from both sending one.
+-- ============================================================
+
+ALTER TABLE insights ADD COLUMN IF NOT EXISTS digest_date DATE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_insights_digest_date
+    ON insights(user_id, digest_date) WHERE digest_date IS NOT NULL;
+
+SELECT 'Migration V27 (Reminder Digest Date) complete' AS status;
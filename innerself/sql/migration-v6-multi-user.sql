@@ -0,0 +1,91 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V6: Multi-User Accounts
+-- Run this in Supabase SQL Editor AFTER migration-v5
+--
+-- Every data table gets a user_id owned by app_users and a
+-- row-level security policy scoped to auth.uid(). The app talks
+-- to Supabase with a per-user JWT (see getUserSupabase), so
+-- user_id fills itself in on insert and one family member can
+-- never read another's rows. Existing data is assigned to the
+-- original owner account created below.
+-- ============================================================
+
+-- 1. ACCOUNTS
+CREATE TABLE IF NOT EXISTS app_users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT,               -- NULL = legacy owner, signs in with ACCESS_SECRET
+    display_name TEXT NOT NULL,
+    age INT CHECK (age BETWEEN 1 AND 120),
+    location TEXT,
+    pronouns TEXT,
+    about TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only the service role reads this table (login, profile, cron fan-out)
+ALTER TABLE app_users ENABLE ROW LEVEL SECURITY;
+
+-- 2. OWNER ACCOUNT (inherits all existing data)
+INSERT INTO app_users (username, display_name, age, location, pronouns)
+VALUES ('sushanth', 'Sushanth Varma', 32, 'Hyderabad', 'he/him')
+ON CONFLICT (username) DO NOTHING;
+
+-- 3. user_id + RLS on every data table
+DO $$
+DECLARE
+    tbl TEXT;
+    owner_id UUID;
+BEGIN
+    SELECT id INTO owner_id FROM app_users WHERE username = 'sushanth';
+
+    FOR tbl IN
+        SELECT unnest(ARRAY[
+            'raw_entries', 'extracted_entities', 'embeddings', 'people_map',
+            'life_events_timeline', 'user_persona_summary', 'conversations',
+            'insights', 'weekly_reports', 'void_tracker', 'temporal_markers',
+            'belief_system', 'courage_log', 'self_talk_daily', 'deepening_questions',
+            'onboarding_answers', 'letters_to_future', 'dreams', 'health_metrics',
+            'uploaded_documents', 'app_config'
+        ])
+    LOOP
+        EXECUTE format('ALTER TABLE %1$s ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES app_users(id) ON DELETE CASCADE', tbl);
+        EXECUTE format('UPDATE %1$s SET user_id = $1 WHERE user_id IS NULL', tbl) USING owner_id;
+        EXECUTE format('ALTER TABLE %1$s ALTER COLUMN user_id SET DEFAULT auth.uid()', tbl);
+        EXECUTE format('ALTER TABLE %1$s ALTER COLUMN user_id SET NOT NULL', tbl);
+        EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%1$s_user_id ON %1$s(user_id)', tbl);
+
+        -- Replace the old single-user "allow all" policies
+        EXECUTE format('DROP POLICY IF EXISTS "Allow all for %1$s" ON %1$s', tbl);
+        EXECUTE format('DROP POLICY IF EXISTS "Enable read/write for all" ON %1$s', tbl);
+        EXECUTE format('DROP POLICY IF EXISTS "Own rows only" ON %1$s', tbl);
+        EXECUTE format('ALTER TABLE %1$s ENABLE ROW LEVEL SECURITY', tbl);
+        EXECUTE format(
+            'CREATE POLICY "Own rows only" ON %1$s FOR ALL TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid())',
+            tbl
+        );
+    END LOOP;
+END;
+$$;
+
+-- 4. Uniqueness is now per user
+ALTER TABLE people_map DROP CONSTRAINT IF EXISTS people_map_name_key;
+ALTER TABLE people_map ADD CONSTRAINT people_map_user_name_key UNIQUE (user_id, name);
+
+DROP INDEX IF EXISTS idx_self_talk_daily_date;
+ALTER TABLE self_talk_daily ADD CONSTRAINT self_talk_daily_user_date_key UNIQUE (user_id, date);
+
+ALTER TABLE life_events_timeline DROP CONSTRAINT IF EXISTS unique_event_date_title;
+ALTER TABLE life_events_timeline ADD CONSTRAINT unique_event_date_title UNIQUE (user_id, event_date, title);
+
+ALTER TABLE health_metrics DROP CONSTRAINT IF EXISTS unique_metric_per_date;
+ALTER TABLE health_metrics ADD CONSTRAINT unique_metric_per_date UNIQUE (user_id, metric_name, measured_at);
+
+ALTER TABLE app_config DROP CONSTRAINT IF EXISTS app_config_pkey;
+ALTER TABLE app_config ADD PRIMARY KEY (user_id, key);
+
+-- match_embeddings() runs as the caller, so the embeddings policy
+-- above already limits vector search to the signed-in user.
+
+SELECT 'Migration V6 (Multi-user) complete' AS status;
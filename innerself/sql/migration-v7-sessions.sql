@@ -0,0 +1,37 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V7: Server-Side Sessions
+-- Run this in Supabase SQL Editor AFTER migration-v6
+--
+-- Replaces the static HMAC cookie: each login gets a random
+-- token, stored here only as a SHA-256 hash, so sessions expire
+-- and can be revoked. Service role only (RLS on, no policies).
+-- ============================================================
+
+-- 1. SESSIONS
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    user_agent TEXT,
+    ip_address TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires_at ON auth_sessions(expires_at);
+ALTER TABLE auth_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 2. FAILED LOGINS (keyed "user:<username>" or "ip:<address>")
+CREATE TABLE IF NOT EXISTS auth_login_failures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key TEXT NOT NULL,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_auth_login_failures_key ON auth_login_failures(key, attempted_at DESC);
+ALTER TABLE auth_login_failures ENABLE ROW LEVEL SECURITY;
+
+-- 3. TWO-FACTOR (TOTP)
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT false;
+
+SELECT 'Migration V7 (Sessions) complete' AS status;
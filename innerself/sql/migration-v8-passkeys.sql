@@ -0,0 +1,37 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V8: Passkeys (WebAuthn)
+-- Run this in Supabase SQL Editor AFTER migration-v7
+-- Service role only (RLS on, no policies).
+-- ============================================================
+
+-- 1. PASSKEYS (one row per registered authenticator)
+CREATE TABLE IF NOT EXISTS passkeys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,       -- base64url
+    public_key TEXT NOT NULL,                 -- base64url COSE key
+    counter BIGINT NOT NULL DEFAULT 0,
+    transports TEXT[] DEFAULT '{}',
+    device_type TEXT,                         -- singleDevice | multiDevice
+    backed_up BOOLEAN DEFAULT false,
+    device_name TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_passkeys_user_id ON passkeys(user_id);
+ALTER TABLE passkeys ENABLE ROW LEVEL SECURITY;
+
+-- 2. PENDING CHALLENGES (5-minute lifetime, single use)
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES app_users(id) ON DELETE CASCADE,  -- NULL for login
+    challenge TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE webauthn_challenges ENABLE ROW LEVEL SECURITY;
+
+-- 3. Record how each session was started
+ALTER TABLE auth_sessions ADD COLUMN IF NOT EXISTS auth_method TEXT NOT NULL DEFAULT 'password';
+
+SELECT 'Migration V8 (Passkeys) complete' AS status;
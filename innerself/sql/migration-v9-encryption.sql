@@ -0,0 +1,19 @@
+-- ============================================================
+-- INNER SELF — SQL Migration V9: Opt-in Encryption at Rest
+-- Run this in Supabase SQL Editor AFTER migration-v8
+-- The key itself is never stored — only a fingerprint to check it.
+-- ============================================================
+
+-- 1. Per-user vault settings
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS encryption_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS encryption_salt TEXT;       -- base64, PBKDF2 salt
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS encryption_key_check TEXT;  -- HMAC of a constant under the key
+
+-- 2. Keyed fingerprint so exact-duplicate entries can still be detected
+ALTER TABLE raw_entries ADD COLUMN IF NOT EXISTS text_hmac TEXT;
+CREATE INDEX IF NOT EXISTS idx_raw_entries_text_hmac ON raw_entries(user_id, text_hmac);
+
+-- 3. Letters written while encryption was on (vault layer under the time-lock)
+ALTER TABLE letters_to_future ADD COLUMN IF NOT EXISTS vault_sealed BOOLEAN DEFAULT false;
+
+SELECT 'Migration V9 (Encryption) complete' AS status;
@@ -4,7 +4,8 @@
 // FIXED: Uses Claude (via ai.ts) instead of OpenAI GPT-4o
 // ============================================================
 import { NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser } from '@/lib/auth';
 import { analyzeGaps } from '@/lib/ai';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -13,7 +14,11 @@ export const maxDuration = 60;
 
 export async function POST() {
     try {
-        const supabase = getServiceSupabase();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(user.id);
 
         // 1. Fetch current big picture context
         const { data: persona } = await supabase
@@ -29,7 +34,7 @@ export async function POST() {
             .order('event_date', { ascending: true });
 
         // 2. Send to Claude for analysis (replaces OpenAI GPT-4o)
-        const resultStr = await analyzeGaps(persona, timeline || []);
+        const resultStr = await analyzeGaps(user, persona, timeline || []);
         const result = JSON.parse(resultStr);
         const gaps = result.gaps || [];
 
@@ -0,0 +1,115 @@
+// ============================================================
+// INNER SELF — Voice Recording API
+// GET  ?entryId=  → the entry's preserved recording (supports Range,
+//                   so the player can seek)
+// POST { entryId } → re-transcribe the recording with Whisper and
+//                   reprocess the entry with the new transcript
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getUserId } from '@/lib/auth';
+import { getUserSupabase } from '@/lib/supabase';
+import { isOwnRecording, loadRecording, transcribeRecording } from '@/lib/audio';
+import { processEntry } from '@/lib/extraction';
+import { VaultLockedError, vaultLockedResponse } from '@/lib/vault';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/** The recording key on one of this user's entries, or null. */
+async function getRecordingKey(userId: string, entryId: string): Promise<string | null> {
+    const { data } = await getUserSupabase(userId)
+        .from('raw_entries')
+        .select('audio_url')
+        .eq('id', entryId)
+        .maybeSingle();
+    return isOwnRecording(userId, data?.audio_url) ? data.audio_url : null;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const entryId = request.nextUrl.searchParams.get('entryId');
+        if (!entryId) {
+            return NextResponse.json({ error: 'entryId is required' }, { status: 400 });
+        }
+
+        const key = await getRecordingKey(userId, entryId);
+        const recording = key ? await loadRecording(key) : null;
+        if (!recording) {
+            return NextResponse.json({ error: 'No recording for this entry' }, { status: 404 });
+        }
+
+        const size = recording.data.length;
+        const headers: Record<string, string> = {
+            'Content-Type': recording.contentType,
+            'Accept-Ranges': 'bytes',
+            'Cache-Control': 'private, max-age=3600',
+        };
+
+        const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+        if (range && (range[1] || range[2])) {
+            // "bytes=-500" is the last 500 bytes
+            const start = range[1] ? parseInt(range[1], 10) : Math.max(0, size - parseInt(range[2], 10));
+            const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+            if (start >= size || start > end) {
+                return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+            }
+            return new NextResponse(new Uint8Array(recording.data.subarray(start, end + 1)), {
+                status: 206,
+                headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${size}`, 'Content-Length': String(end - start + 1) },
+            });
+        }
+
+        return new NextResponse(new Uint8Array(recording.data), {
+            headers: { ...headers, 'Content-Length': String(size) },
+        });
+    } catch (error) {
+        console.error('Audio GET error:', error);
+        return NextResponse.json({ error: 'Failed to load recording' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { entryId } = await request.json();
+        if (!entryId) {
+            return NextResponse.json({ error: 'entryId is required' }, { status: 400 });
+        }
+
+        const key = await getRecordingKey(user.id, entryId);
+        const recording = key ? await loadRecording(key) : null;
+        if (!recording) {
+            return NextResponse.json({ error: 'No recording for this entry' }, { status: 404 });
+        }
+
+        const { text, duration } = await transcribeRecording(recording);
+        if (!text.trim()) {
+            return NextResponse.json({ error: 'Whisper heard nothing in this recording' }, { status: 422 });
+        }
+
+        console.log(`[Audio API] Re-transcribed entry ${entryId}; reprocessing...`);
+        const result = await processEntry(user, text.trim(), 'voice', {
+            existingEntryId: entryId,
+            audio_url: key,
+            audio_duration_sec: duration === null ? null : Math.round(duration),
+        });
+        if (!result.success) {
+            return NextResponse.json({ error: result.error || 'Reprocessing failed' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, transcript: text.trim() });
+    } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
+        console.error('Audio POST error:', error);
+        return NextResponse.json({ error: 'Re-transcription failed' }, { status: 500 });
+    }
+}
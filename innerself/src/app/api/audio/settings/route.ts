@@ -0,0 +1,67 @@
+// ============================================================
+// INNER SELF — Voice Recording Settings API
+// GET   → whether recordings are kept, for how long, and how many exist
+// PATCH → { preserve?, retention_days? } (retention_days null = forever)
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getUserSupabase } from '@/lib/supabase';
+import { getVaultSettings } from '@/lib/vault';
+import { getAudioSettings, updateAudioSettings, RETENTION_OPTIONS } from '@/lib/audio';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const [settings, vault, { count }] = await Promise.all([
+            getAudioSettings(userId),
+            getVaultSettings(userId),
+            getUserSupabase(userId)
+                .from('raw_entries')
+                .select('id', { count: 'exact', head: true })
+                .not('audio_url', 'is', null),
+        ]);
+
+        return NextResponse.json({
+            ...settings,
+            retention_options: RETENTION_OPTIONS,
+            stored_count: count || 0,
+            vault_enabled: vault.encryption_enabled, // recordings aren't kept in vault mode
+        });
+    } catch (error) {
+        console.error('Audio settings GET error:', error);
+        return NextResponse.json({ error: 'Failed to load audio settings' }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        if (body.preserve !== undefined && typeof body.preserve !== 'boolean') {
+            return NextResponse.json({ error: 'preserve must be true or false' }, { status: 400 });
+        }
+        if (body.retention_days !== undefined && body.retention_days !== null
+            && !(RETENTION_OPTIONS as readonly number[]).includes(body.retention_days)) {
+            return NextResponse.json(
+                { error: `retention_days must be one of ${RETENTION_OPTIONS.join(', ')} or null` },
+                { status: 400 }
+            );
+        }
+
+        await updateAudioSettings(userId, { preserve: body.preserve, retention_days: body.retention_days });
+        return NextResponse.json(await getAudioSettings(userId));
+    } catch (error) {
+        console.error('Audio settings PATCH error:', error);
+        return NextResponse.json({ error: 'Failed to save audio settings' }, { status: 500 });
+    }
+}
@@ -0,0 +1,55 @@
+// ============================================================
+// INNER SELF — Passkey Login API (signed out)
+// GET: request options  →  POST: browser assertion → session
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, setSessionCookie } from '@/lib/auth';
+import {
+    startPasskeyLogin,
+    finishPasskeyLogin,
+    setChallengeCookie,
+    clearChallengeCookie,
+    CHALLENGE_COOKIE,
+} from '@/lib/passkeys';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { options, challengeId } = await startPasskeyLogin(request);
+        const response = NextResponse.json({ options });
+        setChallengeCookie(response, challengeId);
+        return response;
+    } catch (error) {
+        console.error('Passkey login options error:', error);
+        return NextResponse.json({ error: 'Failed to start passkey login' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const challengeId = request.cookies.get(CHALLENGE_COOKIE)?.value;
+        if (!challengeId) {
+            return NextResponse.json({ error: 'Passkey login expired. Try again.' }, { status: 400 });
+        }
+
+        const { credential } = await request.json();
+        const userId = await finishPasskeyLogin(challengeId, credential, request);
+
+        if (!userId) {
+            const response = NextResponse.json({ error: 'Passkey not recognised' }, { status: 401 });
+            clearChallengeCookie(response);
+            return response;
+        }
+
+        // Passkeys require user verification, so they stand in for password + TOTP
+        const token = await createSession(userId, request, 'passkey');
+        const response = NextResponse.json({ success: true });
+        setSessionCookie(response, token);
+        clearChallengeCookie(response);
+        return response;
+    } catch (error) {
+        console.error('Passkey login error:', error);
+        return NextResponse.json({ error: 'Passkey not recognised' }, { status: 401 });
+    }
+}
@@ -0,0 +1,64 @@
+// ============================================================
+// INNER SELF — Passkey Registration API (signed in)
+// GET: creation options  →  POST: browser attestation
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getUserId } from '@/lib/auth';
+import {
+    startPasskeyRegistration,
+    finishPasskeyRegistration,
+    setChallengeCookie,
+    clearChallengeCookie,
+    CHALLENGE_COOKIE,
+} from '@/lib/passkeys';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { options, challengeId } = await startPasskeyRegistration(user, request);
+        const response = NextResponse.json({ options });
+        setChallengeCookie(response, challengeId);
+        return response;
+    } catch (error) {
+        console.error('Passkey registration options error:', error);
+        return NextResponse.json({ error: 'Failed to start passkey setup' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const challengeId = request.cookies.get(CHALLENGE_COOKIE)?.value;
+        if (!challengeId) {
+            return NextResponse.json({ error: 'Passkey setup expired. Try again.' }, { status: 400 });
+        }
+
+        const { credential, device_name } = await request.json();
+        const deviceName = typeof device_name === 'string' && device_name.trim()
+            ? device_name.trim().substring(0, 100)
+            : null;
+
+        const verified = await finishPasskeyRegistration(userId, challengeId, credential, request, deviceName);
+
+        const response = verified
+            ? NextResponse.json({ success: true })
+            : NextResponse.json({ error: 'Passkey could not be verified' }, { status: 400 });
+        clearChallengeCookie(response);
+
+        if (verified) console.log(`[Auth] Passkey registered for user ${userId}`);
+        return response;
+    } catch (error) {
+        console.error('Passkey registration error:', error);
+        return NextResponse.json({ error: 'Passkey could not be verified' }, { status: 400 });
+    }
+}
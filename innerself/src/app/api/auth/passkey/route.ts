@@ -0,0 +1,46 @@
+// ============================================================
+// INNER SELF — Passkey Management API
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { listPasskeys, deletePasskey } from '@/lib/passkeys';
+
+export const dynamic = 'force-dynamic';
+
+// GET: This account's registered passkeys
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        return NextResponse.json({ passkeys: await listPasskeys(userId) });
+    } catch (error) {
+        console.error('Passkey API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a passkey (?id=...)
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const id = request.nextUrl.searchParams.get('id');
+        if (!id) {
+            return NextResponse.json({ error: 'Missing passkey id' }, { status: 400 });
+        }
+
+        const removed = await deletePasskey(userId, id);
+        if (!removed) {
+            return NextResponse.json({ error: 'Passkey not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Passkey API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,93 @@
+// ============================================================
+// INNER SELF — Account Registration API
+// Invite-only: callers must present SIGNUP_CODE. Wrong codes count
+// toward the login lockout for the caller's IP.
+// ============================================================
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import {
+    hashPassword,
+    createSession,
+    setSessionCookie,
+    getClientIp,
+    getLoginLockout,
+    recordLoginFailure,
+    secretMatches,
+} from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function POST(request: NextRequest) {
+    try {
+        const { username, password, display_name, invite_code } = await request.json();
+        const signupCode = process.env.SIGNUP_CODE;
+
+        if (!signupCode) {
+            return NextResponse.json({ error: 'Registration is closed' }, { status: 403 });
+        }
+
+        // No username exists yet, so the per-user count is kept per IP too
+        const ip = getClientIp(request);
+        const lockoutKey = `signup:${ip}`;
+        const retryAfter = await getLoginLockout(lockoutKey, ip);
+        if (retryAfter > 0) {
+            console.warn(`[Auth] Registration locked from ${ip} (${retryAfter}s left)`);
+            return NextResponse.json(
+                { error: `Too many failed attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.` },
+                { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+            );
+        }
+
+        if (!secretMatches(String(invite_code ?? ''), signupCode)) {
+            await recordLoginFailure(lockoutKey, ip);
+            return NextResponse.json({ error: 'Invalid invite code' }, { status: 401 });
+        }
+
+        const cleanUsername = String(username || '').trim().toLowerCase();
+        if (!USERNAME_PATTERN.test(cleanUsername)) {
+            return NextResponse.json(
+                { error: 'Username must be 3-32 characters: letters, numbers, _ . -' },
+                { status: 400 }
+            );
+        }
+
+        if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+            return NextResponse.json(
+                { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        const { data: user, error } = await getServiceSupabase()
+            .from('app_users')
+            .insert({
+                username: cleanUsername,
+                password_hash: hashPassword(String(password)),
+                display_name: String(display_name || '').trim() || cleanUsername,
+            })
+            .select('id')
+            .single();
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'Username already taken' }, { status: 409 });
+            }
+            throw error;
+        }
+
+        console.log(`[Auth] Registered new account: ${cleanUsername}`);
+
+        const token = await createSession(user.id, request);
+        const response = NextResponse.json({ success: true });
+        setSessionCookie(response, token);
+
+        return response;
+    } catch (error) {
+        console.error('Register API error:', error);
+        return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+}
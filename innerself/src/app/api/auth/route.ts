@@ -1,40 +1,117 @@
+// ============================================================
+// INNER SELF — Login / Logout API
+// ============================================================
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import crypto from 'crypto';
+import { getServiceSupabase } from '@/lib/supabase';
+import {
+    verifyPassword,
+    createSession,
+    validateSession,
+    revokeSession,
+    revokeAllSessions,
+    setSessionCookie,
+    clearSessionCookie,
+    getClientIp,
+    getLoginLockout,
+    recordLoginFailure,
+    clearLoginFailures,
+    consumeTotpCode,
+    secretMatches,
+    SESSION_COOKIE,
+} from '@/lib/auth';
+import { clearVaultCookie } from '@/lib/vault';
 
-function hashToken(secret: string): string {
-    return crypto.createHmac('sha256', secret).update('inner-self-auth-v1').digest('hex');
-}
+export const dynamic = 'force-dynamic';
 
+// POST: Log in with username + password (+ authenticator code when enabled)
 export async function POST(request: NextRequest) {
     try {
-        const { key } = await request.json();
+        const { username, password, totp_code } = await request.json();
+
+        if (!username || !password) {
+            return NextResponse.json({ error: 'Username and password required' }, { status: 400 });
+        }
+
+        const cleanUsername = String(username).trim().toLowerCase();
+        const ip = getClientIp(request);
+
+        const retryAfter = await getLoginLockout(cleanUsername, ip);
+        if (retryAfter > 0) {
+            console.warn(`[Auth] Login locked for ${cleanUsername} from ${ip} (${retryAfter}s left)`);
+            return NextResponse.json(
+                { error: `Too many failed attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.` },
+                { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+            );
+        }
+
+        const { data: user } = await getServiceSupabase()
+            .from('app_users')
+            .select('id, password_hash, totp_secret, totp_enabled, totp_last_step')
+            .eq('username', cleanUsername)
+            .maybeSingle();
+
+        // Accounts migrated from single-user mode have no password yet — the old ACCESS_SECRET unlocks them
         const secret = process.env.ACCESS_SECRET;
+        const valid = user && (user.password_hash
+            ? verifyPassword(String(password), user.password_hash)
+            : !!secret && secretMatches(String(password), secret));
 
-        if (!secret) {
-            return NextResponse.json({ error: 'No access secret configured' }, { status: 500 });
+        if (!user || !valid) {
+            await recordLoginFailure(cleanUsername, ip);
+            return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
         }
 
-        if (key !== secret) {
-            return NextResponse.json({ error: 'Invalid key' }, { status: 401 });
+        if (user.totp_enabled && user.totp_secret) {
+            if (!totp_code) {
+                // Password was right — ask for the second factor without counting a failure
+                return NextResponse.json({ error: 'Enter the code from your authenticator app', totp_required: true }, { status: 401 });
+            }
+            if (!(await consumeTotpCode(user.id, user.totp_secret, user.totp_last_step, String(totp_code)))) {
+                await recordLoginFailure(cleanUsername, ip);
+                return NextResponse.json({ error: 'Invalid authenticator code', totp_required: true }, { status: 401 });
+            }
         }
 
-        // Set auth cookie with HASHED token (never store raw secret in cookie)
-        const hashedToken = hashToken(secret);
-        const response = NextResponse.json({ success: true });
-        response.cookies.set('inner-self-auth', hashedToken, {
-            httpOnly: true,
-            secure: true,
-            sameSite: 'lax',
-            maxAge: 60 * 60 * 24 * 30, // 30 days
-            path: '/',
-        });
+        await clearLoginFailures(cleanUsername);
+        const token = await createSession(user.id, request);
 
+        const response = NextResponse.json({ success: true });
+        setSessionCookie(response, token);
         return response;
-    } catch {
+    } catch (error) {
+        console.error('[Auth] Login error:', error);
         return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
     }
 }
 
-// Export for use in middleware
-export { hashToken };
+// DELETE: Log out this device, or every device with ?scope=all
+export async function DELETE(request: NextRequest) {
+    try {
+        const token = request.cookies.get(SESSION_COOKIE)?.value;
+        const signOutAll = request.nextUrl.searchParams.get('scope') === 'all';
+        let revoked = 0;
+
+        if (token) {
+            if (signOutAll) {
+                const userId = await validateSession(token);
+                if (!userId) {
+                    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+                }
+                revoked = await revokeAllSessions(userId);
+                console.log(`[Auth] Signed out ${revoked} sessions for user ${userId}`);
+            } else {
+                await revokeSession(token);
+                revoked = 1;
+            }
+        }
+
+        const response = NextResponse.json({ success: true, revoked });
+        clearSessionCookie(response);
+        clearVaultCookie(response);
+        return response;
+    } catch (error) {
+        console.error('[Auth] Logout error:', error);
+        return NextResponse.json({ error: 'Logout failed' }, { status: 500 });
+    }
+}
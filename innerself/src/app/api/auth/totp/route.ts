@@ -0,0 +1,121 @@
+// ============================================================
+// INNER SELF — Two-Factor (TOTP) API
+// setup → scan the secret into an authenticator app → enable with
+// a code. Disabling also needs a current code.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { getUserId, consumeTotpCode } from '@/lib/auth';
+import { generateTotpSecret, totpUri } from '@/lib/totp';
+
+export const dynamic = 'force-dynamic';
+
+async function loadTotpState(userId: string) {
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .select('username, totp_secret, totp_enabled, totp_last_step')
+        .eq('id', userId)
+        .single();
+    if (error) throw error;
+    return data as { username: string; totp_secret: string | null; totp_enabled: boolean; totp_last_step: number | null };
+}
+
+// GET: Is two-factor on for this account?
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const state = await loadTotpState(userId);
+        return NextResponse.json({ enabled: !!state.totp_enabled });
+    } catch (error) {
+        console.error('TOTP API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST: { action: 'setup' } or { action: 'enable', code }
+export async function POST(request: NextRequest) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { action, code } = await request.json();
+        const supabase = getServiceSupabase();
+        const state = await loadTotpState(userId);
+
+        if (state.totp_enabled) {
+            return NextResponse.json({ error: 'Two-factor is already enabled' }, { status: 409 });
+        }
+
+        if (action === 'setup') {
+            // Pending secret — not enforced at login until confirmed with a code
+            const secret = generateTotpSecret();
+            const { error } = await supabase
+                .from('app_users')
+                .update({ totp_secret: secret, totp_enabled: false, totp_last_step: null, updated_at: new Date().toISOString() })
+                .eq('id', userId);
+            if (error) throw error;
+
+            return NextResponse.json({ secret, uri: totpUri(secret, state.username) });
+        }
+
+        if (action === 'enable') {
+            if (!state.totp_secret) {
+                return NextResponse.json({ error: 'Run setup first' }, { status: 400 });
+            }
+            if (!(await consumeTotpCode(userId, state.totp_secret, state.totp_last_step, String(code || '')))) {
+                return NextResponse.json({ error: 'Invalid authenticator code' }, { status: 400 });
+            }
+            const { error } = await supabase
+                .from('app_users')
+                .update({ totp_enabled: true, updated_at: new Date().toISOString() })
+                .eq('id', userId);
+            if (error) throw error;
+
+            console.log(`[Auth] Two-factor enabled for ${state.username}`);
+            return NextResponse.json({ success: true, enabled: true });
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('TOTP API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE: Turn two-factor off (requires a current code)
+export async function DELETE(request: NextRequest) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { code } = await request.json().catch(() => ({ code: '' }));
+        const state = await loadTotpState(userId);
+
+        if (!state.totp_enabled || !state.totp_secret) {
+            return NextResponse.json({ success: true, enabled: false });
+        }
+        if (!(await consumeTotpCode(userId, state.totp_secret, state.totp_last_step, String(code || '')))) {
+            return NextResponse.json({ error: 'Invalid authenticator code' }, { status: 400 });
+        }
+
+        const { error } = await getServiceSupabase()
+            .from('app_users')
+            .update({ totp_secret: null, totp_enabled: false, totp_last_step: null, updated_at: new Date().toISOString() })
+            .eq('id', userId);
+        if (error) throw error;
+
+        console.log(`[Auth] Two-factor disabled for ${state.username}`);
+        return NextResponse.json({ success: true, enabled: false });
+    } catch (error) {
+        console.error('TOTP API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
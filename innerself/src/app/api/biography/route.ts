@@ -2,7 +2,8 @@
 // INNER SELF — Biography Generation API
 // ============================================================
 import { NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getServiceSupabase, getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
 import { generateBiography } from '@/lib/ai';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -27,7 +28,11 @@ async function ensureBiographyColumns(supabase: ReturnType<typeof getServiceSupa
 
 export async function GET() {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // Fetch persona row (use maybeSingle to avoid error when no row exists)
         const { data: persona } = await supabase
@@ -71,10 +76,14 @@ export async function GET() {
 
 export async function POST() {
     try {
-        const supabase = getServiceSupabase();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(user.id);
 
-        // Try to ensure columns exist (best-effort)
-        await ensureBiographyColumns(supabase);
+        // Try to ensure columns exist (best-effort, DDL needs the service role)
+        await ensureBiographyColumns(getServiceSupabase());
 
         // Gather all data (use maybeSingle so missing persona doesn't throw)
         const [personaResult, entriesResult, peopleResult, eventsResult] = await Promise.all([
@@ -84,7 +93,7 @@ export async function POST() {
             supabase.from('life_events_timeline').select('title, description, category, significance, event_date').order('event_date', { ascending: false }),
         ]);
 
-        const biographyText = await generateBiography({
+        const biographyText = await generateBiography(user, {
             persona: personaResult.data || null,
             entries: entriesResult.data || [],
             people: peopleResult.data || [],
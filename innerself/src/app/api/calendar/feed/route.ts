@@ -0,0 +1,31 @@
+// ============================================================
+// INNER SELF — Calendar Feed (ICS)
+// GET ?token=  → text/calendar for the token's owner. Public path in
+// middleware: calendar apps authenticate with the token, not a cookie.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserProfile } from '@/lib/auth';
+import { buildCalendarFeed, resolveCalendarToken } from '@/lib/calendar';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await resolveCalendarToken(request.nextUrl.searchParams.get('token') || '');
+        const user = userId ? await getUserProfile(userId) : null;
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        return new NextResponse(await buildCalendarFeed(user), {
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': 'inline; filename="inner-self.ics"',
+                'Cache-Control': 'private, max-age=900',
+            },
+        });
+    } catch (error) {
+        console.error('Calendar feed error:', error);
+        return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 });
+    }
+}
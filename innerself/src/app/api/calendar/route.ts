@@ -0,0 +1,56 @@
+// ============================================================
+// INNER SELF — Calendar Feed Settings API
+// GET    → whether the ICS feed is on, and since when
+// POST   → create or rotate the feed token; returns the feed URL
+//          (the only time it's shown — only a hash is kept)
+// DELETE → turn the feed off (existing subscriptions stop updating)
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getCalendarFeedStatus, revokeCalendarToken, rotateCalendarToken } from '@/lib/calendar';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        return NextResponse.json(await getCalendarFeedStatus(userId));
+    } catch (error) {
+        console.error('Calendar GET error:', error);
+        return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const token = await rotateCalendarToken(userId);
+        const url = `${request.nextUrl.origin}/api/calendar/feed?token=${encodeURIComponent(token)}`;
+        return NextResponse.json({ ...(await getCalendarFeedStatus(userId)), url });
+    } catch (error) {
+        console.error('Calendar POST error:', error);
+        return NextResponse.json({ error: 'Failed to create calendar feed' }, { status: 500 });
+    }
+}
+
+export async function DELETE() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        await revokeCalendarToken(userId);
+        return NextResponse.json({ enabled: false, created_at: null });
+    } catch (error) {
+        console.error('Calendar DELETE error:', error);
+        return NextResponse.json({ error: 'Failed to turn off calendar feed' }, { status: 500 });
+    }
+}
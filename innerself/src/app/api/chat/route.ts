@@ -2,22 +2,56 @@
 // INNER SELF — Chat API Route (RAG-powered conversation)
 // FIXED: No more ghost entries in raw_entries/extracted_entities
 // Chat data goes to conversations ONLY. People + life events still updated.
+//
+// Messages belong to a thread (see lib/threads.ts). Send threadId to
+// continue one — its history is loaded here, the client's copy is
+// ignored. Without a threadId a new thread is started with `persona`
+// once the first reply is saved.
+//
+// { stream: true } returns Server-Sent Events instead of JSON:
+//   event: token  data: { text }              — a piece of the reply
+//   event: done   data: { response, persona, threadId, citations } — saved to conversations
+//   event: error  data: { error }
+// Tokens carry the raw reply, [N] citation markers included; the done
+// event's response is the cleaned text with citations pulled out.
+// The exchange is only saved once the reply is complete; a client
+// that disconnects mid-stream cancels generation and nothing is stored.
 // ============================================================
-import { NextRequest, NextResponse } from 'next/server';
-import { generateChatResponse, extractFromChatMessage } from '@/lib/ai';
-import { hybridSearch, getPersonaSummary, getEnrichedChatContext } from '@/lib/embeddings';
-import { getServiceSupabase } from '@/lib/supabase';
-import { storeLifeEvent } from '@/lib/extraction';
-import { validatePerson } from '@/lib/validators';
-import { v4 as uuidv4 } from 'uuid';
-import type { AIPersona } from '@/types';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { generateChatResponse, streamChatResponse, type ChatContext } from '@/lib/ai';
+import {
+    hybridSearch,
+    getPersonaSummary,
+    getEnrichedChatContext,
+    resolveCitations,
+    type Citation,
+    type RagSource,
+} from '@/lib/embeddings';
+import { getCurrentUser } from '@/lib/auth';
+import { getVault, vaultLockedResponse, type Vault } from '@/lib/vault';
+import { enqueueJob, jobKey, runDueJobs } from '@/lib/jobs';
+import {
+    appendExchange,
+    createThread,
+    getThread,
+    getThreadMessages,
+    ThreadNotFoundError,
+    THREAD_HISTORY_LIMIT,
+    type ChatThread,
+} from '@/lib/threads';
+import type { AIPersona, UserProfile } from '@/types';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
     try {
-        const { message, persona, conversationHistory } = await request.json();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { message, persona, threadId, stream } = await request.json();
 
         if (!message || message.trim().length === 0) {
             return NextResponse.json(
@@ -26,13 +60,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const selectedPersona: AIPersona = persona || 'friend';
+        // Vault mode stores the transcript encrypted — fail before spending an AI call
+        const vault = await getVault(user.id);
+        if (vault.enabled && !vault.unlocked) return vaultLockedResponse();
+
+        // Continuing a thread: its persona and its own stored history
+        const thread = threadId ? await getThread(user.id, threadId, vault) : null;
+        const selectedPersona: AIPersona = thread?.persona || persona || 'friend';
+        const conversationHistory = thread
+            ? (await getThreadMessages(user.id, thread.id, vault, THREAD_HISTORY_LIMIT)).map(({ role, content }) => ({ role, content }))
+            : [];
 
         // Fetch all context in parallel: RAG search, persona summary, and enriched data
-        const [ragContext, personaSummary, enrichedContext] = await Promise.all([
-            hybridSearch(message, 15).catch(() => ''),
-            getPersonaSummary().catch(() => ''),
-            getEnrichedChatContext().catch(() => ({
+        const [rag, personaSummary, enrichedContext] = await Promise.all([
+            hybridSearch(user.id, message, 15).catch(() => ({ context: '', sources: [] as RagSource[] })),
+            getPersonaSummary(user.id).catch(() => ''),
+            getEnrichedChatContext(user.id).catch(() => ({
                 recentMood: '',
                 activeGoals: '',
                 keyPeople: '',
@@ -41,47 +84,41 @@ export async function POST(request: NextRequest) {
             })),
         ]);
 
+        if (stream) {
+            return streamReply(request, user, vault, thread, message, selectedPersona, conversationHistory, rag.sources, {
+                ragContext: rag.context,
+                personaSummary,
+                enrichedContext,
+            });
+        }
+
         // Generate AI response with FULL context
         const aiResponse = await generateChatResponse(
+            user,
             message,
             selectedPersona,
-            conversationHistory || [],
-            ragContext,
+            conversationHistory,
+            rag.context,
             personaSummary,
             enrichedContext
         );
 
-        // Save conversation to database (conversations table ONLY)
-        const supabase = getServiceSupabase();
-        const userMsgId = uuidv4();
-        const assistantMsgId = uuidv4();
-
-        await supabase.from('conversations').insert([
-            {
-                id: userMsgId,
-                role: 'user',
-                content: message,
-                persona_used: selectedPersona,
-            },
-            {
-                id: assistantMsgId,
-                role: 'assistant',
-                content: aiResponse,
-                persona_used: selectedPersona,
-            },
-        ]);
-
-        // === BACKGROUND: Extract ONLY people + life events from chat ===
-        // FIXED: NO raw_entries or extracted_entities created (ghost entry bug)
-        extractAndStoreFromChat(message, selectedPersona, personaSummary, supabase).catch(err => {
-            console.error('[Chat] Background extraction error:', err);
-        });
+        const { text, citations } = resolveCitations(aiResponse, rag.sources);
+        const saved = await saveExchange(user, vault, thread, message, text, citations, selectedPersona);
+        if (saved.queuedJobs) {
+            after(() => runDueJobs(user, { vault }).catch(err => console.error('[Chat] Job drain failed:', err)));
+        }
 
         return NextResponse.json({
-            response: aiResponse,
+            response: text,
             persona: selectedPersona,
+            threadId: saved.threadId,
+            citations,
         });
     } catch (error) {
+        if (error instanceof ThreadNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
         console.error('Chat API error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -90,66 +127,113 @@ export async function POST(request: NextRequest) {
     }
 }
 
-// ---- Background: Extract people + life events from chat (NO raw_entries/extracted_entities) ----
-async function extractAndStoreFromChat(
+/**
+ * Save both sides of the exchange (conversations table ONLY), starting
+ * the thread if this is its first message, and queue the follow-up
+ * work: a title for new threads, people/life-event extraction. Cited
+ * entries go in the reply's context_entry_ids.
+ */
+async function saveExchange(
+    user: UserProfile,
+    vault: Vault,
+    existingThread: ChatThread | null,
     message: string,
-    persona: AIPersona,
-    personaSummary: string,
-    supabase: ReturnType<typeof getServiceSupabase>
-) {
-    // Skip very short or trivial messages
-    if (message.trim().length < 15) return;
-
-    const extraction = await extractFromChatMessage(message, persona, personaSummary);
-
-    if (!extraction.should_extract) return;
-
-    console.log(`[Chat] Extracting from chat (NO ghost entries): ${extraction.people_mentioned.length} people, ${extraction.life_event_detected ? '1 event' : '0 events'}`);
-
-    const now = new Date().toISOString();
-
-    // 1. Update people map (this is valid — chat reveals relationships)
-    for (const person of extraction.people_mentioned) {
-        const validated = validatePerson(person);
-        if (!validated) continue;
-
-        const { data: existing } = await supabase
-            .from('people_map')
-            .select('id, mention_count')
-            .ilike('name', validated.name)
-            .maybeSingle();
-
-        if (existing) {
-            await supabase.from('people_map').update({
-                mention_count: (existing.mention_count || 0) + 1,
-                last_mentioned: now,
-            }).eq('id', existing.id);
-        } else {
-            await supabase.from('people_map').insert({
-                id: uuidv4(),
-                name: validated.name,
-                relationship: validated.relationship,
-                first_mentioned: now,
-                last_mentioned: now,
-                mention_count: 1,
-                sentiment_avg: validated.sentiment_avg,
-                tags: validated.tags,
-            });
-        }
+    aiResponse: string,
+    citations: Citation[],
+    persona: AIPersona
+): Promise<{ threadId: string; queuedJobs: boolean }> {
+    const thread = existingThread ?? await createThread(user.id, persona);
+    const userMsgId = await appendExchange(user.id, vault, thread, message, aiResponse, citations.map(c => c.entry_id));
+    let queuedJobs = false;
+
+    if (!thread.title) {
+        await enqueueJob(user.id, 'thread_title', { threadId: thread.id }, jobKey('thread_title', thread.id));
+        queuedJobs = true;
     }
 
-    // 2. Store life event if detected — uses centralized storeLifeEvent with full validation
-    if (extraction.life_event_detected) {
-        await storeLifeEvent(extraction.life_event_detected, 'chat');
+    // === BACKGROUND: Extract ONLY people + life events from chat ===
+    // FIXED: NO raw_entries or extracted_entities created (ghost entry bug)
+    // Queued as a job so it survives the function freezing after the response
+    if (message.trim().length >= 15) {
+        await enqueueJob(user.id, 'chat_extraction', { conversationId: userMsgId, persona });
+        queuedJobs = true;
     }
 
-    // 3. Store insights (to insights table only, not raw_entries)
-    for (const insight of extraction.insights) {
-        await supabase.from('insights').insert({
-            id: uuidv4(),
-            created_at: now,
-            insight_text: insight,
-            type: 'chat_observation',
-        });
-    }
+    return { threadId: thread.id, queuedJobs };
+}
+
+// ---- Streaming ----
+function sseEvent(event: string, data: unknown): Uint8Array {
+    return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function streamReply(
+    request: NextRequest,
+    user: UserProfile,
+    vault: Vault,
+    thread: ChatThread | null,
+    message: string,
+    persona: AIPersona,
+    conversationHistory: { role: 'user' | 'assistant'; content: string }[],
+    sources: RagSource[],
+    context: ChatContext
+): NextResponse {
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+
+    // after() has to be registered now; it waits for the stream to settle
+    let settle: (queuedJob: boolean) => void = () => { };
+    const settled = new Promise<boolean>(resolve => { settle = resolve; });
+    after(async () => {
+        if (await settled) await runDueJobs(user, { vault }).catch(err => console.error('[Chat] Job drain failed:', err));
+    });
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: string, data: unknown) => {
+                if (!abort.signal.aborted) controller.enqueue(sseEvent(event, data));
+            };
+
+            let reply = '';
+            let queuedJob = false;
+            try {
+                for await (const chunk of streamChatResponse(user, message, persona, conversationHistory, context, abort.signal)) {
+                    reply += chunk;
+                    send('token', { text: chunk });
+                }
+                if (abort.signal.aborted) throw new Error('Cancelled');
+                if (!reply.trim()) throw new Error('Empty reply from model');
+
+                const { text, citations } = resolveCitations(reply, sources);
+                const saved = await saveExchange(user, vault, thread, message, text, citations, persona);
+                queuedJob = saved.queuedJobs;
+                send('done', { response: text, persona, threadId: saved.threadId, citations });
+            } catch (error) {
+                if (abort.signal.aborted) {
+                    console.log(`[Chat] Stream cancelled after ${reply.length} chars — not saved`);
+                } else {
+                    console.error('Chat stream error:', error);
+                    send('error', { error: 'Internal server error' });
+                }
+            } finally {
+                settle(queuedJob);
+                try {
+                    controller.close();
+                } catch {
+                    // Already cancelled by the client
+                }
+            }
+        },
+        cancel() {
+            abort.abort();
+        },
+    });
+
+    return new NextResponse(body, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Accel-Buffering': 'no',
+        },
+    });
 }
@@ -0,0 +1,106 @@
+// ============================================================
+// INNER SELF — Chat Threads API
+// GET    → recent threads (?archived=true for the archive)
+// GET    ?id=<thread>  → one thread with all its messages (resume)
+// PATCH  { id, title?, archived? } → rename / archive / unarchive
+// DELETE ?id=<thread>  → delete the thread and its messages
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getVault, vaultLockedResponse, VaultLockedError } from '@/lib/vault';
+import {
+    deleteThread,
+    getThread,
+    getThreadMessages,
+    attachCitations,
+    listThreads,
+    updateThread,
+    ThreadNotFoundError,
+} from '@/lib/threads';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const vault = await getVault(userId);
+        const threadId = request.nextUrl.searchParams.get('id');
+
+        if (threadId) {
+            const [thread, messages] = await Promise.all([
+                getThread(userId, threadId, vault),
+                getThreadMessages(userId, threadId, vault).then(messages => attachCitations(userId, messages)),
+            ]);
+            return NextResponse.json({ thread, messages, vault_locked: vault.enabled && !vault.unlocked });
+        }
+
+        const archived = request.nextUrl.searchParams.get('archived') === 'true';
+        const threads = await listThreads(userId, vault, { archived });
+        return NextResponse.json({ threads, vault_locked: vault.enabled && !vault.unlocked });
+    } catch (error) {
+        if (error instanceof ThreadNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('Threads API error:', error);
+        return NextResponse.json({ error: 'Failed to load threads' }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, title, archived } = await request.json();
+        if (!id) {
+            return NextResponse.json({ error: 'Missing thread id' }, { status: 400 });
+        }
+        if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+            return NextResponse.json({ error: 'Title cannot be empty' }, { status: 400 });
+        }
+
+        const vault = await getVault(userId);
+        const thread = await updateThread(userId, id, vault, {
+            title,
+            archived: archived === undefined ? undefined : !!archived,
+        });
+        return NextResponse.json({ thread });
+    } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
+        if (error instanceof ThreadNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('Threads API error:', error);
+        return NextResponse.json({ error: 'Failed to update thread' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const threadId = request.nextUrl.searchParams.get('id');
+        if (!threadId) {
+            return NextResponse.json({ error: 'Missing thread id' }, { status: 400 });
+        }
+
+        await deleteThread(userId, threadId);
+        console.log(`[Chat] Deleted thread ${threadId} for user ${userId}`);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof ThreadNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error('Threads API error:', error);
+        return NextResponse.json({ error: 'Failed to delete thread' }, { status: 500 });
+    }
+}
@@ -1,12 +1,17 @@
 // ============================================================
 // INNER SELF — Daily Insights Cron
-// Analyzes last 24h of entries to find patterns/warnings/celebrations
+// Analyzes last 24h of entries to find patterns/warnings/celebrations.
+// Inbox feedback steers it: rejected insights are shown to the model
+// and near-repeats of them are dropped (see lib/insights.ts).
 // ============================================================
-import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { NextRequest } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
 import { generateDailyInsights } from '@/lib/ai';
 import { getPersonaSummary } from '@/lib/embeddings';
-import { verifyCronAuth, startCronRun, completeCronRun } from '@/lib/cron-helpers';
+import { verifyCronAuth, runCronForUsers, type UserCronResult } from '@/lib/cron-helpers';
+import { deliverInsight } from '@/lib/push';
+import { describeInsightFeedback, getInsightFeedback, resemblesRejected } from '@/lib/insights';
+import type { UserProfile } from '@/types';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -14,91 +19,94 @@ export const maxDuration = 60;
 export async function GET(request: NextRequest) {
     const authError = verifyCronAuth(request);
     if (authError) return authError;
-    
-    const runId = await startCronRun('daily_insights');
-    
-    try {
-        console.log('[Cron] Starting daily insights generation...');
-        const supabase = getServiceSupabase();
-
-        // 1. Get entries from last 24 hours
-        const oneDayAgo = new Date();
-        oneDayAgo.setDate(oneDayAgo.getDate() - 1);
-
-        const { data: entries, error } = await supabase
-            .from('extracted_entities')
-            .select('title, content, mood_score, category, created_at')
-            .gte('created_at', oneDayAgo.toISOString())
-            .order('created_at', { ascending: true });
-
-        if (error) throw error;
-
-        if (!entries || entries.length === 0) {
-            console.log('[Cron] No entries in last 24h. Skipping insights.');
-            await completeCronRun(runId, 'completed', { message: 'No entries to analyze' });
-            return NextResponse.json({ message: 'No entries to analyze' });
-        }
 
-        // 2. Prepare context for AI
-        const entriesText = entries.map(e =>
-            `[${e.created_at}] [${e.category}] ${e.title}: ${e.content} (Mood: ${e.mood_score}/10)`
-        ).join('\n');
+    console.log('[Cron] Starting daily insights generation...');
+    return runCronForUsers('daily_insights', generateInsightsForUser);
+}
+
+async function generateInsightsForUser(user: UserProfile): Promise<UserCronResult> {
+    const supabase = getUserSupabase(user.id);
+
+    // 1. Get entries from last 24 hours
+    const oneDayAgo = new Date();
+    oneDayAgo.setDate(oneDayAgo.getDate() - 1);
+
+    const { data: entries, error } = await supabase
+        .from('extracted_entities')
+        .select('title, content, mood_score, category, created_at')
+        .gte('created_at', oneDayAgo.toISOString())
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    if (!entries || entries.length === 0) {
+        console.log('[Cron] No entries in last 24h. Skipping insights.');
+        return { summary: { message: 'No entries to analyze' } };
+    }
+
+    // 2. Prepare context for AI
+    const entriesText = entries.map(e =>
+        `[${e.created_at}] [${e.category}] ${e.title}: ${e.content} (Mood: ${e.mood_score}/10)`
+    ).join('\n');
 
-        const personaSummary = await getPersonaSummary();
+    const [personaSummary, feedback] = await Promise.all([
+        getPersonaSummary(user.id),
+        getInsightFeedback(user.id),
+    ]);
 
-        // 3. Generate insights
-        console.log(`[Cron] Analyzing ${entries.length} entries...`);
-        const result = await generateDailyInsights(entriesText, personaSummary);
+    // 3. Generate insights
+    console.log(`[Cron] Analyzing ${entries.length} entries (${feedback.rejected.length} rejected, ${feedback.helpful.length} helpful insights as feedback)...`);
+    const result = await generateDailyInsights(user, entriesText, personaSummary, describeInsightFeedback(feedback));
 
-        if (!result.insights || result.insights.length === 0) {
-            console.log('[Cron] AI found no significant insights.');
-            await completeCronRun(runId, 'completed', { message: 'No insights generated', entries_analyzed: entries.length });
-            return NextResponse.json({ message: 'No insights generated', count: 0 });
+    if (!result.insights || result.insights.length === 0) {
+        console.log('[Cron] AI found no significant insights.');
+        return { summary: { message: 'No insights generated', entries_analyzed: entries.length } };
+    }
+
+    // 4. Store insights
+    let storedCount = 0;
+    let rejectedCount = 0;
+    for (const insight of result.insights) {
+        if (resemblesRejected(insight.text, feedback.rejected)) {
+            console.log(`[Cron] Dropping an insight close to one marked not helpful: "${insight.text.substring(0, 60)}"`);
+            rejectedCount++;
+            continue;
         }
 
-        // 4. Store insights
-        let storedCount = 0;
-        for (const insight of result.insights) {
-            // Check for duplicates (same text today)
-            const { data: existing } = await supabase
-                .from('insights')
-                .select('id')
-                .eq('insight_text', insight.text)
-                .gte('created_at', new Date().setHours(0, 0, 0, 0) as unknown as string)
-                .limit(1);
+        // Check for duplicates (same text today)
+        const { data: existing } = await supabase
+            .from('insights')
+            .select('id')
+            .eq('insight_text', insight.text)
+            .gte('created_at', new Date().setHours(0, 0, 0, 0) as unknown as string)
+            .limit(1);
 
-            if (!existing || existing.length === 0) {
-                await supabase.from('insights').insert({
+        if (!existing || existing.length === 0) {
+            const { data: stored } = await supabase
+                .from('insights')
+                .insert({
                     insight_text: insight.text,
                     type: insight.type,
                     confidence: insight.confidence,
                     status: 'new',
                     related_entry_ids: [] // We could link, but strictly these are aggregate
-                });
-                storedCount++;
-            }
+                })
+                .select('id, insight_text, type')
+                .single();
+            if (stored) await deliverInsight(user, stored);
+            storedCount++;
         }
+    }
 
-        console.log(`[Cron] Generated and stored ${storedCount} insights.`);
+    console.log(`[Cron] Generated and stored ${storedCount} insights.`);
 
-        await completeCronRun(runId, 'completed', {
-            analyzed_entries: entries.length,
-            generated_insights: result.insights.length,
-            stored_insights: storedCount
-        }, undefined, entries.length);
-        return NextResponse.json({
-            success: true,
+    return {
+        summary: {
             analyzed_entries: entries.length,
             generated_insights: result.insights.length,
-            stored_insights: storedCount
-        });
-
-    } catch (error) {
-        console.error('[Cron] Daily insights failed:', error);
-        await completeCronRun(runId, 'failed', {}, error instanceof Error ? error.message : 'Unknown');
-        return NextResponse.json(
-            { error: error instanceof Error ? error.message : 'Internal server error' },
-            { status: 500 }
-        );
-    }
+            stored_insights: storedCount,
+            dropped_as_rejected: rejectedCount,
+        },
+        entriesProcessed: entries.length,
+    };
 }
@@ -0,0 +1,45 @@
+// ============================================================
+// INNER SELF — Job Queue Cron
+// Sweeps for stalled work and drains every user's due jobs, so
+// retries happen even when nobody has the app open. Jobs that need
+// an encrypted journal's key wait for the user's next session.
+// Also sends pushes held back by quiet hours once they end, and
+// time-locks letters written before letters were time-locked.
+// ============================================================
+import { NextRequest } from 'next/server';
+import { verifyCronAuth, runCronForUsers, type UserCronResult } from '@/lib/cron-helpers';
+import { runDueJobs, sweepStalledWork } from '@/lib/jobs';
+import { deliverDeferredInsights } from '@/lib/push';
+import { timeLockPendingLetters } from '@/lib/timelock';
+import type { UserProfile } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Shared across all users within one 60s invocation
+const PER_USER_TIME_BUDGET_MS = 15_000;
+
+export async function GET(request: NextRequest) {
+    const authError = verifyCronAuth(request);
+    if (authError) return authError;
+
+    console.log('[Cron] Starting job queue drain...');
+    return runCronForUsers('jobs', drainJobsForUser);
+}
+
+async function drainJobsForUser(user: UserProfile): Promise<UserCronResult> {
+    const sweep = await sweepStalledWork(user.id);
+    const stats = await runDueJobs(user, { timeBudgetMs: PER_USER_TIME_BUDGET_MS });
+    const deferred = await deliverDeferredInsights(user);
+    const lettersTimeLocked = await timeLockPendingLetters(user.id);
+    return {
+        summary: {
+            ...sweep,
+            ...stats,
+            deferred_pushes_sent: deferred.sent,
+            deferred_pushes_expired: deferred.expired,
+            letters_time_locked: lettersTimeLocked,
+        },
+        entriesProcessed: stats.succeeded,
+    };
+}
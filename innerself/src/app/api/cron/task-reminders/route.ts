@@ -0,0 +1,143 @@
+// ============================================================
+// INNER SELF — Task Reminders Cron
+// Reminds about pending tasks shortly before they're due, in each
+// user's own timezone (due_date/due_time are local). A task with no
+// time is due at 9 AM. Tasks that are already well overdue when first
+// seen (backfilled, or added with a past date) don't get one reminder
+// each — they're rolled into a once-a-day overdue digest instead,
+// marked with the local day in insights.digest_date.
+// Reminders are insights, pushed like any other (see lib/push.ts).
+// Runs every 15 minutes.
+// ============================================================
+import { NextRequest } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
+import { verifyCronAuth, runCronForUsers, type UserCronResult } from '@/lib/cron-helpers';
+import { DEFAULT_TIMEZONE, localToday, zonedTimeToUtc } from '@/lib/due-dates';
+import { deliverInsight } from '@/lib/push';
+import type { Task, UserProfile } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+const DEFAULT_DUE_TIME = '09:00';
+const LEAD_MS = 15 * 60 * 1000; // remind this long before the due time
+const OVERDUE_MS = 24 * 60 * 60 * 1000; // older than this → digest only
+const DIGEST_TIME = '09:00';
+
+export async function GET(request: NextRequest) {
+    const authError = verifyCronAuth(request);
+    if (authError) return authError;
+
+    console.log('[Cron] Starting Task Reminders...');
+    return runCronForUsers('task_reminders', remindUser);
+}
+
+function describeDue(task: Task, dueAt: Date, now: Date, timeZone: string): string {
+    const time = task.due_time ? task.due_time.slice(0, 5) : null;
+    if (dueAt.getTime() > now.getTime()) return time ? `at ${time}` : 'today';
+    if (task.due_date === localToday(timeZone, now)) return time ? `since ${time}` : 'today';
+    return 'since yesterday';
+}
+
+async function remindUser(user: UserProfile): Promise<UserCronResult> {
+    const supabase = getUserSupabase(user.id);
+    const timeZone = user.timezone || DEFAULT_TIMEZONE;
+    const now = new Date();
+    const today = localToday(timeZone, now);
+
+    // 1. Pending tasks due by the end of the lead window that haven't been reminded
+    const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('status', 'pending')
+        .is('parent_id', null)
+        .is('reminded_at', null)
+        .not('due_date', 'is', null)
+        .lte('due_date', localToday(timeZone, new Date(now.getTime() + LEAD_MS)));
+    if (error) throw error;
+
+    let reminded = 0;
+    let rolledIntoDigest = 0;
+    for (const task of (data || []) as Task[]) {
+        // Snoozed tasks wait; they're picked up once the snooze ends
+        if (task.snoozed_until && new Date(task.snoozed_until).getTime() > now.getTime()) continue;
+
+        const dueAt = zonedTimeToUtc(task.due_date as string, task.due_time ? task.due_time.slice(0, 5) : DEFAULT_DUE_TIME, timeZone);
+        if (dueAt.getTime() - LEAD_MS > now.getTime()) continue;
+
+        if (now.getTime() - dueAt.getTime() <= OVERDUE_MS) {
+            const { data: stored, error: insertError } = await supabase
+                .from('insights')
+                .insert({
+                    insight_text: `⏰ Due ${describeDue(task, dueAt, now, timeZone)}: ${task.title}`,
+                    type: 'reminder',
+                    confidence: 1.0,
+                    status: 'new',
+                    source_entry_id: task.source_entry_id,
+                })
+                .select('id, insight_text, type')
+                .single();
+            if (insertError) {
+                console.error(`[Cron] Reminder for task ${task.id} failed:`, insertError.message);
+                continue;
+            }
+            await deliverInsight(user, stored);
+            reminded++;
+        } else {
+            rolledIntoDigest++;
+        }
+
+        await supabase.from('tasks').update({ reminded_at: now.toISOString() }).eq('id', task.id);
+    }
+
+    // 2. Once a day, after the digest time: everything still overdue
+    let digestSent = false;
+    if (now.getTime() >= zonedTimeToUtc(today, DIGEST_TIME, timeZone).getTime()) {
+        const { data: existingDigest } = await supabase
+            .from('insights')
+            .select('id')
+            .eq('digest_date', today)
+            .limit(1);
+
+        if (!existingDigest || existingDigest.length === 0) {
+            const { data: overdue } = await supabase
+                .from('tasks')
+                .select('title, due_date, snoozed_until')
+                .eq('status', 'pending')
+                .is('parent_id', null)
+                .lt('due_date', today)
+                .order('due_date', { ascending: true })
+                .limit(50);
+            const titles = (overdue || [])
+                .filter(task => !task.snoozed_until || new Date(task.snoozed_until).getTime() <= now.getTime())
+                .map(task => task.title);
+
+            if (titles.length > 0) {
+                const listed = titles.slice(0, 5).join(', ');
+                const more = titles.length > 5 ? ` and ${titles.length - 5} more` : '';
+                // digest_date is unique per user, so an overlapping run can't send a second one
+                const { data: stored } = await supabase
+                    .from('insights')
+                    .insert({
+                        insight_text: `📋 ${titles.length} overdue task${titles.length === 1 ? '' : 's'}: ${listed}${more}. Do one, reschedule, or let it go.`,
+                        type: 'reminder',
+                        confidence: 1.0,
+                        status: 'new',
+                        digest_date: today,
+                    })
+                    .select('id, insight_text, type')
+                    .single();
+                if (stored) {
+                    await deliverInsight(user, stored);
+                    digestSent = true;
+                }
+            }
+        }
+    }
+
+    console.log(`[Cron] Task reminders (${timeZone}): ${reminded} sent, ${rolledIntoDigest} rolled into the digest${digestSent ? ', digest sent' : ''}.`);
+    return {
+        summary: { timezone: timeZone, reminded, rolled_into_digest: rolledIntoDigest, digest_sent: digestSent },
+        entriesProcessed: reminded,
+    };
+}
@@ -0,0 +1,52 @@
+// ============================================================
+// INNER SELF — Embeddings (search index) API
+// GET  → active model, how many rows it made, and any rebuild in progress
+// POST → start rebuilding rows made by another model (reembed jobs);
+//        drain with /api/jobs/run or leave it to the jobs cron
+// ============================================================
+import { NextResponse, after } from 'next/server';
+import { getCurrentUser, getUserId } from '@/lib/auth';
+import { getEmbeddingStatus } from '@/lib/embeddings';
+import { getActiveReembedJob, runDueJobs, startReembed } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const [status, job] = await Promise.all([getEmbeddingStatus(userId), getActiveReembedJob(userId)]);
+        return NextResponse.json({ ...status, job });
+    } catch (error) {
+        console.error('Embeddings GET error:', error);
+        return NextResponse.json({ error: 'Failed to load search index status' }, { status: 500 });
+    }
+}
+
+export async function POST() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const status = await getEmbeddingStatus(user.id);
+        if (status.current === status.total) {
+            return NextResponse.json({ ...status, job: null });
+        }
+
+        const job = await startReembed(user.id);
+        if (!job) throw new Error('Failed to queue rebuild');
+        console.log(`[Embeddings] Rebuild to ${status.model} queued for user ${user.id}: ${status.total - status.current} rows`);
+
+        after(() => runDueJobs(user).catch(err => console.error('[Embeddings] Job drain failed:', err)));
+        return NextResponse.json({ ...status, job });
+    } catch (error) {
+        console.error('Embeddings POST error:', error);
+        return NextResponse.json({ error: 'Failed to start rebuild' }, { status: 500 });
+    }
+}
@@ -3,7 +3,8 @@
 // Cascading delete for logs
 // ============================================================
 import { NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
 
 export async function DELETE(request: Request) {
     try {
@@ -12,7 +13,11 @@ export async function DELETE(request: Request) {
 
         if (!id) return NextResponse.json({ error: 'ID required' }, { status: 400 });
 
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // 1. Get entry details to clean up dependencies manually if needed
         // (Supabase cascading FKs usually handle tables like extracted_entities/embeddings if set up,
@@ -1,8 +1,11 @@
 // ============================================================
-// INNER SELF — Entries API Route (Log, Tasks, Life Events)
+// INNER SELF — Entries API Route (Log, Life Events, People)
+// Tasks have their own table and route (/api/tasks).
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
+import { getVault, VaultLockedError, vaultLockedResponse } from '@/lib/vault';
 import { processEntry } from '@/lib/extraction';
 
 export const dynamic = 'force-dynamic';
@@ -10,41 +13,16 @@ export const dynamic = 'force-dynamic';
 // GET: Fetch entries with optional filters
 export async function GET(request: NextRequest) {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { searchParams } = new URL(request.url);
-        const type = searchParams.get('type') || 'all'; // all, tasks, life
+        const type = searchParams.get('type') || 'all'; // all, life, people, system_activity
         const limit = parseInt(searchParams.get('limit') || '50');
         const offset = parseInt(searchParams.get('offset') || '0');
-
-        if (type === 'tasks') {
-            // Fetch tasks only
-            const { data, error } = await supabase
-                .from('extracted_entities')
-                .select(`
-          id, entry_id, title, content, task_status, task_due_date,
-          mood_score, category, created_at,
-          raw_entries!inner(created_at)
-        `)
-                .eq('is_task', true)
-                .order('created_at', { ascending: false })
-                .range(offset, offset + limit - 1);
-
-            if (error) throw error;
-
-            // Compute staleness
-            const now = new Date();
-            const enhancedTasks = (data || []).map((task: any) => {
-                const created = new Date(task.created_at);
-                const ageDays = Math.floor((now.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
-                return {
-                    ...task,
-                    age_days: ageDays,
-                    is_stale: task.task_status === 'pending' && ageDays > 14
-                };
-            });
-
-            return NextResponse.json({ entries: enhancedTasks });
-        }
+        const entryId = searchParams.get('id'); // a single entry (e.g. a chat citation)
 
         if (type === 'life') {
             // Fetch life events
@@ -70,6 +48,8 @@ export async function GET(request: NextRequest) {
         }
 
         if (type === 'system_activity') {
+            const vault = await getVault(userId);
+
             // Fetch raw inputs (Voice/Text)
             const { data: inputs, error: inputsError } = await supabase
                 .from('raw_entries')
@@ -94,7 +74,7 @@ export async function GET(request: NextRequest) {
                     id: i.id,
                     type: 'input',
                     allow_html: false,
-                    content: i.raw_text,
+                    content: vault.open(i.raw_text),
                     source: i.source, // 'text' | 'voice'
                     created_at: i.created_at,
                     role: 'user'
@@ -103,7 +83,7 @@ export async function GET(request: NextRequest) {
                     id: c.id,
                     type: 'chat',
                     allow_html: false,
-                    content: c.content,
+                    content: vault.open(c.content),
                     source: 'chat',
                     created_at: c.created_at,
                     role: c.role, // 'user' | 'assistant'
@@ -116,7 +96,7 @@ export async function GET(request: NextRequest) {
 
         // Fetch all entries with extracted entities
         // Includes extended psychological fields for the new LogView
-        const { data, error } = await supabase
+        let query = supabase
             .from('raw_entries')
             .select(`
         id, created_at, raw_text, source, audio_url, audio_duration_sec,
@@ -127,18 +107,24 @@ export async function GET(request: NextRequest) {
           is_task, task_status, people_mentioned, beliefs_revealed,
           core_need, triggers, defense_mechanism, self_talk_tone,
           cognitive_pattern, avoidance_signal, growth_edge, body_signals,
-          follow_up_question
+          follow_up_question, occurred_at
         ),
         health_metrics(
           id, metric_name, value, unit, status
         )
       `)
-            .is('deleted_at', null)
+            .is('deleted_at', null);
+        if (entryId) query = query.eq('id', entryId);
+
+        const { data, error } = await query
             .order('created_at', { ascending: false })
             .range(offset, offset + limit - 1);
 
         if (error) throw error;
-        return NextResponse.json({ entries: data || [] });
+
+        const vault = await getVault(userId);
+        const entries = (data || []).map(entry => ({ ...entry, raw_text: vault.open(entry.raw_text) }));
+        return NextResponse.json({ entries, vault_locked: vault.enabled && !vault.unlocked });
     } catch (error) {
         console.error('Entries API error:', error);
         return NextResponse.json(
@@ -148,22 +134,16 @@ export async function GET(request: NextRequest) {
     }
 }
 
-// PATCH: Update task status or entry content
+// PATCH: Update entry content, a person or a life event
 export async function PATCH(request: NextRequest) {
     try {
         const body = await request.json();
-        const { id, task_status, raw_text, title, content } = body;
-        const supabase = getServiceSupabase();
-
-        if (task_status !== undefined) {
-            // Update task status
-            const { error } = await supabase
-                .from('extracted_entities')
-                .update({ task_status })
-                .eq('id', id);
-            if (error) throw error;
-            return NextResponse.json({ success: true });
+        const { id, raw_text, title, content } = body;
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        const supabase = getUserSupabase(user.id);
 
         // People Map: Edit person
         if (body.personId) {
@@ -207,13 +187,14 @@ export async function PATCH(request: NextRequest) {
             if (shouldReprocess) {
                 // Full Re-Process: AI extraction, People Map, Beliefs, etc.
                 console.log(`[Entries API] Reprocessing entry ${id}...`);
-                await processEntry(raw_text, 'text', { existingEntryId: id });
+                await processEntry(user, raw_text, 'text', { existingEntryId: id });
                 return NextResponse.json({ success: true, reprocessed: true });
             } else {
                 // Simple Text Update (No AI)
+                const vault = await getVault(user.id);
                 const { error: rawErr } = await supabase
                     .from('raw_entries')
-                    .update({ raw_text })
+                    .update({ raw_text: vault.seal(raw_text), text_hmac: vault.fingerprint(raw_text) })
                     .eq('id', id);
                 if (rawErr) throw rawErr;
 
@@ -235,6 +216,7 @@ export async function PATCH(request: NextRequest) {
 
         return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
         console.error('Update entry error:', error);
         return NextResponse.json(
             { error: 'Failed to update entry' },
@@ -247,7 +229,11 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
     try {
         const body = await request.json();
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // Delete person from people_map
         if (body.personId) {
@@ -0,0 +1,39 @@
+// ============================================================
+// INNER SELF — Export API
+// Downloads the whole account as a portable zip (see lib/archive.ts).
+// ============================================================
+import { NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getVault, vaultLockedResponse } from '@/lib/vault';
+import { buildArchive } from '@/lib/archive';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // The archive holds readable text, so an encrypted journal must be unlocked first
+        const vault = await getVault(userId);
+        if (vault.enabled && !vault.unlocked) return vaultLockedResponse();
+
+        const { zip, manifest } = await buildArchive(userId, vault);
+        const fileName = `inner-self-${manifest.exported_at.substring(0, 10)}.zip`;
+        console.log(`[Archive] Exported ${manifest.tables.raw_entries} entries for user ${userId}`);
+
+        return new NextResponse(new Uint8Array(zip), {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Export error:', error);
+        return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+    }
+}
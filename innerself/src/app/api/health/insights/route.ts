@@ -3,7 +3,8 @@
 // Generates AI-powered health comparison & recommendations
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
 import { generateHealthInsights } from '@/lib/ai';
 
 export const dynamic = 'force-dynamic';
@@ -11,6 +12,11 @@ export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
     try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const body = await request.json().catch(() => ({}));
         const { grouped_metrics, flaggedCount, normalCount, totalCount } = body;
 
@@ -20,7 +26,7 @@ export async function POST(request: NextRequest) {
 
         console.log(`[HealthInsights] Generating insights for ${totalCount} metrics...`);
 
-        const result = await generateHealthInsights({
+        const result = await generateHealthInsights(user, {
             grouped: grouped_metrics,
             flaggedCount: flaggedCount || 0,
             normalCount: normalCount || 0,
@@ -36,7 +42,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Store the insights in DB for caching
-        const supabase = getServiceSupabase();
+        const supabase = getUserSupabase(user.id);
         const { error: storeError } = await supabase
             .from('insights')
             .insert({
@@ -63,7 +69,11 @@ export async function POST(request: NextRequest) {
 // GET: Fetch last cached health insight
 export async function GET() {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { data, error } = await supabase
             .from('insights')
             .select('*')
@@ -4,13 +4,18 @@
 // BUG 4: Dedup + filter  |  BUG 6: DELETE handler
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { searchParams } = new URL(request.url);
 
         // BUG 4(b): Optional source filter — ?source=doc or ?source=entry
@@ -89,7 +94,11 @@ export async function GET(request: NextRequest) {
 // BUG 6: DELETE handler — supports ?id=X (single metric) or ?doc_id=X (all from doc) or ?all=true
 export async function DELETE(request: NextRequest) {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { searchParams } = new URL(request.url);
         const id = searchParams.get('id');
         const docId = searchParams.get('doc_id');
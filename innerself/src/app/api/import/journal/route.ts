@@ -0,0 +1,89 @@
+// ============================================================
+// INNER SELF — Journal Import API
+// POST: upload an export from another app and queue its entries.
+// GET:  progress for ?id=, or the user's recent imports.
+// Entries are processed by /api/import/journal/run.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { VaultLockedError, vaultLockedResponse } from '@/lib/vault';
+import { parseImport, IMPORT_FORMATS, ImportParseError, type ImportFormat, type ImportFile } from '@/lib/importers';
+import { queueImport, getImportProgress } from '@/lib/journal-import';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const format = formData.get('format') as ImportFormat | null;
+        const tzOffset = parseInt(String(formData.get('tz_offset') ?? '0'), 10) || 0;
+        const uploads = formData.getAll('files').filter((f): f is File => f instanceof File);
+
+        if (!format || !IMPORT_FORMATS.includes(format)) {
+            return NextResponse.json({ error: `format must be one of: ${IMPORT_FORMATS.join(', ')}` }, { status: 400 });
+        }
+        if (uploads.length === 0) {
+            return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+        }
+
+        const files: ImportFile[] = await Promise.all(uploads.map(async f => ({
+            name: f.name,
+            data: await f.arrayBuffer(),
+            lastModified: f.lastModified,
+        })));
+
+        const entries = await parseImport(format, files, tzOffset);
+        const importId = await queueImport(userId, format, entries);
+
+        return NextResponse.json({
+            success: true,
+            import: await getImportProgress(userId, importId),
+            range: { from: entries[0].occurredAt, to: entries[entries.length - 1].occurredAt },
+        });
+    } catch (error) {
+        if (error instanceof ImportParseError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
+        console.error('Journal import error:', error);
+        return NextResponse.json({ error: 'Failed to import journal' }, { status: 500 });
+    }
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const importId = request.nextUrl.searchParams.get('id');
+        if (importId) {
+            const progress = await getImportProgress(userId, importId);
+            if (!progress) {
+                return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+            }
+            return NextResponse.json({ import: progress });
+        }
+
+        const { data: recent, error } = await getUserSupabase(userId)
+            .from('journal_imports')
+            .select('id')
+            .order('created_at', { ascending: false })
+            .limit(5);
+        if (error) throw error;
+
+        const imports = await Promise.all((recent || []).map(row => getImportProgress(userId, row.id)));
+        return NextResponse.json({ imports: imports.filter(Boolean) });
+    } catch (error) {
+        console.error('Journal import GET error:', error);
+        return NextResponse.json({ error: 'Failed to load imports' }, { status: 500 });
+    }
+}
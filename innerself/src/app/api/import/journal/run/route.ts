@@ -0,0 +1,37 @@
+// ============================================================
+// INNER SELF — Journal Import Runner
+// Processes the next few queued entries of an import and returns
+// progress. The client calls this repeatedly until it completes.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { VaultLockedError, vaultLockedResponse } from '@/lib/vault';
+import { runImportBatch } from '@/lib/journal-import';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { importId } = await request.json();
+        if (!importId) {
+            return NextResponse.json({ error: 'Missing importId' }, { status: 400 });
+        }
+
+        const progress = await runImportBatch(user, importId);
+        if (!progress) {
+            return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ import: progress });
+    } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
+        console.error('Journal import run error:', error);
+        return NextResponse.json({ error: 'Failed to process import batch' }, { status: 500 });
+    }
+}
@@ -0,0 +1,53 @@
+// ============================================================
+// INNER SELF — Import API
+// Replays an export archive into the signed-in (empty) account.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { getVault, vaultLockedResponse } from '@/lib/vault';
+import { readArchive, importArchive, ArchiveFormatError } from '@/lib/archive';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        if (!file) {
+            return NextResponse.json({ error: 'No archive provided' }, { status: 400 });
+        }
+
+        const vault = await getVault(userId);
+        if (vault.enabled && !vault.unlocked) return vaultLockedResponse();
+
+        // Replaying into an account that already has a journal would duplicate everything
+        const { count } = await getUserSupabase(userId)
+            .from('raw_entries')
+            .select('id', { count: 'exact', head: true });
+        if (count && count > 0) {
+            return NextResponse.json(
+                { error: 'This account already has entries. Import into a fresh account instead.' },
+                { status: 409 }
+            );
+        }
+
+        const { manifest, data } = await readArchive(await file.arrayBuffer());
+        const imported = await importArchive(userId, data, vault);
+        console.log(`[Archive] Imported archive from ${manifest.exported_at} for user ${userId}`);
+
+        return NextResponse.json({ success: true, exported_at: manifest.exported_at, imported });
+    } catch (error) {
+        if (error instanceof ArchiveFormatError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('Import error:', error);
+        return NextResponse.json({ error: 'Failed to import archive' }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+// ============================================================
+// INNER SELF — Insights API (the inbox)
+// GET   ?view=inbox|snoozed|dismissed&type=  → insights + counts
+//         inbox = new and read, not snoozed (the default)
+// PATCH { id | ids, status?, feedback?, snoozed_until? }
+//         status: new | read | dismissed
+//         feedback: helpful | not_helpful | null (feeds daily-insights)
+//         snoozed_until: timestamp, or null to bring it back
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { INSIGHT_FEEDBACK, INSIGHT_STATUSES } from '@/lib/insights';
+import type { InsightFeedback, InsightStatus } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const VIEWS = ['inbox', 'snoozed', 'dismissed'] as const;
+const PAGE_LIMIT = 200;
+const MAX_BATCH = 500;
+
+// GET: The inbox (or the snoozed / dismissed piles)
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
+
+        const params = request.nextUrl.searchParams;
+        const view = (params.get('view') || 'inbox') as typeof VIEWS[number];
+        if (!VIEWS.includes(view)) {
+            return NextResponse.json({ error: `view must be one of ${VIEWS.join(', ')}` }, { status: 400 });
+        }
+        const type = params.get('type');
+        const now = new Date().toISOString();
+
+        let query = supabase
+            .from('insights')
+            .select('id, created_at, insight_text, type, confidence, status, read_at, snoozed_until, feedback, feedback_at, source_entry_id');
+        if (view === 'dismissed') {
+            query = query.eq('status', 'dismissed');
+        } else if (view === 'snoozed') {
+            query = query.neq('status', 'dismissed').gt('snoozed_until', now);
+        } else {
+            query = query.neq('status', 'dismissed').or(`snoozed_until.is.null,snoozed_until.lte.${now}`);
+        }
+        if (type) query = query.eq('type', type);
+
+        const { data, error } = await query.order('created_at', { ascending: false }).limit(PAGE_LIMIT);
+        if (error) throw error;
+
+        // Badge counts for the view switcher
+        const [unread, snoozed] = await Promise.all([
+            supabase
+                .from('insights')
+                .select('id', { count: 'exact', head: true })
+                .eq('status', 'new')
+                .or(`snoozed_until.is.null,snoozed_until.lte.${now}`),
+            supabase
+                .from('insights')
+                .select('id', { count: 'exact', head: true })
+                .neq('status', 'dismissed')
+                .gt('snoozed_until', now),
+        ]);
+
+        return NextResponse.json({
+            insights: data || [],
+            counts: { unread: unread.count || 0, snoozed: snoozed.count || 0 },
+        });
+    } catch (error) {
+        console.error('Insights GET error:', error);
+        return NextResponse.json({ error: 'Failed to fetch insights' }, { status: 500 });
+    }
+}
+
+// PATCH: Read, dismiss, snooze or rate one insight or many
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const ids: string[] = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : body.id ? [body.id] : [];
+        if (ids.length === 0) return NextResponse.json({ error: 'id or ids is required' }, { status: 400 });
+        if (ids.length > MAX_BATCH) return NextResponse.json({ error: `At most ${MAX_BATCH} ids at a time` }, { status: 400 });
+
+        const now = new Date().toISOString();
+        const updates: Record<string, unknown> = {};
+
+        if (body.status !== undefined) {
+            if (!INSIGHT_STATUSES.includes(body.status as InsightStatus)) {
+                return NextResponse.json({ error: `status must be one of ${INSIGHT_STATUSES.join(', ')}` }, { status: 400 });
+            }
+            updates.status = body.status;
+            updates.read_at = body.status === 'new' ? null : now;
+        }
+        if (body.feedback !== undefined) {
+            if (body.feedback !== null && !INSIGHT_FEEDBACK.includes(body.feedback as InsightFeedback)) {
+                return NextResponse.json({ error: `feedback must be one of ${INSIGHT_FEEDBACK.join(', ')} or null` }, { status: 400 });
+            }
+            updates.feedback = body.feedback;
+            updates.feedback_at = body.feedback ? now : null;
+        }
+        if (body.snoozed_until !== undefined) {
+            if (body.snoozed_until !== null && isNaN(Date.parse(body.snoozed_until))) {
+                return NextResponse.json({ error: 'snoozed_until must be a timestamp or null' }, { status: 400 });
+            }
+            updates.snoozed_until = body.snoozed_until ? new Date(body.snoozed_until).toISOString() : null;
+        }
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+        }
+
+        const { error } = await getUserSupabase(userId).from('insights').update(updates).in('id', ids);
+        if (error) throw error;
+
+        return NextResponse.json({ success: true, updated: ids.length });
+    } catch (error) {
+        console.error('Insights PATCH error:', error);
+        return NextResponse.json({ error: 'Failed to update insights' }, { status: 500 });
+    }
+}
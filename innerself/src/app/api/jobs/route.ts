@@ -0,0 +1,35 @@
+// ============================================================
+// INNER SELF — Job Status API
+// GET ?entryId=  → jobs for one entry (extraction + deep analysis)
+// GET ?keys=a,b  → jobs by idempotency key
+// GET            → queued/running counts and recent failures
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getJobs, getJobOverview, jobKey } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const entryId = request.nextUrl.searchParams.get('entryId');
+        const keys = request.nextUrl.searchParams.get('keys');
+
+        if (entryId || keys) {
+            const lookup = entryId
+                ? [jobKey('extract_entry', entryId), jobKey('background_features', entryId)]
+                : keys!.split(',').map(k => k.trim()).filter(Boolean);
+            return NextResponse.json({ jobs: await getJobs(userId, lookup) });
+        }
+
+        return NextResponse.json(await getJobOverview(userId));
+    } catch (error) {
+        console.error('Jobs GET error:', error);
+        return NextResponse.json({ error: 'Failed to load jobs' }, { status: 500 });
+    }
+}
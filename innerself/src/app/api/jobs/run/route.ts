@@ -0,0 +1,26 @@
+// ============================================================
+// INNER SELF — Job Worker (signed-in user)
+// Drains the caller's due jobs. Runs with the session's vault key,
+// so it can also process jobs for an encrypted journal.
+// ============================================================
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { runDueJobs, getJobOverview } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const stats = await runDueJobs(user);
+        return NextResponse.json({ ...stats, ...(await getJobOverview(user.id)) });
+    } catch (error) {
+        console.error('Jobs run error:', error);
+        return NextResponse.json({ error: 'Failed to run jobs' }, { status: 500 });
+    }
+}
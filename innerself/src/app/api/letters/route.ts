@@ -1,9 +1,14 @@
 // ============================================================
 // INNER SELF — Letters to Future Self API
 // Write time-locked letters. Reads only when unlock_at has passed.
+// Letter text is tlock-encrypted to the drand round at unlock_at
+// (and vault-encrypted first when the user has that on).
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { getVault, isEncrypted, vaultLockedResponse, type Vault } from '@/lib/vault';
+import { isTimeLocked, timeLock, timeUnlock } from '@/lib/timelock';
 import { v4 as uuidv4 } from 'uuid';
 
 export const dynamic = 'force-dynamic';
@@ -11,7 +16,11 @@ export const dynamic = 'force-dynamic';
 // GET: Fetch letters — unlocked ones readable, locked ones show metadata only
 export async function GET() {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const now = new Date().toISOString();
 
         // Fetch all letters ordered by written date
@@ -22,9 +31,12 @@ export async function GET() {
 
         if (error) throw error;
 
+        const vault = await getVault(userId);
+
         // Separate into unlocked (readable) and locked
-        const processed = (letters || []).map(letter => {
+        const processed = await Promise.all((letters || []).map(async letter => {
             const isUnlocked = new Date(letter.unlock_at) <= new Date(now);
+            const letterText = isUnlocked ? await readLetterText(letter.id, letter.letter_text, vault, supabase) : null;
             return {
                 id: letter.id,
                 written_at: letter.written_at,
@@ -36,11 +48,11 @@ export async function GET() {
                 context_summary: letter.context_summary,
                 tags: letter.tags,
                 // Only include letter text if unlocked
-                letter_text: isUnlocked ? letter.letter_text : null,
+                letter_text: letterText,
                 // Days until unlock
                 days_until_unlock: isUnlocked ? 0 : Math.ceil((new Date(letter.unlock_at).getTime() - new Date(now).getTime()) / (1000 * 60 * 60 * 24)),
             };
-        });
+        }));
 
         return NextResponse.json({ letters: processed });
     } catch (error) {
@@ -49,6 +61,39 @@ export async function GET() {
     }
 }
 
+// Open an unlocked letter: time-lock first (once the drand round is out),
+// then the vault. The time-lock layer is dropped after the first read,
+// locked vault or not — it no longer protects anything once the round is
+// public. Letters still in plaintext while vault mode is on (written
+// before it was) are sealed on the first read with the vault unlocked.
+async function readLetterText(
+    id: string,
+    stored: string | null,
+    vault: Vault,
+    supabase: ReturnType<typeof getUserSupabase>
+): Promise<string | null> {
+    let text = stored;
+
+    if (isTimeLocked(text)) {
+        try {
+            text = await timeUnlock(text);
+        } catch (error) {
+            console.error(`[Letters] Time-lock decrypt failed for ${id}:`, error);
+            return null;
+        }
+    }
+
+    const persisted = text !== null && vault.unlocked && !isEncrypted(text) ? vault.seal(text) : text;
+    if (persisted !== stored) {
+        await supabase
+            .from('letters_to_future')
+            .update({ letter_text: persisted, vault_sealed: isEncrypted(persisted) })
+            .eq('id', id);
+    }
+
+    return vault.open(text);
+}
+
 // POST: Write a new letter to future self
 export async function POST(request: NextRequest) {
     try {
@@ -63,7 +108,25 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'unlock_at must be in the future' }, { status: 400 });
         }
 
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
+
+        const vault = await getVault(userId);
+        if (vault.enabled && !vault.unlocked) return vaultLockedResponse();
+
+        let sealedText: string;
+        try {
+            sealedText = await timeLock(vault.seal(letter_text), new Date(unlock_at));
+        } catch (lockError) {
+            console.error('[Letters] Time-lock encryption failed:', lockError);
+            return NextResponse.json(
+                { error: 'Could not reach the time-lock network. Your letter was not saved — try again shortly.' },
+                { status: 503 }
+            );
+        }
 
         // Generate a context summary from recent state
         let contextSummary = '';
@@ -86,7 +149,8 @@ export async function POST(request: NextRequest) {
         const id = uuidv4();
         const { error } = await supabase.from('letters_to_future').insert({
             id,
-            letter_text,
+            letter_text: sealedText,
+            vault_sealed: vault.enabled,
             written_at: new Date().toISOString(),
             unlock_at: new Date(unlock_at).toISOString(),
             mood_when_written: mood_when_written || null,
@@ -109,7 +173,11 @@ export async function PATCH(request: NextRequest) {
         const { id } = await request.json();
         if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
 
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // Verify it's unlocked
         const { data: letter } = await supabase
@@ -143,7 +211,11 @@ export async function DELETE(request: NextRequest) {
         const id = searchParams.get('id');
         if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
 
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { error } = await supabase.from('letters_to_future').delete().eq('id', id);
         if (error) throw error;
 
@@ -4,14 +4,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateMirrorQuestion } from '@/lib/ai';
 import { getPersonaSummary, getRecentEntries } from '@/lib/embeddings';
+import { getCurrentUser } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(_request: NextRequest) {
     try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
         const [personaSummary, recentEntries] = await Promise.all([
-            getPersonaSummary(),
-            getRecentEntries(20),
+            getPersonaSummary(user.id),
+            getRecentEntries(user.id, 20),
         ]);
 
         if (!recentEntries) {
@@ -21,6 +27,7 @@ export async function GET(_request: NextRequest) {
         }
 
         const question = await generateMirrorQuestion(
+            user,
             personaSummary,
             recentEntries
         );
@@ -3,7 +3,8 @@
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
 import { processOnboarding } from '@/lib/ai';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
 import { storeLifeEvent } from '@/lib/extraction';
 import { validatePerson } from '@/lib/validators';
 import { v4 as uuidv4 } from 'uuid';
@@ -23,7 +24,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const supabase = getServiceSupabase();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(user.id);
 
         // Save all onboarding answers
         const answerRows = answers.map(
@@ -38,7 +43,7 @@ export async function POST(request: NextRequest) {
         await supabase.from('onboarding_answers').insert(answerRows);
 
         // Process with Claude to generate initial persona summary
-        const result = await processOnboarding(answers);
+        const result = await processOnboarding(user, answers);
         const parsed = JSON.parse(result);
 
         // Save persona summary
@@ -73,7 +78,7 @@ export async function POST(request: NextRequest) {
         // Save life events — uses centralized storeLifeEvent with full validation
         if (parsed.life_events && parsed.life_events.length > 0) {
             for (const e of parsed.life_events) {
-                await storeLifeEvent(e, 'onboarding');
+                await storeLifeEvent(user.id, e, 'onboarding');
             }
         }
 
@@ -121,7 +126,11 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
     try {
         const { answers } = await request.json().catch(() => ({ answers: [] }));
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // Save any partial answers
         if (answers && answers.length > 0) {
@@ -161,7 +170,11 @@ export async function PATCH(request: NextRequest) {
 // GET: Check onboarding status
 export async function GET() {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // Check app_config for onboarding status
         const { data: config } = await supabase
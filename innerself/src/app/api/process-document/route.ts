@@ -1,8 +1,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { processDocumentContent } from '@/lib/ai';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
 import { validateDate, validateDateNullable, validateLifeEvent, validatePerson } from '@/lib/validators';
+import { storeDocumentEmbeddings } from '@/lib/embeddings';
 import { v4 as uuidv4 } from 'uuid';
 
 export const dynamic = 'force-dynamic';
@@ -17,7 +19,11 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'No docId provided' }, { status: 400 });
         }
 
-        const supabase = getServiceSupabase();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(user.id);
 
         // 1. Fetch the document text from DB
         const { data: doc, error: fetchError } = await supabase
@@ -46,7 +52,7 @@ export async function POST(request: NextRequest) {
 
         // 2. Call AI
         console.log(`Processing doc ${docId} with Claude...`);
-        const result = await processDocumentContent(doc.extracted_text, doc.file_type, doc.file_name);
+        const result = await processDocumentContent(user, doc.extracted_text, doc.file_type, doc.file_name);
 
         let parsed;
         try {
@@ -254,6 +260,20 @@ export async function POST(request: NextRequest) {
             if (insightsError) console.error('Error inserting insights:', insightsError);
         }
 
+        // Embed the document text in chunks so chat and search can draw on it.
+        // Images and scanned PDFs are stored as base64, so there's no text to embed.
+        if (!doc.extracted_text.startsWith('[IMAGE:')) {
+            try {
+                const chunks = await storeDocumentEmbeddings(user.id, docId, doc.extracted_text, {
+                    file_name: doc.file_name,
+                    date: String(doc.created_at || new Date().toISOString()).split('T')[0],
+                });
+                console.log(`[ProcessDoc] Embedded ${chunks} chunks for doc ${docId}`);
+            } catch (embError) {
+                console.error('[ProcessDoc] Embedding failed — continuing:', embError instanceof Error ? embError.message : embError);
+            }
+        }
+
         // 4. Mark Doc Completed
         const metricsCount = parsed.health_metrics?.length || 0;
         const { error: completeError } = await supabase.from('uploaded_documents').update({
@@ -283,9 +303,10 @@ export async function POST(request: NextRequest) {
         console.error('Process API error:', error);
 
         try {
-            const supabase = getServiceSupabase();
+            const userId = await getUserId();
             const { docId } = await request.clone().json().catch(() => ({}));
-            if (docId) {
+            if (docId && userId) {
+                const supabase = getUserSupabase(userId);
                 await supabase.from('uploaded_documents').update({
                     processing_status: 'failed',
                     insights_generated: { error: error.message }
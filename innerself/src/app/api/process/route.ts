@@ -1,15 +1,29 @@
 // ============================================================
 // INNER SELF — Process API Route
 // Brain dump → Claude extraction → embeddings → storage
+// Dumps synced from the offline outbox carry client_id (replays
+// return the entry already made) and written_at (capture time).
 // ============================================================
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { processEntry } from '@/lib/extraction';
+import { getCurrentUser } from '@/lib/auth';
+import { getVault, VaultLockedError, vaultLockedResponse } from '@/lib/vault';
+import { enqueueJob, runDueJobs } from '@/lib/jobs';
+import { isOwnRecording } from '@/lib/audio';
 
 export const dynamic = 'force-dynamic';
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLOCK_SKEW_MS = 5 * 60 * 1000; // a phone's clock may run a little ahead
+
 export async function POST(request: NextRequest) {
     try {
-        const { text, source, audio_url, audio_duration_sec } = await request.json();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { text, source, audio_url, audio_duration_sec, occurred_on, tz_offset, client_id, written_at } = await request.json();
 
         if (!text || text.trim().length === 0) {
             return NextResponse.json(
@@ -18,10 +32,38 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Optional backdate: "this happened on ..." (YYYY-MM-DD, not in the future)
+        if (occurred_on && !/^\d{4}-\d{2}-\d{2}$/.test(occurred_on)) {
+            return NextResponse.json(
+                { error: 'occurred_on must be a YYYY-MM-DD date' },
+                { status: 400 }
+            );
+        }
+
+        if (client_id !== undefined && (typeof client_id !== 'string' || !UUID_PATTERN.test(client_id))) {
+            return NextResponse.json(
+                { error: 'client_id must be a UUID' },
+                { status: 400 }
+            );
+        }
+
+        // Capture time of a dump queued offline — becomes the entry's created_at
+        const writtenAt = written_at ? new Date(written_at) : null;
+        if (writtenAt && (isNaN(writtenAt.getTime()) || writtenAt.getTime() > Date.now() + CLOCK_SKEW_MS)) {
+            return NextResponse.json(
+                { error: 'written_at must be a past ISO timestamp' },
+                { status: 400 }
+            );
+        }
+
         console.log(`[Process API] Processing entry: "${text.trim().substring(0, 60)}..." | source: ${source || 'text'}`);
-        const result = await processEntry(text.trim(), source || 'text', {
-            audio_url: audio_url || null,
-            audio_duration_sec: audio_duration_sec || null,
+        const result = await processEntry(user, text.trim(), source || 'text', {
+            audio_url: isOwnRecording(user.id, audio_url) ? audio_url : null, // a key from /api/transcribe
+            audio_duration_sec: typeof audio_duration_sec === 'number' ? Math.round(audio_duration_sec) : null,
+            occurredOn: occurred_on || undefined,
+            tzOffsetMinutes: typeof tz_offset === 'number' ? tz_offset : undefined,
+            createdAt: writtenAt?.toISOString(),
+            clientId: client_id,
         });
 
         if (!result.success) {
@@ -32,17 +74,30 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (result.duplicate) {
+            console.log('[Process API] Already processed as', result.entryId);
+            return NextResponse.json({ success: true, duplicate: true, entryId: result.entryId });
+        }
+
         const ext = result.extraction;
         console.log('[Process API] Success! Title:', ext.title, '| Task:', ext.is_task);
 
+        // Deep analysis (life events, insights, dreams...) is queued durably and
+        // started once the response is sent; the cron worker retries it if this dies
+        const backgroundJob = await enqueueJob(user.id, 'background_features', { entryId: result.entryId });
+        const vault = await getVault(user.id);
+        after(() => runDueJobs(user, { vault }).catch(err => console.error('[Process API] Job drain failed:', err)));
+
         // Return FULL extraction — every field the frontend or any tab might need
         return NextResponse.json({
             success: true,
             entryId: result.entryId,
+            background_job: backgroundJob,
             // Core
             title: ext.title,
             category: ext.category,
             content: ext.content,
+            occurred_at: result.occurredAt,
             // Emotions
             mood_score: ext.mood_score,
             surface_emotion: ext.surface_emotion,
@@ -71,6 +126,7 @@ export async function POST(request: NextRequest) {
             follow_up_question: ext.follow_up_question,
         });
     } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
         console.error('Process API error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -0,0 +1,101 @@
+// ============================================================
+// INNER SELF — Profile API
+// Who the AI is talking to: name, age, location, pronouns, about.
+// These fields are substituted into every system prompt. timezone
+// (IANA) is where task due phrases and reminders are resolved.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId, hashPassword, verifyPassword } from '@/lib/auth';
+import { isValidTimeZone } from '@/lib/due-dates';
+
+export const dynamic = 'force-dynamic';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// GET: Current user's profile
+export async function GET() {
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ profile: user });
+}
+
+// PATCH: Update profile fields and/or password
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const updates: Record<string, unknown> = {};
+
+        if (typeof body.display_name === 'string' && body.display_name.trim()) {
+            updates.display_name = body.display_name.trim().substring(0, 100);
+        }
+        if (body.age !== undefined) {
+            const age = parseInt(body.age, 10);
+            updates.age = isNaN(age) || age < 1 || age > 120 ? null : age;
+        }
+        for (const field of ['location', 'pronouns', 'about'] as const) {
+            if (body[field] !== undefined) {
+                const value = typeof body[field] === 'string' ? body[field].trim() : '';
+                updates[field] = value ? value.substring(0, field === 'about' ? 2000 : 100) : null;
+            }
+        }
+
+        if (body.timezone !== undefined) {
+            const timezone = typeof body.timezone === 'string' ? body.timezone.trim() : '';
+            if (!isValidTimeZone(timezone)) {
+                return NextResponse.json({ error: 'timezone must be an IANA name like Asia/Kolkata' }, { status: 400 });
+            }
+            updates.timezone = timezone;
+        }
+
+        const supabase = getServiceSupabase();
+
+        if (body.new_password !== undefined) {
+            if (String(body.new_password).length < MIN_PASSWORD_LENGTH) {
+                return NextResponse.json(
+                    { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+                    { status: 400 }
+                );
+            }
+
+            const { data: current } = await supabase
+                .from('app_users')
+                .select('password_hash')
+                .eq('id', userId)
+                .single();
+
+            // Accounts without a password yet confirm with the legacy ACCESS_SECRET
+            const confirmed = current?.password_hash
+                ? verifyPassword(String(body.current_password || ''), current.password_hash)
+                : body.current_password === process.env.ACCESS_SECRET;
+
+            if (!confirmed) {
+                return NextResponse.json({ error: 'Current password is incorrect' }, { status: 401 });
+            }
+            updates.password_hash = hashPassword(String(body.new_password));
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+        }
+
+        const { error } = await supabase
+            .from('app_users')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', userId);
+
+        if (error) throw error;
+
+        return NextResponse.json({ success: true, profile: await getCurrentUser() });
+    } catch (error) {
+        console.error('Profile API error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,88 @@
+// ============================================================
+// INNER SELF — Notification Settings API
+// GET   → { available, public_key, preferences, device_count, types }
+//         (available = VAPID keys configured on the server)
+// PATCH → { enabled?, insight_types?, quiet_start?, quiet_end?, max_per_day? }
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import {
+    countSubscriptions,
+    getNotificationPreferences,
+    getVapidPublicKey,
+    NOTIFIABLE_INSIGHT_TYPES,
+    updateNotificationPreferences,
+} from '@/lib/push';
+import type { NotificationPreferences } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const [preferences, deviceCount] = await Promise.all([
+            getNotificationPreferences(userId),
+            countSubscriptions(userId),
+        ]);
+        const publicKey = getVapidPublicKey();
+
+        return NextResponse.json({
+            available: !!publicKey,
+            public_key: publicKey,
+            preferences,
+            device_count: deviceCount,
+            types: NOTIFIABLE_INSIGHT_TYPES,
+        });
+    } catch (error) {
+        console.error('Push settings GET error:', error);
+        return NextResponse.json({ error: 'Failed to load notification settings' }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const changes: Partial<NotificationPreferences> = {};
+
+        if (body.enabled !== undefined) {
+            if (typeof body.enabled !== 'boolean') return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 });
+            changes.enabled = body.enabled;
+        }
+        if (body.insight_types !== undefined) {
+            const known = NOTIFIABLE_INSIGHT_TYPES.map(t => t.type);
+            if (!Array.isArray(body.insight_types) || body.insight_types.some((t: unknown) => !known.includes(t as string))) {
+                return NextResponse.json({ error: `insight_types must be a list of ${known.join(', ')}` }, { status: 400 });
+            }
+            changes.insight_types = Array.from(new Set(body.insight_types as string[]));
+        }
+        for (const field of ['quiet_start', 'quiet_end'] as const) {
+            if (body[field] === undefined) continue;
+            if (body[field] !== null && body[field] !== '' && (typeof body[field] !== 'string' || !TIME_PATTERN.test(body[field]))) {
+                return NextResponse.json({ error: `${field} must be HH:MM or null` }, { status: 400 });
+            }
+            changes[field] = body[field] || null;
+        }
+        if (body.max_per_day !== undefined) {
+            if (!Number.isInteger(body.max_per_day) || body.max_per_day < 1 || body.max_per_day > 50) {
+                return NextResponse.json({ error: 'max_per_day must be a whole number from 1 to 50' }, { status: 400 });
+            }
+            changes.max_per_day = body.max_per_day;
+        }
+
+        return NextResponse.json({ preferences: await updateNotificationPreferences(userId, changes) });
+    } catch (error) {
+        console.error('Push settings PATCH error:', error);
+        return NextResponse.json({ error: 'Failed to save notification settings' }, { status: 500 });
+    }
+}
@@ -0,0 +1,53 @@
+// ============================================================
+// INNER SELF — Push Subscriptions API
+// POST   { endpoint, keys: { p256dh, auth } }  → register this device
+//        (endpoint must be a known push service host)
+// DELETE ?endpoint=                           → stop pushing to it
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { countSubscriptions, isPushServiceEndpoint, removeSubscription, saveSubscription } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const endpoint = typeof body.endpoint === 'string' ? body.endpoint : '';
+        if (!endpoint || typeof body.keys?.p256dh !== 'string' || typeof body.keys?.auth !== 'string') {
+            return NextResponse.json({ error: 'A PushSubscription (endpoint and keys) is required' }, { status: 400 });
+        }
+        if (!isPushServiceEndpoint(endpoint)) {
+            return NextResponse.json({ error: 'endpoint is not a known push service' }, { status: 400 });
+        }
+
+        await saveSubscription(userId, { endpoint, keys: { p256dh: body.keys.p256dh, auth: body.keys.auth } }, request.headers.get('user-agent'));
+        return NextResponse.json({ success: true, device_count: await countSubscriptions(userId) });
+    } catch (error) {
+        console.error('Push subscribe error:', error);
+        return NextResponse.json({ error: 'Failed to save subscription' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const endpoint = request.nextUrl.searchParams.get('endpoint');
+        if (!endpoint) return NextResponse.json({ error: 'endpoint is required' }, { status: 400 });
+
+        await removeSubscription(userId, endpoint);
+        return NextResponse.json({ success: true, device_count: await countSubscriptions(userId) });
+    } catch (error) {
+        console.error('Push unsubscribe error:', error);
+        return NextResponse.json({ error: 'Failed to remove subscription' }, { status: 500 });
+    }
+}
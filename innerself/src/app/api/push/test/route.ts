@@ -0,0 +1,36 @@
+// ============================================================
+// INNER SELF — Test Notification
+// POST → send a test push to every subscribed device, ignoring
+// preferences (quiet hours, daily limit) so setup can be checked.
+// ============================================================
+import { NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getVapidPublicKey, sendPush } from '@/lib/push';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!getVapidPublicKey()) {
+            return NextResponse.json({ error: 'Push isn\'t configured on the server (VAPID keys)' }, { status: 503 });
+        }
+
+        const delivered = await sendPush(userId, {
+            title: 'Inner Self',
+            body: 'Notifications are working. 🌱',
+            url: '/',
+            tag: 'test',
+        });
+        if (delivered === 0) {
+            return NextResponse.json({ error: 'No device accepted the notification — try turning notifications on again' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, delivered });
+    } catch (error) {
+        console.error('Push test error:', error);
+        return NextResponse.json({ error: 'Failed to send test notification' }, { status: 500 });
+    }
+}
@@ -3,7 +3,9 @@
 // Selects the daily reflection question
 // ============================================================
 import { NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getCurrentUser, getUserId } from '@/lib/auth';
+import { VaultLockedError, vaultLockedResponse } from '@/lib/vault';
 import { processEntry } from '@/lib/extraction';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -13,7 +15,11 @@ export async function GET(request: Request) {
     try {
         const { searchParams } = new URL(request.url);
         const category = searchParams.get('category');
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
 
         // 0. If category provided, fetch list (for Gaps UI etc.)
         if (category) {
@@ -130,7 +136,11 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
     try {
         const { questionId, answer, skipped } = await request.json();
-        const supabase = getServiceSupabase();
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(user.id);
 
         if (skipped) {
             await supabase
@@ -156,7 +166,7 @@ export async function POST(request: Request) {
         // 2. Save and process as log entry
         const rawText = `[Deepening Question]: ${question?.question_text}\n\n[Answer]: ${answer}`;
 
-        const result = await processEntry(rawText, 'text');
+        const result = await processEntry(user, rawText, 'text');
 
         if (!result.success) {
             console.error('Answer processing failed:', result.error);
@@ -166,6 +176,7 @@ export async function POST(request: Request) {
         return NextResponse.json({ success: true, status: 'answered' });
 
     } catch (error) {
+        if (error instanceof VaultLockedError) return vaultLockedResponse();
         console.error('Answer API error:', error);
         return NextResponse.json({ error: 'Failed to save answer' }, { status: 500 });
     }
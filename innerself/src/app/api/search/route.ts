@@ -0,0 +1,75 @@
+// ============================================================
+// INNER SELF — Search API
+// GET ?q=<query> → matches across the archive, grouped by type
+//   types=entry,life_event,...   limit to some result types
+//   from / to=YYYY-MM-DD         date range
+//   category, person, persona    entry category / person / identity persona
+//   mood=low|mid|high            entry mood band
+//   source=text|voice|image      how the entry was captured
+// Returns { results: { entry: [...], life_event: [...], ... }, terms }
+// — terms are the words the UI highlights in each snippet.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { getVault } from '@/lib/vault';
+import {
+    searchArchive,
+    MOOD_BANDS,
+    SEARCH_RESULT_TYPES,
+    type MoodBand,
+    type SearchResultType,
+} from '@/lib/search';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const params = request.nextUrl.searchParams;
+        const query = params.get('q')?.trim() || '';
+        if (!query) {
+            return NextResponse.json({ error: 'No search query provided' }, { status: 400 });
+        }
+
+        const from = params.get('from') || undefined;
+        const to = params.get('to') || undefined;
+        if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+            return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+        }
+
+        const mood = params.get('mood') || undefined;
+        if (mood && !(mood in MOOD_BANDS)) {
+            return NextResponse.json({ error: 'mood must be low, mid or high' }, { status: 400 });
+        }
+
+        const types = params.get('types')?.split(',').map(t => t.trim()).filter(Boolean);
+        const unknownType = types?.find(t => !SEARCH_RESULT_TYPES.includes(t as SearchResultType));
+        if (unknownType) {
+            return NextResponse.json({ error: `Unknown result type: ${unknownType}` }, { status: 400 });
+        }
+
+        const vault = await getVault(userId);
+        const { results, terms } = await searchArchive(userId, vault, query.substring(0, 200), {
+            types: types as SearchResultType[] | undefined,
+            startDate: from,
+            endDate: to,
+            category: params.get('category') || undefined,
+            person: params.get('person') || undefined,
+            mood: mood as MoodBand | undefined,
+            persona: params.get('persona') || undefined,
+            source: params.get('source') || undefined,
+        });
+
+        return NextResponse.json({ results, terms, vault_locked: vault.enabled && !vault.unlocked });
+    } catch (error) {
+        console.error('Search API error:', error);
+        return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+    }
+}
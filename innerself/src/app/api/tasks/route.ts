@@ -0,0 +1,232 @@
+// ============================================================
+// INNER SELF — Tasks API
+// GET                      → every task (subtasks flat, by parent_id),
+//                            with the source entry's emotional context
+// POST   { title, ... }    → create a task or, with parent_id, a subtask
+// PATCH  { id, ... }       → edit, complete (recurring tasks return the
+//                            next occurrence), snooze / unsnooze
+// due_date / due_time are the user's local date and HH:MM; changing
+// either re-arms the reminder (see cron/task-reminders)
+// DELETE ?id=              → delete a task and its subtasks
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { createTask, normalizeRecurrence, setTaskStatus, type TaskFields } from '@/lib/tasks';
+import { TASK_PRIORITIES } from '@/lib/validators';
+import type { Task, TaskPriority, TaskStatus } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const TASK_STATUSES: TaskStatus[] = ['pending', 'done', 'cancelled'];
+const STALE_AFTER_DAYS = 14;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+/** Editable fields from a request body; `error` names the first bad one. */
+function readTaskFields(body: Record<string, unknown>): { fields: Partial<TaskFields>; error?: string } {
+    const fields: Partial<TaskFields> = {};
+
+    if (body.title !== undefined) {
+        if (typeof body.title !== 'string' || !body.title.trim()) return { fields, error: 'title must be a non-empty string' };
+        fields.title = body.title.trim().substring(0, 200);
+    }
+    if (body.notes !== undefined) {
+        if (body.notes !== null && typeof body.notes !== 'string') return { fields, error: 'notes must be a string or null' };
+        fields.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+    }
+    if (body.priority !== undefined) {
+        if (!TASK_PRIORITIES.includes(body.priority as TaskPriority)) {
+            return { fields, error: `priority must be one of ${TASK_PRIORITIES.join(', ')}` };
+        }
+        fields.priority = body.priority as TaskPriority;
+    }
+    if (body.due_date !== undefined) {
+        if (body.due_date !== null && (typeof body.due_date !== 'string' || !DATE_PATTERN.test(body.due_date))) {
+            return { fields, error: 'due_date must be YYYY-MM-DD or null' };
+        }
+        fields.due_date = body.due_date as string | null;
+        if (!fields.due_date) fields.due_time = null;
+    }
+    if (body.due_time !== undefined && fields.due_time === undefined) {
+        if (body.due_time !== null && body.due_time !== '' && (typeof body.due_time !== 'string' || !TIME_PATTERN.test(body.due_time))) {
+            return { fields, error: 'due_time must be HH:MM or null' };
+        }
+        fields.due_time = body.due_time ? (body.due_time as string).slice(0, 5) : null;
+    }
+    if (body.recurrence !== undefined) {
+        if (body.recurrence === null || body.recurrence === '') {
+            fields.recurrence = null;
+        } else {
+            const recurrence = typeof body.recurrence === 'string' ? normalizeRecurrence(body.recurrence) : null;
+            if (!recurrence) return { fields, error: 'recurrence must be daily, weekly, monthly, yearly or an RRULE (FREQ, INTERVAL, BYDAY, UNTIL)' };
+            fields.recurrence = recurrence;
+        }
+    }
+
+    return { fields };
+}
+
+// GET: All tasks, newest first
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
+
+        const { data, error } = await supabase
+            .from('tasks')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(500);
+        if (error) throw error;
+        const tasks = (data || []) as Task[];
+
+        // How the user felt when they first mentioned it
+        const entryIds = Array.from(new Set(tasks.map(task => task.source_entry_id).filter(Boolean))) as string[];
+        const contextByEntry = new Map<string, Record<string, unknown>>();
+        if (entryIds.length > 0) {
+            const { data: entities } = await supabase
+                .from('extracted_entities')
+                .select('entry_id, surface_emotion, deeper_emotion, core_need, people_mentioned')
+                .in('entry_id', entryIds);
+            for (const entity of entities || []) contextByEntry.set(entity.entry_id, entity);
+        }
+
+        const now = Date.now();
+        const enhancedTasks = tasks.map(task => {
+            const ageDays = Math.floor((now - new Date(task.created_at).getTime()) / (1000 * 60 * 60 * 24));
+            const isSnoozed = !!task.snoozed_until && new Date(task.snoozed_until).getTime() > now;
+            const context = task.source_entry_id ? contextByEntry.get(task.source_entry_id) : undefined;
+            return {
+                ...task,
+                surface_emotion: context?.surface_emotion ?? null,
+                deeper_emotion: context?.deeper_emotion ?? null,
+                core_need: context?.core_need ?? null,
+                people_mentioned: context?.people_mentioned ?? [],
+                age_days: ageDays,
+                is_snoozed: isSnoozed,
+                is_stale: task.status === 'pending' && !task.parent_id && !isSnoozed && ageDays > STALE_AFTER_DAYS,
+            };
+        });
+
+        return NextResponse.json({ tasks: enhancedTasks });
+    } catch (error) {
+        console.error('Tasks GET error:', error);
+        return NextResponse.json({ error: 'Failed to fetch tasks' }, { status: 500 });
+    }
+}
+
+// POST: Create a task or subtask
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { fields, error: fieldError } = readTaskFields(body);
+        if (fieldError) return NextResponse.json({ error: fieldError }, { status: 400 });
+        if (!fields.title) return NextResponse.json({ error: 'title is required' }, { status: 400 });
+
+        if (body.parent_id) {
+            const { data: parent } = await getUserSupabase(userId)
+                .from('tasks')
+                .select('id, parent_id')
+                .eq('id', body.parent_id)
+                .maybeSingle();
+            if (!parent) return NextResponse.json({ error: 'Parent task not found' }, { status: 404 });
+            if (parent.parent_id) return NextResponse.json({ error: 'Subtasks can\'t have subtasks' }, { status: 400 });
+        }
+
+        const task = await createTask(userId, { ...fields, title: fields.title, parent_id: body.parent_id || null });
+        return NextResponse.json({ task });
+    } catch (error) {
+        console.error('Tasks POST error:', error);
+        return NextResponse.json({ error: 'Failed to create task' }, { status: 500 });
+    }
+}
+
+// PATCH: Edit, change status or snooze
+export async function PATCH(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
+
+        const body = await request.json();
+        if (!body.id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+
+        const { fields, error: fieldError } = readTaskFields(body);
+        if (fieldError) return NextResponse.json({ error: fieldError }, { status: 400 });
+        if (body.status !== undefined && !TASK_STATUSES.includes(body.status)) {
+            return NextResponse.json({ error: `status must be one of ${TASK_STATUSES.join(', ')}` }, { status: 400 });
+        }
+        if (body.snoozed_until !== undefined && body.snoozed_until !== null && isNaN(Date.parse(body.snoozed_until))) {
+            return NextResponse.json({ error: 'snoozed_until must be a timestamp or null' }, { status: 400 });
+        }
+
+        const { data: task } = await supabase.from('tasks').select('*').eq('id', body.id).maybeSingle();
+        if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+        if (body.status === 'done' && task.status === 'cancelled') {
+            return NextResponse.json({ error: 'Reopen a cancelled task before completing it' }, { status: 409 });
+        }
+
+        const updates: Record<string, unknown> = { ...fields };
+        if (task.parent_id) delete updates.recurrence;
+        if (updates.due_time && !(updates.due_date ?? task.due_date)) {
+            return NextResponse.json({ error: 'due_time needs a due_date' }, { status: 400 });
+        }
+        // A new due date or time deserves a new reminder
+        if ((fields.due_date !== undefined && fields.due_date !== task.due_date)
+            || (fields.due_time !== undefined && fields.due_time !== (task.due_time ? task.due_time.slice(0, 5) : null))) {
+            updates.reminded_at = null;
+        }
+        if (body.snoozed_until !== undefined) {
+            updates.snoozed_until = body.snoozed_until ? new Date(body.snoozed_until).toISOString() : null;
+        }
+        if (Object.keys(updates).length > 0) {
+            const { error } = await supabase
+                .from('tasks')
+                .update({ ...updates, updated_at: new Date().toISOString() })
+                .eq('id', task.id);
+            if (error) throw error;
+        }
+
+        // Completing uses the edited recurrence / due date
+        let next: Task | null = null;
+        if (body.status !== undefined && body.status !== task.status) {
+            next = await setTaskStatus(userId, { ...task, ...updates } as Task, body.status);
+        }
+
+        return NextResponse.json({ success: true, next });
+    } catch (error) {
+        console.error('Tasks PATCH error:', error);
+        return NextResponse.json({ error: 'Failed to update task' }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a task (its subtasks go with it)
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const id = request.nextUrl.searchParams.get('id');
+        if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+
+        const { error } = await getUserSupabase(userId).from('tasks').delete().eq('id', id);
+        if (error) throw error;
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Tasks DELETE error:', error);
+        return NextResponse.json({ error: 'Failed to delete task' }, { status: 500 });
+    }
+}
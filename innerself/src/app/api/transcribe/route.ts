@@ -1,60 +1,56 @@
 // ============================================================
 // INNER SELF — Transcribe API
 // Audio file → OpenAI Whisper → Text
+// When the user has audio preservation on, the original recording
+// is stored too (see lib/audio.ts) and its key returned as audio_url,
+// which /api/process saves on the entry.
 // ============================================================
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import fs from 'fs';
-import os from 'os';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import { getUserId } from '@/lib/auth';
+import { saveRecording, shouldPreserveAudio, transcribeRecording } from '@/lib/audio';
 
 export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
     try {
-        const formData = await request.formData();
-        const file = formData.get('file') as File;
-
-        if (!file) {
-            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
-        console.log(`[Transcribe] Received file: ${file.name} (${file.size} bytes)`);
-
-        // 1. Convert File to Buffer
-        const bytes = await file.arrayBuffer();
-        const buffer = Buffer.from(bytes);
-
-        // 2. Save temporarily to disk (OpenAI needs a file path or ReadStream)
-        const tempDir = os.tmpdir();
-        const tempFilePath = path.join(tempDir, `${uuidv4()}.webm`);
-        fs.writeFileSync(tempFilePath, buffer);
-
-        // 3. Send to OpenAI Whisper
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-        const transcription = await openai.audio.transcriptions.create({
-            file: fs.createReadStream(tempFilePath),
-            model: 'whisper-1',
-            language: 'en', // Force English or detect
-        });
-
-        // 4. Cleanup
-        fs.unlinkSync(tempFilePath);
+        const formData = await request.formData();
+        const file = (formData.get('audio') || formData.get('file')) as File | null;
 
-        /* 
-           NOTE: Audio Preservation is OFF to save storage costs.
-           If you want to save audio, upload `file` to Supabase Storage here
-           and return the public URL.
-        */
+        if (!file || typeof file === 'string' || file.size === 0) {
+            return NextResponse.json({ error: 'No audio provided' }, { status: 400 });
+        }
 
-        console.log('[Transcribe] Success:', transcription.text.substring(0, 50) + '...');
+        console.log(`[Transcribe] Received ${file.name} (${file.size} bytes, ${file.type || 'unknown type'})`);
+        const recording = { data: Buffer.from(await file.arrayBuffer()), contentType: file.type || 'audio/webm' };
+
+        const { text, duration } = await transcribeRecording(recording);
+        console.log('[Transcribe] Success:', text.substring(0, 50) + '...');
+
+        // Whisper's decoded length; the recorder's own timing if Whisper didn't report one
+        const clientDuration = parseFloat(String(formData.get('duration_sec') || ''));
+        const durationSec = duration ?? (isNaN(clientDuration) ? null : clientDuration);
+
+        let audioUrl: string | null = null;
+        if (await shouldPreserveAudio(userId)) {
+            try {
+                audioUrl = await saveRecording(userId, recording);
+                console.log(`[Transcribe] Recording kept as ${audioUrl}`);
+            } catch (storeError) {
+                // The transcript matters more than the recording — don't fail the dump
+                console.error('[Transcribe] Failed to keep recording:', storeError);
+            }
+        }
 
         return NextResponse.json({
-            text: transcription.text,
-            audio_url: null, // No storage
-            duration: 0 // Whisper doesn't return duration, frontend can send it if needed
+            transcript: text,
+            audio_url: audioUrl,
+            audio_duration_sec: durationSec === null ? null : Math.round(durationSec),
         });
 
     } catch (error) {
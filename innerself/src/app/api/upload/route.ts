@@ -1,6 +1,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getServiceSupabase } from '@/lib/supabase';
+import { getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
 import { v4 as uuidv4 } from 'uuid';
 import mammoth from 'mammoth';
 
@@ -17,7 +18,11 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'No file provided' }, { status: 400 });
         }
 
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const docId = uuidv4();
         const fileType = file.name.split('.').pop()?.toLowerCase() || 'unknown';
 
@@ -126,7 +131,11 @@ export async function POST(request: NextRequest) {
 // GET: List uploaded documents (unchanged)
 export async function GET() {
     try {
-        const supabase = getServiceSupabase();
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const supabase = getUserSupabase(userId);
         const { data, error } = await supabase
             .from('uploaded_documents')
             .select('id, file_name, file_type, processing_status, insights_generated, created_at')
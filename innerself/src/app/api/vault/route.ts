@@ -0,0 +1,177 @@
+// ============================================================
+// INNER SELF — Vault API (opt-in encryption at rest)
+// The client derives the key from the passphrase; this route only
+// ever sees the derived key and never stores it. See lib/vault.ts.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase, getUserSupabase } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import {
+    getVaultSettings,
+    getVault,
+    createVault,
+    keyCheck,
+    parseKey,
+    rewriteVaultColumns,
+    setVaultCookie,
+    clearVaultCookie,
+    VAULT_PBKDF2_ITERATIONS,
+} from '@/lib/vault';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// GET: Vault status + the salt the client needs to derive the key
+export async function GET() {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const settings = await getVaultSettings(userId);
+        const vault = await getVault(userId);
+
+        return NextResponse.json({
+            enabled: settings.encryption_enabled,
+            unlocked: vault.unlocked,
+            salt: settings.encryption_salt,
+            iterations: VAULT_PBKDF2_ITERATIONS,
+        });
+    } catch (error) {
+        console.error('Vault GET error:', error);
+        return NextResponse.json({ error: 'Failed to load vault status' }, { status: 500 });
+    }
+}
+
+// POST: { action: 'enable', salt, key } | { action: 'unlock', key } | { action: 'lock' } | { action: 'disable', key }
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { action, key: encodedKey, salt } = await request.json();
+        const settings = await getVaultSettings(userId);
+        const key = parseKey(encodedKey);
+
+        if (action === 'lock') {
+            const response = NextResponse.json({ success: true, unlocked: false });
+            clearVaultCookie(response);
+            return response;
+        }
+
+        if (!key) {
+            return NextResponse.json({ error: 'A 256-bit key is required' }, { status: 400 });
+        }
+
+        if (action === 'enable') {
+            if (settings.encryption_enabled) {
+                return NextResponse.json({ error: 'Encryption is already on' }, { status: 409 });
+            }
+            if (typeof salt !== 'string' || salt.length < 16) {
+                return NextResponse.json({ error: 'Missing salt' }, { status: 400 });
+            }
+
+            const { error } = await getServiceSupabase()
+                .from('app_users')
+                .update({
+                    encryption_enabled: true,
+                    encryption_salt: salt,
+                    encryption_key_check: keyCheck(key),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', userId);
+            if (error) throw error;
+
+            let encrypted: number;
+            try {
+                encrypted = await rewriteVaultColumns(userId, createVault(false, null), createVault(true, key));
+            } catch (rewriteError) {
+                await undoEnable(userId, key);
+                throw rewriteError;
+            }
+            console.log(`[Vault] Encryption enabled for user ${userId} — ${encrypted} rows encrypted`);
+
+            const response = NextResponse.json({ success: true, enabled: true, unlocked: true, encrypted });
+            setVaultCookie(response, key);
+            return response;
+        }
+
+        if (!settings.encryption_enabled) {
+            return NextResponse.json({ error: 'Encryption is not on' }, { status: 400 });
+        }
+        if (keyCheck(key) !== settings.encryption_key_check) {
+            return NextResponse.json({ error: 'Wrong passphrase' }, { status: 401 });
+        }
+
+        if (action === 'unlock') {
+            const response = NextResponse.json({ success: true, unlocked: true });
+            setVaultCookie(response, key);
+            return response;
+        }
+
+        if (action === 'disable') {
+            // Letters sealed with this key but still time-locked could never be read again
+            const { count } = await getUserSupabase(userId)
+                .from('letters_to_future')
+                .select('id', { count: 'exact', head: true })
+                .eq('vault_sealed', true)
+                .gt('unlock_at', new Date().toISOString());
+
+            if (count && count > 0) {
+                return NextResponse.json(
+                    { error: `${count} letter(s) written while encryption was on are still time-locked. Turn encryption off after they unlock.` },
+                    { status: 409 }
+                );
+            }
+
+            const decrypted = await rewriteVaultColumns(userId, createVault(true, key), createVault(false, null));
+
+            const { error } = await getServiceSupabase()
+                .from('app_users')
+                .update({
+                    encryption_enabled: false,
+                    encryption_salt: null,
+                    encryption_key_check: null,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', userId);
+            if (error) throw error;
+
+            console.log(`[Vault] Encryption disabled for user ${userId} — ${decrypted} rows decrypted`);
+            const response = NextResponse.json({ success: true, enabled: false, decrypted });
+            clearVaultCookie(response);
+            return response;
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Vault POST error:', error);
+        return NextResponse.json({ error: 'Vault operation failed' }, { status: 500 });
+    }
+}
+
+// A failed enable must not leave the account marked encrypted over
+// plaintext rows: decrypt whatever was already sealed, then clear the
+// flag. If even that fails the flag stays on, so the same passphrase
+// can still unlock the rows or turn encryption off.
+async function undoEnable(userId: string, key: Buffer): Promise<void> {
+    try {
+        await rewriteVaultColumns(userId, createVault(true, key), createVault(false, null));
+        const { error } = await getServiceSupabase()
+            .from('app_users')
+            .update({
+                encryption_enabled: false,
+                encryption_salt: null,
+                encryption_key_check: null,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', userId);
+        if (error) throw error;
+        console.log(`[Vault] Enabling encryption failed for user ${userId} — rolled back`);
+    } catch (error) {
+        console.error(`[Vault] Rolling back a failed enable for user ${userId} also failed:`, error);
+    }
+}
@@ -1,31 +1,51 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { startAuthentication, browserSupportsWebAuthn } from '@simplewebauthn/browser';
 
 export default function LoginPage() {
-    const [key, setKey] = useState('');
+    const [mode, setMode] = useState<'login' | 'register'>('login');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [displayName, setDisplayName] = useState('');
+    const [inviteCode, setInviteCode] = useState('');
+    const [totpCode, setTotpCode] = useState('');
+    const [totpRequired, setTotpRequired] = useState(false);
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
+    const [passkeySupported, setPasskeySupported] = useState(false);
     const router = useRouter();
 
+    useEffect(() => {
+        setPasskeySupported(browserSupportsWebAuthn());
+    }, []);
+
+    const isRegister = mode === 'register';
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
         setLoading(true);
 
         try {
-            const res = await fetch('/api/auth', {
+            const res = await fetch(isRegister ? '/api/auth/register' : '/api/auth', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ key: key.trim() }),
+                body: JSON.stringify(
+                    isRegister
+                        ? { username: username.trim(), password, display_name: displayName.trim(), invite_code: inviteCode.trim() }
+                        : { username: username.trim(), password, ...(totpRequired ? { totp_code: totpCode.trim() } : {}) }
+                ),
             });
 
             if (res.ok) {
                 router.push('/');
                 router.refresh();
             } else {
-                setError('Wrong key. Try again.');
+                const data = await res.json().catch(() => ({}));
+                if (data.totp_required) setTotpRequired(true);
+                setError(data.error || (isRegister ? 'Could not create account.' : 'Wrong username or password.'));
             }
         } catch {
             setError('Something went wrong.');
@@ -34,34 +54,144 @@ export default function LoginPage() {
         }
     };
 
+    const handlePasskeyLogin = async () => {
+        setError('');
+        setLoading(true);
+
+        try {
+            const optionsRes = await fetch('/api/auth/passkey/login');
+            const { options } = await optionsRes.json();
+            if (!optionsRes.ok || !options) throw new Error('options');
+
+            const credential = await startAuthentication({ optionsJSON: options });
+
+            const res = await fetch('/api/auth/passkey/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credential }),
+            });
+
+            if (res.ok) {
+                router.push('/');
+                router.refresh();
+            } else {
+                const data = await res.json().catch(() => ({}));
+                setError(data.error || 'Passkey not recognised.');
+            }
+        } catch (err) {
+            // NotAllowedError = the user dismissed the prompt
+            if (!(err instanceof Error && err.name === 'NotAllowedError')) {
+                setError('Passkey sign-in failed. Use your password instead.');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const toggleMode = () => {
+        setMode(isRegister ? 'login' : 'register');
+        setTotpRequired(false);
+        setTotpCode('');
+        setError('');
+    };
+
     return (
         <div className="login-container">
             <div className="login-card">
                 <div className="login-logo-area">
                     <span className="login-lock">🔒</span>
                     <h1 className="login-title">Inner Self</h1>
-                    <p className="login-subtitle">Enter your secret key to continue</p>
+                    <p className="login-subtitle">
+                        {isRegister ? 'Create your own private space' : 'Sign in to continue'}
+                    </p>
                 </div>
 
+                {passkeySupported && !isRegister && (
+                    <div className="login-form">
+                        <button
+                            type="button"
+                            onClick={handlePasskeyLogin}
+                            disabled={loading}
+                            className="login-button"
+                        >
+                            🔑 Sign in with passkey
+                        </button>
+                        <p className="login-divider">or use your password</p>
+                    </div>
+                )}
+
                 <form onSubmit={handleSubmit} className="login-form">
                     <input
-                        type="password"
-                        value={key}
-                        onChange={(e) => setKey(e.target.value)}
-                        placeholder="Secret key..."
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="Username"
                         className="login-input"
+                        autoComplete="username"
+                        autoCapitalize="none"
                         autoFocus
                         required
                     />
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Password"
+                        className="login-input"
+                        autoComplete={isRegister ? 'new-password' : 'current-password'}
+                        required
+                    />
+
+                    {totpRequired && !isRegister && (
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            value={totpCode}
+                            onChange={(e) => setTotpCode(e.target.value)}
+                            placeholder="6-digit authenticator code"
+                            className="login-input"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            autoFocus
+                            required
+                        />
+                    )}
+
+                    {isRegister && (
+                        <>
+                            <input
+                                type="text"
+                                value={displayName}
+                                onChange={(e) => setDisplayName(e.target.value)}
+                                placeholder="What should Inner Self call you?"
+                                className="login-input"
+                                required
+                            />
+                            <input
+                                type="text"
+                                value={inviteCode}
+                                onChange={(e) => setInviteCode(e.target.value)}
+                                placeholder="Invite code"
+                                className="login-input"
+                                required
+                            />
+                        </>
+                    )}
 
                     {error && <p className="login-error">{error}</p>}
 
                     <button
                         type="submit"
-                        disabled={loading || !key.trim()}
+                        disabled={loading || !username.trim() || !password}
                         className="login-button"
                     >
-                        {loading ? 'Verifying...' : 'Unlock'}
+                        {loading
+                            ? (isRegister ? 'Creating...' : 'Verifying...')
+                            : (isRegister ? 'Create account' : 'Unlock')}
+                    </button>
+
+                    <button type="button" onClick={toggleMode} className="login-switch">
+                        {isRegister ? 'Already have an account? Sign in' : 'Have an invite code? Create an account'}
                     </button>
                 </form>
             </div>
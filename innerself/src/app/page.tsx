@@ -4,20 +4,26 @@ import { useState, useEffect } from 'react';
 import BrainDump from '@/components/BrainDump';
 import LogView from '@/components/LogView';
 import TasksView from '@/components/TasksView';
+import InsightsInbox from '@/components/InsightsInbox';
 import LifeView from '@/components/LifeView';
 import MirrorView from '@/components/MirrorView';
 import ChatView from '@/components/ChatView';
+import SearchView from '@/components/SearchView';
 import Onboarding from '@/components/Onboarding';
 import SettingsPanel from '@/components/SettingsPanel';
+import { startOutboxSync } from '@/lib/outbox';
+import { registerServiceWorker, readLaunchAction, type LaunchAction } from '@/lib/pwa';
 import type { TabName } from '@/types';
 
 const TAB_CONFIG: { id: TabName; label: string; icon: string }[] = [
   { id: 'dump', label: 'Dump', icon: '🧠' },
   { id: 'log', label: 'Log', icon: '📖' },
   { id: 'tasks', label: 'Tasks', icon: '✅' },
+  { id: 'inbox', label: 'Inbox', icon: '📥' },
   { id: 'life', label: 'Life', icon: '🌟' },
   { id: 'mirror', label: 'Mirror', icon: '🪞' },
   { id: 'chat', label: 'Chat', icon: '💬' },
+  { id: 'search', label: 'Search', icon: '🔍' },
 ];
 
 interface OnboardingStatus {
@@ -33,11 +39,31 @@ export default function Home() {
   const [onboardingStatus, setOnboardingStatus] = useState<OnboardingStatus | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [focusEntryId, setFocusEntryId] = useState<string | null>(null); // chat citation / search → log
+  const [focusThreadId, setFocusThreadId] = useState<string | null>(null); // search → chat
+  const [launch, setLaunch] = useState<LaunchAction | null>(null); // home-screen shortcut or share
+
+  const openEntry = (entryId: string) => {
+    setFocusEntryId(entryId);
+    setActiveTab('log');
+  };
 
   useEffect(() => {
     checkOnboarding();
   }, []);
 
+  useEffect(() => {
+    registerServiceWorker();
+    const action = readLaunchAction(window.location.search);
+    if (!action) return;
+    window.history.replaceState(null, '', '/'); // a reload shouldn't replay it
+    setLaunch(action);
+    setActiveTab(action.kind === 'tab' ? action.tab : 'dump');
+  }, []);
+
+  // Brain dumps queued offline are sent now and whenever we're back online
+  useEffect(() => startOutboxSync(), []);
+
   const checkOnboarding = async () => {
     try {
       const res = await fetch('/api/onboarding');
@@ -128,12 +154,30 @@ export default function Home() {
 
         {/* Content */}
         <main className="app-content">
-          {activeTab === 'dump' && <BrainDump onProcessingComplete={() => {}} />}
-          {activeTab === 'log' && <LogView />}
+          {activeTab === 'dump' && (
+            <BrainDump
+              onProcessingComplete={() => {}}
+              launch={launch?.kind === 'tab' ? null : launch}
+              onLaunchHandled={() => setLaunch(null)}
+            />
+          )}
+          {activeTab === 'log' && <LogView focusEntryId={focusEntryId} />}
           {activeTab === 'tasks' && <TasksView />}
+          {activeTab === 'inbox' && <InsightsInbox />}
           {activeTab === 'life' && <LifeView />}
           {activeTab === 'mirror' && <MirrorView />}
-          {activeTab === 'chat' && <ChatView />}
+          {activeTab === 'chat' && (
+            <ChatView openThreadId={focusThreadId} onOpenEntry={openEntry} />
+          )}
+          {activeTab === 'search' && (
+            <SearchView
+              onOpenEntry={openEntry}
+              onOpenThread={(threadId) => {
+                setFocusThreadId(threadId);
+                setActiveTab('chat');
+              }}
+            />
+          )}
         </main>
       </div>
 
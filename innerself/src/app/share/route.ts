@@ -0,0 +1,30 @@
+// ============================================================
+// INNER SELF — Share Target fallback
+// The service worker normally answers POST /share itself (so shared
+// files survive the hop). If it isn't running yet — first launch
+// after install — shared text still lands in BrainDump; files can't
+// be carried through a redirect and are dropped.
+// ============================================================
+import { NextRequest, NextResponse } from 'next/server';
+import { joinSharedText } from '@/lib/pwa';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_SHARED_TEXT = 4000; // keeps the redirect URL a sane length
+
+export async function POST(request: NextRequest) {
+    const target = new URL('/', request.url);
+    try {
+        const form = await request.formData();
+        const field = (name: string) => {
+            const value = form.get(name);
+            return typeof value === 'string' ? value : '';
+        };
+        const text = joinSharedText(field('title'), field('text'), field('url'));
+        target.searchParams.set('share_text', text.substring(0, MAX_SHARED_TEXT));
+    } catch (error) {
+        console.error('Share target error:', error);
+        target.searchParams.set('capture', 'text');
+    }
+    return NextResponse.redirect(target, 303);
+}
@@ -3,9 +3,13 @@
 import { useState, useRef, useEffect } from 'react';
 import VoiceRecorder from './VoiceRecorder';
 import DeepeningQuestionCard from './DeepeningQuestionCard';
+import { addToOutbox, sendOutboxItem } from '@/lib/outbox';
+import { takeSharedPayload, type LaunchAction } from '@/lib/pwa';
 
 interface BrainDumpProps {
     onProcessingComplete: (result: ProcessResult) => void;
+    launch?: LaunchAction | null; // opened from a home-screen shortcut or the share sheet
+    onLaunchHandled?: () => void;
 }
 
 interface ProcessResult {
@@ -19,9 +23,29 @@ interface ProcessResult {
     is_task: boolean;
     surface_emotion: string;
     deeper_emotion: string;
+    occurred_at?: string;
+    background_job?: { status: string } | null;
+    duplicate?: boolean; // a replay of something already in the log
 }
 
-export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
+type DeepAnalysisState = 'queued' | 'running' | 'succeeded' | 'failed';
+
+const DEEP_ANALYSIS_LABELS: Record<DeepAnalysisState, string> = {
+    queued: '🔍 Deep analysis queued',
+    running: '🔍 Deep analysis running…',
+    succeeded: '✨ Deep analysis done',
+    failed: '⚠️ Deep analysis failed',
+};
+const JOB_POLL_INTERVAL_MS = 4000;
+const JOB_POLL_MAX_TRIES = 30;
+
+// Local YYYY-MM-DD, for the backdate picker's max
+function localDateString(date: Date = new Date()): string {
+    const offset = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offset).toISOString().split('T')[0];
+}
+
+export default function BrainDump({ onProcessingComplete, launch, onLaunchHandled }: BrainDumpProps) {
     const [text, setText] = useState('');
     const [isRecording, setIsRecording] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
@@ -29,98 +53,85 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
     const [lastResult, setLastResult] = useState<ProcessResult | null>(null);
     const [mode, setMode] = useState<'idle' | 'typing' | 'voice'>('idle');
     const [errorMessage, setErrorMessage] = useState('');
+    const [queuedNotice, setQueuedNotice] = useState(''); // saved to the outbox, not processed yet
+    const [hasAudio, setHasAudio] = useState(false);
+    const [autoRecord, setAutoRecord] = useState(false); // "Quick voice dump" shortcut
+    const [shareStatus, setShareStatus] = useState(''); // files shared from another app
+    const [deepAnalysis, setDeepAnalysis] = useState<DeepAnalysisState | null>(null);
+    const [occurredOn, setOccurredOn] = useState(''); // explicit backdate, empty = let extraction decide
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const audioBlobRef = useRef<Blob | null>(null);
+    const audioDurationRef = useRef<number | null>(null);
 
     const handleTranscript = (transcript: string) => {
         setText(transcript);
         setMode('typing'); // Switch to edit mode after voice
     };
 
-    const handleAudioBlob = (blob: Blob) => {
+    const handleAudioBlob = (blob: Blob, durationSec: number) => {
         audioBlobRef.current = blob;
+        audioDurationRef.current = durationSec;
+        setHasAudio(true);
         console.log(`[BrainDump] Audio blob received: ${(blob.size / 1024).toFixed(1)}KB`);
     };
 
+    const resetInput = () => {
+        setText('');
+        setOccurredOn('');
+        setMode('idle');
+        audioBlobRef.current = null;
+        audioDurationRef.current = null;
+        setHasAudio(false);
+    };
+
     const handleSubmit = async () => {
-        if (!text.trim() || isProcessing) return;
+        if ((!text.trim() && !audioBlobRef.current) || isProcessing) return;
 
         setIsProcessing(true);
         setErrorMessage('');
+        setQueuedNotice('');
+        setLastResult(null);
         const isVoice = mode === 'voice' || audioBlobRef.current !== null;
 
         try {
-            let audioUrl: string | null = null;
-            let audioDuration: number | null = null;
+            // Saved on the device first: from here on the dump survives a dead connection or a timeout
+            const item = await addToOutbox({
+                text: text.trim(),
+                source: isVoice ? 'voice' : 'text',
+                audio: audioBlobRef.current,
+                audio_duration_sec: audioDurationRef.current,
+                occurred_on: occurredOn || null,
+            });
+            resetInput();
 
-            // If we have an audio blob, transcribe via Whisper and save audio
-            if (audioBlobRef.current) {
-                setProcessingStep('Saving audio & transcribing...');
-                try {
-                    const formData = new FormData();
-                    formData.append('audio', audioBlobRef.current, 'recording.webm');
+            if (!navigator.onLine) {
+                setQueuedNotice("📥 Saved offline — it'll be processed as soon as you're back online.");
+                return;
+            }
 
-                    const transcribeRes = await fetch('/api/transcribe', {
-                        method: 'POST',
-                        body: formData,
-                    });
+            // Transcribe via Whisper (if there's audio), then run the extraction pipeline
+            const outcome = await sendOutboxItem<ProcessResult>(item, setProcessingStep);
+            if (!outcome.ok) {
+                setQueuedNotice(outcome.offline
+                    ? "📥 Saved offline — it'll be processed as soon as you're back online."
+                    : `📥 Saved, but processing failed (${outcome.error}). It's waiting in your Log.`);
+                return;
+            }
 
-                    const transcribeData = await transcribeRes.json();
-
-                    if (transcribeRes.ok) {
-                        audioUrl = transcribeData.audio_url;
-                        audioDuration = transcribeData.audio_duration_sec;
-
-                        // Use Whisper transcript if available (more accurate for Hinglish)
-                        if (transcribeData.transcript) {
-                            setText(transcribeData.transcript);
-                        }
-                        console.log(`[BrainDump] Whisper transcript: "${transcribeData.transcript?.substring(0, 60)}..."`);
-                    } else {
-                        console.warn('[BrainDump] Transcribe failed, using browser transcript:', transcribeData.error);
-                    }
-                } catch (err) {
-                    console.warn('[BrainDump] Transcribe API unavailable, using browser transcript:', err);
-                }
+            const result = outcome.result;
+            if (result.duplicate) {
+                setQueuedNotice('✓ Already in your log.');
+                return;
             }
 
-            // Process the entry through the extraction pipeline
-            setProcessingStep('Analyzing emotions & patterns...');
-            const processText = text.trim();
-            const response = await fetch('/api/process', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    text: processText,
-                    source: isVoice ? 'voice' : 'text',
-                    audio_url: audioUrl,
-                    audio_duration_sec: audioDuration,
-                }),
-            });
+            setLastResult(result);
+            onProcessingComplete(result);
 
-            const result = await response.json();
-
-            if (result.success !== false) {
-                setLastResult(result);
-                onProcessingComplete(result);
-                setText('');
-                setMode('idle');
-                audioBlobRef.current = null;
-
-                // Fire-and-forget background processing (Deep Analysis)
-                // This triggers Life Event, Health, and Insight extraction
-                fetch('/api/process/background', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        entryId: result.entryId,
-                        text: processText,
-                    }),
-                }).catch(err => console.error('[BrainDump] Background trigger failed:', err));
-            }
+            // Deep analysis (life events, insights...) runs as a server-side job — just watch it
+            if (result.background_job) watchDeepAnalysis(result.entryId);
         } catch (error) {
             console.error('Processing error:', error);
-            setErrorMessage('Something went wrong while processing. Please try again.');
+            setErrorMessage('Something went wrong while saving. Please try again.');
             setTimeout(() => setErrorMessage(''), 6000);
         } finally {
             setIsProcessing(false);
@@ -128,6 +139,87 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
         }
     };
 
+    const watchDeepAnalysis = async (entryId: string) => {
+        setDeepAnalysis('queued');
+        for (let tries = 0; tries < JOB_POLL_MAX_TRIES; tries++) {
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+            try {
+                const res = await fetch(`/api/jobs?entryId=${entryId}`);
+                const { jobs } = await res.json();
+                const job = (jobs || []).find((j: { job_type: string }) => j.job_type === 'background_features');
+                if (!job) return;
+
+                setDeepAnalysis(job.status);
+                if (job.status === 'succeeded' || job.status === 'failed') return;
+
+                // Nothing picked it up (e.g. the server's after-response hook didn't run) — nudge the worker once
+                if (tries === 2 && job.status === 'queued' && job.attempts === 0) {
+                    fetch('/api/jobs/run', { method: 'POST' }).catch(() => { });
+                }
+            } catch (err) {
+                console.warn('[BrainDump] Job status poll failed:', err);
+            }
+        }
+    };
+
+    // Shared files go through the same upload → analysis flow as Settings → Documents
+    const uploadSharedFiles = async (files: File[]) => {
+        const failed: string[] = [];
+        for (const [i, file] of files.entries()) {
+            const counter = files.length > 1 ? ` (${i + 1}/${files.length})` : '';
+            setShareStatus(`📎 Uploading ${file.name}${counter}...`);
+            try {
+                const formData = new FormData();
+                formData.append('file', file);
+                const uploadRes = await fetch('/api/upload', { method: 'POST', body: formData });
+                const uploadData = await uploadRes.json();
+                if (!uploadData.success) throw new Error(uploadData.error || 'Upload failed');
+
+                if (uploadData.requiresProcessing) {
+                    setShareStatus(`📎 Analyzing ${file.name}${counter}... (this may take 10-20s)`);
+                    const processRes = await fetch('/api/process-document', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ docId: uploadData.docId }),
+                    });
+                    const processData = await processRes.json();
+                    if (!processData.success) throw new Error(processData.error || 'Analysis failed');
+                }
+            } catch (err) {
+                console.error('[BrainDump] Shared file upload failed:', err);
+                failed.push(file.name);
+            }
+        }
+        const saved = files.length - failed.length;
+        setShareStatus(failed.length === 0
+            ? `✅ ${saved === 1 ? files[0].name : `${saved} files`} added to your documents.`
+            : `⚠️ Couldn't add ${failed.join(', ')} — try again from Settings → Documents.`);
+    };
+
+    const receiveShare = async (shareId: string | null, fallbackText: string) => {
+        try {
+            const payload = shareId ? await takeSharedPayload(shareId) : null;
+            const sharedText = payload?.text || fallbackText;
+            if (sharedText) {
+                setText(prev => prev ? `${prev}\n\n${sharedText}` : sharedText);
+                setMode('typing');
+            }
+            if (payload?.files.length) await uploadSharedFiles(payload.files);
+        } catch (err) {
+            console.error('[BrainDump] Failed to read shared content:', err);
+            setShareStatus("⚠️ Couldn't read what was shared.");
+        }
+    };
+
+    useEffect(() => {
+        if (!launch) return;
+        onLaunchHandled?.();
+        if (launch.kind === 'share') receiveShare(launch.shareId, launch.text);
+        else if (launch.kind === 'capture' && launch.mode === 'voice') setAutoRecord(true);
+        else if (launch.kind === 'capture') setMode('typing');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [launch]);
+
     useEffect(() => {
         if (textareaRef.current && mode === 'typing') {
             textareaRef.current.focus();
@@ -149,11 +241,15 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
                 {mode === 'idle' ? (
                     <div className="dump-start">
                         <VoiceRecorder
+                            autoStart={autoRecord}
                             onTranscript={handleTranscript}
                             onAudioBlob={handleAudioBlob}
                             onRecordingChange={(recording) => {
                                 setIsRecording(recording);
-                                if (recording) setMode('voice');
+                                if (recording) {
+                                    setMode('voice');
+                                    setAutoRecord(false);
+                                }
                             }}
                         />
                         <div className="or-divider">
@@ -181,14 +277,28 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
                             disabled={isProcessing}
                         />
 
+                        <label className="dump-date">
+                            📅 Happened on
+                            <input
+                                type="date"
+                                value={occurredOn}
+                                max={localDateString()}
+                                onChange={(e) => setOccurredOn(e.target.value)}
+                                disabled={isProcessing}
+                            />
+                            {occurredOn ? (
+                                <button type="button" onClick={() => setOccurredOn('')} disabled={isProcessing}>
+                                    Today
+                                </button>
+                            ) : (
+                                <span>today (or the day you describe)</span>
+                            )}
+                        </label>
+
                         <div className="dump-actions">
                             <button
                                 className="cancel-btn"
-                                onClick={() => {
-                                    setText('');
-                                    setMode('idle');
-                                    audioBlobRef.current = null;
-                                }}
+                                onClick={resetInput}
                                 disabled={isProcessing}
                             >
                                 Cancel
@@ -203,7 +313,7 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
                                 <button
                                     className="submit-btn"
                                     onClick={handleSubmit}
-                                    disabled={!text.trim() || isProcessing}
+                                    disabled={(!text.trim() && !hasAudio) || isProcessing}
                                 >
                                     {isProcessing ? (
                                         <span className="loading-spinner" />
@@ -229,6 +339,18 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
                 </div>
             )}
 
+            {shareStatus && (
+                <div className="ai-response-card">
+                    <p className="response-text">{shareStatus}</p>
+                </div>
+            )}
+
+            {queuedNotice && (
+                <div className="ai-response-card">
+                    <p className="response-text">{queuedNotice}</p>
+                </div>
+            )}
+
             {/* AI Response */}
             {lastResult && (
                 <div className="ai-response-card">
@@ -247,9 +369,17 @@ export default function BrainDump({ onProcessingComplete }: BrainDumpProps) {
                     )}
                     <div className="response-meta">
                         <span className="category-tag">{lastResult.category}</span>
+                        {lastResult.occurred_at && localDateString(new Date(lastResult.occurred_at)) !== localDateString() && (
+                            <span className="category-tag">
+                                📅 {new Date(lastResult.occurred_at).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}
+                            </span>
+                        )}
                         <span className="emotion-tag">
                             {lastResult.surface_emotion} → {lastResult.deeper_emotion}
                         </span>
+                        {deepAnalysis && (
+                            <span className="category-tag">{DEEP_ANALYSIS_LABELS[deepAnalysis]}</span>
+                        )}
                     </div>
                 </div>
             )}
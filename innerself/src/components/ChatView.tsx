@@ -2,57 +2,144 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { PERSONAS, PERSONA_LIST } from '@/lib/personas';
+import { streamChat, stripCitationMarkers, type ChatCitation } from '@/lib/chat-stream';
 import type { AIPersona } from '@/types';
 
 interface Message {
     role: 'user' | 'assistant';
     content: string;
     persona?: string;
+    stopped?: boolean; // cancelled mid-reply — shown, but never saved
+    citations?: ChatCitation[]; // entries the reply drew on
 }
 
-export default function ChatView() {
+interface ChatThread {
+    id: string;
+    title: string | null;
+    persona: AIPersona;
+    archived: boolean;
+    last_message_at: string;
+}
+
+interface ChatViewProps {
+    openThreadId?: string | null; // e.g. a search result; otherwise the most recent thread
+    onOpenEntry?: (entryId: string) => void;
+}
+
+function citationDate(date: string | null): string {
+    if (!date) return 'Entry';
+    return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function ChatView({ openThreadId, onOpenEntry }: ChatViewProps) {
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState('');
     const [selectedPersona, setSelectedPersona] = useState<AIPersona>('friend');
     const [isLoading, setIsLoading] = useState(false);
     const [showPersonaSelect, setShowPersonaSelect] = useState(false);
     const [historyLoaded, setHistoryLoaded] = useState(false);
+    const [threadId, setThreadId] = useState<string | null>(null); // null = new thread on first send
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [showThreads, setShowThreads] = useState(false);
+    const [showArchived, setShowArchived] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const viewIdRef = useRef(0); // bumped when the visible thread changes mid-reply
+
+    const fetchThreads = async (archived = showArchived): Promise<ChatThread[]> => {
+        try {
+            const res = await fetch(`/api/chat/threads${archived ? '?archived=true' : ''}`);
+            if (!res.ok) throw new Error('Failed to fetch');
+            const data = await res.json();
+            setThreads(data.threads || []);
+            return data.threads || [];
+        } catch (err) {
+            console.error('Failed to load chat threads:', err);
+            return [];
+        }
+    };
+
+    const openThread = async (id: string) => {
+        try {
+            const res = await fetch(`/api/chat/threads?id=${id}`);
+            if (!res.ok) throw new Error('Failed to fetch');
+            const { thread, messages: threadMessages } = await res.json();
+            leaveThread();
+            setThreadId(thread.id);
+            setSelectedPersona(thread.persona);
+            setMessages((threadMessages || []).map((m: {
+                role: 'user' | 'assistant';
+                content: string;
+                persona_used: string | null;
+                citations?: ChatCitation[];
+            }) => ({
+                role: m.role,
+                content: m.content,
+                persona: m.persona_used || thread.persona,
+                citations: m.citations,
+            })));
+            setShowThreads(false);
+        } catch (err) {
+            console.error('Failed to open chat thread:', err);
+        }
+    };
+
+    // Cancel any reply still streaming into the thread we're leaving
+    const leaveThread = () => {
+        viewIdRef.current++;
+        abortRef.current?.abort();
+    };
 
-    // Load recent chat history from DB on mount
+    const startNewThread = (persona: AIPersona = selectedPersona) => {
+        leaveThread();
+        setThreadId(null);
+        setMessages([]);
+        setSelectedPersona(persona);
+        setShowThreads(false);
+    };
+
+    // Resume the most recent thread on mount
     useEffect(() => {
         if (historyLoaded) return;
         const loadHistory = async () => {
-            try {
-                const res = await fetch('/api/entries?type=system_activity');
-                if (!res.ok) throw new Error('Failed to fetch');
-                const data = await res.json();
-                const chatMessages = (data.activity || [])
-                    .filter((a: { type: string }) => a.type === 'chat')
-                    .reverse() // oldest first — API returns newest first
-                    .slice(-20) // keep last 20 messages
-                    .map((a: { role: string; content: string; persona?: string }) => ({
-                        role: a.role as 'user' | 'assistant',
-                        content: a.content,
-                        persona: a.persona || selectedPersona,
-                    }));
-                if (chatMessages.length > 0) {
-                    setMessages(chatMessages);
-                    // Set persona to match the last message's persona
-                    const lastPersona = chatMessages[chatMessages.length - 1]?.persona;
-                    if (lastPersona) setSelectedPersona(lastPersona);
-                }
-            } catch (err) {
-                console.error('Failed to load chat history:', err);
-            } finally {
-                setHistoryLoaded(true);
-            }
+            const recent = await fetchThreads(false);
+            if (openThreadId) await openThread(openThreadId);
+            else if (recent.length > 0) await openThread(recent[0].id);
+            setHistoryLoaded(true);
         };
         loadHistory();
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    const renameThread = async (thread: ChatThread) => {
+        const title = prompt('Rename this chat', thread.title || '');
+        if (!title?.trim()) return;
+        await fetch('/api/chat/threads', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: thread.id, title }),
+        });
+        fetchThreads();
+    };
+
+    const archiveThread = async (thread: ChatThread) => {
+        await fetch('/api/chat/threads', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: thread.id, archived: !thread.archived }),
+        });
+        if (thread.id === threadId) startNewThread();
+        fetchThreads();
+    };
+
+    const deleteThread = async (thread: ChatThread) => {
+        if (!confirm(`Delete "${thread.title || 'Untitled chat'}" and all its messages?`)) return;
+        await fetch(`/api/chat/threads?id=${thread.id}`, { method: 'DELETE' });
+        if (thread.id === threadId) startNewThread();
+        fetchThreads();
+    };
+
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
@@ -62,48 +149,54 @@ export default function ChatView() {
 
         const userMessage = input.trim();
         setInput('');
-        setMessages((prev) => [...prev, { role: 'user', content: userMessage }]);
+        // The empty assistant message fills in as the reply streams
+        setMessages((prev) => [
+            ...prev,
+            { role: 'user', content: userMessage },
+            { role: 'assistant', content: '', persona: selectedPersona },
+        ]);
         setIsLoading(true);
 
-        try {
-            const res = await fetch('/api/chat', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    message: userMessage,
-                    persona: selectedPersona,
-                    conversationHistory: messages.slice(-10).map((m) => ({
-                        role: m.role,
-                        content: m.content,
-                    })),
-                }),
-            });
+        const viewId = ++viewIdRef.current;
+        const updateReply = (update: (reply: Message) => Message) => {
+            // Ignore late updates once the user has moved to another thread
+            if (viewId !== viewIdRef.current) return;
+            setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+        };
 
-            const data = await res.json();
-            setMessages((prev) => [
-                ...prev,
-                {
-                    role: 'assistant',
-                    content: data.response,
-                    persona: selectedPersona,
-                },
-            ]);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+            // The server loads the thread's own history — only the new message is sent
+            const result = await streamChat(
+                { message: userMessage, persona: selectedPersona, threadId },
+                (text) => updateReply((reply) => ({ ...reply, content: reply.content + text })),
+                controller.signal
+            );
+            updateReply((reply) => ({ ...reply, content: result.response, citations: result.citations }));
+            if (result.threadId !== threadId) {
+                setThreadId(result.threadId);
+                fetchThreads();
+            }
         } catch (error) {
-            console.error('Chat error:', error);
-            setMessages((prev) => [
-                ...prev,
-                {
-                    role: 'assistant',
+            if (controller.signal.aborted) {
+                updateReply((reply) => ({ ...reply, content: reply.content || '…', stopped: true }));
+            } else {
+                console.error('Chat error:', error);
+                updateReply((reply) => ({
+                    ...reply,
                     content: "I'm having trouble connecting right now. Try again in a moment.",
-                    persona: selectedPersona,
-                },
-            ]);
+                }));
+            }
         } finally {
+            abortRef.current = null;
             setIsLoading(false);
             inputRef.current?.focus();
         }
     };
 
+    const stopReply = () => abortRef.current?.abort();
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
@@ -117,16 +210,77 @@ export default function ChatView() {
         <div className="chat-view">
             <div className="chat-header">
                 <h2>Chat</h2>
-                <button
-                    className="persona-selector-btn"
-                    onClick={() => setShowPersonaSelect(!showPersonaSelect)}
-                    style={{ borderColor: currentPersona.color }}
-                >
-                    <span>{currentPersona.emoji}</span>
-                    <span>{currentPersona.name}</span>
-                </button>
+                <div className="chat-header-actions">
+                    <button
+                        className="persona-selector-btn"
+                        onClick={() => {
+                            fetchThreads();
+                            setShowThreads(true);
+                        }}
+                    >
+                        💬 Chats
+                    </button>
+                    <button
+                        className="persona-selector-btn"
+                        onClick={() => setShowPersonaSelect(!showPersonaSelect)}
+                        style={{ borderColor: currentPersona.color }}
+                    >
+                        <span>{currentPersona.emoji}</span>
+                        <span>{currentPersona.name}</span>
+                    </button>
+                </div>
             </div>
 
+            {/* Thread list */}
+            {showThreads && (
+                <div className="persona-modal-overlay" onClick={() => setShowThreads(false)}>
+                    <div className="persona-modal" onClick={(e) => e.stopPropagation()}>
+                        <div className="thread-list-header">
+                            <h3>{showArchived ? 'Archived chats' : 'Your chats'}</h3>
+                            <button className="persona-selector-btn" onClick={() => startNewThread()}>
+                                ＋ New chat
+                            </button>
+                        </div>
+                        <div className="thread-list">
+                            {threads.length === 0 && (
+                                <p className="thread-empty">{showArchived ? 'Nothing archived.' : 'No chats yet.'}</p>
+                            )}
+                            {threads.map((thread) => (
+                                <div
+                                    key={thread.id}
+                                    className={`thread-item ${thread.id === threadId ? 'active' : ''}`}
+                                    onClick={() => openThread(thread.id)}
+                                >
+                                    <span className="thread-persona">{PERSONAS[thread.persona]?.emoji || '💬'}</span>
+                                    <div className="thread-info">
+                                        <span className="thread-title">{thread.title || 'Untitled chat'}</span>
+                                        <span className="thread-date">
+                                            {new Date(thread.last_message_at).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                                        </span>
+                                    </div>
+                                    <div className="thread-actions" onClick={(e) => e.stopPropagation()}>
+                                        <button onClick={() => renameThread(thread)} title="Rename">✏️</button>
+                                        <button onClick={() => archiveThread(thread)} title={thread.archived ? 'Unarchive' : 'Archive'}>
+                                            {thread.archived ? '📤' : '🗄️'}
+                                        </button>
+                                        <button onClick={() => deleteThread(thread)} title="Delete">🗑️</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            className="thread-archive-toggle"
+                            onClick={() => {
+                                setShowArchived(!showArchived);
+                                fetchThreads(!showArchived);
+                            }}
+                        >
+                            {showArchived ? '← Back to chats' : 'Show archived'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Persona Selector Modal */}
             {showPersonaSelect && (
                 <div className="persona-modal-overlay" onClick={() => setShowPersonaSelect(false)}>
@@ -138,10 +292,8 @@ export default function ChatView() {
                                     key={p.id}
                                     className={`persona-option ${selectedPersona === p.id ? 'selected' : ''}`}
                                     onClick={() => {
-                                        if (p.id !== selectedPersona) {
-                                            setMessages([]); // Clear messages on persona switch
-                                        }
-                                        setSelectedPersona(p.id);
+                                        // A thread has one persona — switching starts a new thread
+                                        if (p.id !== selectedPersona) startNewThread(p.id);
                                         setShowPersonaSelect(false);
                                     }}
                                     style={{
@@ -184,25 +336,35 @@ export default function ChatView() {
                                 {PERSONAS[msg.persona as AIPersona]?.emoji || '🤖'}
                             </div>
                         )}
-                        <div className="message-bubble">
-                            <p>{msg.content}</p>
-                        </div>
+                        {msg.content ? (
+                            <div className="message-bubble">
+                                <p>{stripCitationMarkers(msg.content)}</p>
+                                {msg.stopped && <span className="message-stopped">Stopped — not saved</span>}
+                                {msg.citations && msg.citations.length > 0 && (
+                                    <div className="message-citations">
+                                        {msg.citations.map((citation) => (
+                                            <button
+                                                key={citation.entry_id}
+                                                className="citation-chip"
+                                                onClick={() => onOpenEntry?.(citation.entry_id)}
+                                                title={citation.snippet}
+                                            >
+                                                📓 {citationDate(citation.date)} · {citation.snippet}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="message-bubble typing">
+                                <span className="typing-dot" />
+                                <span className="typing-dot" />
+                                <span className="typing-dot" />
+                            </div>
+                        )}
                     </div>
                 ))}
 
-                {isLoading && (
-                    <div className="chat-message assistant">
-                        <div className="message-persona">
-                            {currentPersona.emoji}
-                        </div>
-                        <div className="message-bubble typing">
-                            <span className="typing-dot" />
-                            <span className="typing-dot" />
-                            <span className="typing-dot" />
-                        </div>
-                    </div>
-                )}
-
                 <div ref={messagesEndRef} />
             </div>
 
@@ -218,15 +380,23 @@ export default function ChatView() {
                     className="chat-input"
                     disabled={isLoading}
                 />
-                <button
-                    className="chat-send"
-                    onClick={sendMessage}
-                    disabled={!input.trim() || isLoading}
-                >
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                        <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
-                    </svg>
-                </button>
+                {isLoading ? (
+                    <button className="chat-send" onClick={stopReply} title="Stop">
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                            <rect x="6" y="6" width="12" height="12" rx="2" />
+                        </svg>
+                    </button>
+                ) : (
+                    <button
+                        className="chat-send"
+                        onClick={sendMessage}
+                        disabled={!input.trim()}
+                    >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                            <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
+                        </svg>
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Insight, InsightFeedback, InsightStatus } from '@/types';
+
+type InboxView = 'inbox' | 'snoozed' | 'dismissed';
+
+interface InboxCounts {
+    unread: number;
+    snoozed: number;
+}
+
+// Grouped in this order; anything else (reminders, celebrations...) after
+const TYPE_GROUPS: { type: string; label: string; icon: string }[] = [
+    { type: 'warning', label: 'Warnings', icon: '⚠️' },
+    { type: 'pattern', label: 'Patterns', icon: '🔁' },
+    { type: 'anniversary', label: 'Anniversaries', icon: '📆' },
+    { type: 'body_mind', label: 'Body & Mind', icon: '🫀' },
+    { type: 'reminder', label: 'Reminders', icon: '⏰' },
+    { type: 'celebration', label: 'Celebrations', icon: '🎉' },
+    { type: 'observation', label: 'Observations', icon: '💡' },
+];
+
+const SNOOZE_OPTIONS: { label: string; days: number }[] = [
+    { label: 'Until tomorrow', days: 1 },
+    { label: 'For 3 days', days: 3 },
+    { label: 'For a week', days: 7 },
+];
+
+// 8am local, `days` from today
+function snoozeUntil(days: number): string {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    until.setHours(8, 0, 0, 0);
+    return until.toISOString();
+}
+
+function formatWhen(date: string): string {
+    return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+function groupLabel(type: string): { label: string; icon: string } {
+    const group = TYPE_GROUPS.find((g) => g.type === type);
+    return group || { label: type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' '), icon: '💭' };
+}
+
+export default function InsightsInbox() {
+    const [insights, setInsights] = useState<Insight[]>([]);
+    const [counts, setCounts] = useState<InboxCounts>({ unread: 0, snoozed: 0 });
+    const [view, setView] = useState<InboxView>('inbox');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchInsights(view);
+    }, [view]);
+
+    const fetchInsights = async (current: InboxView) => {
+        try {
+            const response = await fetch(`/api/insights?view=${current}`);
+            const data = await response.json();
+            setInsights(data.insights || []);
+            setCounts(data.counts || { unread: 0, snoozed: 0 });
+        } catch (error) {
+            console.error('Failed to fetch insights:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const update = async (ids: string[], changes: { status?: InsightStatus; feedback?: InsightFeedback | null; snoozed_until?: string | null }) => {
+        setError('');
+        try {
+            const res = await fetch('/api/insights', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ids, ...changes }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update insight');
+            }
+        } catch (error) {
+            console.error('Failed to update insight:', error);
+            setError('Failed to update insight');
+        }
+        await fetchInsights(view);
+    };
+
+    // Opening a card is reading it; keep it local until the next fetch
+    const markRead = (insight: Insight) => {
+        if (insight.status !== 'new') return;
+        setInsights((prev) => prev.map((i) => (i.id === insight.id ? { ...i, status: 'read' } : i)));
+        setCounts((prev) => ({ ...prev, unread: Math.max(0, prev.unread - 1) }));
+        update([insight.id], { status: 'read' });
+    };
+
+    // Not helpful also clears it out of the inbox
+    const rate = (insight: Insight, feedback: InsightFeedback) => {
+        if (insight.feedback === feedback) {
+            update([insight.id], { feedback: null });
+        } else {
+            update([insight.id], feedback === 'not_helpful' ? { feedback, status: 'dismissed' } : { feedback, status: 'read' });
+        }
+    };
+
+    const unreadIds = insights.filter((i) => i.status === 'new').map((i) => i.id);
+    const knownTypes = TYPE_GROUPS.map((g) => g.type);
+    const otherTypes = [...new Set(insights.map((i) => i.type).filter((t) => !knownTypes.includes(t)))];
+    const groups = [...knownTypes, ...otherTypes]
+        .map((type) => ({ type, items: insights.filter((i) => i.type === type) }))
+        .filter((group) => group.items.length > 0);
+
+    if (loading) {
+        return (
+            <div className="tasks-loading">
+                <div className="loading-spinner" />
+                <p>Loading insights...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="inbox-view">
+            <div className="tasks-header">
+                <h2>Insights</h2>
+                <p className="inbox-subtitle">
+                    What Inner Self noticed. 👍 and 👎 shape what it tells you next.
+                </p>
+            </div>
+
+            <div className="tasks-filter">
+                {(['inbox', 'snoozed', 'dismissed'] as const).map((v) => (
+                    <button
+                        key={v}
+                        className={`filter-btn ${view === v ? 'active' : ''}`}
+                        onClick={() => setView(v)}
+                    >
+                        {v === 'inbox' ? `📥 Inbox${counts.unread > 0 ? ` (${counts.unread})` : ''}` :
+                            v === 'snoozed' ? `💤 Snoozed (${counts.snoozed})` :
+                                '🗂️ Dismissed'}
+                    </button>
+                ))}
+                {view === 'inbox' && unreadIds.length > 0 && (
+                    <button className="filter-btn inbox-mark-all" onClick={() => update(unreadIds, { status: 'read' })}>
+                        ✓ Mark all read
+                    </button>
+                )}
+            </div>
+            {error && <p className="task-error">{error}</p>}
+
+            {groups.length === 0 ? (
+                <div className="tasks-empty">
+                    <span className="empty-icon">📥</span>
+                    <h3>
+                        {view === 'inbox' ? 'Inbox zero' :
+                            view === 'snoozed' ? 'Nothing snoozed' :
+                                'Nothing dismissed'}
+                    </h3>
+                    <p>Insights show up here as your entries reveal patterns.</p>
+                </div>
+            ) : (
+                groups.map((group) => {
+                    const { label, icon } = groupLabel(group.type);
+                    const unread = group.items.filter((i) => i.status === 'new').length;
+                    return (
+                        <section key={group.type} className="inbox-group">
+                            <h3 className="inbox-group-title">
+                                {icon} {label}
+                                <span className="inbox-group-count">{group.items.length}{unread > 0 ? ` · ${unread} new` : ''}</span>
+                            </h3>
+                            {group.items.map((insight) => (
+                                <div
+                                    key={insight.id}
+                                    className={`inbox-card type-${insight.type}${insight.status === 'new' ? ' unread' : ''}`}
+                                    onClick={() => markRead(insight)}
+                                >
+                                    <p className="inbox-text">{insight.insight_text}</p>
+                                    <div className="task-meta">
+                                        <span className="task-created">{formatWhen(insight.created_at)}</span>
+                                        {insight.snoozed_until && view === 'snoozed' && (
+                                            <span className="task-snoozed">💤 until {formatWhen(insight.snoozed_until)}</span>
+                                        )}
+                                        {insight.feedback && (
+                                            <span className="inbox-feedback">
+                                                {insight.feedback === 'helpful' ? '👍 Helpful' : '👎 Not helpful'}
+                                            </span>
+                                        )}
+                                    </div>
+
+                                    <div className="task-actions" onClick={(e) => e.stopPropagation()}>
+                                        <button
+                                            className={`task-action-btn${insight.feedback === 'helpful' ? ' active' : ''}`}
+                                            onClick={() => rate(insight, 'helpful')}
+                                            title="Helpful — more like this"
+                                        >
+                                            👍
+                                        </button>
+                                        <button
+                                            className={`task-action-btn${insight.feedback === 'not_helpful' ? ' active' : ''}`}
+                                            onClick={() => rate(insight, 'not_helpful')}
+                                            title="Not helpful — stop saying this"
+                                        >
+                                            👎
+                                        </button>
+                                        {view === 'dismissed' ? (
+                                            <button className="task-action-btn" onClick={() => update([insight.id], { status: 'read' })}>
+                                                ↩️ Restore
+                                            </button>
+                                        ) : (
+                                            <>
+                                                {insight.status === 'new' ? (
+                                                    <button className="task-action-btn" onClick={() => markRead(insight)}>
+                                                        ✓ Read
+                                                    </button>
+                                                ) : (
+                                                    <button className="task-action-btn" onClick={() => update([insight.id], { status: 'new' })}>
+                                                        ● Unread
+                                                    </button>
+                                                )}
+                                                {view === 'snoozed' ? (
+                                                    <button className="task-action-btn" onClick={() => update([insight.id], { snoozed_until: null })}>
+                                                        ⏰ Wake
+                                                    </button>
+                                                ) : (
+                                                    <select
+                                                        className="task-action-btn"
+                                                        value=""
+                                                        onChange={(e) => update([insight.id], { snoozed_until: snoozeUntil(Number(e.target.value)) })}
+                                                    >
+                                                        <option value="" disabled>💤 Snooze</option>
+                                                        {SNOOZE_OPTIONS.map((option) => (
+                                                            <option key={option.days} value={option.days}>{option.label}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                                <button className="task-action-btn danger" onClick={() => update([insight.id], { status: 'dismissed' })}>
+                                                    ✕ Dismiss
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </section>
+                    );
+                })
+            )}
+        </div>
+    );
+}
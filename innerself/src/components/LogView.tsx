@@ -1,10 +1,14 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
     ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid,
     BarChart, Bar, LineChart, Line, Cell
 } from 'recharts';
+import {
+    listOutbox, subscribeOutbox, syncOutbox, retryOutboxItem, discardOutboxItem,
+    type OutboxItem, type OutboxStatus,
+} from '@/lib/outbox';
 
 interface ExtractedEntity {
     id: string;
@@ -31,6 +35,7 @@ interface ExtractedEntity {
     ai_response: string;
     ai_persona_used: string;
     follow_up_question: string | null;
+    occurred_at: string | null;
 }
 
 interface LogEntry {
@@ -38,7 +43,8 @@ interface LogEntry {
     created_at: string;
     raw_text: string;
     source: string;
-    audio_url: string | null;
+    audio_url: string | null; // storage key of a kept recording — played via /api/audio
+    audio_duration_sec: number | null;
     extracted_entities: ExtractedEntity[];
 }
 
@@ -80,12 +86,31 @@ const SELF_TALK_INDICATOR: Record<string, { emoji: string; color: string }> = {
     compassionate: { emoji: '🟢', color: '#4ADE80' },
 };
 
+const PENDING_LABELS: Record<OutboxStatus, string> = {
+    pending: 'waiting to sync',
+    syncing: 'syncing…',
+    failed: 'failed',
+};
+
+// The day an entry is about ("yesterday I...") — falls back to when it was written
+function occurredAt(entry: LogEntry): string {
+    return entry.extracted_entities?.[0]?.occurred_at || entry.created_at;
+}
+
+function formatDuration(seconds: number): string {
+    return `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+function isBackdated(entry: LogEntry): boolean {
+    return new Date(occurredAt(entry)).toDateString() !== new Date(entry.created_at).toDateString();
+}
+
 /* ─── Mood Timeline Chart ─── */
 function MoodTrendChart({ entries }: { entries: LogEntry[] }) {
     const data = [...entries].reverse()
         .filter(e => e.extracted_entities?.[0]?.mood_score)
         .map(e => ({
-            date: new Date(e.created_at).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
+            date: new Date(occurredAt(e)).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
             mood: e.extracted_entities[0].mood_score,
             title: e.extracted_entities[0].title
         }));
@@ -177,7 +202,7 @@ function EnergyTrendChart({ entries }: { entries: LogEntry[] }) {
         return [...entries].reverse()
             .filter(e => e.extracted_entities?.[0]?.energy_level != null)
             .map(e => ({
-                date: new Date(e.created_at).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
+                date: new Date(occurredAt(e)).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
                 energy: e.extracted_entities[0].energy_level,
                 title: e.extracted_entities[0].title
             }));
@@ -277,7 +302,11 @@ function SelfTalkRatioBar({ entries }: { entries: LogEntry[] }) {
 /*  MAIN COMPONENT                                            */
 /* ═══════════════════════════════════════════════════════════ */
 
-export default function LogView() {
+interface LogViewProps {
+    focusEntryId?: string | null; // opened from a chat citation
+}
+
+export default function LogView({ focusEntryId }: LogViewProps) {
     const [entries, setEntries] = useState<LogEntry[]>([]);
     const [loading, setLoading] = useState(true);
     const [expandedId, setExpandedId] = useState<string | null>(null);
@@ -286,6 +315,7 @@ export default function LogView() {
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editContent, setEditContent] = useState('');
     const [isSaving, setIsSaving] = useState(false);
+    const [retranscribingId, setRetranscribingId] = useState<string | null>(null);
 
     // Filter / search state
     const [activeFilter, setActiveFilter] = useState<'all' | 'reflections' | 'voice' | 'system'>('all');
@@ -298,15 +328,71 @@ export default function LogView() {
     const [systemLog, setSystemLog] = useState<any[]>([]);
     const [loadingSystem, setLoadingSystem] = useState(false);
 
+    // Brain dumps still in the offline outbox
+    const [pending, setPending] = useState<OutboxItem[]>([]);
+    const pendingCountRef = useRef(0);
+
     useEffect(() => {
         fetchEntries();
     }, []);
 
+    useEffect(() => {
+        const refresh = () => {
+            listOutbox()
+                .then(items => {
+                    // Something left the queue, so it's in the log now
+                    if (items.length < pendingCountRef.current) fetchEntries();
+                    pendingCountRef.current = items.length;
+                    setPending(items);
+                })
+                .catch(err => console.error('Failed to read outbox:', err));
+        };
+        refresh();
+        return subscribeOutbox(refresh);
+    }, []);
+
+    const handleDiscardPending = (item: OutboxItem) => {
+        if (!confirm('Discard this unsent brain dump? It only exists on this device.')) return;
+        discardOutboxItem(item.id).catch(err => console.error('Failed to discard:', err));
+    };
+
+    const focusedRef = useRef<string | null>(null);
+
+    // Jump to a cited entry: expand it, fetching it first if it's older than the loaded page
+    useEffect(() => {
+        if (!focusEntryId || loading || focusedRef.current === focusEntryId) return;
+        if (!entries.some(e => e.id === focusEntryId)) {
+            fetch(`/api/entries?id=${focusEntryId}`)
+                .then(res => res.json())
+                .then(data => {
+                    const entry = data.entries?.[0] as LogEntry | undefined;
+                    if (!entry) return;
+                    setEntries(prev => prev.some(e => e.id === entry.id) ? prev : [...prev, entry].sort(
+                        (a, b) => new Date(occurredAt(b)).getTime() - new Date(occurredAt(a)).getTime()
+                    ));
+                })
+                .catch(err => console.error('Failed to fetch cited entry:', err));
+            return;
+        }
+        focusedRef.current = focusEntryId;
+        setActiveFilter('all');
+        setCategoryFilter(null);
+        setPersonFilter(null);
+        setSearchQuery('');
+        setExpandedId(focusEntryId);
+        requestAnimationFrame(() => {
+            document.getElementById(`log-entry-${focusEntryId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+    }, [focusEntryId, loading, entries]);
+
     const fetchEntries = async () => {
         try {
             const response = await fetch('/api/entries?type=all&limit=50');
             const data = await response.json();
-            setEntries(data.entries || []);
+            // Newest first by the day each entry is about, so backdated entries slot into place
+            setEntries(((data.entries || []) as LogEntry[]).sort(
+                (a, b) => new Date(occurredAt(b)).getTime() - new Date(occurredAt(a)).getTime()
+            ));
             if (!data.entries?.length) {
                 console.log('Debug: No entries found in API response', data);
             }
@@ -319,6 +405,7 @@ export default function LogView() {
                 created_at: new Date().toISOString(),
                 source: 'text',
                 audio_url: null,
+                audio_duration_sec: null,
                 extracted_entities: [],
             } as LogEntry]);
         } finally {
@@ -363,6 +450,27 @@ export default function LogView() {
         }
     };
 
+    /* ── Re-transcribe from the kept recording ── */
+    const handleRetranscribe = async (entry: LogEntry) => {
+        if (!confirm("Replace this entry's text with a fresh transcript of the recording and re-analyze it?")) return;
+        setRetranscribingId(entry.id);
+        try {
+            const res = await fetch('/api/audio', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ entryId: entry.id }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Re-transcription failed');
+            await fetchEntries();
+        } catch (error) {
+            console.error('Failed to re-transcribe entry:', error);
+            alert(error instanceof Error ? error.message : 'Re-transcription failed');
+        } finally {
+            setRetranscribingId(null);
+        }
+    };
+
     /* ── Date formatting ── */
     const formatDate = (dateStr: string) => {
         const date = new Date(dateStr);
@@ -671,6 +779,47 @@ export default function LogView() {
             ) : (
                 /* ── Entries Timeline ── */
                 <div className="log-timeline">
+                    {pending.length > 0 && (
+                        <div className="log-pending">
+                            <div className="log-pending-header">
+                                <span className="log-filter-count">📥 {pending.length} waiting to sync</span>
+                                {pending.some(item => item.status === 'pending') && (
+                                    <button className="log-clear-filters" onClick={() => syncOutbox()}>
+                                        Sync now
+                                    </button>
+                                )}
+                            </div>
+                            {pending.map(item => (
+                                <div key={item.id} className={`log-card pending ${item.status}`}>
+                                    <div className="log-card-header">
+                                        <div className="log-card-left">
+                                            <span className="category-emoji">{item.source === 'voice' ? '🎙️' : '📝'}</span>
+                                            <div className="log-card-title-block">
+                                                <h3 className="log-card-title">
+                                                    {item.text ? item.text.substring(0, 80) : 'Voice note'}
+                                                </h3>
+                                                <span className="log-card-time">
+                                                    {formatDate(item.written_at)} · {formatTime(item.written_at)} · {PENDING_LABELS[item.status]}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    </div>
+                                    {item.last_error && <p className="log-pending-error">{item.last_error}</p>}
+                                    {item.status === 'failed' && (
+                                        <div className="log-pending-actions">
+                                            <button className="log-clear-filters" onClick={() => retryOutboxItem(item.id)}>
+                                                Retry
+                                            </button>
+                                            <button className="log-clear-filters" onClick={() => handleDiscardPending(item)}>
+                                                Discard
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {filteredEntries.map((entry) => {
                         const entity = entry.extracted_entities?.[0];
                         const isExpanded = expandedId === entry.id;
@@ -683,10 +832,11 @@ export default function LogView() {
                         return (
                             <div
                                 key={entry.id}
+                                id={`log-entry-${entry.id}`}
                                 className={`log-card ${isExpanded ? 'expanded' : ''}`}
                                 style={{ borderLeftColor: moodColor }}
                                 onClick={(e) => {
-                                    if ((e.target as HTMLElement).closest('.edit-area, .log-card-actions, .tag.clickable')) return;
+                                    if ((e.target as HTMLElement).closest('.edit-area, .log-audio, .log-card-actions, .tag.clickable')) return;
                                     setExpandedId(isExpanded ? null : entry.id);
                                 }}
                             >
@@ -700,7 +850,9 @@ export default function LogView() {
                                                 {entity?.title || (isReflection ? 'Mirror Session' : 'Untitled thought')}
                                             </h3>
                                             <span className="log-card-time">
-                                                {formatDate(entry.created_at)} · {formatTime(entry.created_at)}
+                                                {isBackdated(entry)
+                                                    ? `${formatDate(occurredAt(entry))} · written ${formatDate(entry.created_at)}`
+                                                    : `${formatDate(entry.created_at)} · ${formatTime(entry.created_at)}`}
                                             </span>
                                         </div>
                                     </div>
@@ -770,7 +922,25 @@ export default function LogView() {
 
                                 {isExpanded && !isEditing && entity && (
                                     <div className="log-card-details">
-                                        <div className="log-card-actions" style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '12px' }}>
+                                        {entry.audio_url && (
+                                            <div className="log-audio">
+                                                <audio controls preload="none" src={`/api/audio?entryId=${entry.id}`} />
+                                                {entry.audio_duration_sec ? (
+                                                    <span className="log-audio-duration">{formatDuration(entry.audio_duration_sec)}</span>
+                                                ) : null}
+                                            </div>
+                                        )}
+
+                                        <div className="log-card-actions" style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginBottom: '12px' }}>
+                                            {entry.audio_url && (
+                                                <button
+                                                    onClick={() => handleRetranscribe(entry)}
+                                                    disabled={retranscribingId === entry.id}
+                                                    className="entry-action-btn"
+                                                >
+                                                    {retranscribingId === entry.id ? 'Re-transcribing...' : '🎙️ Re-transcribe'}
+                                                </button>
+                                            )}
                                             <button onClick={() => handleEditStart(entry)} className="entry-action-btn edit">
                                                 ✏️ Edit & Update AI
                                             </button>
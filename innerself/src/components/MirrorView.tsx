@@ -1,10 +1,12 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import { streamChat, stripCitationMarkers } from '@/lib/chat-stream';
 
 interface MirrorMessage {
     role: 'user' | 'assistant';
     content: string;
+    stopped?: boolean; // cancelled mid-reply — shown, but never saved
 }
 
 export default function MirrorView() {
@@ -14,9 +16,11 @@ export default function MirrorView() {
     const [isProcessing, setIsProcessing] = useState(false);
     const [aiResponse, setAiResponse] = useState('');
     const [conversationHistory, setConversationHistory] = useState<MirrorMessage[]>([]);
+    const [threadId, setThreadId] = useState<string | null>(null); // each mirror session is its own chat thread
 
     // Scroll to bottom of chat
     const chatEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -46,49 +50,45 @@ export default function MirrorView() {
 
         setIsProcessing(true);
 
-        // Optimistically update UI
-        const newHistory = [
+        // Optimistically update UI; the empty reply fills in as it streams
+        setConversationHistory([
             ...conversationHistory,
-            { role: 'user' as const, content: textToSend }
-        ];
-        setConversationHistory(newHistory);
+            { role: 'user' as const, content: textToSend },
+            { role: 'assistant' as const, content: '' },
+        ]);
         setAnswer(''); // Clear input
 
+        const updateReply = (update: (reply: MirrorMessage) => MirrorMessage) => {
+            setConversationHistory(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+        };
+
+        const controller = new AbortController();
+        abortRef.current = controller;
         try {
             // First message context
-            const isFirstMessage = conversationHistory.length === 0;
+            const isFirstMessage = threadId === null; // nothing saved yet (a stopped first reply is never stored)
             const fullMessage = isFirstMessage
                 ? `[Mirror asked: "${question}"]\n\nMy answer: ${textToSend}`
                 : textToSend;
 
-            const res = await fetch('/api/chat', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    message: fullMessage,
-                    persona: 'mirror',
-                    conversationHistory: conversationHistory.slice(-6), // Keep context window
-                }),
-            });
-
-            const data = await res.json();
-            if (data.response) {
-                setConversationHistory(prev => [
-                    ...prev,
-                    { role: 'assistant', content: data.response }
-                ]);
-            }
-
             // FIXED: Mirror sessions are saved via /api/chat (conversations table).
             // Do NOT call /api/process — that creates ghost raw_entries in Log tab.
-
+            const result = await streamChat(
+                { message: fullMessage, persona: 'mirror', threadId },
+                (text) => updateReply(reply => ({ ...reply, content: reply.content + text })),
+                controller.signal
+            );
+            updateReply(reply => ({ ...reply, content: result.response }));
+            setThreadId(result.threadId);
         } catch (error) {
-            console.error('Mirror processing error:', error);
-            setConversationHistory(prev => [
-                ...prev,
-                { role: 'assistant', content: "The mirror is clouded. I cannot see clearly right now. (Error)" }
-            ]);
+            if (controller.signal.aborted) {
+                updateReply(reply => ({ ...reply, content: reply.content || '…', stopped: true }));
+            } else {
+                console.error('Mirror processing error:', error);
+                updateReply(reply => ({ ...reply, content: "The mirror is clouded. I cannot see clearly right now. (Error)" }));
+            }
         } finally {
+            abortRef.current = null;
             setIsProcessing(false);
         }
     };
@@ -96,6 +96,7 @@ export default function MirrorView() {
     const handleNewQuestion = () => {
         setAnswer('');
         setConversationHistory([]);
+        setThreadId(null);
         fetchMirrorQuestion();
     };
 
@@ -125,16 +126,17 @@ export default function MirrorView() {
                             </div>
 
                             {/* Conversation History */}
-                            {conversationHistory.map((msg, i) => (
+                            {conversationHistory.filter(msg => msg.content).map((msg, i) => (
                                 <div key={i} className={`mirror-message ${msg.role}`}>
                                     {msg.role === 'assistant' && (
                                         <div className="mirror-message-label">The Mirror</div>
                                     )}
-                                    <p>{msg.content}</p>
+                                    <p>{stripCitationMarkers(msg.content)}</p>
+                                    {msg.stopped && <span className="message-stopped">Stopped — not saved</span>}
                                 </div>
                             ))}
 
-                            {isProcessing && (
+                            {isProcessing && !conversationHistory[conversationHistory.length - 1]?.content && (
                                 <div className="mirror-typing-indicator">
                                     <span className="typing-dot" />
                                     <span className="typing-dot" />
@@ -177,12 +179,15 @@ export default function MirrorView() {
                                     disabled={isProcessing}
                                 />
                                 <button
-                                    onClick={() => handleSubmit()}
-                                    disabled={!answer.trim() || isProcessing}
+                                    onClick={() => (isProcessing ? abortRef.current?.abort() : handleSubmit())}
+                                    disabled={!answer.trim() && !isProcessing}
                                     className="mirror-send-btn"
+                                    title={isProcessing ? 'Stop' : undefined}
                                 >
                                     {isProcessing ? (
-                                        <div className="loading-spinner" />
+                                        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                                            <rect x="6" y="6" width="12" height="12" rx="2" />
+                                        </svg>
                                     ) : (
                                         <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                                             <path d="M22 2L11 13M22 2L15 22L11 13M11 13L2 9L22 2" />
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useRef, type ReactNode } from 'react';
+import type { EntryCategory, IdentityPersona } from '@/types';
+
+type ResultType = 'entry' | 'life_event' | 'person' | 'dream' | 'letter' | 'conversation';
+
+interface SearchHit {
+    type: ResultType;
+    id: string;
+    title: string;
+    snippet: string;
+    date: string | null;
+    entry_id?: string;
+    thread_id?: string;
+}
+
+interface SearchViewProps {
+    onOpenEntry?: (entryId: string) => void;
+    onOpenThread?: (threadId: string) => void;
+}
+
+const RESULT_TYPES: { id: ResultType; label: string; icon: string }[] = [
+    { id: 'entry', label: 'Entries', icon: '📓' },
+    { id: 'life_event', label: 'Life events', icon: '🌟' },
+    { id: 'person', label: 'People', icon: '👤' },
+    { id: 'dream', label: 'Dreams', icon: '🌙' },
+    { id: 'letter', label: 'Letters', icon: '💌' },
+    { id: 'conversation', label: 'Chats', icon: '💬' },
+];
+
+const CATEGORIES: EntryCategory[] = ['emotion', 'task', 'reflection', 'goal', 'memory', 'idea', 'gratitude', 'vent'];
+const PERSONAS: IdentityPersona[] = ['Professional', 'Son', 'Builder', 'Seeker', 'Achiever', 'Wounded', 'Friend'];
+
+interface Filters {
+    from: string;
+    to: string;
+    category: string;
+    person: string;
+    mood: string;
+    persona: string;
+    source: string;
+}
+
+const EMPTY_FILTERS: Filters = { from: '', to: '', category: '', person: '', mood: '', persona: '', source: '' };
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Wrap each occurrence of a search term in <mark>. */
+function highlight(text: string, terms: string[]): ReactNode {
+    if (terms.length === 0) return text;
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="search-highlight">{part}</mark> : part
+    );
+}
+
+function formatDate(date: string | null): string {
+    if (!date) return '';
+    return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function SearchView({ onOpenEntry, onOpenThread }: SearchViewProps) {
+    const [query, setQuery] = useState('');
+    const [types, setTypes] = useState<ResultType[]>([]); // empty = everything
+    const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
+    const [results, setResults] = useState<Record<ResultType, SearchHit[]> | null>(null);
+    const [terms, setTerms] = useState<string[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [vaultLocked, setVaultLocked] = useState(false);
+    const searchIdRef = useRef(0); // only the latest search's results are shown
+
+    const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+    const runSearch = async () => {
+        if (!query.trim()) return;
+        const searchId = ++searchIdRef.current;
+        setIsSearching(true);
+        setError(null);
+
+        const params = new URLSearchParams({ q: query.trim() });
+        if (types.length > 0) params.set('types', types.join(','));
+        for (const [key, value] of Object.entries(filters)) {
+            if (value) params.set(key, value);
+        }
+
+        try {
+            const res = await fetch(`/api/search?${params}`);
+            const data = await res.json();
+            if (searchId !== searchIdRef.current) return;
+            if (!res.ok) throw new Error(data.error || 'Search failed');
+            setResults(data.results);
+            setTerms(data.terms || []);
+            setVaultLocked(!!data.vault_locked);
+        } catch (err) {
+            if (searchId !== searchIdRef.current) return;
+            console.error('Search failed:', err);
+            setError(err instanceof Error ? err.message : 'Search failed');
+        } finally {
+            if (searchId === searchIdRef.current) setIsSearching(false);
+        }
+    };
+
+    const toggleType = (type: ResultType) => {
+        setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+    };
+
+    const updateFilter = (key: keyof Filters, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
+    const openHit = (hit: SearchHit) => {
+        if (hit.entry_id) onOpenEntry?.(hit.entry_id);
+        else if (hit.thread_id) onOpenThread?.(hit.thread_id);
+    };
+
+    const totalResults = results ? Object.values(results).reduce((sum, hits) => sum + hits.length, 0) : 0;
+
+    return (
+        <div className="log-view search-view">
+            {/* ── Header ── */}
+            <div className="log-header">
+                <h2>Search</h2>
+            </div>
+
+            <form
+                className="log-search-bar"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    runSearch();
+                }}
+            >
+                <span className="log-search-icon">🔍</span>
+                <input
+                    type="text"
+                    className="log-search-input"
+                    placeholder="Search everything you've written..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    autoFocus
+                />
+                {query && (
+                    <button type="button" className="log-search-clear" onClick={() => setQuery('')}>✕</button>
+                )}
+            </form>
+
+            {/* ── Result types ── */}
+            <div className="log-filters">
+                {RESULT_TYPES.map(type => (
+                    <button
+                        key={type.id}
+                        className={`log-filter-btn ${types.includes(type.id) ? 'active' : ''}`}
+                        onClick={() => toggleType(type.id)}
+                    >
+                        {type.icon} {type.label}
+                    </button>
+                ))}
+                <button
+                    className={`log-filter-btn ${showFilters || activeFilterCount > 0 ? 'active' : ''}`}
+                    onClick={() => setShowFilters(prev => !prev)}
+                >
+                    ⚙️ Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </button>
+            </div>
+
+            {showFilters && (
+                <div className="search-filters">
+                    <label>
+                        From
+                        <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+                    </label>
+                    <label>
+                        To
+                        <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+                    </label>
+                    <label>
+                        Person
+                        <input
+                            type="text"
+                            placeholder="Name"
+                            value={filters.person}
+                            onChange={(e) => updateFilter('person', e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        Mood
+                        <select value={filters.mood} onChange={(e) => updateFilter('mood', e.target.value)}>
+                            <option value="">Any</option>
+                            <option value="low">Low (1–4)</option>
+                            <option value="mid">Middle (5–6)</option>
+                            <option value="high">High (7–10)</option>
+                        </select>
+                    </label>
+                    <label>
+                        Category
+                        <select value={filters.category} onChange={(e) => updateFilter('category', e.target.value)}>
+                            <option value="">Any</option>
+                            {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Persona
+                        <select value={filters.persona} onChange={(e) => updateFilter('persona', e.target.value)}>
+                            <option value="">Any</option>
+                            {PERSONAS.map(p => <option key={p} value={p}>{p}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Source
+                        <select value={filters.source} onChange={(e) => updateFilter('source', e.target.value)}>
+                            <option value="">Any</option>
+                            <option value="text">Typed</option>
+                            <option value="voice">Voice</option>
+                            <option value="image">Image</option>
+                        </select>
+                    </label>
+                    {activeFilterCount > 0 && (
+                        <button className="log-clear-filters" onClick={() => setFilters(EMPTY_FILTERS)}>
+                            Clear filters
+                        </button>
+                    )}
+                    <p className="search-filters-note">Mood, category, persona and source only apply to entries.</p>
+                </div>
+            )}
+
+            {/* ── Results ── */}
+            {isSearching && (
+                <div className="search-status">
+                    <div className="loading-spinner" />
+                </div>
+            )}
+
+            {error && !isSearching && <div className="search-status">{error}</div>}
+
+            {results && !isSearching && !error && (
+                <>
+                    {vaultLocked && (
+                        <div className="search-status">🔒 Vault is locked — encrypted entries, letters and chats can&apos;t be searched until you unlock it.</div>
+                    )}
+                    {totalResults === 0 && <div className="search-status">Nothing found for &ldquo;{query}&rdquo;.</div>}
+
+                    {RESULT_TYPES.filter(type => results[type.id]?.length > 0).map(type => (
+                        <section key={type.id} className="search-group">
+                            <h3 className="search-group-title">
+                                {type.icon} {type.label} <span className="log-filter-count">{results[type.id].length}</span>
+                            </h3>
+                            {results[type.id].map(hit => {
+                                const openable = !!(hit.entry_id || hit.thread_id);
+                                return (
+                                    <div
+                                        key={`${hit.type}-${hit.id}`}
+                                        className={`search-result ${openable ? 'openable' : ''}`}
+                                        onClick={() => openable && openHit(hit)}
+                                    >
+                                        <div className="search-result-header">
+                                            <span className="search-result-title">{highlight(hit.title, terms)}</span>
+                                            <span className="search-result-date">{formatDate(hit.date)}</span>
+                                        </div>
+                                        {hit.snippet && <p className="search-result-snippet">{highlight(hit.snippet, terms)}</p>}
+                                    </div>
+                                );
+                            })}
+                        </section>
+                    ))}
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,9 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import { startRegistration, browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { getPushSubscription, pushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pwa';
+import type { NotificationPreferences, UserProfile } from '@/types';
 
 interface UploadedDoc {
     id: string;
@@ -11,6 +14,84 @@ interface UploadedDoc {
     created_at: string;
 }
 
+interface PasskeyItem {
+    id: string;
+    device_name: string | null;
+    created_at: string;
+    last_used_at: string | null;
+}
+
+interface VaultStatus {
+    enabled: boolean;
+    unlocked: boolean;
+    salt: string | null;
+    iterations: number;
+}
+
+// The passphrase never leaves the browser — only the derived key is sent
+async function deriveVaultKey(passphrase: string, salt: string, iterations: number): Promise<string> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: Uint8Array.from(atob(salt), c => c.charCodeAt(0)), iterations },
+        material,
+        256
+    );
+    return btoa(String.fromCharCode(...new Uint8Array(bits)));
+}
+
+function randomSalt(): string {
+    return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+interface AudioSettingsStatus {
+    preserve: boolean;
+    retention_days: number | null; // null = forever
+    retention_options: number[];
+    stored_count: number;
+    vault_enabled: boolean;
+}
+
+interface NotificationSettingsStatus {
+    available: boolean; // VAPID keys configured on the server
+    public_key: string | null;
+    preferences: NotificationPreferences;
+    device_count: number;
+    types: { type: string; label: string }[];
+}
+
+interface CalendarFeedStatus {
+    enabled: boolean;
+    created_at: string | null;
+}
+
+interface JournalImportProgress {
+    id: string;
+    source_app: string;
+    status: 'pending' | 'running' | 'completed';
+    total: number;
+    done: number;
+    skipped: number;
+    failed: number;
+    pending: number;
+}
+
+interface SearchIndexStatus {
+    model: string;
+    total: number;
+    current: number; // embeddings made by the active model
+    job: { id: string; status: string } | null;
+}
+
+// Every IANA zone this browser knows, for the timezone picker
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const JOURNAL_IMPORT_SOURCES: { value: string; label: string; accept: string }[] = [
+    { value: 'dayone', label: 'Day One (JSON export or zip)', accept: '.json,.zip' },
+    { value: 'journey', label: 'Journey (zip export)', accept: '.zip,.json' },
+    { value: 'markdown', label: 'Obsidian / Markdown notes', accept: '.md,.markdown,.txt,.zip' },
+    { value: 'whatsapp', label: 'WhatsApp chat with yourself', accept: '.txt,.zip' },
+];
+
 interface SettingsPanelProps {
     isOpen: boolean;
     onClose: () => void;
@@ -34,14 +115,460 @@ export default function SettingsPanel({
     const [uploading, setUploading] = useState(false);
     const [uploadProgress, setUploadProgress] = useState('');
     const [dragOver, setDragOver] = useState(false);
+    const [profile, setProfile] = useState<UserProfile | null>(null);
+    const [savingProfile, setSavingProfile] = useState(false);
+    const [profileStatus, setProfileStatus] = useState('');
+    const [totpEnabled, setTotpEnabled] = useState(false);
+    const [totpSetup, setTotpSetup] = useState<{ secret: string; uri: string } | null>(null);
+    const [totpCode, setTotpCode] = useState('');
+    const [securityStatus, setSecurityStatus] = useState('');
+    const [passkeys, setPasskeys] = useState<PasskeyItem[]>([]);
+    const [vault, setVault] = useState<VaultStatus | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [vaultBusy, setVaultBusy] = useState(false);
+    const [vaultStatus, setVaultStatus] = useState('');
+    const [audioSettings, setAudioSettings] = useState<AudioSettingsStatus | null>(null);
+    const [audioStatus, setAudioStatus] = useState('');
+    const [notifications, setNotifications] = useState<NotificationSettingsStatus | null>(null);
+    const [pushOnThisDevice, setPushOnThisDevice] = useState(false);
+    const [notificationStatus, setNotificationStatus] = useState('');
+    const [calendarFeed, setCalendarFeed] = useState<CalendarFeedStatus | null>(null);
+    const [calendarUrl, setCalendarUrl] = useState('');
+    const [calendarStatus, setCalendarStatus] = useState('');
+    const [archiveBusy, setArchiveBusy] = useState(false);
+    const [archiveStatus, setArchiveStatus] = useState('');
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+    const [journalSource, setJournalSource] = useState(JOURNAL_IMPORT_SOURCES[0].value);
+    const [journalImport, setJournalImport] = useState<JournalImportProgress | null>(null);
+    const [journalStatus, setJournalStatus] = useState('');
+    const journalInputRef = useRef<HTMLInputElement>(null);
+    const drainingImportRef = useRef<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [searchIndex, setSearchIndex] = useState<SearchIndexStatus | null>(null);
+    const [searchIndexStatus, setSearchIndexStatus] = useState('');
+    const rebuildingIndexRef = useRef(false);
 
     useEffect(() => {
         if (isOpen) {
             fetchDocuments();
+            fetchProfile();
+            fetchTotpStatus();
+            fetchPasskeys();
+            fetchVault();
+            fetchAudioSettings();
+            fetchNotificationSettings();
+            fetchCalendarFeed();
+            resumeJournalImport();
+            fetchSearchIndex();
         }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isOpen]);
 
+    // Pick up an import that was still running when the panel was last closed
+    const resumeJournalImport = async () => {
+        try {
+            const res = await fetch('/api/import/journal');
+            const data = await res.json();
+            const unfinished = (data.imports || []).find((i: JournalImportProgress) => i.status !== 'completed');
+            if (unfinished) drainJournalImport(unfinished);
+        } catch (err) {
+            console.error('Failed to fetch journal imports:', err);
+        }
+    };
+
+    const drainJournalImport = async (progress: JournalImportProgress) => {
+        setJournalImport(progress);
+        if (drainingImportRef.current === progress.id) return;
+        drainingImportRef.current = progress.id;
+
+        try {
+            let current = progress;
+            while (current.status !== 'completed') {
+                const res = await fetch('/api/import/journal/run', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ importId: current.id }),
+                });
+                const data = await res.json();
+                if (!res.ok) {
+                    setJournalStatus(`❌ ${data.error || 'Import paused'} — reopen Settings to resume`);
+                    return;
+                }
+                current = data.import;
+                setJournalImport(current);
+            }
+            setJournalStatus(`✅ Import finished — ${current.done} entries added`);
+        } catch (err) {
+            console.error('Journal import run failed:', err);
+            setJournalStatus('❌ Import paused — reopen Settings to resume');
+        } finally {
+            drainingImportRef.current = null;
+        }
+    };
+
+    const handleJournalImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setJournalStatus('Reading your export...');
+        try {
+            const formData = new FormData();
+            formData.append('format', journalSource);
+            formData.append('tz_offset', String(new Date().getTimezoneOffset()));
+            for (const file of files) formData.append('files', file);
+
+            const res = await fetch('/api/import/journal', { method: 'POST', body: formData });
+            const data = await res.json();
+            if (!res.ok) {
+                setJournalStatus(`❌ ${data.error || 'Import failed'}`);
+                return;
+            }
+            setJournalStatus(
+                `Found ${data.import.total} entries (${new Date(data.range.from).toLocaleDateString()} – ${new Date(data.range.to).toLocaleDateString()}). Processing...`
+            );
+            drainJournalImport(data.import);
+        } catch (err) {
+            console.error('Journal import error:', err);
+            setJournalStatus('❌ Import failed');
+        }
+    };
+
+    const fetchVault = async () => {
+        try {
+            const res = await fetch('/api/vault');
+            if (res.ok) setVault(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch encryption status:', err);
+        }
+    };
+
+    // ---- Voice recordings ----
+    const fetchAudioSettings = async () => {
+        try {
+            const res = await fetch('/api/audio/settings');
+            if (res.ok) setAudioSettings(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch voice recording settings:', err);
+        }
+    };
+
+    const handleAudioSettingsChange = async (changes: { preserve?: boolean; retention_days?: number | null }) => {
+        if (!audioSettings) return;
+        setAudioStatus('');
+        try {
+            const res = await fetch('/api/audio/settings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(changes),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setAudioSettings({ ...audioSettings, ...data });
+                setAudioStatus('✅ Saved');
+                setTimeout(() => setAudioStatus(''), 2000);
+            } else {
+                setAudioStatus(`❌ ${data.error || 'Failed to save'}`);
+            }
+        } catch (err) {
+            console.error('Voice recording settings error:', err);
+            setAudioStatus('❌ Failed to save');
+        }
+    };
+
+    // ---- Notifications ----
+    const fetchNotificationSettings = async () => {
+        try {
+            const res = await fetch('/api/push');
+            if (res.ok) setNotifications(await res.json());
+            setPushOnThisDevice(!!(await getPushSubscription()));
+        } catch (err) {
+            console.error('Failed to fetch notification settings:', err);
+        }
+    };
+
+    const handleNotificationPrefs = async (changes: Partial<NotificationPreferences>) => {
+        if (!notifications) return;
+        setNotificationStatus('');
+        try {
+            const res = await fetch('/api/push', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(changes),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setNotifications({ ...notifications, preferences: data.preferences });
+                setNotificationStatus('✅ Saved');
+                setTimeout(() => setNotificationStatus(''), 2000);
+            } else {
+                setNotificationStatus(`❌ ${data.error || 'Failed to save'}`);
+            }
+        } catch (err) {
+            console.error('Notification settings error:', err);
+            setNotificationStatus('❌ Failed to save');
+        }
+    };
+
+    const toggleInsightType = (type: string, on: boolean) => {
+        if (!notifications) return;
+        const current = notifications.preferences.insight_types;
+        handleNotificationPrefs({ insight_types: on ? [...current, type] : current.filter(t => t !== type) });
+    };
+
+    const handleDevicePush = async () => {
+        if (!notifications?.public_key) return;
+        setNotificationStatus('');
+        try {
+            if (pushOnThisDevice) {
+                await unsubscribeFromPush();
+                setPushOnThisDevice(false);
+                setNotificationStatus('🔕 This device won\'t get notifications');
+            } else {
+                await subscribeToPush(notifications.public_key);
+                setPushOnThisDevice(true);
+                setNotificationStatus('🔔 This device will get notifications');
+            }
+            fetchNotificationSettings();
+        } catch (err) {
+            setNotificationStatus(`❌ ${err instanceof Error ? err.message : 'Failed'}`);
+        }
+    };
+
+    const sendTestNotification = async () => {
+        setNotificationStatus('');
+        try {
+            const res = await fetch('/api/push/test', { method: 'POST' });
+            const data = await res.json();
+            setNotificationStatus(res.ok ? `✅ Sent to ${data.delivered} device${data.delivered === 1 ? '' : 's'}` : `❌ ${data.error || 'Failed'}`);
+        } catch (err) {
+            console.error('Test notification error:', err);
+            setNotificationStatus('❌ Failed');
+        }
+    };
+
+    // ---- Calendar feed ----
+    const fetchCalendarFeed = async () => {
+        try {
+            const res = await fetch('/api/calendar');
+            if (res.ok) setCalendarFeed(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch calendar feed status:', err);
+        }
+    };
+
+    const handleCalendarFeed = async (action: 'create' | 'revoke') => {
+        if (calendarFeed?.enabled && !confirm(action === 'create'
+            ? 'Make a new link? Calendars subscribed to the old one will stop updating.'
+            : 'Turn off the calendar feed? Calendars subscribed to it will stop updating.')) return;
+        setCalendarStatus('');
+        try {
+            const res = await fetch('/api/calendar', { method: action === 'create' ? 'POST' : 'DELETE' });
+            const data = await res.json();
+            if (!res.ok) {
+                setCalendarStatus(`❌ ${data.error || 'Failed'}`);
+                return;
+            }
+            setCalendarFeed({ enabled: data.enabled, created_at: data.created_at });
+            setCalendarUrl(data.url || '');
+        } catch (err) {
+            console.error('Calendar feed error:', err);
+            setCalendarStatus('❌ Failed');
+        }
+    };
+
+    const copyCalendarUrl = async () => {
+        try {
+            await navigator.clipboard.writeText(calendarUrl);
+            setCalendarStatus('✅ Copied');
+            setTimeout(() => setCalendarStatus(''), 2000);
+        } catch {
+            setCalendarStatus('Copy the link above by hand');
+        }
+    };
+
+    const handleVaultAction = async (action: 'enable' | 'unlock' | 'lock' | 'disable') => {
+        if (!vault) return;
+        if (action === 'enable' && !confirm(
+            'Encrypt your journal with this passphrase? If you forget it, your entries, chats and letters cannot be recovered by anyone.'
+        )) return;
+        if (action === 'disable' && !confirm('Turn encryption off and store your journal unencrypted again?')) return;
+
+        setVaultBusy(true);
+        setVaultStatus('');
+        try {
+            const salt = action === 'enable' ? randomSalt() : vault.salt;
+            const key = action === 'lock' || !salt ? undefined : await deriveVaultKey(passphrase, salt, vault.iterations);
+            const res = await fetch('/api/vault', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action, key, salt }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setPassphrase('');
+                setVaultStatus({
+                    enable: `✅ Encryption on — ${data.encrypted} items encrypted`,
+                    unlock: '✅ Journal unlocked for this browser session',
+                    lock: '🔒 Journal locked',
+                    disable: `✅ Encryption off — ${data.decrypted} items decrypted`,
+                }[action]);
+                fetchVault();
+            } else {
+                setVaultStatus(`❌ ${data.error || 'Encryption change failed'}`);
+            }
+        } catch (err) {
+            console.error('Vault action failed:', err);
+            setVaultStatus('❌ Encryption change failed');
+        } finally {
+            setVaultBusy(false);
+        }
+    };
+
+    const fetchPasskeys = async () => {
+        try {
+            const res = await fetch('/api/auth/passkey');
+            const data = await res.json();
+            setPasskeys(data.passkeys || []);
+        } catch (err) {
+            console.error('Failed to fetch passkeys:', err);
+        }
+    };
+
+    const handleAddPasskey = async () => {
+        setSecurityStatus('');
+        try {
+            const optionsRes = await fetch('/api/auth/passkey/register');
+            const { options, error } = await optionsRes.json();
+            if (!optionsRes.ok) {
+                setSecurityStatus(`❌ ${error || 'Could not start passkey setup'}`);
+                return;
+            }
+
+            const credential = await startRegistration({ optionsJSON: options });
+            const res = await fetch('/api/auth/passkey/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credential, device_name: navigator.platform || null }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setSecurityStatus('✅ Passkey added');
+                fetchPasskeys();
+            } else {
+                setSecurityStatus(`❌ ${data.error || 'Passkey could not be verified'}`);
+            }
+        } catch (err) {
+            if (!(err instanceof Error && err.name === 'NotAllowedError')) {
+                console.error('Passkey registration failed:', err);
+                setSecurityStatus('❌ Passkey setup failed on this device');
+            }
+        }
+    };
+
+    const handleRemovePasskey = async (id: string) => {
+        if (!confirm('Remove this passkey? You can still sign in with your password.')) return;
+        const res = await fetch(`/api/auth/passkey?id=${id}`, { method: 'DELETE' });
+        if (res.ok) fetchPasskeys();
+    };
+
+    const fetchTotpStatus = async () => {
+        try {
+            const res = await fetch('/api/auth/totp');
+            const data = await res.json();
+            setTotpEnabled(!!data.enabled);
+        } catch (err) {
+            console.error('Failed to fetch two-factor status:', err);
+        }
+    };
+
+    const handleTotpSetup = async () => {
+        setSecurityStatus('');
+        const res = await fetch('/api/auth/totp', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'setup' }),
+        });
+        const data = await res.json();
+        if (res.ok) {
+            setTotpSetup(data);
+        } else {
+            setSecurityStatus(`❌ ${data.error || 'Setup failed'}`);
+        }
+    };
+
+    const handleTotpConfirm = async () => {
+        const enabling = !totpEnabled;
+        const res = await fetch('/api/auth/totp', {
+            method: enabling ? 'POST' : 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(enabling ? { action: 'enable', code: totpCode } : { code: totpCode }),
+        });
+        const data = await res.json();
+        if (res.ok) {
+            setTotpEnabled(!!data.enabled);
+            setTotpSetup(null);
+            setTotpCode('');
+            setSecurityStatus(data.enabled ? '✅ Two-factor enabled' : '✅ Two-factor disabled');
+        } else {
+            setSecurityStatus(`❌ ${data.error || 'Invalid code'}`);
+        }
+    };
+
+    const handleSignOut = async (everywhere: boolean) => {
+        if (everywhere && !confirm('Sign out of Inner Self on every device, including this one?')) return;
+        await fetch(everywhere ? '/api/auth?scope=all' : '/api/auth', { method: 'DELETE' });
+        window.location.href = '/login';
+    };
+
+    const fetchProfile = async () => {
+        try {
+            const res = await fetch('/api/profile');
+            const data = await res.json();
+            setProfile(data.profile || null);
+        } catch (err) {
+            console.error('Failed to fetch profile:', err);
+        }
+    };
+
+    const updateProfileField = (field: keyof UserProfile, value: string) => {
+        setProfile(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const handleSaveProfile = async () => {
+        if (!profile) return;
+        setSavingProfile(true);
+        setProfileStatus('');
+
+        try {
+            const res = await fetch('/api/profile', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    display_name: profile.display_name,
+                    age: profile.age,
+                    location: profile.location,
+                    pronouns: profile.pronouns,
+                    about: profile.about,
+                    timezone: profile.timezone,
+                }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setProfileStatus(`❌ ${data.error || 'Failed to save'}`);
+            } else {
+                setProfile(data.profile || profile);
+                setProfileStatus('✅ Saved');
+                setTimeout(() => setProfileStatus(''), 3000);
+            }
+        } catch (err) {
+            console.error('Failed to save profile:', err);
+            setProfileStatus('❌ Unexpected error');
+        } finally {
+            setSavingProfile(false);
+        }
+    };
+
     const fetchDocuments = async () => {
         try {
             const res = await fetch('/api/upload');
@@ -112,6 +639,117 @@ export default function SettingsPanel({
         }
     };
 
+    // ---- Search index (embeddings) ----
+    const fetchSearchIndex = async (): Promise<SearchIndexStatus | null> => {
+        try {
+            const res = await fetch('/api/embeddings');
+            if (!res.ok) return null;
+            const data: SearchIndexStatus = await res.json();
+            setSearchIndex(data);
+            if (data.job) drainSearchIndexRebuild();
+            return data;
+        } catch (err) {
+            console.error('Failed to fetch search index status:', err);
+            return null;
+        }
+    };
+
+    // Runs the queued reembed batches from here while the panel is open; the jobs cron finishes otherwise
+    const drainSearchIndexRebuild = async () => {
+        if (rebuildingIndexRef.current) return;
+        rebuildingIndexRef.current = true;
+        try {
+            for (;;) {
+                const run = await fetch('/api/jobs/run', { method: 'POST' });
+                const res = await fetch('/api/embeddings');
+                if (!run.ok || !res.ok) throw new Error('Rebuild paused');
+                const [{ ran }, data]: [{ ran: number }, SearchIndexStatus] = await Promise.all([run.json(), res.json()]);
+                setSearchIndex(data);
+                if (!data.job) {
+                    setSearchIndexStatus(data.current === data.total ? '✅ Search index rebuilt' : '❌ Rebuild stopped — try again');
+                    return;
+                }
+                // A failed batch waits out its retry backoff — leave it to the jobs cron
+                if (ran === 0) throw new Error('Rebuild waiting to retry');
+            }
+        } catch (err) {
+            console.error('Search index rebuild failed:', err);
+            setSearchIndexStatus('❌ Rebuild paused — it will continue in the background');
+        } finally {
+            rebuildingIndexRef.current = false;
+        }
+    };
+
+    const handleRebuildSearchIndex = async () => {
+        setSearchIndexStatus('');
+        try {
+            const res = await fetch('/api/embeddings', { method: 'POST' });
+            const data = await res.json();
+            if (!res.ok) {
+                setSearchIndexStatus(`❌ ${data.error || 'Failed to start rebuild'}`);
+                return;
+            }
+            setSearchIndex(data);
+            if (data.job) drainSearchIndexRebuild();
+        } catch (err) {
+            console.error('Search index rebuild error:', err);
+            setSearchIndexStatus('❌ Failed to start rebuild');
+        }
+    };
+
+    const handleExport = async () => {
+        setArchiveBusy(true);
+        setArchiveStatus('Preparing your archive...');
+        try {
+            const res = await fetch('/api/export');
+            if (!res.ok) {
+                const data = await res.json();
+                setArchiveStatus(`❌ ${data.error || 'Export failed'}`);
+                return;
+            }
+            const fileName = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'inner-self.zip';
+            const url = URL.createObjectURL(await res.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            URL.revokeObjectURL(url);
+            setArchiveStatus('✅ Archive downloaded');
+        } catch (err) {
+            console.error('Export error:', err);
+            setArchiveStatus('❌ Export failed');
+        } finally {
+            setArchiveBusy(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setArchiveBusy(true);
+        setArchiveStatus('Importing archive... (this can take a minute)');
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            const res = await fetch('/api/import', { method: 'POST', body: formData });
+            const data = await res.json();
+            if (res.ok) {
+                setArchiveStatus(`✅ Imported ${data.imported.raw_entries} entries from ${new Date(data.exported_at).toLocaleDateString()}`);
+                fetchDocuments();
+                fetchProfile();
+            } else {
+                setArchiveStatus(`❌ ${data.error || 'Import failed'}`);
+            }
+        } catch (err) {
+            console.error('Import error:', err);
+            setArchiveStatus('❌ Import failed');
+        } finally {
+            setArchiveBusy(false);
+        }
+    };
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) handleUpload(file);
@@ -159,6 +797,359 @@ export default function SettingsPanel({
                 </div>
 
                 <div className="settings-content">
+                    {/* Profile Section */}
+                    {profile && (
+                        <div className="settings-section">
+                            <h3>🙂 About You</h3>
+                            <p className="settings-section-desc">
+                                Every companion reads this before replying to you.
+                            </p>
+                            <div className="settings-card settings-profile-form">
+                                <input
+                                    className="settings-input"
+                                    value={profile.display_name}
+                                    onChange={(e) => updateProfileField('display_name', e.target.value)}
+                                    placeholder="Name"
+                                />
+                                <div className="settings-profile-row">
+                                    <input
+                                        className="settings-input"
+                                        type="number"
+                                        value={profile.age ?? ''}
+                                        onChange={(e) => updateProfileField('age', e.target.value)}
+                                        placeholder="Age"
+                                    />
+                                    <input
+                                        className="settings-input"
+                                        value={profile.pronouns ?? ''}
+                                        onChange={(e) => updateProfileField('pronouns', e.target.value)}
+                                        placeholder="Pronouns"
+                                    />
+                                </div>
+                                <div className="settings-profile-row">
+                                    <input
+                                        className="settings-input"
+                                        value={profile.location ?? ''}
+                                        onChange={(e) => updateProfileField('location', e.target.value)}
+                                        placeholder="Where you live"
+                                    />
+                                    <input
+                                        className="settings-input"
+                                        list="settings-timezones"
+                                        value={profile.timezone ?? ''}
+                                        onChange={(e) => updateProfileField('timezone', e.target.value)}
+                                        placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                                        title="Your timezone — used for task due dates and reminders"
+                                    />
+                                    <datalist id="settings-timezones">
+                                        {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                                    </datalist>
+                                </div>
+                                <textarea
+                                    className="settings-input"
+                                    value={profile.about ?? ''}
+                                    onChange={(e) => updateProfileField('about', e.target.value)}
+                                    placeholder="Anything you want your companions to always know about you"
+                                    rows={4}
+                                />
+                                <button
+                                    className="settings-action-btn"
+                                    onClick={handleSaveProfile}
+                                    disabled={savingProfile}
+                                >
+                                    {savingProfile ? 'Saving...' : 'Save Profile'}
+                                </button>
+                                {profileStatus && <p className="upload-result">{profileStatus}</p>}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Security Section */}
+                    <div className="settings-section">
+                        <h3>🔐 Security</h3>
+                        <div className="settings-card settings-profile-form">
+                            <p className="settings-card-text">
+                                Two-factor sign-in is {totpEnabled ? 'on' : 'off'}.
+                            </p>
+                            {totpSetup && (
+                                <p className="settings-card-text">
+                                    Add this key to your authenticator app, then enter the 6-digit code:
+                                    <br />
+                                    <code>{totpSetup.secret}</code>
+                                </p>
+                            )}
+                            {(totpSetup || totpEnabled) && (
+                                <input
+                                    className="settings-input"
+                                    inputMode="numeric"
+                                    maxLength={6}
+                                    value={totpCode}
+                                    onChange={(e) => setTotpCode(e.target.value)}
+                                    placeholder="Authenticator code"
+                                />
+                            )}
+                            {totpSetup || totpEnabled ? (
+                                <button className="settings-action-btn" onClick={handleTotpConfirm} disabled={totpCode.trim().length !== 6}>
+                                    {totpEnabled ? 'Turn Off Two-Factor' : 'Confirm & Enable'}
+                                </button>
+                            ) : (
+                                <button className="settings-action-btn" onClick={handleTotpSetup}>
+                                    Set Up Two-Factor
+                                </button>
+                            )}
+                            {securityStatus && <p className="upload-result">{securityStatus}</p>}
+                        </div>
+                        <div className="settings-card settings-profile-form">
+                            <p className="settings-card-text">
+                                Passkeys let you unlock with Face ID, Touch ID or your device PIN. Your password still works as a backup.
+                            </p>
+                            {passkeys.map((pk) => (
+                                <div key={pk.id} className="doc-item">
+                                    <span className="doc-icon">🔑</span>
+                                    <div className="doc-info">
+                                        <span className="doc-name">{pk.device_name || 'Passkey'}</span>
+                                        <span className="doc-meta">
+                                            Added {new Date(pk.created_at).toLocaleDateString()}
+                                            {pk.last_used_at && <> · last used {new Date(pk.last_used_at).toLocaleDateString()}</>}
+                                        </span>
+                                    </div>
+                                    <button className="settings-close" onClick={() => handleRemovePasskey(pk.id)}>✕</button>
+                                </div>
+                            ))}
+                            {browserSupportsWebAuthn() && (
+                                <button className="settings-action-btn" onClick={handleAddPasskey}>
+                                    Add a Passkey for This Device
+                                </button>
+                            )}
+                        </div>
+                        <button className="settings-action-btn" onClick={() => handleSignOut(false)}>
+                            Sign Out
+                        </button>
+                        <button className="settings-action-btn danger" onClick={() => handleSignOut(true)}>
+                            Sign Out All Devices
+                        </button>
+                    </div>
+
+                    {/* Encryption Section */}
+                    {vault && (
+                        <div className="settings-section">
+                            <h3>🗝️ Encryption</h3>
+                            <p className="settings-section-desc">
+                                Encrypt your entries, chats and letters with a passphrase only you know.
+                                The AI&apos;s summaries, embeddings and insights stay readable so search and reflections keep working.
+                            </p>
+                            <div className="settings-card settings-profile-form">
+                                <p className="settings-card-text">
+                                    {!vault.enabled
+                                        ? 'Encryption is off.'
+                                        : vault.unlocked
+                                            ? 'Encryption is on and unlocked in this browser.'
+                                            : 'Encryption is on. Unlock to read and write entries.'}
+                                </p>
+                                {(!vault.enabled || !vault.unlocked) && (
+                                    <input
+                                        className="settings-input"
+                                        type="password"
+                                        value={passphrase}
+                                        onChange={(e) => setPassphrase(e.target.value)}
+                                        placeholder="Passphrase"
+                                    />
+                                )}
+                                {!vault.enabled && (
+                                    <button className="settings-action-btn" onClick={() => handleVaultAction('enable')} disabled={vaultBusy || passphrase.length < 8}>
+                                        {vaultBusy ? 'Encrypting…' : 'Turn On Encryption'}
+                                    </button>
+                                )}
+                                {vault.enabled && !vault.unlocked && (
+                                    <button className="settings-action-btn" onClick={() => handleVaultAction('unlock')} disabled={vaultBusy || !passphrase}>
+                                        Unlock Journal
+                                    </button>
+                                )}
+                                {vault.enabled && vault.unlocked && (
+                                    <>
+                                        <button className="settings-action-btn" onClick={() => handleVaultAction('lock')} disabled={vaultBusy}>
+                                            Lock Now
+                                        </button>
+                                        <input
+                                            className="settings-input"
+                                            type="password"
+                                            value={passphrase}
+                                            onChange={(e) => setPassphrase(e.target.value)}
+                                            placeholder="Passphrase (to turn encryption off)"
+                                        />
+                                        <button className="settings-action-btn danger" onClick={() => handleVaultAction('disable')} disabled={vaultBusy || !passphrase}>
+                                            {vaultBusy ? 'Decrypting…' : 'Turn Off Encryption'}
+                                        </button>
+                                    </>
+                                )}
+                                {vaultStatus && <p className="upload-result">{vaultStatus}</p>}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Voice Recordings Section */}
+                    {audioSettings && (
+                        <div className="settings-section">
+                            <h3>🎙️ Voice Recordings</h3>
+                            <p className="settings-section-desc">
+                                Keep the original audio of voice dumps so you can play them back or re-transcribe them later.
+                            </p>
+                            <div className="settings-card settings-profile-form">
+                                <label className="settings-card-text">
+                                    <input
+                                        type="checkbox"
+                                        checked={audioSettings.preserve}
+                                        onChange={(e) => handleAudioSettingsChange({ preserve: e.target.checked })}
+                                    />{' '}
+                                    Keep recordings
+                                </label>
+                                <select
+                                    className="settings-input"
+                                    value={audioSettings.retention_days ?? ''}
+                                    onChange={(e) => handleAudioSettingsChange({ retention_days: e.target.value ? Number(e.target.value) : null })}
+                                    disabled={!audioSettings.preserve}
+                                >
+                                    <option value="">Keep forever</option>
+                                    {audioSettings.retention_options.map(days => (
+                                        <option key={days} value={days}>Delete after {days} days</option>
+                                    ))}
+                                </select>
+                                <p className="settings-card-text">
+                                    {audioSettings.stored_count} recording{audioSettings.stored_count === 1 ? '' : 's'} stored
+                                </p>
+                                {audioSettings.vault_enabled && audioSettings.preserve && (
+                                    <p className="settings-card-text">
+                                        Recordings aren&apos;t kept while encryption is on — only the transcript is saved.
+                                    </p>
+                                )}
+                                {audioStatus && <p className="upload-result">{audioStatus}</p>}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Notifications Section */}
+                    {notifications && (
+                        <div className="settings-section">
+                            <h3>🔔 Notifications</h3>
+                            <p className="settings-section-desc">
+                                Get alerts, reminders and anniversaries on this device, even when the app is closed.
+                            </p>
+                            <div className="settings-card settings-profile-form">
+                                {!notifications.available ? (
+                                    <p className="settings-card-text">
+                                        Push isn&apos;t set up on the server yet (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY).
+                                    </p>
+                                ) : !pushSupported() ? (
+                                    <p className="settings-card-text">
+                                        This browser can&apos;t receive notifications. On iPhone, add Inner Self to your home screen first.
+                                    </p>
+                                ) : (
+                                    <>
+                                        <p className="settings-card-text">
+                                            {pushOnThisDevice ? 'On for this device' : 'Off for this device'}
+                                            {` · ${notifications.device_count} device${notifications.device_count === 1 ? '' : 's'} subscribed`}
+                                        </p>
+                                        <button className="settings-action-btn" onClick={handleDevicePush}>
+                                            {pushOnThisDevice ? 'Turn Off Here' : 'Turn On Here'}
+                                        </button>
+                                        {notifications.device_count > 0 && (
+                                            <button className="settings-action-btn" onClick={sendTestNotification}>
+                                                Send Test
+                                            </button>
+                                        )}
+                                    </>
+                                )}
+                                <label className="settings-card-text">
+                                    <input
+                                        type="checkbox"
+                                        checked={notifications.preferences.enabled}
+                                        onChange={(e) => handleNotificationPrefs({ enabled: e.target.checked })}
+                                    />{' '}
+                                    Send notifications
+                                </label>
+                                <div className="notification-types">
+                                    {notifications.types.map(({ type, label }) => (
+                                        <label key={type} className="settings-card-text">
+                                            <input
+                                                type="checkbox"
+                                                checked={notifications.preferences.insight_types.includes(type)}
+                                                onChange={(e) => toggleInsightType(type, e.target.checked)}
+                                                disabled={!notifications.preferences.enabled}
+                                            />{' '}
+                                            {label}
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="settings-profile-row">
+                                    <label className="settings-card-text notification-quiet">
+                                        Quiet from
+                                        <input
+                                            className="settings-input"
+                                            type="time"
+                                            value={notifications.preferences.quiet_start ?? ''}
+                                            onChange={(e) => handleNotificationPrefs({ quiet_start: e.target.value || null })}
+                                        />
+                                    </label>
+                                    <label className="settings-card-text notification-quiet">
+                                        until
+                                        <input
+                                            className="settings-input"
+                                            type="time"
+                                            value={notifications.preferences.quiet_end ?? ''}
+                                            onChange={(e) => handleNotificationPrefs({ quiet_end: e.target.value || null })}
+                                        />
+                                    </label>
+                                </div>
+                                <select
+                                    className="settings-input"
+                                    value={notifications.preferences.max_per_day}
+                                    onChange={(e) => handleNotificationPrefs({ max_per_day: Number(e.target.value) })}
+                                >
+                                    {Array.from(new Set([1, 3, 5, 10, 20, notifications.preferences.max_per_day])).sort((a, b) => a - b).map(max => (
+                                        <option key={max} value={max}>At most {max} a day</option>
+                                    ))}
+                                </select>
+                                {notificationStatus && <p className="upload-result">{notificationStatus}</p>}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Calendar Feed Section */}
+                    {calendarFeed && (
+                        <div className="settings-section">
+                            <h3>📅 Calendar Feed</h3>
+                            <p className="settings-section-desc">
+                                Subscribe from Google, Apple or Outlook Calendar to see tasks with due dates, anniversaries and letter unlock days.
+                            </p>
+                            <div className="settings-card settings-profile-form">
+                                <p className="settings-card-text">
+                                    {calendarFeed.enabled
+                                        ? `On since ${new Date(calendarFeed.created_at as string).toLocaleDateString('en-IN')}. Anyone with the link can see these events.`
+                                        : 'Off.'}
+                                </p>
+                                {calendarUrl && (
+                                    <>
+                                        <input className="settings-input calendar-feed-url" value={calendarUrl} readOnly onFocus={(e) => e.target.select()} />
+                                        <p className="settings-card-text">
+                                            Copy it now — it won&apos;t be shown again.{' '}
+                                            <a href={calendarUrl.replace(/^https?:/, 'webcal:')}>Open in your calendar app</a>
+                                        </p>
+                                        <button className="settings-action-btn" onClick={copyCalendarUrl}>Copy Link</button>
+                                    </>
+                                )}
+                                <button className="settings-action-btn" onClick={() => handleCalendarFeed('create')}>
+                                    {calendarFeed.enabled ? 'New Link' : 'Turn On'}
+                                </button>
+                                {calendarFeed.enabled && (
+                                    <button className="settings-action-btn" onClick={() => handleCalendarFeed('revoke')}>
+                                        Turn Off
+                                    </button>
+                                )}
+                                {calendarStatus && <p className="upload-result">{calendarStatus}</p>}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Onboarding Section */}
                     {showResumeOnboarding && (
                         <div className="settings-section">
@@ -188,6 +1179,83 @@ export default function SettingsPanel({
                         </div>
                     )}
 
+                    {/* Data Section */}
+                    <div className="settings-section">
+                        <h3>📦 Your Data</h3>
+                        <p className="settings-section-desc">
+                            Download everything as a zip (JSON, a Markdown file per entry, and CSVs), or restore an archive into a new account.
+                        </p>
+                        <input
+                            ref={archiveInputRef}
+                            type="file"
+                            accept=".zip,application/zip"
+                            onChange={handleImport}
+                            hidden
+                        />
+                        <button className="settings-action-btn" onClick={handleExport} disabled={archiveBusy}>
+                            Export All Data
+                        </button>
+                        <button className="settings-action-btn" onClick={() => archiveInputRef.current?.click()} disabled={archiveBusy}>
+                            Import an Archive
+                        </button>
+                        {archiveStatus && <p className="upload-result">{archiveStatus}</p>}
+                        <div className="settings-card settings-profile-form">
+                            <p className="settings-card-text">
+                                Bring in your old journal. Entries keep their original dates and are analyzed a few at a time.
+                            </p>
+                            <select
+                                className="settings-input"
+                                value={journalSource}
+                                onChange={(e) => setJournalSource(e.target.value)}
+                                disabled={!!drainingImportRef.current}
+                            >
+                                {JOURNAL_IMPORT_SOURCES.map(source => (
+                                    <option key={source.value} value={source.value}>{source.label}</option>
+                                ))}
+                            </select>
+                            <input
+                                ref={journalInputRef}
+                                type="file"
+                                multiple
+                                accept={JOURNAL_IMPORT_SOURCES.find(source => source.value === journalSource)?.accept}
+                                onChange={handleJournalImport}
+                                hidden
+                            />
+                            <button
+                                className="settings-action-btn"
+                                onClick={() => journalInputRef.current?.click()}
+                                disabled={!!journalImport && journalImport.status !== 'completed'}
+                            >
+                                Choose Files to Import
+                            </button>
+                            {journalImport && journalImport.status !== 'completed' && (
+                                <p className="settings-card-text">
+                                    {journalImport.total - journalImport.pending} / {journalImport.total} processed
+                                    {journalImport.skipped > 0 && <> · {journalImport.skipped} duplicates</>}
+                                    {journalImport.failed > 0 && <> · {journalImport.failed} failed</>}
+                                </p>
+                            )}
+                            {journalStatus && <p className="upload-result">{journalStatus}</p>}
+                        </div>
+                        {searchIndex && searchIndex.total > 0 && (
+                            <div className="settings-card settings-profile-form">
+                                <p className="settings-card-text">
+                                    Search index: {searchIndex.current} / {searchIndex.total} entries on {searchIndex.model}
+                                </p>
+                                {searchIndex.current < searchIndex.total && (
+                                    <button
+                                        className="settings-action-btn"
+                                        onClick={handleRebuildSearchIndex}
+                                        disabled={!!searchIndex.job}
+                                    >
+                                        {searchIndex.job ? 'Rebuilding…' : 'Rebuild Search Index'}
+                                    </button>
+                                )}
+                                {searchIndexStatus && <p className="upload-result">{searchIndexStatus}</p>}
+                            </div>
+                        )}
+                    </div>
+
                     {/* Upload Section */}
                     <div className="settings-section">
                         <h3>📎 Upload Documents</h3>
@@ -1,33 +1,171 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import type { Task as TaskRow, TaskPriority, TaskStatus } from '@/types';
 
-interface Task {
-    id: string;
-    entry_id: string;
-    title: string;
-    content: string;
-    task_status: string;
-    task_due_date: string | null;
-    mood_score: number;
-    category: string;
-    surface_emotion: string;
-    deeper_emotion: string;
-    core_need: string;
-    energy_level: number;
-    identity_persona: string;
-    body_signals: string[];
-    triggers: string[];
+interface Task extends TaskRow {
+    surface_emotion: string | null;
+    deeper_emotion: string | null;
+    core_need: string | null;
     people_mentioned: { name: string; sentiment: string }[];
-    created_at: string;
     age_days: number;
+    is_snoozed: boolean;
     is_stale: boolean;
 }
 
+interface TaskDraft {
+    title: string;
+    notes: string;
+    priority: TaskPriority;
+    due_date: string;
+    due_time: string; // HH:MM or ''
+    recurrence: string; // '' | preset | 'custom'
+    rrule: string;
+}
+
+const PRIORITIES: TaskPriority[] = ['urgent', 'high', 'normal', 'low'];
+const PRIORITY_RANK: Record<TaskPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+const RECURRENCE_PRESETS = ['daily', 'weekly', 'monthly', 'yearly'];
+const SNOOZE_OPTIONS: { label: string; days: number }[] = [
+    { label: 'Until tomorrow', days: 1 },
+    { label: 'For 3 days', days: 3 },
+    { label: 'For a week', days: 7 },
+];
+
+const EMPTY_DRAFT: TaskDraft = { title: '', notes: '', priority: 'normal', due_date: '', due_time: '', recurrence: '', rrule: '' };
+
+function draftFrom(task: Task): TaskDraft {
+    const preset = task.recurrence && RECURRENCE_PRESETS.includes(task.recurrence);
+    return {
+        title: task.title,
+        notes: task.notes || '',
+        priority: task.priority,
+        due_date: task.due_date || '',
+        due_time: task.due_time ? task.due_time.slice(0, 5) : '',
+        recurrence: !task.recurrence ? '' : preset ? task.recurrence : 'custom',
+        rrule: task.recurrence && !preset ? task.recurrence : '',
+    };
+}
+
+function draftBody(draft: TaskDraft) {
+    return {
+        title: draft.title.trim(),
+        notes: draft.notes.trim() || null,
+        priority: draft.priority,
+        due_date: draft.due_date || null,
+        due_time: draft.due_date && draft.due_time ? draft.due_time : null,
+        recurrence: draft.recurrence === 'custom' ? draft.rrule.trim() || null : draft.recurrence || null,
+    };
+}
+
+function describeRecurrence(recurrence: string): string {
+    if (RECURRENCE_PRESETS.includes(recurrence)) return recurrence.charAt(0).toUpperCase() + recurrence.slice(1);
+    return recurrence.replace(/^RRULE:/, '');
+}
+
+function formatDue(task: Task): string {
+    return `${formatDay(task.due_date as string)}${task.due_time ? `, ${task.due_time.slice(0, 5)}` : ''}`;
+}
+
+function formatDay(date: string): string {
+    return new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+}
+
+// 8am local, `days` from today
+function snoozeUntil(days: number): string {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    until.setHours(8, 0, 0, 0);
+    return until.toISOString();
+}
+
+function TaskForm({ draft, onChange, onSubmit, onCancel, submitLabel }: {
+    draft: TaskDraft;
+    onChange: (draft: TaskDraft) => void;
+    onSubmit: () => void;
+    onCancel?: () => void;
+    submitLabel: string;
+}) {
+    return (
+        <form
+            className="task-form"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (draft.title.trim()) onSubmit();
+            }}
+        >
+            <input
+                className="task-form-title"
+                value={draft.title}
+                onChange={(e) => onChange({ ...draft, title: e.target.value })}
+                placeholder="Add a task..."
+            />
+            {(draft.title || onCancel) && (
+                <>
+                    <textarea
+                        className="task-form-notes"
+                        value={draft.notes}
+                        onChange={(e) => onChange({ ...draft, notes: e.target.value })}
+                        placeholder="Notes (optional)"
+                        rows={2}
+                    />
+                    <div className="task-form-row">
+                        <select value={draft.priority} onChange={(e) => onChange({ ...draft, priority: e.target.value as TaskPriority })}>
+                            {PRIORITIES.map((p) => (
+                                <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)} priority</option>
+                            ))}
+                        </select>
+                        <input
+                            type="date"
+                            value={draft.due_date}
+                            onChange={(e) => onChange({ ...draft, due_date: e.target.value })}
+                            aria-label="Due date"
+                        />
+                        {draft.due_date && (
+                            <input
+                                type="time"
+                                value={draft.due_time}
+                                onChange={(e) => onChange({ ...draft, due_time: e.target.value })}
+                                aria-label="Due time"
+                            />
+                        )}
+                        <select value={draft.recurrence} onChange={(e) => onChange({ ...draft, recurrence: e.target.value })}>
+                            <option value="">Doesn&apos;t repeat</option>
+                            {RECURRENCE_PRESETS.map((r) => (
+                                <option key={r} value={r}>{describeRecurrence(r)}</option>
+                            ))}
+                            <option value="custom">Custom (RRULE)...</option>
+                        </select>
+                    </div>
+                    {draft.recurrence === 'custom' && (
+                        <input
+                            className="task-form-rrule"
+                            value={draft.rrule}
+                            onChange={(e) => onChange({ ...draft, rrule: e.target.value })}
+                            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                        />
+                    )}
+                    <div className="task-form-actions">
+                        {onCancel && (
+                            <button type="button" className="entry-action-btn" onClick={onCancel}>Cancel</button>
+                        )}
+                        <button type="submit" className="entry-action-btn edit" disabled={!draft.title.trim()}>{submitLabel}</button>
+                    </div>
+                </>
+            )}
+        </form>
+    );
+}
+
 export default function TasksView() {
     const [tasks, setTasks] = useState<Task[]>([]);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState<'all' | 'pending' | 'done' | 'stale'>('all');
+    const [filter, setFilter] = useState<'all' | 'pending' | 'done' | 'stale' | 'snoozed'>('all');
+    const [newTask, setNewTask] = useState<TaskDraft>(EMPTY_DRAFT);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState<TaskDraft>(EMPTY_DRAFT);
+    const [subtaskDrafts, setSubtaskDrafts] = useState<Record<string, string>>({});
+    const [error, setError] = useState('');
 
     useEffect(() => {
         fetchTasks();
@@ -35,9 +173,9 @@ export default function TasksView() {
 
     const fetchTasks = async () => {
         try {
-            const response = await fetch('/api/entries?type=tasks&limit=100');
+            const response = await fetch('/api/tasks');
             const data = await response.json();
-            setTasks(data.entries || []);
+            setTasks(data.tasks || []);
         } catch (error) {
             console.error('Failed to fetch tasks:', error);
         } finally {
@@ -45,32 +183,101 @@ export default function TasksView() {
         }
     };
 
-    const updateTaskStatus = async (id: string, status: 'pending' | 'done' | 'cancelled') => {
+    const send = async (method: 'POST' | 'PATCH', body: Record<string, unknown>): Promise<boolean> => {
+        setError('');
         try {
-            await fetch('/api/entries', {
-                method: 'PATCH',
+            const res = await fetch('/api/tasks', {
+                method,
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ id, task_status: status }),
+                body: JSON.stringify(body),
             });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save task');
+                return false;
+            }
+            await fetchTasks();
+            return true;
+        } catch (error) {
+            console.error('Failed to save task:', error);
+            setError('Failed to save task');
+            return false;
+        }
+    };
 
-            setTasks((prev) =>
-                prev.map((t) => (t.id === id ? { ...t, task_status: status } : t))
-            );
+    const updateTaskStatus = async (task: Task, status: TaskStatus) => {
+        // Recurring tasks come back with their next occurrence, so refetch those
+        if (task.recurrence && status === 'done') {
+            await send('PATCH', { id: task.id, status });
+            return;
+        }
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, status } : t)));
+        try {
+            await fetch('/api/tasks', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: task.id, status }),
+            });
         } catch (error) {
             console.error('Failed to update task:', error);
+            fetchTasks();
+        }
+    };
+
+    const handleCreate = async () => {
+        if (await send('POST', draftBody(newTask))) setNewTask(EMPTY_DRAFT);
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editingId) return;
+        if (await send('PATCH', { id: editingId, ...draftBody(editDraft) })) setEditingId(null);
+    };
+
+    const handleAddSubtask = async (parentId: string) => {
+        const title = (subtaskDrafts[parentId] || '').trim();
+        if (!title) return;
+        if (await send('POST', { title, parent_id: parentId })) {
+            setSubtaskDrafts((prev) => ({ ...prev, [parentId]: '' }));
+        }
+    };
+
+    const handleDelete = async (task: Task) => {
+        if (!confirm(`Delete "${task.title}"${task.parent_id ? '' : ' and its subtasks'}?`)) return;
+        setTasks((prev) => prev.filter((t) => t.id !== task.id && t.parent_id !== task.id));
+        try {
+            await fetch(`/api/tasks?id=${task.id}`, { method: 'DELETE' });
+        } catch (error) {
+            console.error('Failed to delete task:', error);
+            fetchTasks();
         }
     };
 
-    const filteredTasks = tasks.filter((t) => {
-        if (filter === 'pending') return t.task_status === 'pending';
-        if (filter === 'done') return t.task_status === 'done' || t.task_status === 'cancelled';
-        if (filter === 'stale') return t.is_stale;
-        return true;
-    });
+    const topLevel = tasks.filter((t) => !t.parent_id);
+    const subtasksOf = (id: string) => tasks.filter((t) => t.parent_id === id).sort((a, b) => a.position - b.position);
+
+    const filteredTasks = topLevel
+        .filter((t) => {
+            if (filter === 'pending') return t.status === 'pending' && !t.is_snoozed;
+            if (filter === 'done') return t.status === 'done' || t.status === 'cancelled';
+            if (filter === 'stale') return t.is_stale;
+            if (filter === 'snoozed') return t.status === 'pending' && t.is_snoozed;
+            return true;
+        })
+        .sort((a, b) => {
+            if (a.status !== b.status) return a.status === 'pending' ? -1 : 1;
+            if (a.status !== 'pending') return 0;
+            return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+                || (a.due_date || '9999').localeCompare(b.due_date || '9999')
+                || (a.due_time || '99').localeCompare(b.due_time || '99');
+        });
 
-    const pendingCount = tasks.filter((t) => t.task_status === 'pending').length;
-    const doneCount = tasks.filter((t) => t.task_status === 'done' || t.task_status === 'cancelled').length;
-    const staleCount = tasks.filter((t) => t.is_stale).length;
+    const pendingCount = topLevel.filter((t) => t.status === 'pending' && !t.is_snoozed).length;
+    const doneCount = topLevel.filter((t) => t.status === 'done' || t.status === 'cancelled').length;
+    const staleCount = topLevel.filter((t) => t.is_stale).length;
+    const snoozedCount = topLevel.filter((t) => t.status === 'pending' && t.is_snoozed).length;
+    const now = new Date();
+    const today = now.toLocaleDateString('en-CA'); // YYYY-MM-DD, local
+    const nowTime = now.toTimeString().slice(0, 5); // HH:MM, local
 
     if (loading) {
         return (
@@ -94,20 +301,25 @@ export default function TasksView() {
                 </div>
             </div>
 
+            <TaskForm draft={newTask} onChange={setNewTask} onSubmit={handleCreate} submitLabel="Add Task" />
+            {error && <p className="task-error">{error}</p>}
+
             <div className="tasks-filter">
-                {(['all', 'pending', 'stale', 'done'] as const).map((f) => (
+                {(['all', 'pending', 'stale', 'snoozed', 'done'] as const).map((f) => (
                     <button
                         key={f}
                         className={`filter-btn ${filter === f ? 'active' : ''}`}
                         onClick={() => setFilter(f)}
                     >
-                        {f === 'stale' ? `⚠️ Stale (${staleCount})` : f.charAt(0).toUpperCase() + f.slice(1)}
+                        {f === 'stale' ? `⚠️ Stale (${staleCount})` :
+                            f === 'snoozed' ? `💤 Snoozed (${snoozedCount})` :
+                                f.charAt(0).toUpperCase() + f.slice(1)}
                     </button>
                 ))}
             </div>
 
             {/* Staleness Warning Banner */}
-            {staleCount > 0 && filter !== 'done' && (
+            {staleCount > 0 && filter !== 'done' && filter !== 'snoozed' && (
                 <div className="stale-warning-banner">
                     ⚠️ {staleCount} task{staleCount > 1 ? 's have' : ' has'} been pending for over 14 days. What&apos;s blocking you?
                 </div>
@@ -120,87 +332,174 @@ export default function TasksView() {
                         {filter === 'pending' ? 'No pending tasks!' :
                             filter === 'done' ? 'No completed tasks yet' :
                                 filter === 'stale' ? 'No stale tasks — nice!' :
-                                    'No tasks yet'}
+                                    filter === 'snoozed' ? 'Nothing snoozed' :
+                                        'No tasks yet'}
                     </h3>
-                    <p>Tasks are automatically extracted from your brain dumps.</p>
+                    <p>Add one above, or just mention it in a brain dump.</p>
                 </div>
             ) : (
                 <div className="tasks-list">
-                    {filteredTasks.map((task) => (
-                        <div
-                            key={task.id}
-                            className={`task-card ${task.task_status === 'done' ? 'completed' : ''} ${task.task_status === 'cancelled' ? 'cancelled' : ''}`}
-                            style={task.is_stale ? { borderLeft: '3px solid #F97316' } : undefined}
-                        >
-                            <div className="task-checkbox-area">
-                                <button
-                                    className={`task-checkbox ${task.task_status === 'done' ? 'checked' : ''}`}
-                                    onClick={() =>
-                                        updateTaskStatus(task.id, task.task_status === 'done' ? 'pending' : 'done')
-                                    }
-                                >
-                                    {task.task_status === 'done' && (
-                                        <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
-                                            <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
-                                        </svg>
-                                    )}
-                                </button>
-                            </div>
+                    {filteredTasks.map((task) => {
+                        const subtasks = subtasksOf(task.id);
+                        const subtasksDone = subtasks.filter((s) => s.status === 'done').length;
+                        const isOverdue = task.status === 'pending' && !!task.due_date
+                            && (task.due_date < today || (task.due_date === today && !!task.due_time && task.due_time.slice(0, 5) < nowTime));
 
-                            <div className="task-content">
-                                <h3 className="task-title">{task.title}</h3>
-                                <p className="task-description">{task.content}</p>
+                        if (editingId === task.id) {
+                            return (
+                                <div key={task.id} className="task-card editing">
+                                    <TaskForm
+                                        draft={editDraft}
+                                        onChange={setEditDraft}
+                                        onSubmit={handleSaveEdit}
+                                        onCancel={() => setEditingId(null)}
+                                        submitLabel="Save"
+                                    />
+                                </div>
+                            );
+                        }
 
-                                {/* Emotional Context */}
-                                {task.surface_emotion && task.task_status === 'pending' && (
-                                    <p className="task-emotion-context">
-                                        Feeling: {task.surface_emotion}{task.deeper_emotion ? ` → ${task.deeper_emotion}` : ''}
-                                        {task.core_need ? ` · Need: ${task.core_need}` : ''}
-                                    </p>
-                                )}
+                        return (
+                            <div
+                                key={task.id}
+                                className={`task-card ${task.status === 'done' ? 'completed' : ''} ${task.status === 'cancelled' ? 'cancelled' : ''} priority-${task.priority}`}
+                                style={task.is_stale ? { borderLeft: '3px solid #F97316' } : undefined}
+                            >
+                                <div className="task-checkbox-area">
+                                    <button
+                                        className={`task-checkbox ${task.status === 'done' ? 'checked' : ''}`}
+                                        onClick={() => updateTaskStatus(task, task.status === 'pending' ? 'done' : 'pending')}
+                                    >
+                                        {task.status === 'done' && (
+                                            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                                                <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+                                            </svg>
+                                        )}
+                                    </button>
+                                </div>
 
-                                <div className="task-meta">
-                                    {task.task_due_date && (
-                                        <span className="task-due">
-                                            📅 {new Date(task.task_due_date).toLocaleDateString('en-IN', {
-                                                day: 'numeric', month: 'short',
-                                            })}
-                                        </span>
-                                    )}
-                                    <span className="task-created">
-                                        {new Date(task.created_at).toLocaleDateString('en-IN', {
-                                            day: 'numeric', month: 'short',
-                                        })}
-                                    </span>
-                                    {task.age_days > 0 && (
-                                        <span className={`task-age${task.is_stale ? ' stale' : ''}`}>
-                                            · {task.age_days}d ago
-                                        </span>
-                                    )}
-                                    {task.is_stale && (
-                                        <span className="task-stale-label">
-                                            · ⚠️ STALE
-                                        </span>
+                                <div className="task-content">
+                                    <h3 className="task-title">
+                                        {task.priority !== 'normal' && (
+                                            <span className={`task-priority ${task.priority}`}>{task.priority}</span>
+                                        )}
+                                        {task.title}
+                                    </h3>
+                                    {task.notes && <p className="task-description">{task.notes}</p>}
+
+                                    {/* Emotional Context */}
+                                    {task.surface_emotion && task.status === 'pending' && (
+                                        <p className="task-emotion-context">
+                                            Feeling: {task.surface_emotion}{task.deeper_emotion ? ` → ${task.deeper_emotion}` : ''}
+                                            {task.core_need ? ` · Need: ${task.core_need}` : ''}
+                                        </p>
                                     )}
-                                    {task.people_mentioned?.length > 0 && (
-                                        <span className="task-people">
-                                            · {task.people_mentioned.map(p => p.name).join(', ')}
-                                        </span>
+
+                                    <div className="task-meta">
+                                        {task.due_date && (
+                                            <span className={`task-due${isOverdue ? ' overdue' : ''}`}>
+                                                📅 {formatDue(task)}{isOverdue ? ' · overdue' : ''}
+                                            </span>
+                                        )}
+                                        {task.recurrence && (
+                                            <span className="task-recurrence">🔁 {describeRecurrence(task.recurrence)}</span>
+                                        )}
+                                        {task.is_snoozed && task.snoozed_until && (
+                                            <span className="task-snoozed">💤 until {formatDay(task.snoozed_until)}</span>
+                                        )}
+                                        <span className="task-created">{formatDay(task.created_at)}</span>
+                                        {task.age_days > 0 && (
+                                            <span className={`task-age${task.is_stale ? ' stale' : ''}`}>
+                                                · {task.age_days}d ago
+                                            </span>
+                                        )}
+                                        {task.is_stale && (
+                                            <span className="task-stale-label">
+                                                · ⚠️ STALE
+                                            </span>
+                                        )}
+                                        {task.people_mentioned?.length > 0 && (
+                                            <span className="task-people">
+                                                · {task.people_mentioned.map(p => p.name).join(', ')}
+                                            </span>
+                                        )}
+                                        {subtasks.length > 0 && (
+                                            <span className="task-subtask-count">· {subtasksDone}/{subtasks.length} subtasks</span>
+                                        )}
+                                    </div>
+
+                                    {(subtasks.length > 0 || task.status === 'pending') && (
+                                        <div className="task-subtasks">
+                                            {subtasks.map((subtask) => (
+                                                <div key={subtask.id} className={`task-subtask${subtask.status === 'done' ? ' completed' : ''}`}>
+                                                    <button
+                                                        className={`task-checkbox small ${subtask.status === 'done' ? 'checked' : ''}`}
+                                                        onClick={() => updateTaskStatus(subtask, subtask.status === 'pending' ? 'done' : 'pending')}
+                                                    >
+                                                        {subtask.status === 'done' && '✓'}
+                                                    </button>
+                                                    <span className="task-subtask-title">{subtask.title}</span>
+                                                    <button className="task-subtask-delete" onClick={() => handleDelete(subtask)} title="Delete subtask">×</button>
+                                                </div>
+                                            ))}
+                                            {task.status === 'pending' && (
+                                                <input
+                                                    className="task-subtask-input"
+                                                    value={subtaskDrafts[task.id] || ''}
+                                                    onChange={(e) => setSubtaskDrafts((prev) => ({ ...prev, [task.id]: e.target.value }))}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') handleAddSubtask(task.id);
+                                                    }}
+                                                    placeholder="+ Add subtask"
+                                                />
+                                            )}
+                                        </div>
                                     )}
+
+                                    <div className="task-actions">
+                                        <button
+                                            className="task-action-btn"
+                                            onClick={() => {
+                                                setEditingId(task.id);
+                                                setEditDraft(draftFrom(task));
+                                            }}
+                                        >
+                                            ✏️ Edit
+                                        </button>
+                                        {task.status === 'pending' && (task.is_snoozed ? (
+                                            <button className="task-action-btn" onClick={() => send('PATCH', { id: task.id, snoozed_until: null })}>
+                                                ⏰ Wake
+                                            </button>
+                                        ) : (
+                                            <select
+                                                className="task-action-btn"
+                                                value=""
+                                                onChange={(e) => send('PATCH', { id: task.id, snoozed_until: snoozeUntil(Number(e.target.value)) })}
+                                            >
+                                                <option value="" disabled>💤 Snooze</option>
+                                                {SNOOZE_OPTIONS.map((option) => (
+                                                    <option key={option.days} value={option.days}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                        ))}
+                                        <button className="task-action-btn danger" onClick={() => handleDelete(task)}>
+                                            🗑️ Delete
+                                        </button>
+                                    </div>
                                 </div>
-                            </div>
 
-                            {task.task_status === 'pending' && (
-                                <button
-                                    className="task-cancel"
-                                    onClick={() => updateTaskStatus(task.id, 'cancelled')}
-                                    title="Cancel task"
-                                >
-                                    ×
-                                </button>
-                            )}
-                        </div>
-                    ))}
+                                {task.status === 'pending' && (
+                                    <button
+                                        className="task-cancel"
+                                        onClick={() => updateTaskStatus(task, 'cancelled')}
+                                        title="Cancel task"
+                                    >
+                                        ×
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
                 </div>
             )}
         </div>
@@ -5,13 +5,15 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 interface VoiceRecorderProps {
     onTranscript: (text: string) => void;
     onRecordingChange: (isRecording: boolean) => void;
-    onAudioBlob?: (blob: Blob) => void; // New: pass audio blob for Whisper + Storage
+    onAudioBlob?: (blob: Blob, durationSec: number) => void; // recording for Whisper + storage, with its length
+    autoStart?: boolean; // start listening on mount ("Quick voice dump" shortcut)
 }
 
 export default function VoiceRecorder({
     onTranscript,
     onRecordingChange,
     onAudioBlob,
+    autoStart = false,
 }: VoiceRecorderProps) {
     const [isRecording, setIsRecording] = useState(false);
     const [transcript, setTranscript] = useState('');
@@ -22,6 +24,7 @@ export default function VoiceRecorder({
     const audioChunksRef = useRef<Blob[]>([]);
     const fullTranscriptRef = useRef('');
     const isRecordingRef = useRef(false);
+    const recordingStartedRef = useRef(0);
 
     useEffect(() => {
         const SpeechRecognition =
@@ -125,18 +128,27 @@ export default function VoiceRecorder({
 
                 const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
                 if (audioBlob.size > 0 && onAudioBlob) {
-                    console.log(`[VoiceRecorder] Audio captured: ${(audioBlob.size / 1024).toFixed(1)}KB`);
-                    onAudioBlob(audioBlob);
+                    const durationSec = (Date.now() - recordingStartedRef.current) / 1000;
+                    console.log(`[VoiceRecorder] Audio captured: ${(audioBlob.size / 1024).toFixed(1)}KB, ${durationSec.toFixed(1)}s`);
+                    onAudioBlob(audioBlob, durationSec);
                 }
             };
 
             mediaRecorder.start(1000); // Collect data every second
+            recordingStartedRef.current = Date.now();
             mediaRecorderRef.current = mediaRecorder;
         } catch (err) {
             console.warn('[VoiceRecorder] MediaRecorder not available, continuing with SpeechRecognition only:', err);
         }
     }, [onRecordingChange, onAudioBlob]);
 
+    const autoStartedRef = useRef(false);
+    useEffect(() => {
+        if (!autoStart || autoStartedRef.current || !recognitionRef.current) return;
+        autoStartedRef.current = true;
+        startRecording();
+    }, [autoStart, startRecording]);
+
     const stopRecording = useCallback(() => {
         if (!recognitionRef.current) return;
 
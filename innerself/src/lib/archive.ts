@@ -0,0 +1,346 @@
+// ============================================================
+// INNER SELF — Portable Archive (export / import)
+//
+// One zip per account:
+//   manifest.json            format, version, counts, profile
+//   data/<table>.json        every row of every data table (no user_id)
+//   entries/<date>-<id>.md   one readable Markdown file per entry
+//   csv/<table>.csv          spreadsheet-friendly copies of a few tables
+//
+// Import replays data/*.json into the signed-in account with fresh
+// ids, rewriting every reference (entry_id, source_entry_ids, ...)
+// through an old → new id map. A failed import is rolled back.
+// Markdown and CSV are for humans only.
+//
+// Vault-encrypted text is exported decrypted (the archive is the
+// user's copy) and re-sealed with the importing account's vault.
+// Letters that are still time-locked stay time-locked.
+// ============================================================
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { getUserSupabase } from './supabase';
+import { getUserProfile } from './auth';
+import type { Vault } from './vault';
+import { isTimeLocked } from './timelock';
+
+export const ARCHIVE_FORMAT = 'inner-self-archive';
+export const ARCHIVE_VERSION = 1;
+
+type Row = Record<string, unknown>;
+
+interface ArchiveTable {
+    table: string;
+    /** Columns holding a single id from another archived table */
+    refs?: Record<string, string>;
+    /** Columns holding an array of ids from another archived table */
+    arrayRefs?: Record<string, string>;
+    /** Tables keyed by something other than `id` (upserted on this key) */
+    conflictKey?: string;
+    /** Embedding vectors are big — insert in smaller batches */
+    batchSize?: number;
+}
+
+// Parents before children so references resolve on import
+const ARCHIVE_TABLES: ArchiveTable[] = [
+    { table: 'raw_entries' },
+    { table: 'uploaded_documents' },
+    { table: 'extracted_entities', refs: { entry_id: 'raw_entries' } },
+    { table: 'embeddings', refs: { entry_id: 'raw_entries', document_id: 'uploaded_documents' }, batchSize: 50 },
+    { table: 'people_map' },
+    { table: 'life_events_timeline', arrayRefs: { source_entry_ids: 'raw_entries' } },
+    { table: 'user_persona_summary' },
+    { table: 'chat_threads' },
+    { table: 'conversations', refs: { thread_id: 'chat_threads' }, arrayRefs: { context_entry_ids: 'raw_entries' } },
+    { table: 'insights', refs: { source_entry_id: 'raw_entries' }, arrayRefs: { related_entry_ids: 'raw_entries' } },
+    { table: 'weekly_reports' },
+    { table: 'void_tracker' },
+    { table: 'temporal_markers' },
+    { table: 'belief_system' },
+    { table: 'dreams', refs: { entry_id: 'raw_entries', source_entry_id: 'raw_entries' } },
+    { table: 'courage_log', refs: { entry_id: 'raw_entries', source_entry_id: 'raw_entries' } },
+    { table: 'self_talk_daily' },
+    { table: 'deepening_questions' },
+    { table: 'onboarding_answers' },
+    { table: 'letters_to_future' },
+    { table: 'tasks', refs: { parent_id: 'tasks', source_entry_id: 'raw_entries', completed_entry_id: 'raw_entries' } },
+    { table: 'health_metrics', refs: { source_entry_id: 'raw_entries', source_doc_id: 'uploaded_documents' } },
+    { table: 'app_config', conflictKey: 'user_id,key' },
+];
+
+const CSV_EXPORTS: { table: string; columns: string[]; rows?: (data: Record<string, Row[]>) => Row[] }[] = [
+    { table: 'health_metrics', columns: ['measured_at', 'metric_name', 'value', 'unit', 'status', 'source_type', 'notes'] },
+    { table: 'people_map', columns: ['name', 'relationship', 'mention_count', 'sentiment_avg', 'first_mentioned', 'last_mentioned', 'notes', 'tags'] },
+    { table: 'life_events_timeline', columns: ['event_date', 'title', 'description', 'significance', 'chapter', 'category', 'emotions', 'people_involved'] },
+    { table: 'tasks', columns: ['created_at', 'title', 'status', 'priority', 'due_date', 'due_time', 'recurrence', 'completed_at', 'notes'], rows: taskCsvRows },
+];
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+const DELETE_BATCH_SIZE = 100; // ids per delete, kept short enough for the query string
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exported_at: string;
+    profile: { username: string; display_name: string } | null;
+    tables: Record<string, number>;
+}
+
+export class ArchiveFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ArchiveFormatError';
+    }
+}
+
+function withoutColumns(row: Row, ...columns: string[]): Row {
+    const copy = { ...row };
+    for (const column of columns) delete copy[column];
+    return copy;
+}
+
+// ---- Export ----
+async function fetchAllRows(userId: string, table: string, orderBy: string): Promise<Row[]> {
+    const supabase = getUserSupabase(userId);
+    const rows: Row[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from(table)
+            .select('*')
+            .order(orderBy, { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) throw new Error(`Failed to export ${table}: ${error.message}`);
+        if (!data || data.length === 0) break;
+        rows.push(...data);
+        if (data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+}
+
+function openVaultColumns(table: string, row: Row, vault: Vault): Row {
+    if (table === 'raw_entries') {
+        // text_hmac is keyed to this account's vault — recomputed on import
+        return { ...withoutColumns(row, 'text_hmac'), raw_text: vault.open(row.raw_text as string) };
+    }
+    if (table === 'conversations') return { ...row, content: vault.open(row.content as string) };
+    if (table === 'chat_threads') return { ...row, title: vault.open(row.title as string | null) };
+    if (table === 'letters_to_future' && !isTimeLocked(row.letter_text)) {
+        return { ...row, letter_text: vault.open(row.letter_text as string), vault_sealed: false };
+    }
+    return row;
+}
+
+export async function buildArchive(userId: string, vault: Vault): Promise<{ zip: Buffer; manifest: ArchiveManifest }> {
+    const zip = new JSZip();
+    const data: Record<string, Row[]> = {};
+
+    for (const { table, conflictKey } of ARCHIVE_TABLES) {
+        const rows = await fetchAllRows(userId, table, conflictKey ? 'key' : 'id');
+        data[table] = rows.map(row => openVaultColumns(table, withoutColumns(row, 'user_id'), vault));
+        zip.file(`data/${table}.json`, JSON.stringify(data[table], null, 2));
+    }
+
+    for (const { table, columns, rows } of CSV_EXPORTS) {
+        zip.file(`csv/${table}.csv`, toCsv(rows ? rows(data) : data[table], columns));
+    }
+
+    const entitiesByEntry = new Map<string, Row>();
+    for (const entity of data.extracted_entities) entitiesByEntry.set(entity.entry_id as string, entity);
+    for (const entry of data.raw_entries) {
+        if (entry.deleted_at) continue;
+        const date = String(entry.created_at).substring(0, 10);
+        zip.file(`entries/${date}-${String(entry.id).substring(0, 8)}.md`, entryMarkdown(entry, entitiesByEntry.get(entry.id as string)));
+    }
+
+    const profile = await getUserProfile(userId);
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        profile: profile ? { username: profile.username, display_name: profile.display_name } : null,
+        tables: Object.fromEntries(Object.entries(data).map(([table, rows]) => [table, rows.length])),
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return { zip: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), manifest };
+}
+
+function entryMarkdown(entry: Row, entity: Row | undefined): string {
+    const lines = [
+        `# ${entity?.title || 'Journal entry'}`,
+        '',
+        `- **Date:** ${entry.created_at}`,
+        `- **Source:** ${entry.source}`,
+    ];
+    if (entity?.category) lines.push(`- **Category:** ${entity.category}`);
+    if (entity?.mood_score) lines.push(`- **Mood:** ${entity.mood_score}/10`);
+    lines.push('', String(entry.raw_text ?? ''));
+    if (entity?.ai_response) lines.push('', '---', '', '## Reflection', '', String(entity.ai_response));
+    return lines.join('\n') + '\n';
+}
+
+// Tasks table rows, plus tasks extracted from entries that never got a
+// row of their own (written before migration v19, or imported from an
+// archive that predates it)
+function taskCsvRows(data: Record<string, Row[]>): Row[] {
+    const linkedEntries = new Set(data.tasks.map(task => task.source_entry_id).filter(Boolean));
+    const deletedEntries = new Set(data.raw_entries.filter(entry => entry.deleted_at).map(entry => entry.id));
+    const extracted = data.extracted_entities
+        .filter(entity => entity.is_task && !linkedEntries.has(entity.entry_id) && !deletedEntries.has(entity.entry_id))
+        .map(entity => ({
+            created_at: entity.created_at,
+            title: entity.title,
+            status: entity.task_status || 'pending',
+            priority: 'normal',
+            due_date: entity.task_due_date,
+            notes: entity.content,
+        }));
+    return [...data.tasks, ...extracted];
+}
+
+function toCsv(rows: Row[], columns: string[]): string {
+    const escape = (value: unknown): string => {
+        if (value === null || value === undefined) return '';
+        const text = Array.isArray(value) ? value.join('; ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...rows.map(row => columns.map(col => escape(row[col])).join(','))].join('\n') + '\n';
+}
+
+// ---- Import ----
+export async function readArchive(buffer: ArrayBuffer): Promise<{ manifest: ArchiveManifest; data: Record<string, Row[]> }> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch {
+        throw new ArchiveFormatError('Not a zip archive');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) throw new ArchiveFormatError('manifest.json is missing');
+
+    const manifest = JSON.parse(await manifestFile.async('string')) as ArchiveManifest;
+    if (manifest.format !== ARCHIVE_FORMAT) throw new ArchiveFormatError('Not an Inner Self archive');
+    if (manifest.version > ARCHIVE_VERSION) {
+        throw new ArchiveFormatError(`Archive version ${manifest.version} is newer than this app supports (${ARCHIVE_VERSION})`);
+    }
+
+    const data: Record<string, Row[]> = {};
+    for (const { table } of ARCHIVE_TABLES) {
+        const file = zip.file(`data/${table}.json`);
+        const rows = file ? JSON.parse(await file.async('string')) : [];
+        if (!Array.isArray(rows)) throw new ArchiveFormatError(`data/${table}.json is not an array`);
+        data[table] = rows;
+    }
+
+    return { manifest, data };
+}
+
+function sealVaultColumns(table: string, row: Row, vault: Vault): Row {
+    if (table === 'raw_entries') {
+        // inserted_at is when the row reached this database — let it default to now
+        const text = String(row.raw_text ?? '');
+        return { ...withoutColumns(row, 'inserted_at'), raw_text: vault.seal(text), text_hmac: vault.fingerprint(text) };
+    }
+    if (table === 'conversations') return { ...row, content: vault.seal(String(row.content ?? '')) };
+    if (table === 'chat_threads' && typeof row.title === 'string') return { ...row, title: vault.seal(row.title) };
+    if (table === 'letters_to_future' && !isTimeLocked(row.letter_text)) {
+        return { ...row, letter_text: vault.seal(String(row.letter_text ?? '')), vault_sealed: vault.enabled };
+    }
+    return row;
+}
+
+/** Delete what a failed import wrote, children before parents. */
+async function rollbackImport(userId: string, inserted: Record<string, string[]>): Promise<void> {
+    const supabase = getUserSupabase(userId);
+    for (const { table } of [...ARCHIVE_TABLES].reverse()) {
+        const ids = inserted[table] || [];
+        for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+            const { error } = await supabase.from(table).delete().in('id', ids.slice(i, i + DELETE_BATCH_SIZE));
+            if (error) console.error(`[Archive] Rollback of ${table} failed for user ${userId}:`, error.message);
+        }
+    }
+}
+
+/**
+ * Replay an archive into the account. Every row gets a new id and
+ * every reference is rewritten; references to rows that aren't in the
+ * archive are dropped (set to null / filtered out of arrays).
+ * All or nothing: if any table fails, the rows already inserted are
+ * deleted again so the (still empty) account can retry.
+ */
+export async function importArchive(userId: string, data: Record<string, Row[]>, vault: Vault): Promise<Record<string, number>> {
+    const inserted: Record<string, string[]> = {};
+    try {
+        return await replayArchive(userId, data, vault, inserted);
+    } catch (error) {
+        console.error(`[Archive] Import failed for user ${userId}, rolling back`);
+        await rollbackImport(userId, inserted);
+        throw error;
+    }
+}
+
+async function replayArchive(
+    userId: string,
+    data: Record<string, Row[]>,
+    vault: Vault,
+    inserted: Record<string, string[]>
+): Promise<Record<string, number>> {
+    const supabase = getUserSupabase(userId);
+    const idMaps: Record<string, Map<string, string>> = {};
+    const imported: Record<string, number> = {};
+
+    // Assign every new id up front so references can point forward too
+    for (const { table } of ARCHIVE_TABLES) {
+        idMaps[table] = new Map();
+        for (const row of data[table] || []) {
+            if (typeof row.id === 'string') idMaps[table].set(row.id, uuidv4());
+        }
+    }
+
+    for (const { table, refs, arrayRefs, conflictKey, batchSize } of ARCHIVE_TABLES) {
+        // Rows pointing at another row of the same table (subtasks) go in after it
+        const selfRefs = Object.entries(refs || {}).filter(([, target]) => target === table).map(([column]) => column);
+        const pointsAtSibling = (row: Row) => (selfRefs.some(column => row[column]) ? 1 : 0);
+        const ordered = selfRefs.length > 0 ? [...(data[table] || [])].sort((a, b) => pointsAtSibling(a) - pointsAtSibling(b)) : data[table] || [];
+
+        const rows = ordered.map(source => {
+            const row = withoutColumns(source, 'user_id');
+            if (typeof row.id === 'string') row.id = idMaps[table].get(row.id);
+
+            for (const [column, target] of Object.entries(refs || {})) {
+                if (row[column]) row[column] = idMaps[target].get(row[column] as string) ?? null;
+            }
+            for (const [column, target] of Object.entries(arrayRefs || {})) {
+                if (Array.isArray(row[column])) {
+                    row[column] = (row[column] as string[]).map(id => idMaps[target].get(id)).filter(Boolean);
+                }
+            }
+
+            return sealVaultColumns(table, row, vault);
+        });
+
+        const size = batchSize || INSERT_BATCH_SIZE;
+        inserted[table] = [];
+        for (let i = 0; i < rows.length; i += size) {
+            const batch = rows.slice(i, i + size);
+            if (conflictKey) {
+                // Settings are upserted onto the account's own keys, not rolled back
+                const { error } = await supabase.from(table).upsert(batch, { onConflict: conflictKey });
+                if (error) throw new Error(`Failed to import ${table}: ${error.message}`);
+                continue;
+            }
+            const { data: stored, error } = await supabase.from(table).insert(batch).select('id');
+            if (error) throw new Error(`Failed to import ${table}: ${error.message}`);
+            inserted[table].push(...(stored || []).map(row => row.id as string));
+        }
+
+        imported[table] = rows.length;
+        if (rows.length > 0) console.log(`[Archive] Imported ${rows.length} ${table} rows for user ${userId}`);
+    }
+
+    return imported;
+}
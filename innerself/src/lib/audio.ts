@@ -0,0 +1,205 @@
+// ============================================================
+// INNER SELF — Voice Recordings
+// Whisper transcription, plus optional preservation of the original
+// recording so a voice entry can be played back and re-transcribed.
+//
+// Preservation is opt-in (app_users.audio_preservation) and never
+// happens while the vault is on — a recording is an unencrypted copy
+// of the entry. Recordings older than audio_retention_days (null =
+// keep forever) are removed by the daily cleanup cron.
+//
+// Backends (AUDIO_STORAGE):
+//   supabase — private Storage bucket AUDIO_BUCKET (default
+//              "voice-recordings", created by migration v18)
+//   local    — files under AUDIO_LOCAL_DIR (default ./data/audio),
+//              for self-hosting
+// raw_entries.audio_url holds the storage key ("<userId>/<uuid>.webm");
+// the browser plays it through /api/audio.
+// ============================================================
+import fs from 'fs/promises';
+import path from 'path';
+import OpenAI, { toFile } from 'openai';
+import { v4 as uuidv4 } from 'uuid';
+import { getServiceSupabase, getUserSupabase } from './supabase';
+import { getVaultSettings } from './vault';
+
+export interface AudioSettings {
+    preserve: boolean;
+    retention_days: number | null; // null = keep forever
+}
+
+export interface Recording {
+    data: Buffer;
+    contentType: string;
+}
+
+// Whisper picks the decoder from the file extension
+const EXTENSIONS: Record<string, string> = {
+    'audio/webm': 'webm',
+    'audio/mp4': 'm4a',
+    'audio/ogg': 'ogg',
+    'audio/wav': 'wav',
+    'audio/mpeg': 'mp3',
+};
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+    Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type])
+);
+const KEY_PATTERN = /^[0-9a-f-]{36}\/[0-9a-f-]{36}\.(webm|m4a|ogg|wav|mp3)$/;
+
+export const RETENTION_OPTIONS = [7, 30, 90, 365] as const; // days, besides "forever"
+
+// ---- Settings ----
+export async function getAudioSettings(userId: string): Promise<AudioSettings> {
+    const { data } = await getServiceSupabase()
+        .from('app_users')
+        .select('audio_preservation, audio_retention_days')
+        .eq('id', userId)
+        .single();
+    return {
+        preserve: !!data?.audio_preservation,
+        retention_days: data?.audio_retention_days ?? null,
+    };
+}
+
+export async function updateAudioSettings(userId: string, settings: Partial<AudioSettings>): Promise<void> {
+    const updates: Record<string, unknown> = {};
+    if (settings.preserve !== undefined) updates.audio_preservation = settings.preserve;
+    if (settings.retention_days !== undefined) updates.audio_retention_days = settings.retention_days;
+
+    const { error } = await getServiceSupabase().from('app_users').update(updates).eq('id', userId);
+    if (error) throw new Error(`Failed to save audio settings: ${error.message}`);
+}
+
+/** Keep this user's recordings? Opted in, and not in vault mode. */
+export async function shouldPreserveAudio(userId: string): Promise<boolean> {
+    const [settings, vault] = await Promise.all([getAudioSettings(userId), getVaultSettings(userId)]);
+    return settings.preserve && !vault.encryption_enabled;
+}
+
+// ---- Transcription ----
+function baseContentType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase() || 'audio/webm';
+}
+
+/** Whisper transcript plus the recording's length as decoded by Whisper. */
+export async function transcribeRecording(recording: Recording): Promise<{ text: string; duration: number | null }> {
+    const type = baseContentType(recording.contentType);
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const transcription = await openai.audio.transcriptions.create({
+        file: await toFile(recording.data, `recording.${EXTENSIONS[type] || 'webm'}`, { type }),
+        model: 'whisper-1',
+        language: 'en', // Force English or detect
+        response_format: 'verbose_json',
+    });
+    return {
+        text: transcription.text,
+        duration: typeof transcription.duration === 'number' ? transcription.duration : null,
+    };
+}
+
+// ---- Storage backends ----
+interface AudioStore {
+    put(key: string, recording: Recording): Promise<void>;
+    get(key: string): Promise<Recording | null>;
+    remove(keys: string[]): Promise<void>;
+}
+
+const supabaseStore: AudioStore = {
+    async put(key, recording) {
+        const { error } = await getServiceSupabase().storage
+            .from(audioBucket())
+            .upload(key, recording.data, { contentType: recording.contentType, upsert: true });
+        if (error) throw new Error(`Recording upload failed: ${error.message}`);
+    },
+    async get(key) {
+        const { data, error } = await getServiceSupabase().storage.from(audioBucket()).download(key);
+        if (error || !data) return null;
+        return { data: Buffer.from(await data.arrayBuffer()), contentType: data.type || contentTypeFor(key) };
+    },
+    async remove(keys) {
+        const { error } = await getServiceSupabase().storage.from(audioBucket()).remove(keys);
+        if (error) throw new Error(`Recording delete failed: ${error.message}`);
+    },
+};
+
+const localStore: AudioStore = {
+    async put(key, recording) {
+        const file = localPath(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, recording.data);
+    },
+    async get(key) {
+        try {
+            return { data: await fs.readFile(localPath(key)), contentType: contentTypeFor(key) };
+        } catch {
+            return null;
+        }
+    },
+    async remove(keys) {
+        await Promise.all(keys.map(key => fs.rm(localPath(key), { force: true })));
+    },
+};
+
+function audioBucket(): string {
+    return process.env.AUDIO_BUCKET || 'voice-recordings';
+}
+
+function localPath(key: string): string {
+    return path.resolve(process.env.AUDIO_LOCAL_DIR || 'data/audio', key);
+}
+
+function contentTypeFor(key: string): string {
+    return CONTENT_TYPES[key.split('.').pop() || ''] || 'audio/webm';
+}
+
+function getStore(): AudioStore {
+    return process.env.AUDIO_STORAGE === 'local' ? localStore : supabaseStore;
+}
+
+// ---- Recordings ----
+/** A key this user's recording could have — anything else from a client is ignored. */
+export function isOwnRecording(userId: string, key: unknown): key is string {
+    return typeof key === 'string' && KEY_PATTERN.test(key) && key.startsWith(`${userId}/`);
+}
+
+export async function saveRecording(userId: string, recording: Recording): Promise<string> {
+    const type = baseContentType(recording.contentType);
+    const key = `${userId}/${uuidv4()}.${EXTENSIONS[type] || 'webm'}`;
+    await getStore().put(key, { data: recording.data, contentType: type });
+    return key;
+}
+
+export async function loadRecording(key: string): Promise<Recording | null> {
+    return getStore().get(key);
+}
+
+/**
+ * Remove recordings past the user's retention window. The entry keeps
+ * its transcript and duration; only the audio goes.
+ */
+export async function purgeExpiredRecordings(userId: string): Promise<number> {
+    const { retention_days } = await getAudioSettings(userId);
+    if (retention_days === null) return 0;
+
+    const cutoff = new Date(Date.now() - retention_days * 86400000).toISOString();
+    const supabase = getUserSupabase(userId);
+    const { data: expired, error } = await supabase
+        .from('raw_entries')
+        .select('id, audio_url')
+        .not('audio_url', 'is', null)
+        .lt('created_at', cutoff)
+        .limit(500);
+    if (error) throw new Error(`Failed to find expired recordings: ${error.message}`);
+    if (!expired || expired.length === 0) return 0;
+
+    const keys = expired.map(row => row.audio_url as string).filter(key => isOwnRecording(userId, key));
+    if (keys.length > 0) await getStore().remove(keys);
+
+    const { error: updateError } = await supabase
+        .from('raw_entries')
+        .update({ audio_url: null })
+        .in('id', expired.map(row => row.id));
+    if (updateError) throw new Error(`Failed to clear expired recordings: ${updateError.message}`);
+
+    return keys.length;
+}
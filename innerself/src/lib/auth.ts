@@ -0,0 +1,257 @@
+// ============================================================
+// INNER SELF — Accounts & Sessions
+// Each family member has an app_users row. Logging in creates a
+// random session token; only its SHA-256 is stored (auth_sessions),
+// so sessions expire, can be revoked one at a time or all at once.
+// Middleware validates the cookie and forwards the user id to
+// routes as the x-user-id header.
+//
+// Config (env):
+//   ACCESS_SECRET         legacy owner login (accounts with no password yet)
+//   SIGNUP_CODE           invite code for /api/auth/register (unset = closed)
+//   SUPABASE_JWT_SECRET   signs per-user Supabase tokens (see supabase.ts)
+// ============================================================
+import crypto from 'crypto';
+import { headers } from 'next/headers';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from './supabase';
+import { verifyTotp } from './totp';
+import type { UserProfile } from '@/types';
+
+export const SESSION_COOKIE = 'inner-self-auth';
+export const SESSION_MAX_AGE_SEC = 60 * 60 * 24 * 30; // 30 days
+export const USER_ID_HEADER = 'x-user-id';
+
+const PROFILE_COLUMNS = 'id, username, display_name, age, location, pronouns, about, timezone';
+
+// ---- Sessions ----
+function hashSessionToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The client can send its own x-forwarded-for; only what the platform
+// adds is trusted — x-real-ip, else the last hop it appended
+export function getClientIp(request: NextRequest): string {
+    return request.headers.get('x-real-ip')?.trim()
+        || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+        || 'unknown';
+}
+
+/**
+ * Start a new session for a user. Returns the raw token for the cookie —
+ * it is never stored, so a leaked database can't be replayed as a login.
+ */
+export async function createSession(
+    userId: string,
+    request: NextRequest,
+    method: 'password' | 'passkey' = 'password'
+): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const { error } = await getServiceSupabase().from('auth_sessions').insert({
+        user_id: userId,
+        token_hash: hashSessionToken(token),
+        user_agent: request.headers.get('user-agent')?.substring(0, 300) || null,
+        ip_address: getClientIp(request),
+        auth_method: method,
+        expires_at: new Date(Date.now() + SESSION_MAX_AGE_SEC * 1000).toISOString(),
+    });
+
+    if (error) throw new Error(`Failed to create session: ${error.message}`);
+    return token;
+}
+
+/**
+ * Resolve a session cookie to its user id, or null if unknown, revoked or expired.
+ */
+export async function validateSession(token: string): Promise<string | null> {
+    const { data, error } = await getServiceSupabase()
+        .from('auth_sessions')
+        .select('user_id')
+        .eq('token_hash', hashSessionToken(token))
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Auth] Session lookup failed:', error.message);
+        return null;
+    }
+    return data?.user_id ?? null;
+}
+
+export async function revokeSession(token: string): Promise<void> {
+    await getServiceSupabase().from('auth_sessions').delete().eq('token_hash', hashSessionToken(token));
+}
+
+export async function revokeAllSessions(userId: string): Promise<number> {
+    const { data } = await getServiceSupabase()
+        .from('auth_sessions')
+        .delete()
+        .eq('user_id', userId)
+        .select('id');
+    return data?.length || 0;
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'lax',
+        maxAge: SESSION_MAX_AGE_SEC,
+        path: '/',
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, secure: true, sameSite: 'lax', maxAge: 0, path: '/' });
+}
+
+// ---- Login Lockout ----
+// Failed attempts are counted per username and per IP over a sliding
+// window; either limit locks further attempts until the window passes.
+const LOCKOUT_WINDOW_MIN = 15;
+const MAX_FAILURES_PER_USER = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+/**
+ * Seconds until the caller may try again, or 0 if not locked out.
+ */
+export async function getLoginLockout(username: string, ip: string): Promise<number> {
+    const since = new Date(Date.now() - LOCKOUT_WINDOW_MIN * 60 * 1000).toISOString();
+    const supabase = getServiceSupabase();
+
+    const checks: [string, number][] = [[`user:${username}`, MAX_FAILURES_PER_USER], [`ip:${ip}`, MAX_FAILURES_PER_IP]];
+    let retryAfter = 0;
+
+    for (const [key, limit] of checks) {
+        const { data } = await supabase
+            .from('auth_login_failures')
+            .select('attempted_at')
+            .eq('key', key)
+            .gte('attempted_at', since)
+            .order('attempted_at', { ascending: false })
+            .limit(limit);
+
+        if (data && data.length >= limit) {
+            // Locked until the oldest counted failure leaves the window
+            const oldest = new Date(data[data.length - 1].attempted_at).getTime();
+            const unlockAt = oldest + LOCKOUT_WINDOW_MIN * 60 * 1000;
+            retryAfter = Math.max(retryAfter, Math.ceil((unlockAt - Date.now()) / 1000));
+        }
+    }
+    return retryAfter;
+}
+
+export async function recordLoginFailure(username: string, ip: string): Promise<void> {
+    await getServiceSupabase().from('auth_login_failures').insert([
+        { key: `user:${username}` },
+        { key: `ip:${ip}` },
+    ]);
+}
+
+export async function clearLoginFailures(username: string): Promise<void> {
+    await getServiceSupabase().from('auth_login_failures').delete().eq('key', `user:${username}`);
+}
+
+/**
+ * Drop expired sessions and passkey challenges, and failures older than
+ * the lockout window.
+ * Called from the nightly cleanup cron.
+ */
+export async function purgeExpiredAuthRecords(): Promise<void> {
+    const supabase = getServiceSupabase();
+    const now = Date.now();
+    await supabase.from('auth_sessions').delete().lt('expires_at', new Date(now).toISOString());
+    await supabase
+        .from('auth_login_failures')
+        .delete()
+        .lt('attempted_at', new Date(now - LOCKOUT_WINDOW_MIN * 60 * 1000).toISOString());
+    await supabase.from('webauthn_challenges').delete().lt('expires_at', new Date(now).toISOString());
+}
+
+// ---- Passwords (scrypt, stored as "scrypt$<salt>$<hash>") ----
+export function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Compare a submitted secret (ACCESS_SECRET, SIGNUP_CODE) in constant time.
+ * Hashing both sides first keeps the length of the real secret from leaking.
+ */
+export function secretMatches(given: string, secret: string): boolean {
+    const actual = crypto.createHash('sha256').update(given).digest();
+    const expected = crypto.createHash('sha256').update(secret).digest();
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+// ---- Two-factor ----
+/**
+ * Check an authenticator code and mark its time step used. The update
+ * only succeeds while the stored step is older, so the same code can't
+ * log in twice, even from two requests racing each other.
+ */
+export async function consumeTotpCode(userId: string, secret: string, lastStep: number | null, code: string): Promise<boolean> {
+    const step = verifyTotp(secret, code, lastStep);
+    if (step === null) return false;
+
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .update({ totp_last_step: step })
+        .eq('id', userId)
+        .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+        .select('id');
+    if (error) throw new Error(`Failed to record authenticator code: ${error.message}`);
+    return !!data && data.length > 0;
+}
+
+// ---- Current User ----
+
+/**
+ * The signed-in user's id, as verified by middleware. Null when the request
+ * didn't pass through the session check (e.g. cron routes).
+ */
+export async function getUserId(): Promise<string | null> {
+    const headerList = await headers();
+    return headerList.get(USER_ID_HEADER);
+}
+
+export async function getCurrentUser(): Promise<UserProfile | null> {
+    const userId = await getUserId();
+    return userId ? await getUserProfile(userId) : null;
+}
+
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .select(PROFILE_COLUMNS)
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Auth] Failed to load user profile:', error.message);
+        return null;
+    }
+    return data as UserProfile | null;
+}
+
+/**
+ * Every account, for cron jobs that fan out per user.
+ */
+export async function listUsers(): Promise<UserProfile[]> {
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .select(PROFILE_COLUMNS)
+        .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to list users: ${error.message}`);
+    return (data || []) as UserProfile[];
+}
@@ -0,0 +1,252 @@
+// ============================================================
+// INNER SELF — Calendar Feed (ICS)
+// A read-only iCalendar feed the user subscribes to from Google
+// Calendar, Apple Calendar, Outlook, ...:
+//   • pending tasks with a due date (timed, or all-day without a time);
+//     snoozed ones drop out until the snooze ends, as in the app
+//   • temporal markers (annual ones repeat every year)
+//   • anniversaries of significant life events
+//   • the days letters to the future unlock (never their text)
+//
+// Calendar apps can't send a session cookie, so the feed URL carries
+// its own token (/api/calendar/feed?token=...). Only its SHA-256 is
+// stored (app_users.calendar_token_hash); rotating or revoking it
+// makes every old subscription stop updating.
+// ============================================================
+import crypto from 'crypto';
+import { getServiceSupabase, getUserSupabase } from './supabase';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './due-dates';
+import type { UserProfile } from '@/types';
+
+export interface CalendarFeedStatus {
+    enabled: boolean;
+    created_at: string | null;
+}
+
+// Life events at least this significant get a yearly anniversary
+const ANNIVERSARY_MIN_SIGNIFICANCE = 7;
+const TASK_DURATION = 'PT30M';
+const TASK_ALARM = '-PT15M';
+
+// ---- Tokens ----
+function hashCalendarToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function getCalendarFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .select('calendar_token_hash, calendar_token_created_at')
+        .eq('id', userId)
+        .single();
+    if (error) throw new Error(`Failed to load calendar feed: ${error.message}`);
+    return { enabled: !!data?.calendar_token_hash, created_at: data?.calendar_token_created_at ?? null };
+}
+
+/** Create (or replace) the feed token. The raw token is only ever returned here. */
+export async function rotateCalendarToken(userId: string): Promise<string> {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const { error } = await getServiceSupabase()
+        .from('app_users')
+        .update({ calendar_token_hash: hashCalendarToken(token), calendar_token_created_at: new Date().toISOString() })
+        .eq('id', userId);
+    if (error) throw new Error(`Failed to create calendar token: ${error.message}`);
+    return token;
+}
+
+export async function revokeCalendarToken(userId: string): Promise<void> {
+    const { error } = await getServiceSupabase()
+        .from('app_users')
+        .update({ calendar_token_hash: null, calendar_token_created_at: null })
+        .eq('id', userId);
+    if (error) throw new Error(`Failed to revoke calendar token: ${error.message}`);
+}
+
+/** The user a feed token belongs to, or null if it's unknown or revoked. */
+export async function resolveCalendarToken(token: string): Promise<string | null> {
+    if (!token) return null;
+    const { data, error } = await getServiceSupabase()
+        .from('app_users')
+        .select('id')
+        .eq('calendar_token_hash', hashCalendarToken(token))
+        .maybeSingle();
+    if (error) {
+        console.error('[Calendar] Token lookup failed:', error.message);
+        return null;
+    }
+    return data?.id ?? null;
+}
+
+// ---- iCalendar text ----
+function escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1)
+function foldLine(line: string): string {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        if (currentBytes + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+    return date.replace(/-/g, '');
+}
+
+function formatInstant(instant: Date): string {
+    return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function nextDay(date: string): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().split('T')[0];
+}
+
+interface CalendarEvent {
+    uid: string;
+    summary: string;
+    description?: string | null;
+    date?: string; // all-day (YYYY-MM-DD)
+    start?: Date; // timed
+    duration?: string;
+    yearly?: boolean;
+    alarm?: string; // trigger offset, e.g. -PT15M
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+    const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+    if (event.start) {
+        lines.push(`DTSTART:${formatInstant(event.start)}`, `DURATION:${event.duration || 'PT30M'}`);
+    } else if (event.date) {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`);
+    }
+    if (event.yearly) lines.push('RRULE:FREQ=YEARLY');
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push('TRANSP:TRANSPARENT');
+    if (event.alarm) {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, `TRIGGER:${event.alarm}`, 'END:VALARM');
+    }
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+// ---- Feed ----
+async function collectEvents(user: UserProfile): Promise<CalendarEvent[]> {
+    const supabase = getUserSupabase(user.id);
+    const timeZone = user.timezone || DEFAULT_TIMEZONE;
+
+    const [tasks, markers, lifeEvents, letters] = await Promise.all([
+        supabase
+            .from('tasks')
+            .select('id, title, notes, due_date, due_time')
+            .eq('status', 'pending')
+            .is('parent_id', null)
+            .not('due_date', 'is', null)
+            .or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`)
+            .limit(500),
+        supabase
+            .from('temporal_markers')
+            .select('id, event_title, event_date, recurrence, reminder_message')
+            .limit(500),
+        supabase
+            .from('life_events_timeline')
+            .select('id, title, description, event_date, significance')
+            .gte('significance', ANNIVERSARY_MIN_SIGNIFICANCE)
+            .not('event_date', 'is', null)
+            .limit(500),
+        supabase
+            .from('letters_to_future')
+            .select('id, written_at, unlock_at')
+            .eq('is_read', false)
+            .limit(200),
+    ]);
+    for (const result of [tasks, markers, lifeEvents, letters]) {
+        if (result.error) throw new Error(`Failed to build calendar feed: ${result.error.message}`);
+    }
+
+    const events: CalendarEvent[] = [];
+
+    for (const task of tasks.data || []) {
+        events.push(task.due_time
+            ? {
+                uid: `task-${task.id}@inner-self`,
+                summary: `✅ ${task.title}`,
+                description: task.notes,
+                start: zonedTimeToUtc(task.due_date, task.due_time.slice(0, 5), timeZone),
+                duration: TASK_DURATION,
+                alarm: TASK_ALARM,
+            }
+            : { uid: `task-${task.id}@inner-self`, summary: `✅ ${task.title}`, description: task.notes, date: task.due_date });
+    }
+
+    // A marker and a life event for the same day and title are one anniversary
+    const seen = new Set<string>();
+    for (const marker of markers.data || []) {
+        seen.add(`${marker.event_date}|${marker.event_title.trim().toLowerCase()}`);
+        events.push({
+            uid: `marker-${marker.id}@inner-self`,
+            summary: `🕰️ ${marker.event_title}`,
+            description: marker.reminder_message,
+            date: marker.event_date,
+            yearly: marker.recurrence !== 'one-time',
+        });
+    }
+    for (const lifeEvent of lifeEvents.data || []) {
+        if (seen.has(`${lifeEvent.event_date}|${lifeEvent.title.trim().toLowerCase()}`)) continue;
+        events.push({
+            uid: `life-event-${lifeEvent.id}@inner-self`,
+            summary: `🕰️ ${lifeEvent.title}`,
+            description: lifeEvent.description,
+            date: lifeEvent.event_date,
+            yearly: true,
+        });
+    }
+
+    for (const letter of letters.data || []) {
+        const written = new Date(letter.written_at).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone });
+        events.push({
+            uid: `letter-${letter.id}@inner-self`,
+            summary: `💌 Letter from ${written} unlocks`,
+            description: 'Open Inner Self to read what you wrote to yourself.',
+            start: new Date(letter.unlock_at),
+            duration: 'PT15M',
+        });
+    }
+
+    return events;
+}
+
+/** The user's whole feed as an iCalendar document (CRLF line endings). */
+export async function buildCalendarFeed(user: UserProfile): Promise<string> {
+    const stamp = formatInstant(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Inner Self//Calendar Feed//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`Inner Self — ${user.display_name}`)}`,
+        `X-WR-TIMEZONE:${user.timezone || DEFAULT_TIMEZONE}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+    ];
+    for (const event of await collectEvents(user)) lines.push(...eventLines(event, stamp));
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,76 @@
+// ============================================================
+// INNER SELF — Streaming Chat Client
+// Browser side of POST /api/chat with { stream: true }: reads the
+// Server-Sent Events and hands each piece of the reply to onToken.
+// Abort the signal to stop generation (nothing is saved server-side).
+// ============================================================
+
+export interface ChatStreamRequest {
+    message: string;
+    persona: string;
+    threadId: string | null; // null starts a new thread
+}
+
+export interface ChatCitation {
+    entry_id: string;
+    date: string | null;
+    snippet: string;
+}
+
+export interface ChatStreamResult {
+    response: string; // final text, [N] citation markers removed
+    persona: string;
+    threadId: string;
+    citations: ChatCitation[];
+}
+
+/** Hide [N] citation markers while the reply is still streaming in. */
+export function stripCitationMarkers(text: string): string {
+    return text.replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '').replace(/\s?\[[\d,\s]*$/, '');
+}
+
+export async function streamChat(
+    request: ChatStreamRequest,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+): Promise<ChatStreamResult> {
+    const res = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...request, stream: true }),
+        signal,
+    });
+
+    // Errors before the stream starts (401, 423 locked vault, ...) come back as JSON
+    if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Chat failed (${res.status})`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const block = buffer.substring(0, boundary);
+            buffer = buffer.substring(boundary + 2);
+
+            const event = block.match(/^event: (.*)$/m)?.[1];
+            const data = block.match(/^data: (.*)$/m)?.[1];
+            if (!event || !data) continue;
+
+            const payload = JSON.parse(data);
+            if (event === 'token') onToken(payload.text);
+            else if (event === 'done') return payload as ChatStreamResult;
+            else if (event === 'error') throw new Error(payload.error || 'Chat failed');
+        }
+    }
+
+    throw new Error('Chat stream ended early');
+}
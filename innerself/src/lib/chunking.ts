@@ -0,0 +1,91 @@
+// ============================================================
+// INNER SELF — Text Chunking for Embeddings
+// Splits long text into overlapping chunks on sentence boundaries,
+// so one embedding never has to stand for a whole brain dump or
+// PDF. Offsets point back into the original text.
+// ============================================================
+
+export interface TextChunk {
+    text: string;
+    start: number; // character offset into the source text
+    end: number;   // exclusive
+}
+
+export const CHUNK_MAX_CHARS = 1200;
+export const CHUNK_OVERLAP_CHARS = 200;
+
+interface Span {
+    start: number;
+    end: number;
+}
+
+// A sentence runs to its terminal punctuation (plus closing quotes) or a blank line
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["'”’)\]]*|\n{2,}|\n|$)/g;
+
+function sentenceSpans(text: string): Span[] {
+    const spans: Span[] = [];
+    for (const match of text.matchAll(SENTENCE_PATTERN)) {
+        if (!match[0].trim()) continue;
+        spans.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return spans;
+}
+
+/** Sentences longer than a chunk are cut at the last space before the limit. */
+function splitLongSpan(text: string, span: Span, maxChars: number): Span[] {
+    const pieces: Span[] = [];
+    let start = span.start;
+    while (span.end - start > maxChars) {
+        const window = text.substring(start, start + maxChars);
+        const cut = window.lastIndexOf(' ');
+        const end = start + (cut > maxChars / 2 ? cut : maxChars);
+        pieces.push({ start, end });
+        start = end;
+    }
+    pieces.push({ start, end: span.end });
+    return pieces;
+}
+
+/**
+ * Greedily pack sentences into chunks of at most maxChars. Each new
+ * chunk starts with the last sentences of the previous one (up to
+ * overlapChars) so a thought split across a boundary is still whole
+ * in at least one chunk.
+ */
+export function chunkText(
+    text: string,
+    options?: { maxChars?: number; overlapChars?: number }
+): TextChunk[] {
+    const maxChars = options?.maxChars ?? CHUNK_MAX_CHARS;
+    const overlapChars = options?.overlapChars ?? CHUNK_OVERLAP_CHARS;
+    if (!text.trim()) return [];
+
+    const sentences = sentenceSpans(text).flatMap(span => splitLongSpan(text, span, maxChars));
+    const chunks: TextChunk[] = [];
+    let current: Span[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        const start = current[0].start;
+        const end = current[current.length - 1].end;
+        chunks.push({ text: text.substring(start, end).trim(), start, end });
+    };
+
+    for (const sentence of sentences) {
+        if (current.length > 0 && sentence.end - current[0].start > maxChars) {
+            flush();
+            // Carry trailing sentences over as overlap, as long as the new sentence still fits
+            const overlap: Span[] = [];
+            for (let i = current.length - 1; i > 0; i--) {
+                const candidate = current[i];
+                if (sentence.end - candidate.start > maxChars || current[current.length - 1].end - candidate.start > overlapChars) break;
+                overlap.unshift(candidate);
+            }
+            current = overlap;
+        }
+        current.push(sentence);
+    }
+    flush();
+
+    return chunks;
+}
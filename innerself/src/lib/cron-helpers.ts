@@ -1,24 +1,39 @@
 // ============================================================
 // INNER SELF — Shared Cron Helpers (Auth + Logging)
 // ============================================================
+import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceSupabase } from './supabase';
+import { listUsers } from './auth';
+import type { UserProfile } from '@/types';
+
+export interface UserCronResult {
+    summary: Record<string, unknown>;
+    entriesProcessed?: number;
+}
 
 /**
  * Verify CRON_SECRET authorization header.
- * Returns null if auth passes, or a 401 NextResponse if it fails.
+ * Returns null if auth passes, or a 401/503 NextResponse if it fails.
+ * Cron routes skip the session check (see middleware), so this is
+ * their only guard: without a secret they only run in development.
  */
 export function verifyCronAuth(request: NextRequest): NextResponse | null {
-    const authHeader = request.headers.get('authorization');
+    const authHeader = request.headers.get('authorization') || '';
     const cronSecret = process.env.CRON_SECRET;
 
-    // If no CRON_SECRET is configured, allow (dev mode)
     if (!cronSecret) {
-        console.warn('[Cron] WARNING: No CRON_SECRET configured. Allowing request.');
-        return null;
+        if (process.env.NODE_ENV === 'development') {
+            console.warn('[Cron] WARNING: No CRON_SECRET configured. Allowing request (development).');
+            return null;
+        }
+        console.error('[Cron] CRON_SECRET is not configured. Refusing request.');
+        return NextResponse.json({ error: 'Cron jobs are not configured' }, { status: 503 });
     }
 
-    if (authHeader !== `Bearer ${cronSecret}`) {
+    const expected = Buffer.from(`Bearer ${cronSecret}`);
+    const actual = Buffer.from(authHeader);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
         console.warn('[Cron] Unauthorized cron attempt.');
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -75,3 +90,55 @@ export async function completeCronRun(
         console.error(`[Cron] Failed to log cron completion for ${runId}:`, updateError);
     }
 }
+
+/**
+ * Run a cron job once per account and log a single cron_runs row.
+ * One user's failure is recorded in the summary without stopping the others;
+ * the run is only marked failed when every user failed.
+ */
+export async function runCronForUsers(
+    jobName: string,
+    handler: (user: UserProfile) => Promise<UserCronResult>
+): Promise<NextResponse> {
+    const runId = await startCronRun(jobName);
+
+    try {
+        const users = await listUsers();
+        const results: Record<string, unknown> = {};
+        let entriesProcessed = 0;
+        let failed = 0;
+
+        for (const user of users) {
+            try {
+                console.log(`[Cron] ${jobName}: running for ${user.username}...`);
+                const result = await handler(user);
+                results[user.username] = result.summary;
+                entriesProcessed += result.entriesProcessed || 0;
+            } catch (error) {
+                failed++;
+                console.error(`[Cron] ${jobName} failed for ${user.username}:`, error);
+                results[user.username] = { error: error instanceof Error ? error.message : 'Unknown' };
+            }
+        }
+
+        const allFailed = users.length > 0 && failed === users.length;
+        const summary = { users: users.length, failed, results };
+
+        await completeCronRun(
+            runId,
+            allFailed ? 'failed' : 'completed',
+            summary,
+            failed > 0 ? `${failed} of ${users.length} users failed` : undefined,
+            entriesProcessed
+        );
+
+        return NextResponse.json({ success: !allFailed, ...summary }, { status: allFailed ? 500 : 200 });
+    } catch (error) {
+        console.error(`[Cron] ${jobName} failed:`, error);
+        await completeCronRun(runId, 'failed', {}, error instanceof Error ? error.message : 'Unknown');
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,267 @@
+// ============================================================
+// INNER SELF — Due Dates
+// Turns what the user said ("tomorrow at 5pm", "by Friday", "3rd
+// Nov", "in 2 hours", "kal") into a local date and optional time,
+// relative to when the entry was written and in the user's own
+// timezone (app_users.timezone). Deterministic — the model only
+// quotes the phrase; its own guess is the fallback when nothing
+// here matches.
+//
+// Dates are local calendar days (YYYY-MM-DD) and times local wall
+// clock (HH:MM); zonedTimeToUtc turns the pair into an instant.
+// ============================================================
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export interface DueDate {
+    date: string; // YYYY-MM-DD in the user's timezone
+    time: string | null; // HH:MM, or null for "some time that day"
+}
+
+interface LocalMoment {
+    date: string;
+    time: string;
+    weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS: [RegExp, number][] = [
+    [/^sun(day)?$/, 0], [/^mon(day)?$/, 1], [/^tue(s|sday)?$/, 2], [/^wed(nesday)?$/, 3],
+    [/^thu(r|rs|rsday)?$/, 4], [/^fri(day)?$/, 5], [/^sat(urday)?$/, 6],
+];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*';
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10 };
+const NAMED_TIMES: [RegExp, string][] = [
+    [/\b(noon|midday|dopahar)\b/, '12:00'],
+    [/\bmidnight\b/, '23:59'],
+    [/\b(morning|subah)\b/, '09:00'],
+    [/\bafternoon\b/, '14:00'],
+    [/\b(eod|end of (the )?day|evening|shaam)\b/, '18:00'],
+    [/\b(tonight|night|raat)\b/, '20:00'],
+];
+const DAY_MS = 86400000;
+
+// ---- Timezones ----
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function localMoment(instant: Date, timeZone: string): LocalMoment {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+            weekday: 'short',
+        }).formatToParts(instant).map(part => [part.type, part.value])
+    );
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    return { date, time: `${parts.hour}:${parts.minute}`, weekday: toUtcDate(date).getUTCDay() };
+}
+
+/** Today's date in the user's timezone. */
+export function localToday(timeZone: string, now: Date = new Date()): string {
+    return localMoment(now, timeZone).date;
+}
+
+/** The wall-clock time (HH:MM) in the user's timezone. */
+export function localTime(timeZone: string, now: Date = new Date()): string {
+    return localMoment(now, timeZone).time;
+}
+
+/** The instant a local date and time in `timeZone` refers to. */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const target = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Start from the wall time read as UTC and correct by the zone's offset there (twice, for DST edges)
+    let guess = target;
+    for (let i = 0; i < 2; i++) {
+        const local = localMoment(new Date(guess), timeZone);
+        const [lh, lm] = local.time.split(':').map(Number);
+        guess += target - (toUtcDate(local.date).getTime() + (lh * 60 + lm) * 60000);
+    }
+    return new Date(guess);
+}
+
+// ---- Calendar arithmetic on YYYY-MM-DD ----
+function toUtcDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+function addDays(date: string, days: number): string {
+    return new Date(toUtcDate(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function makeDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null; // 31 Feb
+    return date.toISOString().split('T')[0];
+}
+
+function endOfMonth(date: string, monthsAhead: number = 0): string {
+    const d = toUtcDate(date);
+    return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + monthsAhead + 1, 0)).toISOString().split('T')[0];
+}
+
+/** `day` of the month `months` after today's (clamped to that month's last day). */
+function dayOfMonthAhead(today: string, months: number, day: number): string {
+    const d = toUtcDate(today);
+    const first = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+    return makeDate(first.getUTCFullYear(), first.getUTCMonth() + 1, day) || endOfMonth(today, months);
+}
+
+/** A day and month without a year: this year's, or next year's if it has passed. */
+function upcoming(month: number, day: number, today: string, year?: number): string | null {
+    if (year) return makeDate(year < 100 ? 2000 + year : year, month, day);
+    const thisYear = parseInt(today.slice(0, 4), 10);
+    const date = makeDate(thisYear, month, day);
+    return date && date < today ? makeDate(thisYear + 1, month, day) : date;
+}
+
+function readCount(word: string): number {
+    return NUMBER_WORDS[word] ?? parseInt(word, 10);
+}
+
+// ---- Parsing ----
+function to24h(hour: number, minute: number, meridiem: string | undefined): string | null {
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        if (meridiem.startsWith('p') && hour !== 12) hour += 12;
+        if (meridiem.startsWith('a') && hour === 12) hour = 0;
+    } else if (hour >= 1 && hour <= 7) {
+        hour += 12; // "at 5" is 5pm — nobody means 5am without saying so
+    }
+    if (hour > 23 || minute > 59) return null;
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/** Pull a time of day out of the phrase; returns it and the phrase without it. */
+function extractTime(text: string): [string | null, string] {
+    const patterns: RegExp[] = [
+        /\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)\b/,
+        /\b(?:at|by|before|@)\s*(\d{1,2})[:.](\d{2})\b/,
+        /\b(\d{1,2}):(\d{2})\b/,
+        new RegExp(`\\b(?:at|by|before|@)\\s*(\\d{1,2})\\b(?!\\s*(?:st|nd|rd|th|${MONTH_PATTERN})\\b)(?![/-])`),
+    ];
+    for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        if (!match) continue;
+        const time = to24h(parseInt(match[1], 10), parseInt(match[2] || '0', 10), match[3]);
+        if (time) return [time, text.replace(match[0], ' ')];
+    }
+    for (const [pattern, time] of NAMED_TIMES) {
+        if (pattern.test(text)) return [time, text];
+    }
+    return [null, text];
+}
+
+function weekdayIn(word: string): number | null {
+    for (const [pattern, day] of WEEKDAYS) if (pattern.test(word)) return day;
+    return null;
+}
+
+function extractDate(text: string, now: LocalMoment): string | null {
+    const today = now.date;
+    let match: RegExpExecArray | null;
+
+    if (/\b(day after tomorrow|parso|parson)\b/.test(text)) return addDays(today, 2);
+    if (/\b(tomorrow|tmrw|tmr|tomorow|kal)\b/.test(text)) return addDays(today, 1);
+    if (/\b(today|tonight|aaj|abhi)\b/.test(text)) return today;
+
+    if ((match = /\bin (\d+|an?|one|two|three|four|five|six|seven|ten) (day|week|month)s?\b/.exec(text))) {
+        const count = readCount(match[1]);
+        if (match[2] === 'day') return addDays(today, count);
+        if (match[2] === 'week') return addDays(today, 7 * count);
+        return dayOfMonthAhead(today, count, parseInt(today.slice(8), 10));
+    }
+
+    if ((match = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(text))) {
+        return makeDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+    }
+    if ((match = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?: of)? ${MONTH_PATTERN}(?: (\\d{4}))?\\b`).exec(text))) {
+        return upcoming(MONTHS.indexOf(match[2]) + 1, parseInt(match[1], 10), today, match[3] ? parseInt(match[3], 10) : undefined);
+    }
+    if ((match = new RegExp(`\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?\\b(?: (\\d{4}))?`).exec(text))) {
+        return upcoming(MONTHS.indexOf(match[1]) + 1, parseInt(match[2], 10), today, match[3] ? parseInt(match[3], 10) : undefined);
+    }
+    if ((match = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/.exec(text))) {
+        // Day first, as written in India
+        return upcoming(parseInt(match[2], 10), parseInt(match[1], 10), today, match[3] ? parseInt(match[3], 10) : undefined);
+    }
+
+    if (/\b(end of (the |this )?week|eow|weekend)\b/.test(text)) {
+        const target = /weekend/.test(text) ? 6 : 0; // Saturday for the weekend, Sunday for the week
+        if (now.weekday === 0 || now.weekday === target) return today;
+        return addDays(today, (target - now.weekday + 7) % 7);
+    }
+    if (/\bnext week\b/.test(text)) return addDays(today, ((8 - now.weekday) % 7) || 7); // next Monday
+    if (/\b(end of (the |this )?month|eom|month end)\b/.test(text)) return endOfMonth(today);
+    if (/\bnext month\b/.test(text)) return addDays(endOfMonth(today), 1);
+    if (/\bend of (the |this )?year\b/.test(text)) return `${today.slice(0, 4)}-12-31`;
+
+    if ((match = /\b(?:the )?(\d{1,2})(?:st|nd|rd|th)\b/.exec(text))) {
+        // "by the 15th" — this month's, or next month's once it has passed
+        const date = dayOfMonthAhead(today, 0, parseInt(match[1], 10));
+        return date >= today ? date : dayOfMonthAhead(today, 1, parseInt(match[1], 10));
+    }
+
+    for (const word of text.split(' ')) {
+        const weekday = weekdayIn(word);
+        if (weekday === null) continue;
+        let days = (weekday - now.weekday + 7) % 7 || 7; // "Friday" said on a Friday is next week's
+        // "next Friday" skips the one still in this (Monday-start) week
+        if (/\bnext\b/.test(text) && days <= (7 - now.weekday) % 7) days += 7;
+        return addDays(today, days);
+    }
+
+    return null;
+}
+
+/**
+ * Parse a due phrase relative to `reference` (when the entry was
+ * written) in `timeZone`. Null when it names no date or time.
+ */
+export function parseDuePhrase(phrase: string, reference: Date, timeZone: string): DueDate | null {
+    const now = localMoment(reference, timeZone);
+    const text = ` ${phrase.toLowerCase().replace(/\b([ap])\.\s?m\b\.?/g, '$1m').replace(/[,!?]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+    // "in 2 hours" / "in 30 minutes" is a moment, not a day
+    const relative = /\bin (\d+|an?|one|two|three|half an?) (hour|hr|minute|min)s?\b/.exec(text);
+    if (relative) {
+        const minutes = relative[1].startsWith('half') ? 30 : readCount(relative[1]) * (relative[2].startsWith('h') ? 60 : 1);
+        const at = localMoment(new Date(reference.getTime() + minutes * 60000), timeZone);
+        return { date: at.date, time: at.time };
+    }
+
+    const [time, rest] = extractTime(text);
+    const date = extractDate(rest, now);
+    if (date) return { date, time };
+    if (!time) return null;
+
+    // A time alone is today's, or tomorrow's once it has passed
+    return { date: time > now.time ? now.date : addDays(now.date, 1), time };
+}
+
+/** The phrase if it parses, else the model's own YYYY-MM-DD, else nothing. */
+export function resolveDue(
+    phrase: string | null | undefined,
+    fallbackDate: string | null | undefined,
+    reference: Date,
+    timeZone: string
+): DueDate | null {
+    const parsed = phrase ? parseDuePhrase(phrase, reference, timeZone) : null;
+    if (parsed) return parsed;
+    return fallbackDate && /^\d{4}-\d{2}-\d{2}$/.test(fallbackDate) ? { date: fallbackDate, time: null } : null;
+}
@@ -1,32 +1,122 @@
 // ============================================================
-// INNER SELF — OpenAI Embeddings + RAG Search
+// INNER SELF — Embeddings + RAG Search
+// Vectors come from OpenAI or, with EMBEDDING_PROVIDER=local, from a
+// small sentence model behind an OpenAI-compatible server (e.g.
+// Ollama's all-minilm on CPU). Each row records the model that made
+// it; vectors from different models are never compared.
+//
+// Sources are embedded in chunks (see chunking.ts): an entry gets a
+// summary row plus, when long, rows for chunks of its raw text; an
+// uploaded document gets a row per chunk of its extracted text.
+// source_type on each row says which of the two it belongs to.
 // ============================================================
 import OpenAI from 'openai';
-import { getServiceSupabase } from './supabase';
+import { getUserSupabase } from './supabase';
+import { chunkText, CHUNK_MAX_CHARS } from './chunking';
+
+// ---- Embedding Models ----
+export interface EmbeddingModel {
+    provider: 'openai' | 'local';
+    name: string;
+    dimensions: number;
+    id: string; // "provider:name@dimensions", stored in embeddings.model
+}
+
+/** Size of the embeddings.embedding column; smaller vectors are zero-padded */
+const VECTOR_COLUMN_DIMENSIONS = 1536;
+const DEFAULT_MODELS = { openai: 'text-embedding-3-large', local: 'all-minilm' };
+const DEFAULT_LOCAL_DIMENSIONS = 384;
+
+function embeddingModel(provider: EmbeddingModel['provider'], name: string, dimensions: number): EmbeddingModel {
+    return { provider, name, dimensions, id: `${provider}:${name}@${dimensions}` };
+}
+
+/** The model new embeddings are made with (EMBEDDING_PROVIDER / EMBEDDING_MODEL / EMBEDDING_DIMENSIONS). */
+export function getEmbeddingModel(): EmbeddingModel {
+    const provider = process.env.EMBEDDING_PROVIDER === 'local' ? 'local' : 'openai';
+    const name = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider];
+    const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '', 10)
+        || (provider === 'openai' ? VECTOR_COLUMN_DIMENSIONS : DEFAULT_LOCAL_DIMENSIONS);
+    if (dimensions > VECTOR_COLUMN_DIMENSIONS) {
+        throw new Error(`Embedding model ${name} has ${dimensions} dimensions; the vector column holds ${VECTOR_COLUMN_DIMENSIONS}`);
+    }
+    return embeddingModel(provider, name, dimensions);
+}
+
+/** Read back a stored model id, e.g. to embed a query for rows not yet rebuilt. */
+export function parseEmbeddingModel(id: string): EmbeddingModel | null {
+    const match = id.match(/^(openai|local):(.+)@(\d+)$/);
+    if (!match) return null;
+    return embeddingModel(match[1] as EmbeddingModel['provider'], match[2], parseInt(match[3], 10));
+}
 
 let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
+let _local: OpenAI | null = null;
+function getClient(provider: EmbeddingModel['provider']): OpenAI {
+    if (provider === 'local') {
+        if (!_local) {
+            _local = new OpenAI({
+                baseURL: process.env.LOCAL_EMBEDDING_BASE_URL || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+            });
+        }
+        return _local;
+    }
     if (!_openai) {
         _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
     }
     return _openai;
 }
 
-// ---- Generate Embedding Vector ----
-export async function generateEmbedding(text: string): Promise<number[]> {
-    const response = await getOpenAI().embeddings.create({
-        model: 'text-embedding-3-large',
-        input: text,
-        dimensions: 1536,
+// ---- Generate Embedding Vectors ----
+export async function generateEmbeddings(texts: string[], model: EmbeddingModel = getEmbeddingModel()): Promise<number[][]> {
+    const response = await getClient(model.provider).embeddings.create({
+        model: model.name,
+        input: texts,
+        // Local servers size vectors by model; only OpenAI can shorten them
+        ...(model.provider === 'openai' ? { dimensions: model.dimensions } : {}),
     });
 
-    return response.data[0].embedding;
+    return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(({ embedding }) => {
+            if (embedding.length !== model.dimensions) {
+                throw new Error(`${model.id} returned ${embedding.length} dimensions — set EMBEDDING_DIMENSIONS to match`);
+            }
+            // Zero-padding leaves cosine similarity between same-model vectors unchanged
+            return embedding.length < VECTOR_COLUMN_DIMENSIONS
+                ? [...embedding, ...new Array(VECTOR_COLUMN_DIMENSIONS - embedding.length).fill(0)]
+                : embedding;
+        });
+}
+
+export async function generateEmbedding(text: string, model: EmbeddingModel = getEmbeddingModel()): Promise<number[]> {
+    const [embedding] = await generateEmbeddings([text], model);
+    return embedding;
+}
+
+// ---- Store Embeddings ----
+const EMBEDDING_REQUEST_BATCH = 64; // chunks per embeddings API call
+
+async function embedAll(texts: string[], model: EmbeddingModel): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_REQUEST_BATCH) {
+        vectors.push(...await generateEmbeddings(texts.slice(i, i + EMBEDDING_REQUEST_BATCH), model));
+    }
+    return vectors;
 }
 
-// ---- Store Embedding ----
-export async function storeEmbedding(
+/**
+ * Replace an entry's embeddings: chunk 0 is the extracted summary,
+ * and entries longer than one chunk add their raw text in chunks.
+ * Pass rawText as null to embed the summary only — raw text chunks
+ * are plaintext copies, so they're skipped while the vault is on.
+ */
+export async function storeEntryEmbeddings(
+    userId: string,
     entryId: string,
-    text: string,
+    summary: string,
+    rawText: string | null,
     metadata: {
         category: string;
         mood: number;
@@ -34,55 +124,186 @@ export async function storeEmbedding(
         people: string[];
         persona: string;
     }
-): Promise<void> {
-    const embedding = await generateEmbedding(text);
-    const supabase = getServiceSupabase();
-
-    const { error } = await supabase.from('embeddings').insert({
-        entry_id: entryId,
-        embedding: embedding,
-        content_text: text,
-        metadata: metadata,
-    });
+): Promise<number> {
+    const model = getEmbeddingModel();
+    const chunks = rawText && rawText.length > CHUNK_MAX_CHARS ? chunkText(rawText) : [];
+    const vectors = await embedAll([summary, ...chunks.map(c => c.text)], model);
+    const supabase = getUserSupabase(userId);
+
+    // Reprocessing an entry replaces its rows rather than piling up more
+    await supabase.from('embeddings').delete().eq('entry_id', entryId);
+
+    const { error } = await supabase.from('embeddings').insert([
+        { source_type: 'entry', entry_id: entryId, chunk_index: 0, content_text: summary },
+        ...chunks.map((chunk, i) => ({
+            source_type: 'entry',
+            entry_id: entryId,
+            chunk_index: i + 1,
+            chunk_start: chunk.start,
+            chunk_end: chunk.end,
+            content_text: chunk.text,
+        })),
+    ].map((row, i) => ({ ...row, embedding: vectors[i], model: model.id, metadata })));
 
     if (error) {
         console.error('Error storing embedding:', error);
         throw error;
     }
+    return vectors.length;
 }
 
-// ---- Semantic Search (Vector Similarity) ----
-export async function semanticSearch(
-    queryText: string,
-    limit: number = 10,
-    filters?: {
-        category?: string;
-        minMood?: number;
-        maxMood?: number;
-        person?: string;
-        startDate?: string;
-        endDate?: string;
+/** Replace an uploaded document's embeddings with one row per chunk of its text. */
+export async function storeDocumentEmbeddings(
+    userId: string,
+    documentId: string,
+    text: string,
+    metadata: { file_name: string; date: string }
+): Promise<number> {
+    const model = getEmbeddingModel();
+    const chunks = chunkText(text);
+    const vectors = await embedAll(chunks.map(c => c.text), model);
+    const supabase = getUserSupabase(userId);
+
+    await supabase.from('embeddings').delete().eq('document_id', documentId);
+    if (chunks.length === 0) return 0;
+
+    const { error } = await supabase.from('embeddings').insert(chunks.map((chunk, i) => ({
+        source_type: 'document',
+        document_id: documentId,
+        chunk_index: i,
+        chunk_start: chunk.start,
+        chunk_end: chunk.end,
+        content_text: chunk.text,
+        embedding: vectors[i],
+        model: model.id,
+        metadata,
+    })));
+
+    if (error) {
+        console.error('Error storing document embeddings:', error);
+        throw error;
     }
-): Promise<
-    {
-        entry_id: string;
-        content_text: string;
-        similarity: number;
-        metadata: Record<string, unknown>;
-    }[]
-> {
-    const queryEmbedding = await generateEmbedding(queryText);
-    const supabase = getServiceSupabase();
+    return chunks.length;
+}
 
-    // Use the pgvector cosine similarity search function
-    const { data, error } = await supabase.rpc('match_embeddings', {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.3,
-        match_count: limit,
+// ---- Re-embedding ----
+// Rows made by another model are rebuilt in place, a batch at a time,
+// so the reembed job can stop anywhere and pick up where it left off.
+export const REEMBED_BATCH_SIZE = 50;
+
+export interface EmbeddingStatus {
+    model: string;
+    total: number;
+    current: number; // rows made by the active model
+}
+
+export async function getEmbeddingStatus(userId: string): Promise<EmbeddingStatus> {
+    const model = getEmbeddingModel();
+    const supabase = getUserSupabase(userId);
+    const [{ count: total }, { count: current }] = await Promise.all([
+        supabase.from('embeddings').select('id', { count: 'exact', head: true }),
+        supabase.from('embeddings').select('id', { count: 'exact', head: true }).eq('model', model.id),
+    ]);
+    return { model: model.id, total: total || 0, current: current || 0 };
+}
+
+/** Rebuild one batch of outdated rows with the active model. Returns how many are left. */
+export async function reembedBatch(userId: string, model: EmbeddingModel = getEmbeddingModel()): Promise<{ reembedded: number; remaining: number }> {
+    const supabase = getUserSupabase(userId);
+    const { data: rows, error } = await supabase
+        .from('embeddings')
+        .select('id, content_text')
+        .neq('model', model.id)
+        .order('id', { ascending: true })
+        .limit(REEMBED_BATCH_SIZE);
+    if (error) throw new Error(`Failed to load embeddings: ${error.message}`);
+
+    if (rows && rows.length > 0) {
+        const vectors = await generateEmbeddings(rows.map(r => r.content_text), model);
+        for (const [i, row] of rows.entries()) {
+            const { error: updateError } = await supabase
+                .from('embeddings')
+                .update({ embedding: vectors[i], model: model.id })
+                .eq('id', row.id);
+            if (updateError) throw new Error(`Failed to update embedding ${row.id}: ${updateError.message}`);
+        }
+    }
+
+    const { count } = await supabase.from('embeddings').select('id', { count: 'exact', head: true }).neq('model', model.id);
+    return { reembedded: rows?.length || 0, remaining: count || 0 };
+}
+
+/** One key per entry or document, however many chunks matched. */
+function sourceKey(result: SearchResult): string {
+    return result.source_type === 'document' ? `document:${result.document_id}` : `entry:${result.entry_id}`;
+}
+
+/** A model other than the active one that still has rows — searched too until the rebuild is done. */
+async function getLegacyModel(userId: string, activeId: string): Promise<EmbeddingModel | null> {
+    const { data } = await getUserSupabase(userId)
+        .from('embeddings')
+        .select('model')
+        .neq('model', activeId)
+        .limit(1)
+        .maybeSingle();
+    return data ? parseEmbeddingModel(data.model) : null;
+}
+
+// ---- Search Filters ----
+// Honored by both the vector and the keyword search
+export interface SearchFilters {
+    category?: string;
+    minMood?: number;
+    maxMood?: number;
+    person?: string;
+    persona?: string; // identity_persona of the entry
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface SearchResult {
+    source_type: 'entry' | 'document';
+    entry_id: string | null;    // set for entries
+    document_id: string | null; // set for uploaded documents
+    chunk_start: number | null; // where the matched chunk sits in the source text
+    chunk_end: number | null;
+    content_text: string;
+    similarity: number | null; // cosine similarity; null for keyword-only matches
+    metadata: Record<string, unknown>;
+}
+
+const DEFAULT_MATCH_THRESHOLD = 0.3;
+
+function filterParams(filters?: SearchFilters) {
+    return {
         filter_category: filters?.category || null,
         filter_person: filters?.person || null,
         filter_start_date: filters?.startDate || null,
         filter_end_date: filters?.endDate || null,
+        filter_min_mood: filters?.minMood ?? null,
+        filter_max_mood: filters?.maxMood ?? null,
+        filter_persona: filters?.persona || null,
+    };
+}
+
+// ---- Semantic Search (Vector Similarity) ----
+async function matchEmbeddings(
+    userId: string,
+    queryText: string,
+    model: EmbeddingModel,
+    limit: number,
+    filters: SearchFilters | undefined,
+    matchThreshold: number
+): Promise<(SearchResult & { similarity: number })[]> {
+    const queryEmbedding = await generateEmbedding(queryText, model);
+
+    // Use the pgvector cosine similarity search function
+    const { data, error } = await getUserSupabase(userId).rpc('match_embeddings', {
+        query_embedding: queryEmbedding,
+        match_threshold: matchThreshold,
+        match_count: limit,
+        filter_model: model.id,
+        ...filterParams(filters),
     });
 
     if (error) {
@@ -93,32 +314,280 @@ export async function semanticSearch(
     return data || [];
 }
 
-// ---- Hybrid Search (Metadata + Vector) ----
+export async function semanticSearch(
+    userId: string,
+    queryText: string,
+    limit: number = 10,
+    filters?: SearchFilters,
+    matchThreshold: number = DEFAULT_MATCH_THRESHOLD
+): Promise<(SearchResult & { similarity: number })[]> {
+    const model = getEmbeddingModel();
+    const legacy = await getLegacyModel(userId, model.id);
+
+    // Mid-rebuild, rows not yet re-embedded are searched with their own model.
+    // Scores from two models aren't strictly comparable, but each is a cosine similarity.
+    const [current, previous] = await Promise.all([
+        matchEmbeddings(userId, queryText, model, limit, filters, matchThreshold),
+        legacy
+            ? matchEmbeddings(userId, queryText, legacy, limit, filters, matchThreshold).catch(err => {
+                console.error(`Semantic search on ${legacy.id} failed:`, err instanceof Error ? err.message : err);
+                return [];
+            })
+            : [],
+    ]);
+
+    const seen = new Set(current.map(sourceKey));
+    return [...current, ...previous.filter(r => !seen.has(sourceKey(r)))]
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+}
+
+// ---- Lexical Search (Postgres full-text) ----
+export async function lexicalSearch(
+    userId: string,
+    queryText: string,
+    limit: number = 10,
+    filters?: SearchFilters
+): Promise<SearchResult[]> {
+    const { data, error } = await getUserSupabase(userId).rpc('match_entries_text', {
+        query_text: queryText,
+        match_count: limit,
+        ...filterParams(filters),
+    });
+
+    if (error) {
+        console.error('Lexical search error:', error);
+        throw error;
+    }
+
+    return ((data || []) as { entry_id: string; content_text: string; metadata: Record<string, unknown> }[])
+        .map(row => ({
+            ...row,
+            source_type: 'entry' as const,
+            document_id: null,
+            chunk_start: null,
+            chunk_end: null,
+            similarity: null,
+        }));
+}
+
+// ---- Hybrid Search (Keyword + Vector, fused and reranked) ----
+// Both searches over-fetch, then:
+//   1. reciprocal-rank fusion — an entry near the top of either list scores well
+//   2. recency decay — older entries fade, but never below RECENCY_FLOOR
+//   3. diversity (MMR) — skip candidates that mostly repeat what's already picked
+// Each result is numbered so the chat model can cite it as [N];
+// resolveCitations maps those markers back to entries (documents
+// are context only — they can't be opened from a citation).
+export interface RagSource {
+    ref: number;
+    source_type: 'entry' | 'document';
+    entry_id: string | null;
+    document_id: string | null;
+    date: string | null;
+    snippet: string;
+}
+
+const CITATION_SNIPPET_LENGTH = 140;
+const CANDIDATE_MULTIPLIER = 3;
+const RRF_K = 60;
+const RECENCY_HALF_LIFE_DAYS = 180;
+const RECENCY_FLOOR = 0.5;
+const MMR_LAMBDA = 0.7; // relevance vs. novelty
+
+export interface RankedResult extends SearchResult {
+    score: number;
+    words: Set<string>;
+}
+
+function fuseResults(lists: SearchResult[][]): RankedResult[] {
+    const fused = new Map<string, RankedResult>();
+
+    for (const list of lists) {
+        // A source can have several embedding rows (chunks); only its best rank counts
+        const unique = list.filter((r, i) => list.findIndex(o => sourceKey(o) === sourceKey(r)) === i);
+        unique.forEach((result, rank) => {
+            const contribution = 1 / (RRF_K + rank + 1);
+            const existing = fused.get(sourceKey(result));
+            if (existing) {
+                existing.score += contribution;
+                if (existing.similarity === null) existing.similarity = result.similarity;
+            } else {
+                fused.set(sourceKey(result), { ...result, score: contribution, words: wordSet(result.content_text) });
+            }
+        });
+    }
+
+    return Array.from(fused.values());
+}
+
+function recencyWeight(date: unknown, now: number): number {
+    const time = typeof date === 'string' ? new Date(date).getTime() : NaN;
+    if (isNaN(time)) return RECENCY_FLOOR;
+    const ageDays = Math.max(0, (now - time) / 86400000);
+    return RECENCY_FLOOR + (1 - RECENCY_FLOOR) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+function wordSet(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[a-z0-9']{3,}/g) || []);
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const word of a) if (b.has(word)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+/** Maximal marginal relevance over word overlap: greedy pick, penalising near-duplicates. */
+function diversify(candidates: RankedResult[], limit: number): RankedResult[] {
+    const remaining = [...candidates].sort((a, b) => b.score - a.score);
+    if (remaining.length === 0) return [];
+    const top = remaining[0].score;
+    const picked: RankedResult[] = [];
+
+    while (picked.length < limit && remaining.length > 0) {
+        let bestIndex = 0;
+        let bestValue = -Infinity;
+        remaining.forEach((candidate, i) => {
+            const redundancy = Math.max(0, ...picked.map(p => overlap(candidate.words, p.words)));
+            const value = MMR_LAMBDA * (candidate.score / top) - (1 - MMR_LAMBDA) * redundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                bestIndex = i;
+            }
+        });
+        picked.push(remaining.splice(bestIndex, 1)[0]);
+    }
+
+    return picked;
+}
+
+/** Entries for a query, best first: fused keyword + vector results, recency-weighted and diversified. */
+export async function rankedSearch(
+    userId: string,
+    queryText: string,
+    limit: number = 15,
+    filters?: SearchFilters
+): Promise<RankedResult[]> {
+    const candidates = limit * CANDIDATE_MULTIPLIER;
+    // Either side can fail (no embedding key, a query Postgres can't parse) without losing the other
+    const [semantic, lexical] = await Promise.all([
+        semanticSearch(userId, queryText, candidates, filters).catch((err): SearchResult[] => {
+            console.error('Hybrid search: vector side failed:', err instanceof Error ? err.message : err);
+            return [];
+        }),
+        lexicalSearch(userId, queryText, candidates, filters).catch(() => [] as SearchResult[]),
+    ]);
+
+    const now = Date.now();
+    const fused = fuseResults([semantic, lexical]).map(r => ({ ...r, score: r.score * recencyWeight(r.metadata?.date, now) }));
+    return diversify(fused, limit);
+}
+
 export async function hybridSearch(
+    userId: string,
     queryText: string,
-    limit: number = 15
-): Promise<string> {
-    const results = await semanticSearch(queryText, limit);
+    limit: number = 15,
+    filters?: SearchFilters
+): Promise<{ context: string; sources: RagSource[] }> {
+    const results = await rankedSearch(userId, queryText, limit, filters);
 
     if (results.length === 0) {
-        return 'No relevant historical entries found.';
+        return { context: 'No relevant historical entries found.', sources: [] };
     }
 
-    return results
-        .map(
-            (r, i) =>
-                `[Entry ${i + 1} | Relevance: ${(r.similarity * 100).toFixed(0)}%]\n${r.content_text}`
-        )
+    const sources = results.map((r, i) => ({
+        ref: i + 1,
+        source_type: r.source_type,
+        entry_id: r.entry_id,
+        document_id: r.document_id,
+        date: typeof r.metadata?.date === 'string' ? r.metadata.date : null,
+        snippet: snippet(r.content_text),
+    }));
+
+    const context = results
+        .map((r, i) => {
+            const relevance = r.similarity !== null ? `Relevance: ${(r.similarity * 100).toFixed(0)}%` : 'Keyword match';
+            const label = r.source_type === 'document' ? `Document ${i + 1} | ${r.metadata?.file_name || 'upload'}` : `Entry ${i + 1}`;
+            return `[${label}${sources[i].date ? ` | ${sources[i].date}` : ''} | ${relevance}]\n${r.content_text}`;
+        })
         .join('\n\n');
+
+    return { context, sources };
+}
+
+function snippet(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > CITATION_SNIPPET_LENGTH ? `${flat.substring(0, CITATION_SNIPPET_LENGTH - 1)}…` : flat;
+}
+
+export interface Citation {
+    entry_id: string;
+    date: string | null;
+    snippet: string;
+}
+
+const CITATION_MARKER = /\s?\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Pull the model's [N] / [N, M] markers out of a reply and map them to
+ * the entries they point at (first mention first, no duplicates).
+ * Markers that don't match a source are dropped from the text too.
+ */
+export function resolveCitations(reply: string, sources: RagSource[]): { text: string; citations: Citation[] } {
+    const byRef = new Map(sources.map(s => [s.ref, s]));
+    const citations: Citation[] = [];
+    const seen = new Set<string>();
+
+    const text = reply.replace(CITATION_MARKER, (_, refs: string) => {
+        for (const ref of refs.split(',').map(r => parseInt(r.trim(), 10))) {
+            const source = byRef.get(ref);
+            if (source?.entry_id && !seen.has(source.entry_id)) {
+                seen.add(source.entry_id);
+                citations.push({ entry_id: source.entry_id, date: source.date, snippet: source.snippet });
+            }
+        }
+        return '';
+    });
+
+    return { text: text.trim(), citations };
+}
+
+/** Rebuild citation chips for stored messages (conversations.context_entry_ids). */
+export async function getCitations(userId: string, entryIds: string[]): Promise<Map<string, Citation>> {
+    const citations = new Map<string, Citation>();
+    if (entryIds.length === 0) return citations;
+
+    const { data, error } = await getUserSupabase(userId)
+        .from('extracted_entities')
+        .select('entry_id, title, content, occurred_at')
+        .in('entry_id', Array.from(new Set(entryIds)));
+    if (error) {
+        console.error('Error loading citations:', error);
+        return citations;
+    }
+
+    for (const e of data || []) {
+        citations.set(e.entry_id, {
+            entry_id: e.entry_id,
+            date: e.occurred_at ? String(e.occurred_at).split('T')[0] : null,
+            snippet: snippet(`${e.title}. ${e.content}`),
+        });
+    }
+    return citations;
 }
 
 // ---- Find Similar Entries (RAG Context) ----
 export async function findSimilarEntries(
+    userId: string,
     queryText: string,
     limit: number = 5
 ): Promise<string> {
     try {
-        const results = await semanticSearch(queryText, limit);
+        // Several chunks of one entry can match; show each entry once, and skip documents
+        const results = (await semanticSearch(userId, queryText, limit))
+            .filter((r, i, all) => r.source_type === 'entry' && all.findIndex(o => sourceKey(o) === sourceKey(r)) === i);
 
         if (results.length === 0) return '';
 
@@ -136,9 +605,10 @@ export async function findSimilarEntries(
 
 // ---- Get Recent Entries for Context ----
 export async function getRecentEntries(
+    userId: string,
     count: number = 10
 ): Promise<string> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     const { data, error } = await supabase
         .from('extracted_entities')
@@ -162,8 +632,8 @@ export async function getRecentEntries(
 }
 
 // ---- Get Persona Summary ----
-export async function getPersonaSummary(): Promise<string> {
-    const supabase = getServiceSupabase();
+export async function getPersonaSummary(userId: string): Promise<string> {
+    const supabase = getUserSupabase(userId);
 
     const { data, error } = await supabase
         .from('user_persona_summary')
@@ -177,14 +647,14 @@ export async function getPersonaSummary(): Promise<string> {
 }
 
 // ---- Get Enriched Context for Chat (rich structured data) ----
-export async function getEnrichedChatContext(): Promise<{
+export async function getEnrichedChatContext(userId: string): Promise<{
     recentMood: string;
     activeGoals: string;
     keyPeople: string;
     recentEvents: string;
     currentStruggles: string;
 }> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     // Fetch all context in parallel
     const [personaResult, recentEntriesResult, peopleResult, eventsResult] = await Promise.all([
@@ -3,9 +3,12 @@
 // Uses centralized validators from validators.ts
 // ============================================================
 import { v4 as uuidv4 } from 'uuid';
-import { getServiceSupabase } from './supabase';
-import { extractFromEntry } from './ai';
-import { storeEmbedding, getRecentEntries, getPersonaSummary, findSimilarEntries } from './embeddings';
+import { getUserSupabase } from './supabase';
+import { extractFromEntry, extractFromChatMessage } from './ai';
+import { storeEntryEmbeddings, getRecentEntries, getPersonaSummary, findSimilarEntries } from './embeddings';
+import { getVault, VaultLockedError } from './vault';
+import { describeOpenTasks, getOpenTasks, syncTasksFromEntry } from './tasks';
+import { DEFAULT_TIMEZONE, resolveDue } from './due-dates';
 import {
     validateDate,
     validateDateNullable,
@@ -16,65 +19,105 @@ import {
     validatePerson,
     isPromptLeakage,
 } from './validators';
-import type { ExtractionResult, RawEntry } from '@/types';
+import type { AIPersona, ExtractionResult, InputMetadata, RawEntry, Task, UserProfile } from '@/types';
 
 export interface ProcessResult {
     entryId: string;
     extraction: ExtractionResult;
+    occurredAt?: string; // the day the entry is about (see resolveOccurredAt)
+    duplicate?: boolean; // already processed — entryId is the existing entry
     success: boolean;
     error?: string;
 }
 
 // ---- Full Processing Pipeline ----
-// text → save raw → extract → save entities → embed → update people → detect events
+// text → save raw → extract → save entities → tasks → embed → update people → detect events
 // ---- Full Processing Pipeline ----
-// text → save raw → extract → save entities → embed → update people → detect events
+// text → save raw → extract → save entities → tasks → embed → update people → detect events
 export async function processEntry(
+    user: UserProfile,
     rawText: string,
     source: 'text' | 'voice',
     options?: {
         audio_url?: string | null;
         audio_duration_sec?: number | null;
         existingEntryId?: string; // Support for re-processing
+        createdAt?: string; // Original timestamp for imported or offline-queued entries
+        importedFrom?: string; // Source app for imported entries (see importers.ts)
+        occurredOn?: string; // YYYY-MM-DD the user backdated the entry to (overrides extraction)
+        tzOffsetMinutes?: number; // Writer's getTimezoneOffset(), for resolving "yesterday"
+        clientId?: string; // Offline outbox id — a replay returns the entry it already made
     }
 ): Promise<ProcessResult> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(user.id);
     // Use existing ID if provided, else generate new
     const entryId = options?.existingEntryId || uuidv4();
     const isUpdate = !!options?.existingEntryId;
 
+    // Re-processing keeps the entry's original date and any explicit backdate
+    let previousMetadata: InputMetadata = {};
+    let writtenAt = options?.createdAt ? new Date(options.createdAt) : new Date();
+    if (isUpdate) {
+        const { data: existing } = await supabase
+            .from('raw_entries')
+            .select('created_at, input_metadata')
+            .eq('id', entryId)
+            .maybeSingle();
+        if (existing && !options?.createdAt) writtenAt = new Date(existing.created_at);
+        previousMetadata = (existing?.input_metadata as InputMetadata | null) ?? {};
+    }
+    const backdatedTo = options?.occurredOn || previousMetadata.backdated_to || null;
+
+    // Vault mode: raw text is stored encrypted, so it needs the key for this request
+    const vault = await getVault(user.id);
+    if (vault.enabled && !vault.unlocked) throw new VaultLockedError();
+
     try {
-        // Step 0: Dedup check — reject duplicate text (skip if updating)
+        // Step 0a: An outbox item that already landed (retry after a timeout, two tabs syncing)
+        if (!isUpdate && options?.clientId) {
+            const existingId = await findEntryByClientId(user.id, options.clientId);
+            if (existingId) {
+                console.log(`[Pipeline] Client id ${options.clientId} already processed as ${existingId}`);
+                return duplicateResult(existingId);
+            }
+        }
+
+        // Step 0: Dedup check — reject duplicate text (skip if updating).
+        // Encrypted text never repeats, so vault mode matches on a keyed fingerprint instead.
         if (!isUpdate) {
+            const fingerprint = vault.fingerprint(rawText);
             const { data: existing } = await supabase
                 .from('raw_entries')
                 .select('id')
-                .eq('raw_text', rawText)
+                .eq(fingerprint ? 'text_hmac' : 'raw_text', fingerprint || rawText)
                 .is('deleted_at', null)
                 .limit(1);
 
             if (existing && existing.length > 0) {
                 console.log('[Pipeline] Duplicate text detected, skipping:', rawText.substring(0, 50));
-                return {
-                    entryId: existing[0].id,
-                    extraction: {} as ExtractionResult,
-                    success: true,
-                    error: 'Duplicate entry — already processed',
-                };
+                return duplicateResult(existing[0].id);
             }
         }
 
         // Step 1: Save or Update raw entry (immutable-ish)
         console.log(`[Pipeline] Step 1: ${isUpdate ? 'Updating' : 'Saving'} raw entry ${entryId}...`);
         const rawEntryData: Record<string, unknown> = {
-            raw_text: rawText,
+            raw_text: vault.seal(rawText),
+            text_hmac: vault.fingerprint(rawText),
             source: source,
             input_metadata: {
+                ...withoutExtractionIssues(previousMetadata),
                 entry_length_chars: rawText.length,
-                time_of_day: getTimeOfDay(),
+                time_of_day: getTimeOfDay(writtenAt),
+                ...(options?.importedFrom ? { imported_from: options.importedFrom } : {}),
+                ...(options?.clientId ? { queued_offline: true } : {}),
+                ...(backdatedTo ? { backdated_to: backdatedTo } : {}),
             },
         };
 
+        if (options?.createdAt) rawEntryData.created_at = writtenAt.toISOString();
+        if (options?.clientId && !isUpdate) rawEntryData.client_id = options.clientId;
+
         if (options?.audio_url) rawEntryData.audio_url = options.audio_url;
         if (options?.audio_duration_sec) rawEntryData.audio_duration_sec = options.audio_duration_sec;
 
@@ -92,7 +135,14 @@ export async function processEntry(
             // Insert new entry
             rawEntryData.id = entryId;
             const { error: insertError } = await supabase.from('raw_entries').insert(rawEntryData);
-            if (insertError) throw new Error(`Raw entry save failed: ${insertError.message}`);
+            if (insertError) {
+                // Lost a race with another send of the same outbox item
+                const existingId = insertError.code === '23505' && options?.clientId
+                    ? await findEntryByClientId(user.id, options.clientId)
+                    : null;
+                if (existingId) return duplicateResult(existingId);
+                throw new Error(`Raw entry save failed: ${insertError.message}`);
+            }
         }
 
         // P2 FIX: Skip Claude for very short inputs (<10 chars) — return minimal defaults
@@ -114,6 +164,11 @@ export async function processEntry(
                 is_task: false,
                 task_status: null,
                 task_due_date: null,
+                task_due_phrase: null,
+                task_priority: null,
+                task_recurrence: null,
+                task_ref: null,
+                task_updates: [],
                 people_mentioned: [],
                 beliefs_revealed: [],
                 ai_response: 'Noted.',
@@ -122,14 +177,16 @@ export async function processEntry(
             } as unknown as ExtractionResult;
 
             // Still save the extracted entity
+            const occurredAt = resolveOccurredAt(writtenAt, backdatedTo, options?.tzOffsetMinutes).toISOString();
             await supabase.from('extracted_entities').insert({
                 id: uuidv4(),
                 entry_id: entryId,
                 ...minimalExtraction,
+                occurred_at: occurredAt,
                 created_at: new Date().toISOString(),
             });
 
-            return { entryId, extraction: minimalExtraction, success: true };
+            return { entryId, extraction: minimalExtraction, occurredAt, success: true };
         }
 
         // Step 2: Get context for Claude
@@ -139,9 +196,9 @@ export async function processEntry(
         try {
             let similarContext = '';
             [recentContext, personaSummary, similarContext] = await Promise.all([
-                getRecentEntries(5),
-                getPersonaSummary(),
-                findSimilarEntries(rawText, 5)
+                getRecentEntries(user.id, 5),
+                getPersonaSummary(user.id),
+                findSimilarEntries(user.id, rawText, 5)
             ]);
 
             // Combine contexts
@@ -152,12 +209,37 @@ export async function processEntry(
             console.error('[Pipeline] Context fetch failed (continuing without):', ctxError);
         }
 
+        // Step 2b: Open tasks, so a dump about one updates it instead of duplicating it
+        let openTasks: Task[] = [];
+        try {
+            openTasks = await getOpenTasks(user.id);
+        } catch (taskError) {
+            console.error('[Pipeline] Open tasks fetch failed (continuing without):', taskError);
+        }
+
         // Step 3: Run Claude extraction
         console.log('[Pipeline] Step 3: Running Claude extraction...');
-        const extraction = await extractFromEntry(rawText, recentContext, personaSummary);
+        const { value: extraction, issues: extractionIssues } = await extractFromEntry(
+            user, rawText, recentContext, personaSummary, describeWrittenAt(writtenAt, options?.tzOffsetMinutes), describeOpenTasks(openTasks)
+        );
         console.log('[Pipeline] Step 3 done. Title:', extraction.title, '| Category:', extraction.category);
+        if (extractionIssues.length > 0) {
+            console.warn('[Pipeline] Step 3 schema issues:', extractionIssues.map(i => `${i.field} (${i.action})`).join(', '));
+        }
         console.log('[Pipeline] is_task:', extraction.is_task, '| people:', extraction.people_mentioned?.length || 0);
 
+        // "By Friday at 5" is resolved here, in the user's timezone; the model's date is only a fallback
+        const taskDue = extraction.is_task
+            ? resolveDue(extraction.task_due_phrase, extraction.task_due_date, writtenAt, user.timezone || DEFAULT_TIMEZONE)
+            : null;
+        extraction.task_due_date = taskDue?.date ?? null;
+
+        // "Yesterday I..." is dated to yesterday; an explicit backdate wins over the model
+        const occurredAt = resolveOccurredAt(writtenAt, backdatedTo || extraction.occurred_on, options?.tzOffsetMinutes);
+        if (occurredAt.getTime() !== writtenAt.getTime()) {
+            console.log(`[Pipeline] Entry is about ${occurredAt.toISOString().split('T')[0]}${backdatedTo ? ' (backdated)' : ''}`);
+        }
+
         // Step 4: Save extracted entities (CRITICAL — must succeed)
         console.log('[Pipeline] Step 4: Saving extracted entities...');
         const { error: extractError } = await supabase
@@ -185,6 +267,7 @@ export async function processEntry(
                 is_task: extraction.is_task || false,
                 task_status: extraction.is_task ? (extraction.task_status || 'pending') : null,
                 task_due_date: extraction.task_due_date,
+                occurred_at: occurredAt.toISOString(),
                 ai_response: extraction.ai_response,
                 ai_persona_used: extraction.ai_persona_used,
                 follow_up_question: extraction.follow_up_question,
@@ -198,18 +281,45 @@ export async function processEntry(
 
         // === NON-CRITICAL STEPS: Failures are logged but don't kill the pipeline ===
 
+        // Step 4b: Record schema issues on the raw entry so bad extractions can be audited
+        if (extractionIssues.length > 0) {
+            try {
+                await supabase
+                    .from('raw_entries')
+                    .update({
+                        input_metadata: {
+                            ...(rawEntryData.input_metadata as Record<string, unknown>),
+                            extraction_issues: extractionIssues.map(({ field, problem, action }) => ({ field, problem, action })),
+                        },
+                    })
+                    .eq('id', entryId);
+            } catch (issueError) {
+                console.error('[Pipeline] Step 4b FAILED (extraction issues) — continuing:', issueError instanceof Error ? issueError.message : issueError);
+            }
+        }
+
+        // Step 4c: Tasks — complete the ones this dump reported on, add its own if it's new
+        try {
+            const { created, updated } = await syncTasksFromEntry(user.id, entryId, extraction, openTasks, taskDue);
+            console.log(`[Pipeline] Step 4c done (${created} task${created === 1 ? '' : 's'} created, ${updated} updated).`);
+        } catch (taskError) {
+            console.error('[Pipeline] Step 4c FAILED (tasks) — continuing:', taskError instanceof Error ? taskError.message : taskError);
+        }
+
         // Step 5: Generate and store embedding
         try {
-            console.log('[Pipeline] Step 5: Generating embedding...');
+            console.log('[Pipeline] Step 5: Generating embeddings...');
             const embeddingText = `${extraction.title}. ${extraction.content}`;
-            await storeEmbedding(entryId, embeddingText, {
+            // Embedding rows are plaintext, so raw text chunks only exist outside vault mode
+            const chunkSource = vault.enabled ? null : rawText;
+            const rows = await storeEntryEmbeddings(user.id, entryId, embeddingText, chunkSource, {
                 category: extraction.category,
                 mood: extraction.mood_score,
-                date: new Date().toISOString().split('T')[0],
+                date: occurredAt.toISOString().split('T')[0],
                 people: (extraction.people_mentioned || []).map((p) => p.name),
                 persona: extraction.identity_persona,
             });
-            console.log('[Pipeline] Step 5 done.');
+            console.log(`[Pipeline] Step 5 done (${rows} embedding${rows === 1 ? '' : 's'}).`);
         } catch (embError) {
             console.error('[Pipeline] Step 5 FAILED (embedding) — continuing:', embError instanceof Error ? embError.message : embError);
         }
@@ -218,7 +328,7 @@ export async function processEntry(
         try {
             if (extraction.people_mentioned && extraction.people_mentioned.length > 0) {
                 console.log('[Pipeline] Step 6: Updating people map with', extraction.people_mentioned.length, 'people...');
-                await updatePeopleMap(extraction.people_mentioned);
+                await updatePeopleMap(user.id, extraction.people_mentioned);
                 console.log('[Pipeline] Step 6 done.');
             } else {
                 console.log('[Pipeline] Step 6: No people to update.');
@@ -231,7 +341,7 @@ export async function processEntry(
         try {
             if (extraction.beliefs_revealed && extraction.beliefs_revealed.length > 0) {
                 console.log('[Pipeline] Step 6b: Updating belief system with', extraction.beliefs_revealed.length, 'beliefs...');
-                await updateBeliefSystem(extraction.beliefs_revealed, entryId);
+                await updateBeliefSystem(user.id, extraction.beliefs_revealed, entryId);
                 console.log('[Pipeline] Step 6b done.');
             }
         } catch (beliefError) {
@@ -246,7 +356,7 @@ export async function processEntry(
         try {
             if (extraction.life_event_detected) {
                 console.log('[Pipeline] Step 7: Storing life event...');
-                await storeLifeEvent(extraction.life_event_detected, entryId);
+                await storeLifeEvent(user.id, extraction.life_event_detected, entryId);
                 console.log('[Pipeline] Step 7 done.');
             } else {
                 console.log('[Pipeline] Step 7: No life event detected.');
@@ -262,7 +372,7 @@ export async function processEntry(
         try {
             if (extraction.insights && extraction.insights.length > 0) {
                 console.log('[Pipeline] Step 8: Storing', extraction.insights.length, 'insights...');
-                await storeInsights(extraction.insights, entryId);
+                await storeInsights(user.id, extraction.insights, entryId);
                 console.log('[Pipeline] Step 8 done.');
             } else {
                 console.log('[Pipeline] Step 8: No insights to store.');
@@ -278,7 +388,7 @@ export async function processEntry(
         try {
             if (extraction.health_metrics && extraction.health_metrics.length > 0) {
                 console.log('[Pipeline] Step 9: Storing', extraction.health_metrics.length, 'health metrics...');
-                await storeHealthMetrics(extraction.health_metrics, entryId);
+                await storeHealthMetrics(user.id, extraction.health_metrics, entryId);
                 console.log('[Pipeline] Step 9 done.');
             }
         } catch (healthError) {
@@ -291,6 +401,7 @@ export async function processEntry(
         return {
             entryId,
             extraction,
+            occurredAt: occurredAt.toISOString(),
             success: true,
         };
     } catch (error) {
@@ -306,9 +417,10 @@ export async function processEntry(
 
 // ---- Update People Map ----
 export async function updatePeopleMap(
+    userId: string,
     people: { name: string; relationship: string; sentiment: string; context: string }[]
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     for (const person of people) {
         try {
@@ -384,6 +496,7 @@ export async function updatePeopleMap(
 // ---- Store Life Event (with dedup + full validation) ----
 // EXPORTED: All routes must use this instead of direct DB inserts.
 export async function storeLifeEvent(
+    userId: string,
     rawEvent: {
         title?: string;
         description?: string;
@@ -402,7 +515,7 @@ export async function storeLifeEvent(
         return;
     }
 
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     // Dedup: Check if a life event with the same or very similar title already exists
     // Use fuzzy matching: exact ilike match OR similar prefix (first 40 chars)
@@ -457,10 +570,11 @@ export async function storeLifeEvent(
 
 // ---- Store Insights (with dedup) ----
 async function storeInsights(
+    userId: string,
     insights: string[],
     sourceEntryId: string
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     for (const text of insights) {
         // Dedup: Check if similar insight already exists
@@ -486,10 +600,11 @@ async function storeInsights(
 
 // ---- Store Health Metrics ----
 async function storeHealthMetrics(
+    userId: string,
     metrics: { metric: string; value: string; unit: string; status: string; date: string }[],
     sourceEntryId: string
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     const rows = metrics.map(m => ({
         id: uuidv4(),
@@ -510,6 +625,7 @@ async function storeHealthMetrics(
 
 // ---- P3: Store Dream ----
 async function storeDream(
+    userId: string,
     dream: {
         dream_text: string;
         dream_type: string;
@@ -521,7 +637,7 @@ async function storeDream(
     },
     sourceEntryId: string
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     // Dedup: check if same dream text already stored
     const { data: existing } = await supabase
@@ -557,6 +673,7 @@ async function storeDream(
 
 // ---- P3: Store Courage Moment ----
 async function storeCourageMoment(
+    userId: string,
     courage: {
         description: string;
         courage_type: string;
@@ -566,7 +683,7 @@ async function storeCourageMoment(
     },
     sourceEntryId: string
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     // Dedup: check if already stored for this entry
     const { data: existing } = await supabase
@@ -599,6 +716,7 @@ async function storeCourageMoment(
 
 // ---- Background Processing Pipeline ----
 export async function processBackgroundFeatures(
+    user: UserProfile,
     entryId: string,
     rawText: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -606,41 +724,44 @@ export async function processBackgroundFeatures(
         console.log(`[Background] Starting deep analysis for entry ${entryId}...`);
 
         // 1. Get context (lightweight)
-        const recentContext = await getRecentEntries(3);
+        const recentContext = await getRecentEntries(user.id, 3);
 
         // 2. Extract features
         // Dynamic import to avoid circular dependency if any
         const { extractBackgroundFeatures } = await import('./ai');
-        const features = await extractBackgroundFeatures(rawText, recentContext);
+        const { value: features, issues } = await extractBackgroundFeatures(user, rawText, recentContext);
+        if (issues.length > 0) {
+            console.warn('[Background] Schema issues:', issues.map(i => `${i.field} (${i.action})`).join(', '));
+        }
 
         console.log(`[Background] Extracted: ${features.life_event_detected ? '1 Life Event' : '0 Events'}, ${features.health_metrics.length} Health Metrics, ${features.insights.length} Insights`);
 
         // 3. Store results
         if (features.life_event_detected) {
-            await storeLifeEvent(features.life_event_detected, entryId);
+            await storeLifeEvent(user.id, features.life_event_detected, entryId);
         }
 
         // BUG 3: Health metrics should ONLY come from uploaded documents (process-document route).
         // Brain dump extraction is too unreliable and causes duplicates.
         // if (features.health_metrics.length > 0) {
-        //     await storeHealthMetrics(features.health_metrics, entryId);
+        //     await storeHealthMetrics(user.id, features.health_metrics, entryId);
         // }
         if (features.health_metrics.length > 0) {
             console.log(`[Background] Skipping ${features.health_metrics.length} health metrics from brain dump — health data only accepted from uploaded documents.`);
         }
 
         if (features.insights.length > 0) {
-            await storeInsights(features.insights, entryId);
+            await storeInsights(user.id, features.insights, entryId);
         }
 
         // P3: Store dream if detected
         if (features.dream_detected) {
-            await storeDream(features.dream_detected, entryId);
+            await storeDream(user.id, features.dream_detected, entryId);
         }
 
         // P3: Store courage moment if detected
         if (features.courage_detected) {
-            await storeCourageMoment(features.courage_detected, entryId);
+            await storeCourageMoment(user.id, features.courage_detected, entryId);
         }
 
         return { success: true };
@@ -650,12 +771,81 @@ export async function processBackgroundFeatures(
     }
 }
 
+// ---- Background: Extract people + life events from chat (NO raw_entries/extracted_entities) ----
+// Runs as a chat_extraction job (see jobs.ts)
+export async function extractAndStoreFromChat(
+    user: UserProfile,
+    message: string,
+    persona: AIPersona
+): Promise<{ extracted: boolean }> {
+    // Skip very short or trivial messages
+    if (message.trim().length < 15) return { extracted: false };
+
+    const supabase = getUserSupabase(user.id);
+    const personaSummary = await getPersonaSummary(user.id).catch(() => '');
+    const extraction = await extractFromChatMessage(user, message, persona, personaSummary);
+
+    if (!extraction.should_extract) return { extracted: false };
+
+    console.log(`[Chat] Extracting from chat (NO ghost entries): ${extraction.people_mentioned.length} people, ${extraction.life_event_detected ? '1 event' : '0 events'}`);
+
+    const now = new Date().toISOString();
+
+    // 1. Update people map (this is valid — chat reveals relationships)
+    for (const person of extraction.people_mentioned) {
+        const validated = validatePerson(person);
+        if (!validated) continue;
+
+        const { data: existing } = await supabase
+            .from('people_map')
+            .select('id, mention_count')
+            .ilike('name', validated.name)
+            .maybeSingle();
+
+        if (existing) {
+            await supabase.from('people_map').update({
+                mention_count: (existing.mention_count || 0) + 1,
+                last_mentioned: now,
+            }).eq('id', existing.id);
+        } else {
+            await supabase.from('people_map').insert({
+                id: uuidv4(),
+                name: validated.name,
+                relationship: validated.relationship,
+                first_mentioned: now,
+                last_mentioned: now,
+                mention_count: 1,
+                sentiment_avg: validated.sentiment_avg,
+                tags: validated.tags,
+            });
+        }
+    }
+
+    // 2. Store life event if detected — uses centralized storeLifeEvent with full validation
+    if (extraction.life_event_detected) {
+        await storeLifeEvent(user.id, extraction.life_event_detected, 'chat');
+    }
+
+    // 3. Store insights (to insights table only, not raw_entries)
+    for (const insight of extraction.insights) {
+        await supabase.from('insights').insert({
+            id: uuidv4(),
+            created_at: now,
+            insight_text: insight,
+            type: 'chat_observation',
+        });
+    }
+
+    return { extracted: true };
+}
+
 // ---- Update Belief System (with dedup) ----
 export async function updateBeliefSystem(
+    userId: string,
     beliefs: string[],
     sourceEntryId: string
 ): Promise<void> {
-    const supabase = getServiceSupabase();
+    const supabase = getUserSupabase(userId);
 
     for (const beliefText of beliefs) {
         try {
@@ -731,11 +921,65 @@ function sentimentToNumber(sentiment: string): number {
     return score;
 }
 
-function getTimeOfDay(): string {
-    const hour = new Date().getHours();
+// ---- Entry dating ----
+// Without the writer's offset, fall back to the server's (as getTimeOfDay does)
+function toWriterLocal(date: Date, tzOffsetMinutes?: number): Date {
+    const offset = tzOffsetMinutes ?? date.getTimezoneOffset();
+    return new Date(date.getTime() - offset * 60000);
+}
+
+// "Sunday, 2026-03-15 23:40" in the writer's time, so the model can resolve "yesterday"
+function describeWrittenAt(writtenAt: Date, tzOffsetMinutes?: number): string {
+    const local = toWriterLocal(writtenAt, tzOffsetMinutes);
+    const weekday = local.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    return `${weekday}, ${local.toISOString().substring(0, 16).replace('T', ' ')}`;
+}
+
+/**
+ * Move the written timestamp back to the day the entry is about,
+ * keeping the time of day. Dates on or after the written day are
+ * ignored — an entry can't be about tomorrow.
+ */
+function resolveOccurredAt(writtenAt: Date, occurredOn: string | null | undefined, tzOffsetMinutes?: number): Date {
+    if (!occurredOn || !/^\d{4}-\d{2}-\d{2}$/.test(occurredOn)) return writtenAt;
+    const writtenDay = toWriterLocal(writtenAt, tzOffsetMinutes).toISOString().split('T')[0];
+    const dayDiff = Math.round((Date.parse(occurredOn) - Date.parse(writtenDay)) / 86400000);
+    if (isNaN(dayDiff) || dayDiff >= 0) return writtenAt;
+    return new Date(writtenAt.getTime() + dayDiff * 86400000);
+}
+
+function withoutExtractionIssues(metadata: InputMetadata): InputMetadata {
+    const copy = { ...metadata };
+    delete copy.extraction_issues;
+    return copy;
+}
+
+function getTimeOfDay(date: Date = new Date()): string {
+    const hour = date.getHours();
     if (hour < 6) return 'late_night';
     if (hour < 12) return 'morning';
     if (hour < 17) return 'afternoon';
     if (hour < 21) return 'evening';
     return 'night';
 }
+
+// ---- Duplicates ----
+function duplicateResult(entryId: string): ProcessResult {
+    return {
+        entryId,
+        extraction: {} as ExtractionResult,
+        duplicate: true,
+        success: true,
+        error: 'Duplicate entry — already processed',
+    };
+}
+
+// Deleted entries count too: a late replay shouldn't resurrect something the user removed
+async function findEntryByClientId(userId: string, clientId: string): Promise<string | null> {
+    const { data } = await getUserSupabase(userId)
+        .from('raw_entries')
+        .select('id')
+        .eq('client_id', clientId)
+        .maybeSingle();
+    return data?.id ?? null;
+}
@@ -0,0 +1,234 @@
+// ============================================================
+// INNER SELF — Importers for Other Journaling Apps
+// Turn an export from another app into dated plain-text entries:
+//   dayone   — Day One JSON export (Journal.json, or the zip)
+//   journey  — Journey zip (one JSON file per entry)
+//   markdown — Obsidian daily notes / any folder of .md files (or a zip)
+//   whatsapp — WhatsApp "chat with yourself" export (_chat.txt or zip)
+// Queueing and processing live in journal-import.ts.
+// ============================================================
+import JSZip from 'jszip';
+
+export const IMPORT_FORMATS = ['dayone', 'journey', 'markdown', 'whatsapp'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export interface ImportedEntry {
+    text: string;
+    occurredAt: string; // ISO timestamp
+}
+
+export interface ImportFile {
+    name: string;
+    data: ArrayBuffer;
+    lastModified?: number;
+}
+
+interface TextFile {
+    name: string;
+    text: string;
+    lastModified?: number;
+}
+
+export const MAX_IMPORT_ENTRIES = 5000;
+const TEXT_EXTENSIONS = /\.(json|md|markdown|txt)$/i;
+
+export class ImportParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportParseError';
+    }
+}
+
+/**
+ * Parse uploaded files into entries, oldest first.
+ * `tzOffsetMinutes` is the browser's getTimezoneOffset(), used for
+ * formats that only record local wall-clock time.
+ */
+export async function parseImport(format: ImportFormat, files: ImportFile[], tzOffsetMinutes = 0): Promise<ImportedEntry[]> {
+    const textFiles = await expandFiles(files);
+    if (textFiles.length === 0) throw new ImportParseError('No readable files found in the upload');
+
+    let entries: ImportedEntry[];
+    switch (format) {
+        case 'dayone':
+            entries = textFiles.filter(f => /\.json$/i.test(f.name)).flatMap(parseDayOne);
+            break;
+        case 'journey':
+            entries = textFiles.filter(f => /\.json$/i.test(f.name)).flatMap(parseJourney);
+            break;
+        case 'markdown':
+            entries = textFiles.filter(f => /\.(md|markdown|txt)$/i.test(f.name)).flatMap(f => parseMarkdownNote(f, tzOffsetMinutes));
+            break;
+        case 'whatsapp':
+            entries = textFiles.filter(f => /\.txt$/i.test(f.name)).flatMap(f => parseWhatsApp(f.text, tzOffsetMinutes));
+            break;
+    }
+
+    entries = entries.filter(e => e.text.trim().length > 0 && !isNaN(Date.parse(e.occurredAt)));
+    if (entries.length === 0) throw new ImportParseError(`No ${format} entries found — is this the right export type?`);
+    if (entries.length > MAX_IMPORT_ENTRIES) {
+        throw new ImportParseError(`That's ${entries.length} entries — please split the import into batches of ${MAX_IMPORT_ENTRIES}`);
+    }
+
+    return entries.sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+}
+
+// Unzip archives and decode everything that looks like text
+async function expandFiles(files: ImportFile[]): Promise<TextFile[]> {
+    const result: TextFile[] = [];
+
+    for (const file of files) {
+        if (/\.zip$/i.test(file.name)) {
+            let zip: JSZip;
+            try {
+                zip = await JSZip.loadAsync(file.data);
+            } catch {
+                throw new ImportParseError(`${file.name} is not a valid zip file`);
+            }
+            for (const entry of Object.values(zip.files)) {
+                if (entry.dir || !TEXT_EXTENSIONS.test(entry.name) || entry.name.includes('__MACOSX')) continue;
+                result.push({ name: entry.name, text: await entry.async('string'), lastModified: entry.date?.getTime() });
+            }
+        } else if (TEXT_EXTENSIONS.test(file.name)) {
+            result.push({ name: file.name, text: new TextDecoder().decode(file.data), lastModified: file.lastModified });
+        }
+    }
+
+    return result;
+}
+
+function parseJson(file: TextFile): unknown {
+    try {
+        return JSON.parse(file.text);
+    } catch {
+        return null;
+    }
+}
+
+// ---- Day One ----
+// { entries: [{ uuid, creationDate: "2023-04-01T08:12:00Z", text, ... }] }
+function parseDayOne(file: TextFile): ImportedEntry[] {
+    const json = parseJson(file) as { entries?: { creationDate?: string; text?: string }[] } | null;
+    if (!json || !Array.isArray(json.entries)) return [];
+
+    return json.entries
+        .filter(e => e.text && e.creationDate)
+        .map(e => ({
+            text: e.text!
+                .replace(/!\[\]\(dayone-moment:\/\/[^)]*\)/g, '') // photo/audio placeholders
+                .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1')      // Day One escapes markdown punctuation
+                .trim(),
+            occurredAt: new Date(e.creationDate!).toISOString(),
+        }));
+}
+
+// ---- Journey ----
+// One file per entry: { date_journal: 1680336720000, text: "<p>...</p>", ... }
+function parseJourney(file: TextFile): ImportedEntry[] {
+    const json = parseJson(file) as { date_journal?: number; text?: string } | null;
+    if (!json || typeof json.date_journal !== 'number' || !json.text) return [];
+
+    return [{
+        text: htmlToText(json.text),
+        occurredAt: new Date(json.date_journal).toISOString(),
+    }];
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// ---- Markdown / Obsidian daily notes ----
+// Date from front matter `date:`, else a YYYY-MM-DD in the file name, else the file's mtime
+function parseMarkdownNote(file: TextFile, tzOffsetMinutes: number): ImportedEntry[] {
+    let body = file.text;
+    let frontMatterDate: string | null = null;
+
+    const frontMatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (frontMatter) {
+        frontMatterDate = frontMatter[1].match(/^(?:date|created):\s*["']?([^"'\r\n]+)/m)?.[1] ?? null;
+        body = body.substring(frontMatter[0].length);
+    }
+
+    const text = body
+        .replace(/!\[\[[^\]]*\]\]/g, '')                       // embedded attachments
+        .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')          // [[note|alias]]
+        .replace(/\[\[([^\]]+)\]\]/g, '$1')                      // [[note]]
+        .trim();
+
+    const nameDate = file.name.match(/(\d{4})-(\d{2})-(\d{2})/);
+    let occurredAt: Date | null = null;
+    if (frontMatterDate && !isNaN(Date.parse(frontMatterDate))) {
+        occurredAt = /^\d{4}-\d{2}-\d{2}$/.test(frontMatterDate.trim())
+            ? localNoon(frontMatterDate.trim(), tzOffsetMinutes)
+            : new Date(frontMatterDate);
+    } else if (nameDate) {
+        occurredAt = localNoon(nameDate[0], tzOffsetMinutes);
+    } else if (file.lastModified) {
+        occurredAt = new Date(file.lastModified);
+    }
+
+    return occurredAt ? [{ text, occurredAt: occurredAt.toISOString() }] : [];
+}
+
+// Date-only notes are placed at noon local time so they never slip a day
+function localNoon(isoDate: string, tzOffsetMinutes: number): Date {
+    return new Date(Date.parse(`${isoDate}T12:00:00Z`) + tzOffsetMinutes * 60000);
+}
+
+// ---- WhatsApp ----
+// iOS:     [21/03/2024, 21:14:05] Name: message
+// Android: 21/03/2024, 21:14 - Name: message
+// Messages are grouped into one entry per day.
+const WHATSAPP_LINE = /^\u200E?\[?(\d{1,2})[/.](\d{1,2})[/.](\d{2,4}),? (\d{1,2}):(\d{2})(?::(\d{2}))?\s?([AaPp][Mm])?\]?(?: -)? ([^:]+): ([\s\S]*)$/;
+const WHATSAPP_SKIP = /^(<Media omitted>|.*omitted>?$|This message was deleted|Messages and calls are end-to-end encrypted)/;
+
+function parseWhatsApp(text: string, tzOffsetMinutes: number): ImportedEntry[] {
+    const messages: { parts: number[]; meridiem?: string; text: string }[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        const match = line.match(WHATSAPP_LINE);
+        if (match) {
+            const [, a, b, year, hour, minute, second, meridiem, , body] = match;
+            messages.push({ parts: [+a, +b, +year, +hour, +minute, +(second || 0)], meridiem, text: body });
+        } else if (messages.length > 0 && line.trim()) {
+            messages[messages.length - 1].text += '\n' + line; // multi-line message
+        }
+    }
+
+    // Day/month order isn't marked — a first field over 12 means DD/MM, a second means MM/DD
+    const monthFirst = !messages.some(m => m.parts[0] > 12) && messages.some(m => m.parts[1] > 12);
+
+    const byDay = new Map<string, { occurredAt: Date; lines: string[] }>();
+    for (const { parts, meridiem, text: body } of messages) {
+        if (WHATSAPP_SKIP.test(body.trim())) continue;
+
+        const [first, middle, rawYear, rawHour, minute, seconds] = parts;
+        const [day, month] = monthFirst ? [middle, first] : [first, middle];
+        const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+        let hour = rawHour % (meridiem ? 12 : 24);
+        if (meridiem && /p/i.test(meridiem)) hour += 12;
+
+        const occurredAt = new Date(Date.UTC(year, month - 1, day, hour, minute, seconds) + tzOffsetMinutes * 60000);
+        const dayKey = `${year}-${month}-${day}`;
+        const group = byDay.get(dayKey) ?? { occurredAt, lines: [] };
+        group.lines.push(body.trim());
+        byDay.set(dayKey, group);
+    }
+
+    return Array.from(byDay.values()).map(({ occurredAt, lines }) => ({
+        text: lines.join('\n'),
+        occurredAt: occurredAt.toISOString(),
+    }));
+}
@@ -0,0 +1,73 @@
+// ============================================================
+// INNER SELF — Insights Inbox
+// Crons write insights (status 'new'); the inbox reads them, marks
+// them read or dismissed, snoozes them, and records whether they
+// helped. Verdicts flow back into daily-insights: the model is shown
+// what was rejected and what landed, and anything it produces that
+// closely resembles a rejected insight is dropped before it's stored.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import type { InsightFeedback, InsightStatus } from '@/types';
+
+export const INSIGHT_STATUSES: InsightStatus[] = ['new', 'read', 'dismissed'];
+export const INSIGHT_FEEDBACK: InsightFeedback[] = ['helpful', 'not_helpful'];
+
+export interface InsightFeedbackHistory {
+    helpful: string[];
+    rejected: string[];
+}
+
+const FEEDBACK_WINDOW_DAYS = 90;
+const FEEDBACK_LIMIT = 40;
+const SIMILARITY_THRESHOLD = 0.6;
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'to', 'of', 'in', 'on', 'for', 'is', 'are', 'was', 'you', 'your', 'have', 'has', 'been', 'this', 'that', 'with', 'it']);
+
+/** Recently rated insights, newest first. */
+export async function getInsightFeedback(userId: string): Promise<InsightFeedbackHistory> {
+    const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 86400000).toISOString();
+    const { data, error } = await getUserSupabase(userId)
+        .from('insights')
+        .select('insight_text, feedback')
+        .not('feedback', 'is', null)
+        .gte('feedback_at', since)
+        .order('feedback_at', { ascending: false })
+        .limit(FEEDBACK_LIMIT);
+    if (error) throw new Error(`Failed to load insight feedback: ${error.message}`);
+
+    const rows = data || [];
+    return {
+        helpful: rows.filter(row => row.feedback === 'helpful').map(row => row.insight_text),
+        rejected: rows.filter(row => row.feedback === 'not_helpful').map(row => row.insight_text),
+    };
+}
+
+/** The feedback block for the daily-insights prompt ('' when nothing was rated). */
+export function describeInsightFeedback(history: InsightFeedbackHistory): string {
+    const sections: string[] = [];
+    if (history.rejected.length > 0) {
+        sections.push(`MARKED NOT HELPFUL (don't repeat these or close variants):\n${history.rejected.map(text => `- ${text}`).join('\n')}`);
+    }
+    if (history.helpful.length > 0) {
+        sections.push(`MARKED HELPFUL (this kind of observation lands):\n${history.helpful.map(text => `- ${text}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
+function keywords(text: string): Set<string> {
+    return new Set(
+        text.toLowerCase().replace(/[^a-z0-9\s]+/g, ' ').split(/\s+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    );
+}
+
+/** Whether a new insight says much the same as one the user rejected (keyword overlap). */
+export function resemblesRejected(text: string, rejected: string[]): boolean {
+    const words = keywords(text);
+    if (words.size === 0) return false;
+    return rejected.some(previous => {
+        const other = keywords(previous);
+        let shared = 0;
+        for (const word of words) if (other.has(word)) shared++;
+        const union = words.size + other.size - shared;
+        return union > 0 && shared / union >= SIMILARITY_THRESHOLD;
+    });
+}
@@ -0,0 +1,389 @@
+// ============================================================
+// INNER SELF — Durable Job Queue
+// Background work is written to the jobs table before it runs, so
+// a frozen or killed serverless function can't silently drop it.
+//
+//   enqueueJob   — idempotent per key (e.g. background_features:<entry_id>)
+//   runDueJobs   — claim and run due jobs for one user, within a time budget
+//   sweepStalledWork — re-queue entries that never got extracted and
+//                  fail uploads stuck in "processing"
+//   startReembed — rebuild embeddings made by an older model, one
+//                  batch per job (each job queues the next)
+//
+// Failures retry with exponential backoff up to max_attempts, then
+// stay "failed" with last_error for the UI. Payloads carry ids only;
+// journal text is read (and vault-decrypted) when the job runs, so
+// jobs that need text wait while an encrypted journal is locked.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import { processEntry, processBackgroundFeatures, extractAndStoreFromChat } from './extraction';
+import { getVault, type Vault } from './vault';
+import { generateThreadTitle } from './ai';
+import { getThreadMessages } from './threads';
+import { getEmbeddingModel, reembedBatch } from './embeddings';
+import type { AIPersona, UserProfile } from '@/types';
+
+export type JobType = 'extract_entry' | 'background_features' | 'chat_extraction' | 'thread_title' | 'reembed';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobSummary {
+    id: string;
+    job_type: JobType;
+    idempotency_key: string;
+    status: JobStatus;
+    attempts: number;
+    max_attempts: number;
+    run_after: string;
+    last_error: string | null;
+    completed_at: string | null;
+}
+
+export interface JobRunStats {
+    ran: number;
+    succeeded: number;
+    retried: number;
+    failed: number;
+    deferred: number; // waiting for the vault to be unlocked
+}
+
+const JOB_COLUMNS = 'id, job_type, idempotency_key, status, attempts, max_attempts, run_after, last_error, completed_at';
+const DEFAULT_TIME_BUDGET_MS = 40_000;
+const DEFAULT_MAX_JOBS = 10;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+const ORPHAN_SCAN_LIMIT = 200;
+
+/** Thrown by a handler when retrying can't help (e.g. the entry was deleted). */
+export class PermanentJobError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermanentJobError';
+    }
+}
+
+interface JobContext {
+    user: UserProfile;
+    vault: Vault;
+}
+
+interface JobDefinition {
+    /** Reads vault-encrypted text, so it can't run while the vault is locked */
+    needsVault: boolean;
+    run(payload: Record<string, unknown>, context: JobContext): Promise<Record<string, unknown>>;
+}
+
+export function jobKey(type: JobType, id: string): string {
+    return `${type}:${id}`;
+}
+
+// ---- Handlers ----
+async function loadEntryText(context: JobContext, entryId: string): Promise<{ text: string; source: 'text' | 'voice' }> {
+    const { data: entry } = await getUserSupabase(context.user.id)
+        .from('raw_entries')
+        .select('raw_text, source')
+        .eq('id', entryId)
+        .is('deleted_at', null)
+        .maybeSingle();
+    if (!entry) throw new PermanentJobError(`Entry ${entryId} no longer exists`);
+    return { text: context.vault.open(entry.raw_text) || '', source: entry.source === 'voice' ? 'voice' : 'text' };
+}
+
+const JOB_DEFINITIONS: Record<JobType, JobDefinition> = {
+    // Re-run the main pipeline for an entry that was saved but never extracted
+    extract_entry: {
+        needsVault: true,
+        async run(payload, context) {
+            const entryId = payload.entryId as string;
+            const { text, source } = await loadEntryText(context, entryId);
+            const result = await processEntry(context.user, text, source, { existingEntryId: entryId });
+            if (!result.success) throw new Error(result.error || 'Extraction failed');
+            await enqueueJob(context.user.id, 'background_features', { entryId });
+            return { title: result.extraction.title };
+        },
+    },
+    // Deep analysis: life events, insights, dreams, courage moments
+    background_features: {
+        needsVault: true,
+        async run(payload, context) {
+            const entryId = payload.entryId as string;
+            const { text } = await loadEntryText(context, entryId);
+            const result = await processBackgroundFeatures(context.user, entryId, text);
+            if (!result.success) throw new Error(result.error || 'Background analysis failed');
+            return {};
+        },
+    },
+    // People, life events and insights mentioned in a chat message
+    chat_extraction: {
+        needsVault: true,
+        async run(payload, context) {
+            const { data: message } = await getUserSupabase(context.user.id)
+                .from('conversations')
+                .select('content')
+                .eq('id', payload.conversationId as string)
+                .maybeSingle();
+            if (!message) throw new PermanentJobError(`Message ${payload.conversationId} no longer exists`);
+            return extractAndStoreFromChat(context.user, context.vault.open(message.content) || '', payload.persona as AIPersona);
+        },
+    },
+    // Name a new chat thread after its first exchange
+    thread_title: {
+        needsVault: true,
+        async run(payload, context) {
+            const threadId = payload.threadId as string;
+            const [first, reply] = await getThreadMessages(context.user.id, threadId, context.vault);
+            if (!first || !reply) throw new PermanentJobError(`Thread ${threadId} has no exchange to title`);
+
+            const title = await generateThreadTitle(context.user, first.content, reply.content);
+            if (!title) throw new Error('Model returned an empty title');
+
+            // Don't overwrite a title the user set in the meantime
+            await getUserSupabase(context.user.id)
+                .from('chat_threads')
+                .update({ title: context.vault.seal(title) })
+                .eq('id', threadId)
+                .is('title', null);
+            return {}; // the title is journal-derived — keep it out of the plaintext jobs table
+        },
+    },
+    // One batch of the embedding rebuild; queues the next batch until none are left
+    reembed: {
+        needsVault: false, // embeds extracted summaries, which aren't vault-encrypted
+        async run(payload, context) {
+            const model = getEmbeddingModel();
+            if (payload.model !== model.id) {
+                throw new PermanentJobError(`Embedding model is now ${model.id} — start a new rebuild`);
+            }
+
+            const batch = payload.batch as number;
+            const { reembedded, remaining } = await reembedBatch(context.user.id, model);
+            if (remaining > 0 && reembedded > 0) {
+                const next = { ...payload, batch: batch + 1 };
+                await enqueueJob(context.user.id, 'reembed', next, jobKey('reembed', `${payload.runId}:${batch + 1}`));
+            }
+            return { reembedded, remaining };
+        },
+    },
+};
+
+// ---- Queue ----
+/**
+ * Add a job unless one with the same key already exists (in any state).
+ * Returns the existing or new job.
+ */
+export async function enqueueJob(
+    userId: string,
+    type: JobType,
+    payload: Record<string, unknown>,
+    key: string = jobKey(type, String(payload.entryId ?? payload.conversationId ?? payload.threadId))
+): Promise<JobSummary | null> {
+    const supabase = getUserSupabase(userId);
+
+    const { error } = await supabase
+        .from('jobs')
+        .upsert(
+            { job_type: type, payload, idempotency_key: key },
+            { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true }
+        );
+    if (error) {
+        console.error(`[Jobs] Failed to enqueue ${key}:`, error.message);
+        return null;
+    }
+
+    const { data } = await supabase.from('jobs').select(JOB_COLUMNS).eq('idempotency_key', key).maybeSingle();
+    return data as JobSummary | null;
+}
+
+export async function getJobs(userId: string, keys: string[]): Promise<JobSummary[]> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('jobs')
+        .select(JOB_COLUMNS)
+        .in('idempotency_key', keys);
+    if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+    return (data || []) as JobSummary[];
+}
+
+/** Queued/running counts plus recent failures, for the status endpoint. */
+export async function getJobOverview(userId: string): Promise<{ queued: number; running: number; failed: JobSummary[] }> {
+    const supabase = getUserSupabase(userId);
+    const countByStatus = async (status: JobStatus) => {
+        const { count } = await supabase.from('jobs').select('id', { count: 'exact', head: true }).eq('status', status);
+        return count || 0;
+    };
+
+    const [queued, running, { data: failed }] = await Promise.all([
+        countByStatus('queued'),
+        countByStatus('running'),
+        supabase.from('jobs').select(JOB_COLUMNS).eq('status', 'failed').order('completed_at', { ascending: false }).limit(10),
+    ]);
+
+    return { queued, running, failed: (failed || []) as JobSummary[] };
+}
+
+function backoffDelay(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Drain this user's due jobs, oldest first. Each job is claimed with a
+ * conditional update (queued → running), so overlapping workers never
+ * run the same job twice.
+ */
+export async function runDueJobs(
+    user: UserProfile,
+    options?: { vault?: Vault; timeBudgetMs?: number; maxJobs?: number }
+): Promise<JobRunStats> {
+    const supabase = getUserSupabase(user.id);
+    const vault = options?.vault ?? await getVault(user.id);
+    const timeBudgetMs = options?.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+    const maxJobs = options?.maxJobs ?? DEFAULT_MAX_JOBS;
+    const stats: JobRunStats = { ran: 0, succeeded: 0, retried: 0, failed: 0, deferred: 0 };
+
+    // Jobs whose worker died mid-run go back in the queue
+    await supabase
+        .from('jobs')
+        .update({ status: 'queued', locked_at: null })
+        .eq('status', 'running')
+        .lt('locked_at', new Date(Date.now() - STALE_LOCK_MS).toISOString());
+
+    const vaultLocked = vault.enabled && !vault.unlocked;
+    const runnableTypes = (Object.keys(JOB_DEFINITIONS) as JobType[]).filter(type => !vaultLocked || !JOB_DEFINITIONS[type].needsVault);
+
+    if (vaultLocked) {
+        const { count } = await supabase
+            .from('jobs')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', 'queued')
+            .not('job_type', 'in', `(${runnableTypes.join(',')})`);
+        stats.deferred = count || 0;
+    }
+
+    const startedAt = Date.now();
+    while (stats.ran < maxJobs && Date.now() - startedAt < timeBudgetMs && runnableTypes.length > 0) {
+        const { data: job } = await supabase
+            .from('jobs')
+            .select('id, job_type, payload, attempts, max_attempts, idempotency_key')
+            .eq('status', 'queued')
+            .in('job_type', runnableTypes)
+            .lte('run_after', new Date().toISOString())
+            .order('run_after', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+        if (!job) break;
+
+        const attempts = job.attempts + 1;
+        const { data: claimed } = await supabase
+            .from('jobs')
+            .update({ status: 'running', attempts, locked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+            .eq('id', job.id)
+            .eq('status', 'queued')
+            .select('id');
+        if (!claimed || claimed.length === 0) continue;
+
+        stats.ran++;
+        const now = () => new Date().toISOString();
+        try {
+            const result = await JOB_DEFINITIONS[job.job_type as JobType].run(job.payload || {}, { user, vault });
+            await supabase
+                .from('jobs')
+                .update({ status: 'succeeded', result, last_error: null, locked_at: null, completed_at: now(), updated_at: now() })
+                .eq('id', job.id);
+            stats.succeeded++;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const giveUp = error instanceof PermanentJobError || attempts >= job.max_attempts;
+
+            await supabase
+                .from('jobs')
+                .update(giveUp
+                    ? { status: 'failed', last_error: message, locked_at: null, completed_at: now(), updated_at: now() }
+                    : {
+                        status: 'queued',
+                        last_error: message,
+                        locked_at: null,
+                        run_after: new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+                        updated_at: now(),
+                    })
+                .eq('id', job.id);
+
+            if (giveUp) {
+                stats.failed++;
+                console.error(`[Jobs] ${job.idempotency_key} failed permanently after ${attempts} attempt(s):`, message);
+            } else {
+                stats.retried++;
+                console.warn(`[Jobs] ${job.idempotency_key} attempt ${attempts} failed, retrying in ${backoffDelay(attempts) / 1000}s:`, message);
+            }
+        }
+    }
+
+    return stats;
+}
+
+/** The queued or running batch of an embedding rebuild, if one is under way. */
+export async function getActiveReembedJob(userId: string): Promise<JobSummary | null> {
+    const { data } = await getUserSupabase(userId)
+        .from('jobs')
+        .select(JOB_COLUMNS)
+        .eq('job_type', 'reembed')
+        .in('status', ['queued', 'running'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    return data as JobSummary | null;
+}
+
+/** Start rebuilding every embedding not made by the active model, unless a rebuild is already running. */
+export async function startReembed(userId: string): Promise<JobSummary | null> {
+    const active = await getActiveReembedJob(userId);
+    if (active) return active;
+
+    const runId = Date.now().toString(36);
+    return enqueueJob(userId, 'reembed', { model: getEmbeddingModel().id, runId, batch: 0 }, jobKey('reembed', `${runId}:0`));
+}
+
+/**
+ * Safety net for work that never made it into the queue: entries saved
+ * without an extraction get an extract_entry job, and uploads left
+ * "processing" by a killed function are marked failed so they can be retried.
+ */
+export async function sweepStalledWork(userId: string): Promise<{ orphansQueued: number; uploadsFailed: number }> {
+    const supabase = getUserSupabase(userId);
+    const cutoff = new Date(Date.now() - ORPHAN_GRACE_MS).toISOString();
+
+    // By insert time: imported, backdated and synced entries carry an older created_at
+    const { data: recent } = await supabase
+        .from('raw_entries')
+        .select('id')
+        .is('deleted_at', null)
+        .lt('inserted_at', cutoff)
+        .order('inserted_at', { ascending: false })
+        .limit(ORPHAN_SCAN_LIMIT);
+
+    let orphansQueued = 0;
+    const recentIds = (recent || []).map(r => r.id);
+    if (recentIds.length > 0) {
+        const { data: extracted } = await supabase
+            .from('extracted_entities')
+            .select('entry_id')
+            .in('entry_id', recentIds);
+        const extractedIds = new Set((extracted || []).map(e => e.entry_id));
+
+        for (const entryId of recentIds.filter(id => !extractedIds.has(id))) {
+            const job = await enqueueJob(userId, 'extract_entry', { entryId });
+            if (job?.status === 'queued' && job.attempts === 0) orphansQueued++;
+        }
+    }
+
+    const { data: stuck } = await supabase
+        .from('uploaded_documents')
+        .update({ processing_status: 'failed' })
+        .eq('processing_status', 'processing')
+        .lt('created_at', cutoff)
+        .select('id');
+
+    if (orphansQueued > 0 || (stuck && stuck.length > 0)) {
+        console.log(`[Jobs] Sweep for user ${userId}: ${orphansQueued} orphaned entries queued, ${stuck?.length || 0} stuck uploads failed`);
+    }
+    return { orphansQueued, uploadsFailed: stuck?.length || 0 };
+}
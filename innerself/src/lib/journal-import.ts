@@ -0,0 +1,188 @@
+// ============================================================
+// INNER SELF — Journal Import Queue
+// Parsed entries (see importers.ts) are parked in
+// journal_import_items and drained a few at a time through the
+// normal pipeline (processEntry, then a queued background_features
+// job), keeping their original timestamps. The client keeps calling
+// runImportBatch until nothing is pending and shows the progress.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import { processEntry } from './extraction';
+import { getVault, VaultLockedError } from './vault';
+import { enqueueJob, runDueJobs } from './jobs';
+import type { ImportFormat, ImportedEntry } from './importers';
+import type { UserProfile } from '@/types';
+
+// Each run stays well inside the 60s function limit; the pause keeps LLM rate limits happy
+const IMPORT_TIME_BUDGET_MS = 40_000;
+const IMPORT_MAX_ITEMS_PER_RUN = 5;
+const IMPORT_THROTTLE_MS = 1500;
+const QUEUE_INSERT_BATCH_SIZE = 500;
+const STALE_CLAIM_MS = 5 * 60 * 1000; // a run that died mid-item
+
+export interface ImportProgress {
+    id: string;
+    source_app: ImportFormat;
+    status: 'pending' | 'running' | 'completed';
+    total: number;
+    done: number;
+    skipped: number;
+    failed: number;
+    pending: number;
+    created_at: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function queueImport(userId: string, sourceApp: ImportFormat, entries: ImportedEntry[]): Promise<string> {
+    const supabase = getUserSupabase(userId);
+
+    // Queued text gets the same at-rest protection as raw_entries
+    const vault = await getVault(userId);
+    if (vault.enabled && !vault.unlocked) throw new VaultLockedError();
+
+    const { data: created, error } = await supabase
+        .from('journal_imports')
+        .insert({ source_app: sourceApp, total_items: entries.length })
+        .select('id')
+        .single();
+    if (error || !created) throw new Error(`Failed to create import: ${error?.message}`);
+
+    const items = entries.map((entry, position) => ({
+        import_id: created.id,
+        position,
+        raw_text: vault.seal(entry.text),
+        occurred_at: entry.occurredAt,
+    }));
+
+    for (let i = 0; i < items.length; i += QUEUE_INSERT_BATCH_SIZE) {
+        const { error: itemsError } = await supabase
+            .from('journal_import_items')
+            .insert(items.slice(i, i + QUEUE_INSERT_BATCH_SIZE));
+        if (itemsError) {
+            await supabase.from('journal_imports').delete().eq('id', created.id);
+            throw new Error(`Failed to queue import items: ${itemsError.message}`);
+        }
+    }
+
+    console.log(`[Import] Queued ${entries.length} ${sourceApp} entries for user ${userId} (import ${created.id})`);
+    return created.id;
+}
+
+export async function getImportProgress(userId: string, importId: string): Promise<ImportProgress | null> {
+    const supabase = getUserSupabase(userId);
+    const { data: job } = await supabase
+        .from('journal_imports')
+        .select('id, source_app, status, total_items, created_at')
+        .eq('id', importId)
+        .maybeSingle();
+    if (!job) return null;
+
+    const countByStatus = async (status: string) => {
+        const { count } = await supabase
+            .from('journal_import_items')
+            .select('id', { count: 'exact', head: true })
+            .eq('import_id', importId)
+            .eq('status', status);
+        return count || 0;
+    };
+    const [done, skipped, failed] = await Promise.all([countByStatus('done'), countByStatus('skipped'), countByStatus('failed')]);
+
+    return {
+        id: job.id,
+        source_app: job.source_app,
+        status: job.status,
+        total: job.total_items,
+        done,
+        skipped,
+        failed,
+        pending: Math.max(0, job.total_items - done - skipped - failed),
+        created_at: job.created_at,
+    };
+}
+
+/**
+ * Process the next few queued entries, oldest first, then report
+ * progress. Items are claimed (pending → processing) one at a time,
+ * so two tabs draining the same import never double-process.
+ */
+export async function runImportBatch(user: UserProfile, importId: string): Promise<ImportProgress | null> {
+    const supabase = getUserSupabase(user.id);
+    const vault = await getVault(user.id);
+    if (vault.enabled && !vault.unlocked) throw new VaultLockedError();
+
+    const { data: job } = await supabase
+        .from('journal_imports')
+        .select('id, source_app, status')
+        .eq('id', importId)
+        .maybeSingle();
+    if (!job) return null;
+    if (job.status === 'completed') return getImportProgress(user.id, importId);
+
+    await supabase.from('journal_imports').update({ status: 'running', updated_at: new Date().toISOString() }).eq('id', importId);
+
+    // Hand items claimed by a run that never finished back to the queue
+    await supabase
+        .from('journal_import_items')
+        .update({ status: 'pending' })
+        .eq('import_id', importId)
+        .eq('status', 'processing')
+        .lt('claimed_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString());
+
+    const startedAt = Date.now();
+    for (let processed = 0; processed < IMPORT_MAX_ITEMS_PER_RUN && Date.now() - startedAt < IMPORT_TIME_BUDGET_MS; processed++) {
+        const { data: next } = await supabase
+            .from('journal_import_items')
+            .select('id, raw_text, occurred_at')
+            .eq('import_id', importId)
+            .eq('status', 'pending')
+            .order('position', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+        if (!next) break;
+
+        const { data: claimed } = await supabase
+            .from('journal_import_items')
+            .update({ status: 'processing', claimed_at: new Date().toISOString() })
+            .eq('id', next.id)
+            .eq('status', 'pending')
+            .select('id');
+        if (!claimed || claimed.length === 0) continue;
+
+        if (processed > 0) await sleep(IMPORT_THROTTLE_MS);
+
+        const text = vault.open(next.raw_text) || '';
+        let update: Record<string, unknown>;
+        try {
+            const result = await processEntry(user, text, 'text', { createdAt: next.occurred_at, importedFrom: job.source_app });
+            if (!result.success) {
+                update = { status: 'failed', error: result.error || 'Extraction failed' };
+            } else if (result.error) {
+                // processEntry reports duplicates as a successful no-op
+                update = { status: 'skipped', entry_id: result.entryId, error: result.error };
+            } else {
+                await enqueueJob(user.id, 'background_features', { entryId: result.entryId });
+                update = { status: 'done', entry_id: result.entryId };
+            }
+        } catch (error) {
+            update = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        await supabase
+            .from('journal_import_items')
+            .update({ ...update, processed_at: new Date().toISOString() })
+            .eq('id', next.id);
+    }
+
+    // Spend what's left of the budget on the deep-analysis jobs queued above
+    const remainingMs = IMPORT_TIME_BUDGET_MS - (Date.now() - startedAt);
+    if (remainingMs > 5000) await runDueJobs(user, { vault, timeBudgetMs: remainingMs });
+
+    const progress = await getImportProgress(user.id, importId);
+    if (progress && progress.pending === 0) {
+        await supabase.from('journal_imports').update({ status: 'completed', updated_at: new Date().toISOString() }).eq('id', importId);
+        progress.status = 'completed';
+        console.log(`[Import] Import ${importId} complete: ${progress.done} added, ${progress.skipped} duplicates, ${progress.failed} failed`);
+    }
+    return progress;
+}
@@ -0,0 +1,397 @@
+// ============================================================
+// INNER SELF — LLM Provider Layer
+// Anthropic, OpenAI, Gemini and local OpenAI-compatible servers
+// (Ollama, llama.cpp) behind one interface, chosen per task.
+//
+// Config (env):
+//   LLM_PROVIDER=anthropic                       default for every task
+//   LLM_EXTRACTION_PROVIDER=openai:gpt-4o-mini   per-task override
+//   LLM_CHAT_PROVIDER=anthropic,gemini           comma list = failover order
+//   LLM_BIOGRAPHY_PROVIDER / LLM_INSIGHTS_PROVIDER
+//   ANTHROPIC_MODEL, OPENAI_MODEL, GEMINI_MODEL, LOCAL_LLM_MODEL
+//   LOCAL_LLM_BASE_URL (default http://localhost:11434/v1), LOCAL_LLM_API_KEY
+// ============================================================
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI, type Content, type Part } from '@google/generative-ai';
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'gemini' | 'local';
+export type LLMTask = 'extraction' | 'chat' | 'biography' | 'insights';
+
+export type LLMContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'media'; mediaType: string; data: string }; // base64 image or PDF
+
+export interface LLMMessage {
+    role: 'user' | 'assistant';
+    content: string | LLMContentPart[];
+}
+
+export interface LLMRequest {
+    system: string;
+    messages: LLMMessage[];
+    maxTokens?: number;
+    /** Text the reply must start with. Only Anthropic honours it; others rely on JSON mode. */
+    prefill?: string;
+    /** Ask the provider for a JSON object (native JSON mode where available). */
+    json?: boolean;
+}
+
+export interface LLMProvider {
+    name: LLMProviderName;
+    model: string;
+    /** Returns the full reply text — including the prefill when the provider honoured it. */
+    complete(request: LLMRequest): Promise<string>;
+    /** Yields the reply as it is generated. Aborting the signal stops generation. */
+    stream(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+    anthropic: 'claude-sonnet-4-20250514',
+    openai: 'gpt-4o',
+    gemini: 'gemini-2.0-flash',
+    local: 'llama3.1',
+};
+
+const MODEL_ENV: Record<LLMProviderName, string> = {
+    anthropic: 'ANTHROPIC_MODEL',
+    openai: 'OPENAI_MODEL',
+    gemini: 'GEMINI_MODEL',
+    local: 'LOCAL_LLM_MODEL',
+};
+
+const PROVIDER_NAMES: LLMProviderName[] = ['anthropic', 'openai', 'gemini', 'local'];
+
+// ---- Lazy SDK clients ----
+let _anthropic: Anthropic | null = null;
+let _openai: OpenAI | null = null;
+let _local: OpenAI | null = null;
+let _gemini: GoogleGenerativeAI | null = null;
+
+function getAnthropic(): Anthropic {
+    if (!_anthropic) {
+        if (!process.env.ANTHROPIC_API_KEY) {
+            throw new Error('Missing ANTHROPIC_API_KEY in environment variables');
+        }
+        _anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return _anthropic;
+}
+
+function getOpenAI(): OpenAI {
+    if (!_openai) {
+        if (!process.env.OPENAI_API_KEY) {
+            throw new Error('Missing OPENAI_API_KEY in environment variables');
+        }
+        _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return _openai;
+}
+
+function getLocal(): OpenAI {
+    if (!_local) {
+        _local = new OpenAI({
+            baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+            // Ollama and llama.cpp ignore the key, but the SDK refuses to start without one
+            apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        });
+    }
+    return _local;
+}
+
+function getGemini(): GoogleGenerativeAI {
+    if (!_gemini) {
+        if (!process.env.GEMINI_API_KEY) {
+            throw new Error('Missing GEMINI_API_KEY in environment variables');
+        }
+        _gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    }
+    return _gemini;
+}
+
+// ---- Anthropic ----
+function toAnthropicContent(content: string | LLMContentPart[]): Anthropic.MessageParam['content'] {
+    if (typeof content === 'string') return content;
+    return content.map((part): Anthropic.ContentBlockParam => {
+        if (part.type === 'text') return { type: 'text', text: part.text };
+        if (part.mediaType === 'application/pdf') {
+            return {
+                type: 'document',
+                source: { type: 'base64', media_type: 'application/pdf', data: part.data },
+            };
+        }
+        return {
+            type: 'image',
+            source: {
+                type: 'base64',
+                media_type: part.mediaType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+                data: part.data,
+            },
+        };
+    });
+}
+
+function toAnthropicMessages(request: LLMRequest): Anthropic.MessageParam[] {
+    const messages: Anthropic.MessageParam[] = request.messages.map(m => ({
+        role: m.role,
+        content: toAnthropicContent(m.content),
+    }));
+    if (request.prefill) {
+        messages.push({ role: 'assistant', content: request.prefill });
+    }
+    return messages;
+}
+
+function anthropicProvider(model: string): LLMProvider {
+    return {
+        name: 'anthropic',
+        model,
+        async complete(request) {
+            const response = await getAnthropic().messages.create({
+                model,
+                max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+                system: request.system,
+                messages: toAnthropicMessages(request),
+            });
+
+            const text = response.content
+                .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+                .map(block => block.text)
+                .join('');
+
+            return (request.prefill || '') + text;
+        },
+        async *stream(request, signal) {
+            const events = await getAnthropic().messages.create({
+                model,
+                max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+                system: request.system,
+                messages: toAnthropicMessages(request),
+                stream: true,
+            }, { signal });
+
+            if (request.prefill) yield request.prefill;
+            for await (const event of events) {
+                if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                    yield event.delta.text;
+                }
+            }
+        },
+    };
+}
+
+// ---- OpenAI + local OpenAI-compatible servers ----
+function toOpenAIContent(content: string | LLMContentPart[]): string | OpenAI.Chat.ChatCompletionContentPart[] {
+    if (typeof content === 'string') return content;
+    return content.map((part): OpenAI.Chat.ChatCompletionContentPart => {
+        if (part.type === 'text') return { type: 'text', text: part.text };
+        const dataUrl = `data:${part.mediaType};base64,${part.data}`;
+        if (part.mediaType === 'application/pdf') {
+            return { type: 'file', file: { filename: 'document.pdf', file_data: dataUrl } };
+        }
+        return { type: 'image_url', image_url: { url: dataUrl } };
+    });
+}
+
+function toOpenAIMessages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+        { role: 'system', content: request.system },
+        ...request.messages.map((m): OpenAI.Chat.ChatCompletionMessageParam =>
+            m.role === 'user'
+                ? { role: 'user', content: toOpenAIContent(m.content) }
+                : { role: 'assistant', content: typeof m.content === 'string' ? m.content : flattenText(m.content) }
+        ),
+    ];
+}
+
+function openAICompatibleProvider(name: 'openai' | 'local', model: string): LLMProvider {
+    return {
+        name,
+        model,
+        async complete(request) {
+            const client = name === 'local' ? getLocal() : getOpenAI();
+
+            const response = await client.chat.completions.create({
+                model,
+                max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+                messages: toOpenAIMessages(request),
+                ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+            });
+
+            return response.choices[0]?.message?.content || '';
+        },
+        async *stream(request, signal) {
+            const client = name === 'local' ? getLocal() : getOpenAI();
+
+            const chunks = await client.chat.completions.create({
+                model,
+                max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+                messages: toOpenAIMessages(request),
+                stream: true,
+            }, { signal });
+
+            for await (const chunk of chunks) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) yield text;
+            }
+        },
+    };
+}
+
+// ---- Gemini ----
+function toGeminiParts(content: string | LLMContentPart[]): Part[] {
+    if (typeof content === 'string') return [{ text: content }];
+    return content.map((part): Part =>
+        part.type === 'text'
+            ? { text: part.text }
+            : { inlineData: { mimeType: part.mediaType, data: part.data } }
+    );
+}
+
+function geminiModel(model: string, request: LLMRequest) {
+    return getGemini().getGenerativeModel({
+        model,
+        systemInstruction: request.system,
+        generationConfig: {
+            maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+            ...(request.json ? { responseMimeType: 'application/json' } : {}),
+        },
+    });
+}
+
+function toGeminiContents(request: LLMRequest): Content[] {
+    return request.messages.map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: toGeminiParts(m.content),
+    }));
+}
+
+function geminiProvider(model: string): LLMProvider {
+    return {
+        name: 'gemini',
+        model,
+        async complete(request) {
+            const result = await geminiModel(model, request).generateContent({ contents: toGeminiContents(request) });
+            return result.response.text();
+        },
+        async *stream(request, signal) {
+            const result = await geminiModel(model, request).generateContentStream(
+                { contents: toGeminiContents(request) },
+                { signal }
+            );
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                if (text) yield text;
+            }
+        },
+    };
+}
+
+function flattenText(parts: LLMContentPart[]): string {
+    return parts
+        .filter((p): p is { type: 'text'; text: string } => p.type === 'text')
+        .map(p => p.text)
+        .join('\n');
+}
+
+// ---- Config Resolution ----
+function createProvider(name: LLMProviderName, model?: string): LLMProvider {
+    const resolvedModel = model || process.env[MODEL_ENV[name]] || DEFAULT_MODELS[name];
+    switch (name) {
+        case 'anthropic': return anthropicProvider(resolvedModel);
+        case 'openai': return openAICompatibleProvider('openai', resolvedModel);
+        case 'local': return openAICompatibleProvider('local', resolvedModel);
+        case 'gemini': return geminiProvider(resolvedModel);
+    }
+}
+
+/**
+ * Parse a provider spec like "openai:gpt-4o-mini,anthropic" into an ordered
+ * failover chain. Unknown provider names are skipped with a warning.
+ */
+export function parseProviderSpec(spec: string): LLMProvider[] {
+    const chain: LLMProvider[] = [];
+    for (const raw of spec.split(',')) {
+        const entry = raw.trim();
+        if (!entry) continue;
+        const sep = entry.indexOf(':');
+        const name = (sep === -1 ? entry : entry.substring(0, sep)).toLowerCase() as LLMProviderName;
+        const model = sep === -1 ? undefined : entry.substring(sep + 1).trim() || undefined;
+        if (!PROVIDER_NAMES.includes(name)) {
+            console.warn(`[LLM] Unknown provider "${name}" in spec "${spec}", skipping.`);
+            continue;
+        }
+        chain.push(createProvider(name, model));
+    }
+    return chain;
+}
+
+/**
+ * Provider chain for a task: LLM_<TASK>_PROVIDER, else LLM_PROVIDER, else Anthropic.
+ */
+export function getProviderChain(task: LLMTask): LLMProvider[] {
+    const spec = process.env[`LLM_${task.toUpperCase()}_PROVIDER`] || process.env.LLM_PROVIDER || 'anthropic';
+    const chain = parseProviderSpec(spec);
+    return chain.length > 0 ? chain : [createProvider('anthropic')];
+}
+
+/**
+ * Run a completion for a task, failing over down the configured chain.
+ * Throws the last provider's error if every provider fails.
+ */
+export async function complete(task: LLMTask, request: LLMRequest): Promise<string> {
+    const chain = getProviderChain(task);
+    let lastError: unknown = null;
+
+    for (let i = 0; i < chain.length; i++) {
+        const provider = chain[i];
+        try {
+            return await provider.complete(request);
+        } catch (error) {
+            lastError = error;
+            const next = chain[i + 1];
+            console.error(
+                `[LLM] ${provider.name} (${provider.model}) failed for ${task}:`,
+                error instanceof Error ? error.message : error,
+                next ? `— failing over to ${next.name}` : ''
+            );
+        }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`All LLM providers failed for ${task}`);
+}
+
+/**
+ * Stream a completion for a task. Fails over down the chain only until
+ * the first chunk arrives — after that a failure is the caller's to
+ * handle, since part of the reply is already on screen.
+ */
+export async function* completeStream(task: LLMTask, request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const chain = getProviderChain(task);
+    let lastError: unknown = null;
+
+    for (let i = 0; i < chain.length; i++) {
+        const provider = chain[i];
+        let started = false;
+        try {
+            for await (const chunk of provider.stream(request, signal)) {
+                started = true;
+                yield chunk;
+            }
+            return;
+        } catch (error) {
+            if (started || signal?.aborted) throw error;
+            lastError = error;
+            const next = chain[i + 1];
+            console.error(
+                `[LLM] ${provider.name} (${provider.model}) stream failed for ${task}:`,
+                error instanceof Error ? error.message : error,
+                next ? `— failing over to ${next.name}` : ''
+            );
+        }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`All LLM providers failed for ${task}`);
+}
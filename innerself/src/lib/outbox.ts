@@ -0,0 +1,275 @@
+// ============================================================
+// INNER SELF — Offline Outbox (browser side)
+// Every brain dump is written to IndexedDB before it's sent, so a
+// dead connection or a timed-out /api/process never loses one.
+// Items stay queued until the server has the entry; each carries a
+// client_id that /api/process records, so replaying an item that
+// already landed returns the existing entry instead of a copy.
+// Flushes run when the tab loads, when the browser comes back
+// online, and when the service worker (public/sw.js) fires a
+// Background Sync for OUTBOX_SYNC_TAG.
+// ============================================================
+import { v4 as uuidv4 } from 'uuid';
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export interface OutboxItem {
+    id: string; // client_id — the idempotency key sent to /api/process
+    text: string; // empty for a voice dump the browser couldn't transcribe offline
+    source: 'text' | 'voice';
+    audio: Blob | null; // dropped once /api/transcribe has it
+    audio_url: string | null;
+    audio_duration_sec: number | null;
+    occurred_on: string | null;
+    tz_offset: number;
+    written_at: string; // capture time — becomes the entry's created_at
+    status: OutboxStatus;
+    attempts: number;
+    last_error: string | null;
+}
+
+export type SendOutcome<T> =
+    | { ok: true; result: T }
+    | { ok: false; offline: boolean; error: string };
+
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const DB_NAME = 'inner-self';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+const CHANGE_EVENT = 'innerself:outbox';
+const MAX_ATTEMPTS = 5; // server errors before an item is parked as failed
+
+// ---- IndexedDB ----
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function notifyChange() {
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// ---- Queue ----
+export async function listOutbox(): Promise<OutboxItem[]> {
+    if (typeof indexedDB === 'undefined') return [];
+    const items = await withStore<OutboxItem[]>('readonly', store => store.getAll());
+    return items.sort((a, b) => a.written_at.localeCompare(b.written_at));
+}
+
+export async function addToOutbox(dump: {
+    text: string;
+    source: 'text' | 'voice';
+    audio?: Blob | null;
+    audio_duration_sec?: number | null; // as timed by the recorder
+    occurred_on?: string | null;
+}): Promise<OutboxItem> {
+    const item: OutboxItem = {
+        id: uuidv4(),
+        text: dump.text,
+        source: dump.source,
+        audio: dump.audio ?? null,
+        audio_url: null,
+        audio_duration_sec: dump.audio_duration_sec ?? null,
+        occurred_on: dump.occurred_on || null,
+        tz_offset: new Date().getTimezoneOffset(),
+        written_at: new Date().toISOString(),
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+    };
+    await withStore('readwrite', store => store.put(item));
+    notifyChange();
+    requestBackgroundSync();
+    return item;
+}
+
+async function saveItem(item: OutboxItem) {
+    await withStore('readwrite', store => store.put(item));
+    notifyChange();
+}
+
+export async function discardOutboxItem(id: string) {
+    await withStore('readwrite', store => store.delete(id));
+    notifyChange();
+}
+
+/** Put a failed item back in the queue and try it now. */
+export async function retryOutboxItem(id: string) {
+    const item = await withStore<OutboxItem | undefined>('readonly', store => store.get(id));
+    if (!item) return;
+    await saveItem({ ...item, status: 'pending', attempts: 0, last_error: null });
+    await syncOutbox();
+}
+
+/** Calls listener whenever the queue changes; returns the unsubscribe. */
+export function subscribeOutbox(listener: () => void): () => void {
+    window.addEventListener(CHANGE_EVENT, listener);
+    return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+// ---- Sending ----
+const inFlight = new Set<string>(); // ids this tab is sending right now
+
+/**
+ * Transcribe (if there's audio) and process one item. The item is
+ * removed on success; on failure it stays queued — as pending when
+ * it's worth retrying, failed after MAX_ATTEMPTS or a rejected
+ * request. offline means the network itself failed.
+ */
+export async function sendOutboxItem<T = Record<string, unknown>>(
+    queued: OutboxItem,
+    onStep?: (step: string) => void
+): Promise<SendOutcome<T>> {
+    let item: OutboxItem = { ...queued, status: 'syncing' };
+    inFlight.add(item.id);
+    await saveItem(item);
+
+    const giveUp = async (error: string, retryable: boolean, offline = false): Promise<SendOutcome<T>> => {
+        const attempts = offline ? item.attempts : item.attempts + 1;
+        const status = retryable && attempts < MAX_ATTEMPTS ? 'pending' : 'failed';
+        await saveItem({ ...item, status, attempts, last_error: error });
+        return { ok: false, offline, error };
+    };
+
+    try {
+        if (item.audio) {
+            onStep?.('Saving audio & transcribing...');
+            const formData = new FormData();
+            formData.append('audio', item.audio, 'recording.webm');
+            if (item.audio_duration_sec) formData.append('duration_sec', String(item.audio_duration_sec));
+            const transcribeRes = await fetch('/api/transcribe', { method: 'POST', body: formData });
+            const transcribeData = await transcribeRes.json().catch(() => ({}));
+
+            if (transcribeRes.ok) {
+                // Whisper's transcript beats the browser's (more accurate for Hinglish)
+                item = {
+                    ...item,
+                    text: transcribeData.transcript || item.text,
+                    audio: null,
+                    audio_url: transcribeData.audio_url || null,
+                    audio_duration_sec: transcribeData.audio_duration_sec || item.audio_duration_sec,
+                };
+                await saveItem(item);
+            } else if (!item.text.trim()) {
+                return giveUp(transcribeData.error || 'Transcription failed', transcribeRes.status >= 500);
+            } else {
+                console.warn('[Outbox] Transcribe failed, using browser transcript:', transcribeData.error);
+            }
+        }
+
+        if (!item.text.trim()) return giveUp('Nothing to process', false);
+
+        onStep?.('Analyzing emotions & patterns...');
+        const response = await fetch('/api/process', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                text: item.text.trim(),
+                source: item.source,
+                audio_url: item.audio_url,
+                audio_duration_sec: item.audio_duration_sec,
+                occurred_on: item.occurred_on || undefined,
+                tz_offset: item.tz_offset,
+                client_id: item.id,
+                written_at: item.written_at,
+            }),
+        });
+        const result = await response.json().catch(() => ({}));
+
+        if (!response.ok || result.success === false) {
+            // Locked vault, timeouts, rate limits and server errors are worth another try
+            const retryable = response.status === 423 || response.status === 408 || response.status === 429 || response.status >= 500;
+            return giveUp(result.error || `Processing failed (${response.status})`, retryable);
+        }
+
+        await discardOutboxItem(item.id);
+        return { ok: true, result: result as T };
+    } catch (err) {
+        // fetch only throws when the request never completed
+        console.warn('[Outbox] Send failed, keeping item queued:', err);
+        return giveUp('Waiting for a connection', true, true);
+    } finally {
+        inFlight.delete(item.id);
+    }
+}
+
+let syncing: Promise<number> | null = null;
+
+/**
+ * Send every queued item, oldest first, stopping at the first
+ * network failure. Concurrent calls share one run; another tab
+ * sending the same item at once is harmless (client_id).
+ */
+export function syncOutbox(): Promise<number> {
+    if (!syncing) {
+        syncing = (async () => {
+            let sent = 0;
+            for (const item of await listOutbox()) {
+                // 'syncing' items not in flight here were left behind by a closed tab
+                if (item.status === 'failed' || inFlight.has(item.id)) continue;
+                const outcome = await sendOutboxItem(item);
+                if (outcome.ok) sent++;
+                else if (outcome.offline) break;
+            }
+            if (sent > 0) console.log(`[Outbox] Synced ${sent} queued dump${sent === 1 ? '' : 's'}`);
+            return sent;
+        })().finally(() => {
+            syncing = null;
+        });
+    }
+    return syncing;
+}
+
+// ---- Service worker ----
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+/** Ask the browser to wake the service worker once it's back online (Chromium only). */
+function requestBackgroundSync() {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.ready
+        .then(registration => (registration as SyncRegistration).sync?.register(OUTBOX_SYNC_TAG))
+        .catch(err => console.warn('[Outbox] Background sync unavailable:', err));
+}
+
+/** Flush the outbox now, whenever we're back online, and when the service worker says so. */
+export function startOutboxSync(): () => void {
+    const flush = () => {
+        syncOutbox().catch(err => console.error('[Outbox] Sync failed:', err));
+    };
+    const onMessage = (event: MessageEvent) => {
+        if (event.data?.type === OUTBOX_SYNC_TAG) flush();
+    };
+
+    if ('serviceWorker' in navigator) navigator.serviceWorker.addEventListener('message', onMessage);
+    window.addEventListener('online', flush);
+    flush();
+
+    return () => {
+        window.removeEventListener('online', flush);
+        if ('serviceWorker' in navigator) navigator.serviceWorker.removeEventListener('message', onMessage);
+    };
+}
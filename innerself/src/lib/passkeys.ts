@@ -0,0 +1,263 @@
+// ============================================================
+// INNER SELF — Passkeys (WebAuthn)
+// Platform authenticators (Face ID, Touch ID, Windows Hello,
+// Android) as a login method. Passwords stay as the recovery path.
+// A successful passkey login creates the same server-side session
+// as a password login, so middleware treats them identically.
+//
+// Config (env, optional — defaults to the request's host/origin):
+//   WEBAUTHN_RP_ID        e.g. innerself.example.com
+//   WEBAUTHN_ORIGIN       e.g. https://innerself.example.com
+// ============================================================
+import {
+    generateRegistrationOptions,
+    verifyRegistrationResponse,
+    generateAuthenticationOptions,
+    verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import type {
+    AuthenticatorTransportFuture,
+    AuthenticationResponseJSON,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabase } from './supabase';
+import type { UserProfile } from '@/types';
+
+export const CHALLENGE_COOKIE = 'inner-self-webauthn';
+const CHALLENGE_TTL_SEC = 5 * 60;
+const RP_NAME = 'Inner Self';
+
+export interface PasskeySummary {
+    id: string;
+    device_name: string | null;
+    created_at: string;
+    last_used_at: string | null;
+}
+
+interface StoredPasskey {
+    id: string;
+    user_id: string;
+    credential_id: string;
+    public_key: string;
+    counter: number;
+    transports: AuthenticatorTransportFuture[] | null;
+}
+
+function getRelyingParty(request: NextRequest): { rpID: string; origin: string } {
+    return {
+        rpID: process.env.WEBAUTHN_RP_ID || request.nextUrl.hostname,
+        origin: process.env.WEBAUTHN_ORIGIN || request.nextUrl.origin,
+    };
+}
+
+// ---- Challenges ----
+// Stored server-side and referenced by a short-lived httpOnly cookie,
+// so a challenge can only be answered once, from the browser that asked.
+async function saveChallenge(challenge: string, userId: string | null): Promise<string> {
+    const { data, error } = await getServiceSupabase()
+        .from('webauthn_challenges')
+        .insert({
+            challenge,
+            user_id: userId,
+            expires_at: new Date(Date.now() + CHALLENGE_TTL_SEC * 1000).toISOString(),
+        })
+        .select('id')
+        .single();
+
+    if (error) throw new Error(`Failed to store WebAuthn challenge: ${error.message}`);
+    return data.id;
+}
+
+async function consumeChallenge(challengeId: string, userId: string | null): Promise<string | null> {
+    const { data } = await getServiceSupabase()
+        .from('webauthn_challenges')
+        .delete()
+        .eq('id', challengeId)
+        .gt('expires_at', new Date().toISOString())
+        .select('challenge, user_id')
+        .maybeSingle();
+
+    if (!data || data.user_id !== userId) return null;
+    return data.challenge;
+}
+
+export function setChallengeCookie(response: NextResponse, challengeId: string): void {
+    response.cookies.set(CHALLENGE_COOKIE, challengeId, {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'strict',
+        maxAge: CHALLENGE_TTL_SEC,
+        path: '/api/auth/passkey',
+    });
+}
+
+export function clearChallengeCookie(response: NextResponse): void {
+    response.cookies.set(CHALLENGE_COOKIE, '', { httpOnly: true, secure: true, sameSite: 'strict', maxAge: 0, path: '/api/auth/passkey' });
+}
+
+// ---- Registration (signed in) ----
+export async function startPasskeyRegistration(
+    user: UserProfile,
+    request: NextRequest
+): Promise<{ options: PublicKeyCredentialCreationOptionsJSON; challengeId: string }> {
+    const { rpID } = getRelyingParty(request);
+    const existing = await getStoredPasskeys(user.id);
+
+    const options = await generateRegistrationOptions({
+        rpName: RP_NAME,
+        rpID,
+        userName: user.username,
+        userDisplayName: user.display_name,
+        userID: new TextEncoder().encode(user.id),
+        attestationType: 'none',
+        excludeCredentials: existing.map(p => ({ id: p.credential_id, transports: p.transports || undefined })),
+        authenticatorSelection: {
+            authenticatorAttachment: 'platform',
+            residentKey: 'required',
+            userVerification: 'required',
+        },
+    });
+
+    const challengeId = await saveChallenge(options.challenge, user.id);
+    return { options, challengeId };
+}
+
+/**
+ * Verify the browser's attestation and store the new credential.
+ * Returns false when the challenge is missing/expired or verification fails.
+ */
+export async function finishPasskeyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    request: NextRequest,
+    deviceName: string | null
+): Promise<boolean> {
+    const expectedChallenge = await consumeChallenge(challengeId, userId);
+    if (!expectedChallenge) return false;
+
+    const { rpID, origin } = getRelyingParty(request);
+    const verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+    });
+
+    if (!verification.verified) return false;
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const { error } = await getServiceSupabase().from('passkeys').insert({
+        user_id: userId,
+        credential_id: credential.id,
+        public_key: Buffer.from(credential.publicKey).toString('base64url'),
+        counter: credential.counter,
+        transports: credential.transports || [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        device_name: deviceName,
+    });
+
+    if (error) throw new Error(`Failed to store passkey: ${error.message}`);
+    return true;
+}
+
+// ---- Login (signed out) ----
+export async function startPasskeyLogin(
+    request: NextRequest
+): Promise<{ options: PublicKeyCredentialRequestOptionsJSON; challengeId: string }> {
+    const { rpID } = getRelyingParty(request);
+
+    // Discoverable credentials: the authenticator offers the passkeys it holds
+    // for this site, so no username is needed up front.
+    const options = await generateAuthenticationOptions({
+        rpID,
+        userVerification: 'required',
+    });
+
+    const challengeId = await saveChallenge(options.challenge, null);
+    return { options, challengeId };
+}
+
+/**
+ * Verify an assertion. Returns the user id it proves, or null.
+ */
+export async function finishPasskeyLogin(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    request: NextRequest
+): Promise<string | null> {
+    const expectedChallenge = await consumeChallenge(challengeId, null);
+    if (!expectedChallenge) return null;
+
+    const supabase = getServiceSupabase();
+    const { data: passkey } = await supabase
+        .from('passkeys')
+        .select('id, user_id, credential_id, public_key, counter, transports')
+        .eq('credential_id', response.id)
+        .maybeSingle();
+
+    if (!passkey) return null;
+    const stored = passkey as StoredPasskey;
+
+    const { rpID, origin } = getRelyingParty(request);
+    const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+        credential: {
+            id: stored.credential_id,
+            publicKey: new Uint8Array(Buffer.from(stored.public_key, 'base64url')),
+            counter: Number(stored.counter),
+            transports: stored.transports || undefined,
+        },
+    });
+
+    if (!verification.verified) return null;
+
+    await supabase
+        .from('passkeys')
+        .update({
+            counter: verification.authenticationInfo.newCounter,
+            last_used_at: new Date().toISOString(),
+        })
+        .eq('id', stored.id);
+
+    return stored.user_id;
+}
+
+// ---- Management ----
+async function getStoredPasskeys(userId: string): Promise<StoredPasskey[]> {
+    const { data } = await getServiceSupabase()
+        .from('passkeys')
+        .select('id, user_id, credential_id, public_key, counter, transports')
+        .eq('user_id', userId);
+    return (data || []) as StoredPasskey[];
+}
+
+export async function listPasskeys(userId: string): Promise<PasskeySummary[]> {
+    const { data, error } = await getServiceSupabase()
+        .from('passkeys')
+        .select('id, device_name, created_at, last_used_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to list passkeys: ${error.message}`);
+    return (data || []) as PasskeySummary[];
+}
+
+export async function deletePasskey(userId: string, passkeyId: string): Promise<boolean> {
+    const { data } = await getServiceSupabase()
+        .from('passkeys')
+        .delete()
+        .eq('id', passkeyId)
+        .eq('user_id', userId)
+        .select('id');
+    return (data?.length || 0) > 0;
+}
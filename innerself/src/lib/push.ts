@@ -0,0 +1,298 @@
+// ============================================================
+// INNER SELF — Push Notifications (Web Push / VAPID)
+// Crons write insights the user only sees when they open the app;
+// deliverInsight sends one to every device the user subscribed,
+// subject to their preferences:
+//   • which insight types are pushed at all
+//   • quiet hours (local time, app_users.timezone) — nothing is sent
+//     then; the insight is marked push_deferred_at and the jobs cron
+//     sends it once they end (deliverDeferredInsights)
+//   • a daily cap, counted from insights.pushed_at since local midnight
+// Delivery never throws — a failed push mustn't fail the cron.
+// Subscriptions the push service reports gone (404/410) are removed.
+//
+// Config (env):
+//   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY   npx web-push generate-vapid-keys
+//   VAPID_SUBJECT                          mailto: or https: contact for push services
+// Unset keys turn push off; the settings panel says so.
+// ============================================================
+import webpush, { WebPushError } from 'web-push';
+import { getUserSupabase } from './supabase';
+import { DEFAULT_TIMEZONE, localTime, localToday, zonedTimeToUtc } from './due-dates';
+import type { NotificationPreferences, UserProfile } from '@/types';
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    url: string; // opened when the notification is tapped
+    tag?: string; // a newer notification with the same tag replaces the old one
+}
+
+export interface PushSubscriptionInput {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+export type DeliveryOutcome = 'sent' | 'disabled' | 'type_off' | 'quiet_hours' | 'daily_limit' | 'no_devices' | 'failed';
+
+/** Insight types a user can choose to be notified about, with what the settings panel calls them. */
+export const NOTIFIABLE_INSIGHT_TYPES: { type: string; label: string }[] = [
+    { type: 'reminder', label: 'Task reminders' },
+    { type: 'warning', label: 'Burnout & self-talk alerts' },
+    { type: 'anniversary', label: 'Anniversaries' },
+    { type: 'body_mind', label: 'Body–mind patterns' },
+    { type: 'pattern', label: 'Daily patterns' },
+    { type: 'celebration', label: 'Celebrations' },
+    { type: 'observation', label: 'Observations & weekly report' },
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    enabled: true,
+    insight_types: ['warning', 'reminder', 'anniversary'],
+    quiet_start: '22:00',
+    quiet_end: '08:00',
+    max_per_day: 5,
+};
+
+const TITLES: Record<string, string> = {
+    reminder: 'Task reminder',
+    warning: 'Check in with yourself',
+    anniversary: 'On this day',
+    body_mind: 'Body & mind',
+    pattern: 'A pattern',
+    celebration: 'Worth celebrating',
+    observation: 'An observation',
+};
+const PUSH_TTL_SEC = 12 * 60 * 60;
+const DEFERRED_MAX_AGE_MS = 18 * 60 * 60 * 1000;
+const DEFERRED_BATCH = 20;
+const BODY_MAX = 180;
+
+// ---- VAPID ----
+let vapidConfigured: boolean | null = null;
+
+export function getVapidPublicKey(): string | null {
+    return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+function configureVapid(): boolean {
+    if (vapidConfigured !== null) return vapidConfigured;
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+        console.warn('[Push] VAPID keys not configured — push notifications are off.');
+        vapidConfigured = false;
+        return false;
+    }
+    webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:admin@localhost', publicKey, privateKey);
+    vapidConfigured = true;
+    return true;
+}
+
+// ---- Preferences ----
+function toHHMM(time: string | null | undefined): string | null {
+    return time ? time.slice(0, 5) : null;
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('notification_preferences')
+        .select('enabled, insight_types, quiet_start, quiet_end, max_per_day')
+        .maybeSingle();
+    if (error) throw new Error(`Failed to load notification preferences: ${error.message}`);
+    if (!data) return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+    return { ...data, quiet_start: toHHMM(data.quiet_start), quiet_end: toHHMM(data.quiet_end) };
+}
+
+export async function updateNotificationPreferences(
+    userId: string,
+    changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+    const next = { ...(await getNotificationPreferences(userId)), ...changes };
+    const { error } = await getUserSupabase(userId)
+        .from('notification_preferences')
+        .upsert({ user_id: userId, ...next, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+    if (error) throw new Error(`Failed to save notification preferences: ${error.message}`);
+    return next;
+}
+
+// ---- Subscriptions ----
+// Delivery POSTs from the server to the stored endpoint, so only real
+// push services are accepted — anything else would let a user point
+// the server at an arbitrary host
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com', 'web.push.apple.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.notify.windows.com'];
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return false;
+    }
+    if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+    const host = url.hostname.toLowerCase();
+    return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+export async function saveSubscription(userId: string, subscription: PushSubscriptionInput, userAgent: string | null): Promise<void> {
+    const { error } = await getUserSupabase(userId)
+        .from('push_subscriptions')
+        .upsert({
+            user_id: userId,
+            endpoint: subscription.endpoint,
+            p256dh: subscription.keys.p256dh,
+            auth: subscription.keys.auth,
+            user_agent: userAgent?.substring(0, 300) || null,
+        }, { onConflict: 'user_id,endpoint' });
+    if (error) throw new Error(`Failed to save push subscription: ${error.message}`);
+}
+
+export async function removeSubscription(userId: string, endpoint: string): Promise<void> {
+    const { error } = await getUserSupabase(userId).from('push_subscriptions').delete().eq('endpoint', endpoint);
+    if (error) throw new Error(`Failed to remove push subscription: ${error.message}`);
+}
+
+export async function countSubscriptions(userId: string): Promise<number> {
+    const { count } = await getUserSupabase(userId)
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true });
+    return count || 0;
+}
+
+// ---- Sending ----
+/** Send to every device the user subscribed; returns how many accepted it. */
+export async function sendPush(userId: string, payload: PushPayload): Promise<number> {
+    if (!configureVapid()) return 0;
+    const supabase = getUserSupabase(userId);
+
+    const { data: subscriptions, error } = await supabase
+        .from('push_subscriptions')
+        .select('id, endpoint, p256dh, auth');
+    if (error) throw new Error(`Failed to load push subscriptions: ${error.message}`);
+
+    let delivered = 0;
+    for (const subscription of subscriptions || []) {
+        if (!isPushServiceEndpoint(subscription.endpoint)) {
+            console.warn(`[Push] Skipping subscription ${subscription.id}: not a known push service`);
+            continue;
+        }
+        try {
+            await webpush.sendNotification(
+                { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+                JSON.stringify(payload),
+                { TTL: PUSH_TTL_SEC }
+            );
+            delivered++;
+            await supabase.from('push_subscriptions').update({ last_sent_at: new Date().toISOString() }).eq('id', subscription.id);
+        } catch (err) {
+            if (err instanceof WebPushError && (err.statusCode === 404 || err.statusCode === 410)) {
+                // Unsubscribed or expired on the device — it will never work again
+                await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+                console.log(`[Push] Removed expired subscription ${subscription.id}`);
+            } else {
+                console.error(`[Push] Send to ${subscription.id} failed:`, err instanceof Error ? err.message : err);
+            }
+        }
+    }
+    return delivered;
+}
+
+function inQuietHours(preferences: NotificationPreferences, now: string): boolean {
+    const { quiet_start: start, quiet_end: end } = preferences;
+    if (!start || !end || start === end) return false;
+    // 22:00–08:00 wraps past midnight
+    return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+function insightPayload(insight: { id: string; insight_text: string; type: string }): PushPayload {
+    const body = insight.insight_text.length > BODY_MAX ? `${insight.insight_text.substring(0, BODY_MAX - 1)}…` : insight.insight_text;
+    return {
+        title: TITLES[insight.type] || 'Inner Self',
+        body,
+        url: insight.type === 'reminder' ? '/?tab=tasks' : '/?tab=inbox',
+        tag: `insight-${insight.id}`,
+    };
+}
+
+/**
+ * Push a freshly inserted insight if the user's preferences allow it,
+ * and mark it pushed. Call it right after the insert.
+ */
+export async function deliverInsight(
+    user: UserProfile,
+    insight: { id: string; insight_text: string; type: string }
+): Promise<DeliveryOutcome> {
+    try {
+        const preferences = await getNotificationPreferences(user.id);
+        if (!preferences.enabled) return 'disabled';
+        if (!preferences.insight_types.includes(insight.type)) return 'type_off';
+
+        const timeZone = user.timezone || DEFAULT_TIMEZONE;
+        const now = new Date();
+        const supabase = getUserSupabase(user.id);
+        if (inQuietHours(preferences, localTime(timeZone, now))) {
+            await supabase.from('insights').update({ push_deferred_at: now.toISOString() }).eq('id', insight.id);
+            return 'quiet_hours';
+        }
+
+        const { count } = await supabase
+            .from('insights')
+            .select('id', { count: 'exact', head: true })
+            .gte('pushed_at', zonedTimeToUtc(localToday(timeZone, now), '00:00', timeZone).toISOString());
+        if ((count || 0) >= preferences.max_per_day) return 'daily_limit';
+
+        const delivered = await sendPush(user.id, insightPayload(insight));
+        if (delivered === 0) return 'no_devices';
+
+        await supabase.from('insights').update({ pushed_at: now.toISOString() }).eq('id', insight.id);
+        console.log(`[Push] ${insight.type} insight sent to ${delivered} device${delivered === 1 ? '' : 's'} for ${user.username}`);
+        return 'sent';
+    } catch (error) {
+        console.error('[Push] Delivery failed:', error instanceof Error ? error.message : error);
+        return 'failed';
+    }
+}
+
+/**
+ * Send what quiet hours held back, oldest first, once they're over.
+ * Insights older than DEFERRED_MAX_AGE_MS are no longer news — they
+ * just stay in the inbox. Each insight is tried once more; the daily
+ * cap and type preferences still apply.
+ */
+export async function deliverDeferredInsights(user: UserProfile): Promise<{ sent: number; expired: number }> {
+    try {
+        const preferences = await getNotificationPreferences(user.id);
+        const now = new Date();
+        if (preferences.enabled && inQuietHours(preferences, localTime(user.timezone || DEFAULT_TIMEZONE, now))) {
+            return { sent: 0, expired: 0 };
+        }
+
+        const supabase = getUserSupabase(user.id);
+        const { data, error } = await supabase
+            .from('insights')
+            .select('id, insight_text, type, created_at')
+            .not('push_deferred_at', 'is', null)
+            .order('created_at', { ascending: true })
+            .limit(DEFERRED_BATCH);
+        if (error) throw error;
+
+        let sent = 0;
+        let expired = 0;
+        for (const insight of data || []) {
+            await supabase.from('insights').update({ push_deferred_at: null }).eq('id', insight.id);
+            if (now.getTime() - new Date(insight.created_at).getTime() > DEFERRED_MAX_AGE_MS) {
+                expired++;
+                continue;
+            }
+            if ((await deliverInsight(user, insight)) === 'sent') sent++;
+        }
+        if (sent > 0 || expired > 0) {
+            console.log(`[Push] Deferred insights for ${user.username}: ${sent} sent, ${expired} too old to push`);
+        }
+        return { sent, expired };
+    } catch (error) {
+        console.error('[Push] Deferred delivery failed:', error instanceof Error ? error.message : error);
+        return { sent: 0, expired: 0 };
+    }
+}
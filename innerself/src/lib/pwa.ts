@@ -0,0 +1,125 @@
+// ============================================================
+// INNER SELF — Installed App (browser side)
+// Registers the service worker (public/sw.js) and reads how the
+// app was launched: home-screen shortcuts and the share target in
+// manifest.json open it with a query string.
+//   /?capture=voice|text  → BrainDump, recording or typing
+//   /?tab=<tab>           → that tab (e.g. "Ask Mirror")
+//   /?share=<id>          → text/files the service worker parked
+//   /?share_text=...      → shared text, when no service worker ran
+// Also subscribes this device to Web Push (see src/lib/push.ts).
+// ============================================================
+import type { TabName } from '@/types';
+
+export type LaunchAction =
+    | { kind: 'capture'; mode: 'voice' | 'text' }
+    | { kind: 'tab'; tab: TabName }
+    | { kind: 'share'; shareId: string | null; text: string };
+
+export interface SharedPayload {
+    text: string;
+    files: File[];
+}
+
+const LAUNCH_TABS: TabName[] = ['dump', 'log', 'tasks', 'inbox', 'life', 'mirror', 'chat', 'search'];
+const SHARE_CACHE = 'inner-self-shares'; // must match public/sw.js
+
+export function registerServiceWorker() {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('[PWA] Service worker registration failed:', err));
+}
+
+export function readLaunchAction(search: string): LaunchAction | null {
+    const params = new URLSearchParams(search);
+
+    const capture = params.get('capture');
+    if (capture === 'voice' || capture === 'text') return { kind: 'capture', mode: capture };
+
+    const tab = params.get('tab') as TabName | null;
+    if (tab && LAUNCH_TABS.includes(tab)) return { kind: 'tab', tab };
+
+    const shareId = params.get('share');
+    const shareText = params.get('share_text');
+    if (shareId || shareText) return { kind: 'share', shareId, text: shareText || '' };
+
+    return null;
+}
+
+/** Title, text and link from a share, as one block for BrainDump. */
+export function joinSharedText(title: string, text: string, url: string): string {
+    // Many apps repeat the link inside the text
+    const parts: string[] = [];
+    for (const part of [title, text, url].map(p => p.trim())) {
+        if (part && !parts.some(existing => existing.includes(part))) parts.push(part);
+    }
+    return parts.join('\n\n');
+}
+
+/** Read what the service worker parked for a share, and clear it. */
+export async function takeSharedPayload(shareId: string): Promise<SharedPayload | null> {
+    if (typeof caches === 'undefined') return null;
+    const cache = await caches.open(SHARE_CACHE);
+    const metaResponse = await cache.match(`/shared/${shareId}/meta`);
+    if (!metaResponse) return null;
+
+    const meta: { title: string; text: string; url: string; fileCount: number } = await metaResponse.json();
+    const files: File[] = [];
+    for (let i = 0; i < meta.fileCount; i++) {
+        const key = `/shared/${shareId}/files/${i}`;
+        const response = await cache.match(key);
+        if (response) {
+            const name = decodeURIComponent(response.headers.get('X-File-Name') || `shared-${i}`);
+            files.push(new File([await response.blob()], name, { type: response.headers.get('Content-Type') || '' }));
+        }
+        await cache.delete(key);
+    }
+    await cache.delete(`/shared/${shareId}/meta`);
+
+    return { text: joinSharedText(meta.title, meta.text, meta.url), files };
+}
+
+// ---- Web Push ----
+export function pushSupported(): boolean {
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function urlBase64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(padded);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+    return bytes;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+    if (!pushSupported()) return null;
+    const registration = await navigator.serviceWorker.ready;
+    return registration.pushManager.getSubscription();
+}
+
+/** Ask for permission and subscribe this device; the server stores the result. */
+export async function subscribeToPush(publicKey: string): Promise<PushSubscription> {
+    if (!pushSupported()) throw new Error('This browser can\'t receive notifications');
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') throw new Error('Notifications are blocked for this site');
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+        || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToBytes(publicKey) });
+
+    const res = await fetch('/api/push/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+    });
+    if (!res.ok) throw new Error((await res.json()).error || 'Failed to save subscription');
+    return subscription;
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+    await fetch(`/api/push/subscribe?endpoint=${encodeURIComponent(subscription.endpoint)}`, { method: 'DELETE' });
+    await subscription.unsubscribe();
+}
@@ -0,0 +1,296 @@
+// ============================================================
+// INNER SELF — Archive Search
+// One query across everything the user has: entries (keyword +
+// vector via rankedSearch), life events, people, dreams, letters
+// and chat messages.
+//
+// Letters and chat messages may be vault-encrypted, so they can't be
+// matched in Postgres — the most recent SCAN_LIMIT rows are opened
+// and matched here. Time-locked letters are skipped until read.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import { rankedSearch, type RankedResult, type SearchFilters } from './embeddings';
+import { isTimeLocked } from './timelock';
+import type { Vault } from './vault';
+
+export const SEARCH_RESULT_TYPES = ['entry', 'life_event', 'person', 'dream', 'letter', 'conversation'] as const;
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export const MOOD_BANDS = {
+    low: { minMood: 1, maxMood: 4 },
+    mid: { minMood: 5, maxMood: 6 },
+    high: { minMood: 7, maxMood: 10 },
+} as const;
+export type MoodBand = keyof typeof MOOD_BANDS;
+
+export interface ArchiveSearchFilters {
+    types?: SearchResultType[];
+    startDate?: string;   // YYYY-MM-DD
+    endDate?: string;     // YYYY-MM-DD
+    category?: string;    // entry category
+    person?: string;
+    mood?: MoodBand;      // entry mood
+    persona?: string;     // entry identity_persona
+    source?: string;      // entry source: text / voice / image
+}
+
+export interface SearchHit {
+    type: SearchResultType;
+    id: string;
+    title: string;
+    snippet: string;
+    date: string | null;
+    score: number;
+    entry_id?: string;    // entries, and dreams that came from one
+    thread_id?: string;   // chat messages
+}
+
+const PER_TYPE_LIMIT = 20;
+const SCAN_LIMIT = 500;
+const SNIPPET_RADIUS = 80;
+
+/** Query words worth matching (also what the UI highlights). */
+export function searchTerms(query: string): string[] {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}']{2,}/gu) || [];
+    return Array.from(new Set(words)).slice(0, 8);
+}
+
+/** Share of the query's terms found in the text (0 when none are). */
+function termScore(text: string, terms: string[]): number {
+    const lower = text.toLowerCase();
+    const found = terms.filter(t => lower.includes(t)).length;
+    return terms.length ? found / terms.length : 0;
+}
+
+/** A window of the text around the first matching term. */
+function highlightWindow(text: string, terms: string[]): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const first = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0), Infinity);
+    if (!isFinite(first) || flat.length <= SNIPPET_RADIUS * 2) {
+        return flat.length > SNIPPET_RADIUS * 2 ? `${flat.substring(0, SNIPPET_RADIUS * 2)}…` : flat;
+    }
+    const start = Math.max(0, first - SNIPPET_RADIUS);
+    const end = Math.min(flat.length, first + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${flat.substring(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+/** PostgREST or() filter matching any term in any of the columns. */
+function ilikeAny(columns: string[], terms: string[]): string {
+    // Characters that would break the or() syntax or act as wildcards
+    const safe = terms.map(t => t.replace(/[,()%_*\\"]/g, '')).filter(Boolean);
+    return columns.flatMap(c => safe.map(t => `${c}.ilike.%${t}%`)).join(',');
+}
+
+function inDateRange(date: string | null, filters: ArchiveSearchFilters): boolean {
+    if (!date) return !filters.startDate && !filters.endDate;
+    const day = date.split('T')[0];
+    if (filters.startDate && day < filters.startDate) return false;
+    if (filters.endDate && day > filters.endDate) return false;
+    return true;
+}
+
+function byScore(hits: SearchHit[]): SearchHit[] {
+    return hits.filter(h => h.score > 0).sort((a, b) => b.score - a.score).slice(0, PER_TYPE_LIMIT);
+}
+
+// ---- Per-type searches ----
+async function searchEntries(userId: string, vault: Vault, query: string, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    const entryFilters: SearchFilters = {
+        category: filters.category,
+        person: filters.person,
+        persona: filters.persona,
+        startDate: filters.startDate,
+        endDate: filters.endDate,
+        ...(filters.mood ? MOOD_BANDS[filters.mood] : {}),
+    };
+    // Uploaded document chunks rank alongside entries but aren't archive results
+    const ranked = (await rankedSearch(userId, query, PER_TYPE_LIMIT, entryFilters))
+        .filter((r): r is RankedResult & { entry_id: string } => r.source_type === 'entry' && !!r.entry_id);
+    if (ranked.length === 0) return [];
+
+    let request = getUserSupabase(userId)
+        .from('raw_entries')
+        .select('id, created_at, raw_text, source, extracted_entities(title, content, occurred_at)')
+        .in('id', ranked.map(r => r.entry_id))
+        .is('deleted_at', null);
+    if (filters.source) request = request.eq('source', filters.source);
+
+    const { data, error } = await request;
+    if (error) throw new Error(`Failed to load entries: ${error.message}`);
+
+    const rows = new Map((data || []).map(row => [row.id, row]));
+    return ranked.flatMap((r, i) => {
+        const row = rows.get(r.entry_id);
+        if (!row) return [];
+        const entity = (row.extracted_entities as { title: string; content: string; occurred_at: string | null }[] | null)?.[0];
+        const rawText = vault.open(row.raw_text) || '';
+        // Show the writer's own words when they contain the match, else the extracted summary
+        const text = termScore(rawText, terms) > 0 || !entity ? rawText : entity.content;
+        return [{
+            type: 'entry' as const,
+            id: row.id,
+            entry_id: row.id,
+            title: entity?.title || 'Entry',
+            snippet: highlightWindow(text, terms),
+            date: entity?.occurred_at || row.created_at,
+            score: 1 - i / ranked.length, // already ranked; keep the order
+        }];
+    });
+}
+
+async function searchLifeEvents(userId: string, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    let request = getUserSupabase(userId)
+        .from('life_events_timeline')
+        .select('id, event_date, title, description, people_involved')
+        .or(ilikeAny(['title', 'description'], terms));
+    if (filters.startDate) request = request.gte('event_date', filters.startDate);
+    if (filters.endDate) request = request.lte('event_date', filters.endDate);
+    if (filters.person) request = request.contains('people_involved', [filters.person]);
+
+    const { data, error } = await request.order('event_date', { ascending: false }).limit(SCAN_LIMIT);
+    if (error) throw new Error(`Failed to search life events: ${error.message}`);
+
+    return byScore((data || []).map(e => {
+        const text = `${e.title}. ${e.description || ''}`;
+        return {
+            type: 'life_event' as const,
+            id: e.id,
+            title: e.title,
+            snippet: highlightWindow(e.description || e.title, terms),
+            date: e.event_date,
+            score: termScore(text, terms),
+        };
+    }));
+}
+
+async function searchPeople(userId: string, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    let request = getUserSupabase(userId)
+        .from('people_map')
+        .select('id, name, relationship, notes, last_mentioned')
+        .or(ilikeAny(['name', 'relationship', 'notes'], terms));
+    if (filters.person) request = request.ilike('name', filters.person);
+
+    const { data, error } = await request.order('mention_count', { ascending: false }).limit(SCAN_LIMIT);
+    if (error) throw new Error(`Failed to search people: ${error.message}`);
+
+    return byScore((data || [])
+        .filter(p => inDateRange(p.last_mentioned, filters))
+        .map(p => ({
+            type: 'person' as const,
+            id: p.id,
+            title: p.name,
+            snippet: highlightWindow([p.relationship, p.notes].filter(Boolean).join(' — '), terms),
+            date: p.last_mentioned,
+            // A name match outranks a mention in the notes
+            score: termScore(`${p.name} ${p.relationship || ''} ${p.notes || ''}`, terms) + termScore(p.name, terms),
+        })));
+}
+
+async function searchDreams(userId: string, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    let request = getUserSupabase(userId)
+        .from('dreams')
+        .select('id, entry_id, dream_text, dream_type, waking_connections, dream_date')
+        .or(ilikeAny(['dream_text', 'waking_connections'], terms));
+    if (filters.startDate) request = request.gte('dream_date', filters.startDate);
+    if (filters.endDate) request = request.lte('dream_date', filters.endDate);
+
+    const { data, error } = await request.order('dream_date', { ascending: false }).limit(SCAN_LIMIT);
+    if (error) throw new Error(`Failed to search dreams: ${error.message}`);
+
+    return byScore((data || []).map(d => ({
+        type: 'dream' as const,
+        id: d.id,
+        entry_id: d.entry_id || undefined,
+        title: d.dream_type === 'normal' ? 'Dream' : `Dream (${d.dream_type})`,
+        snippet: highlightWindow(d.dream_text, terms),
+        date: d.dream_date,
+        score: termScore(`${d.dream_text} ${d.waking_connections || ''}`, terms),
+    })));
+}
+
+async function searchLetters(userId: string, vault: Vault, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('letters_to_future')
+        .select('id, letter_text, written_at, unlock_at')
+        .lte('unlock_at', new Date().toISOString())
+        .order('written_at', { ascending: false })
+        .limit(SCAN_LIMIT);
+    if (error) throw new Error(`Failed to search letters: ${error.message}`);
+
+    return byScore((data || [])
+        .filter(l => !isTimeLocked(l.letter_text) && inDateRange(l.written_at, filters))
+        .map(l => {
+            const text = vault.open(l.letter_text) || '';
+            return {
+                type: 'letter' as const,
+                id: l.id,
+                title: 'Letter to future self',
+                snippet: highlightWindow(text, terms),
+                date: l.written_at,
+                score: termScore(text, terms),
+            };
+        }));
+}
+
+async function searchConversations(userId: string, vault: Vault, terms: string[], filters: ArchiveSearchFilters): Promise<SearchHit[]> {
+    let request = getUserSupabase(userId)
+        .from('conversations')
+        .select('id, thread_id, role, content, created_at');
+    if (filters.startDate) request = request.gte('created_at', filters.startDate);
+    if (filters.endDate) request = request.lte('created_at', `${filters.endDate}T23:59:59.999Z`);
+
+    const { data, error } = await request.order('created_at', { ascending: false }).limit(SCAN_LIMIT);
+    if (error) throw new Error(`Failed to search conversations: ${error.message}`);
+
+    return byScore((data || []).map(c => {
+        const text = vault.open(c.content) || '';
+        return {
+            type: 'conversation' as const,
+            id: c.id,
+            thread_id: c.thread_id,
+            title: c.role === 'user' ? 'You said' : 'Reply',
+            snippet: highlightWindow(text, terms),
+            date: c.created_at,
+            score: termScore(text, terms),
+        };
+    }));
+}
+
+/**
+ * Search the whole archive. Entry-only filters (category, mood,
+ * persona, source) narrow the results to entries.
+ */
+export async function searchArchive(
+    userId: string,
+    vault: Vault,
+    query: string,
+    filters: ArchiveSearchFilters = {}
+): Promise<{ results: Record<SearchResultType, SearchHit[]>; terms: string[] }> {
+    const terms = searchTerms(query);
+    const entriesOnly = !!(filters.category || filters.mood || filters.persona || filters.source);
+    const wanted = (type: SearchResultType) =>
+        (!filters.types?.length || filters.types.includes(type)) && (type === 'entry' || !entriesOnly);
+
+    const searches: Record<SearchResultType, () => Promise<SearchHit[]>> = {
+        entry: () => searchEntries(userId, vault, query, terms, filters),
+        life_event: () => searchLifeEvents(userId, terms, filters),
+        person: () => searchPeople(userId, terms, filters),
+        dream: () => searchDreams(userId, terms, filters),
+        letter: () => searchLetters(userId, vault, terms, filters),
+        conversation: () => searchConversations(userId, vault, terms, filters),
+    };
+
+    const settled = await Promise.all(SEARCH_RESULT_TYPES.map(async type => {
+        if (!wanted(type) || terms.length === 0) return [type, []] as const;
+        try {
+            return [type, await searches[type]()] as const;
+        } catch (error) {
+            // One table failing (e.g. an older schema without dreams) shouldn't sink the rest
+            console.error(`[Search] ${type} search failed:`, error instanceof Error ? error.message : error);
+            return [type, []] as const;
+        }
+    }));
+
+    return { results: Object.fromEntries(settled) as Record<SearchResultType, SearchHit[]>, terms };
+}
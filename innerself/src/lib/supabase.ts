@@ -1,8 +1,12 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
 
 // Lazy-initialized clients to prevent build-time URL validation errors
 let _clientInstance: SupabaseClient | null = null;
 let _serviceInstance: SupabaseClient | null = null;
+const _userInstances = new Map<string, { client: SupabaseClient; expiresAt: number }>();
+
+const USER_TOKEN_TTL_SEC = 60 * 60;
 
 // Client-side Supabase client (uses anon key, respects RLS)
 export function getSupabase(): SupabaseClient {
@@ -42,3 +46,47 @@ export function getServiceSupabase(): SupabaseClient {
     }
     return _serviceInstance;
 }
+
+// Mint a Supabase-compatible JWT (HS256, signed with the project JWT secret)
+function signUserToken(userId: string, secret: string, expiresAt: number): string {
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+    const header = encode({ alg: 'HS256', typ: 'JWT' });
+    const payload = encode({
+        sub: userId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        iat: Math.floor(Date.now() / 1000),
+        exp: expiresAt,
+    });
+    const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+    return `${header}.${payload}.${signature}`;
+}
+
+// Per-user Supabase client (anon key + JWT for that user, RLS enforced).
+// Policies scope every row to user_id = auth.uid(), and user_id defaults to
+// auth.uid() on insert, so queries through this client never see or write
+// another user's data.
+export function getUserSupabase(userId: string): SupabaseClient {
+    const now = Math.floor(Date.now() / 1000);
+    const cached = _userInstances.get(userId);
+    if (cached && cached.expiresAt - now > 60) {
+        return cached.client;
+    }
+
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+
+    if (!url || !key || !jwtSecret) {
+        throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY or SUPABASE_JWT_SECRET');
+    }
+
+    const expiresAt = now + USER_TOKEN_TTL_SEC;
+    const client = createClient(url, key, {
+        auth: { persistSession: false },
+        global: { headers: { Authorization: `Bearer ${signUserToken(userId, jwtSecret, expiresAt)}` } },
+    });
+
+    _userInstances.set(userId, { client, expiresAt });
+    return client;
+}
@@ -0,0 +1,331 @@
+// ============================================================
+// INNER SELF — Tasks
+// A first-class to-do list. Tasks come from the Silent Extractor (a
+// brain dump with something actionable in it) or are added by hand
+// in TasksView. Subtasks are one level deep (parent_id).
+//
+// The extractor is shown the user's open tasks as T1..Tn (see
+// describeOpenTasks), so "finished the Q3 report" completes that
+// task instead of creating a new one; syncTasksFromEntry applies
+// what it reported.
+//
+// Recurrence: 'daily' | 'weekly' | 'monthly' | 'yearly', or an RRULE
+// subset — FREQ, INTERVAL, BYDAY (weekly) and UNTIL, e.g.
+// "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". Completing a recurring
+// task creates the next occurrence with its subtasks reset.
+//
+// due_date / due_time are the user's local date and wall-clock time
+// (see due-dates.ts); the task-reminders cron reads them in the
+// user's timezone.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import type { DueDate } from './due-dates';
+import type { ExtractionResult, Task, TaskPriority, TaskStatus } from '@/types';
+
+export interface TaskFields {
+    title: string;
+    notes?: string | null;
+    priority?: TaskPriority;
+    due_date?: string | null;
+    due_time?: string | null; // HH:MM, only with a due_date
+    due_phrase?: string | null;
+    recurrence?: string | null;
+    parent_id?: string | null;
+    source_entry_id?: string | null;
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+    freq: Frequency;
+    interval: number;
+    byDay: number[]; // 0 = Sunday, as Date.getUTCDay()
+    until: string | null; // YYYY-MM-DD
+}
+
+const PRESETS: Record<string, Frequency> = { daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY', yearly: 'YEARLY' };
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 86400000;
+
+// ---- Recurrence ----
+function parseRecurrence(recurrence: string): RecurrenceRule | null {
+    const preset = PRESETS[recurrence.trim().toLowerCase()];
+    if (preset) return { freq: preset, interval: 1, byDay: [], until: null };
+
+    const body = recurrence.trim().toUpperCase().replace(/^RRULE:/, '');
+    const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], until: null };
+    let hasFreq = false;
+
+    for (const part of body.split(';').filter(Boolean)) {
+        const [key, value = ''] = part.split('=');
+        if (key === 'FREQ' && Object.values(PRESETS).includes(value as Frequency)) {
+            rule.freq = value as Frequency;
+            hasFreq = true;
+        } else if (key === 'INTERVAL' && /^\d{1,3}$/.test(value) && parseInt(value, 10) > 0) {
+            rule.interval = parseInt(value, 10);
+        } else if (key === 'BYDAY') {
+            const days = value.split(',').map(day => WEEKDAYS.indexOf(day));
+            if (days.some(day => day < 0)) return null;
+            rule.byDay = Array.from(new Set(days)).sort();
+        } else if (key === 'UNTIL' && /^\d{8}/.test(value)) {
+            rule.until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+        } else {
+            return null; // COUNT, BYMONTHDAY, ... aren't supported
+        }
+    }
+
+    if (!hasFreq || (rule.byDay.length > 0 && rule.freq !== 'WEEKLY')) return null;
+    return rule;
+}
+
+/** Canonical form of a recurrence from a client or the model, or null if it isn't one we can schedule. */
+export function normalizeRecurrence(recurrence: string): string | null {
+    const trimmed = recurrence.trim();
+    if (PRESETS[trimmed.toLowerCase()]) return trimmed.toLowerCase();
+    if (!parseRecurrence(trimmed)) return null;
+    return `RRULE:${trimmed.toUpperCase().replace(/^RRULE:/, '')}`;
+}
+
+function toDate(day: string): Date {
+    return new Date(`${day}T00:00:00Z`);
+}
+
+function toDay(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+function addMonths(date: Date, months: number): Date {
+    // Jan 31 + 1 month → Feb 28, not Mar 3
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function weekStart(date: Date): number {
+    return date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS; // Monday
+}
+
+/** The occurrence after `from` (YYYY-MM-DD), or null once the rule has ended. */
+export function nextDueDate(recurrence: string, from: string): string | null {
+    const rule = parseRecurrence(recurrence);
+    if (!rule) return null;
+    const start = toDate(from);
+    let next: Date;
+
+    if (rule.freq === 'DAILY') {
+        next = new Date(start.getTime() + rule.interval * DAY_MS);
+    } else if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+        next = new Date(start.getTime() + DAY_MS);
+        for (;;) {
+            const weeksApart = Math.round((weekStart(next) - weekStart(start)) / (7 * DAY_MS));
+            if (weeksApart % rule.interval === 0 && rule.byDay.includes(next.getUTCDay())) break;
+            next = new Date(next.getTime() + DAY_MS);
+        }
+    } else if (rule.freq === 'WEEKLY') {
+        next = new Date(start.getTime() + 7 * rule.interval * DAY_MS);
+    } else {
+        next = addMonths(start, rule.freq === 'MONTHLY' ? rule.interval : 12 * rule.interval);
+    }
+
+    const day = toDay(next);
+    return rule.until && day > rule.until ? null : day;
+}
+
+// ---- Reading ----
+/** Pending top-level tasks, newest first — what the extractor can link a dump to. */
+export async function getOpenTasks(userId: string, limit: number = 40): Promise<Task[]> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('tasks')
+        .select('*')
+        .eq('status', 'pending')
+        .is('parent_id', null)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw new Error(`Failed to load open tasks: ${error.message}`);
+    return (data || []) as Task[];
+}
+
+/** The OPEN TASKS block for the extractor prompt; line n is ref Tn. */
+export function describeOpenTasks(tasks: Task[]): string {
+    return tasks
+        .map((task, i) => {
+            const details = [
+                task.due_date ? `due ${task.due_date}${task.due_time ? ` ${task.due_time.slice(0, 5)}` : ''}` : '',
+                task.priority !== 'normal' ? task.priority : '',
+                task.recurrence ? 'repeats' : '',
+            ].filter(Boolean);
+            return `T${i + 1}. ${task.title}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+        })
+        .join('\n');
+}
+
+// ---- Writing ----
+export async function createTask(userId: string, fields: TaskFields): Promise<Task> {
+    const supabase = getUserSupabase(userId);
+
+    let position = 0;
+    if (fields.parent_id) {
+        const { count } = await supabase
+            .from('tasks')
+            .select('id', { count: 'exact', head: true })
+            .eq('parent_id', fields.parent_id);
+        position = count || 0;
+    }
+
+    const { data, error } = await supabase
+        .from('tasks')
+        .insert({
+            title: fields.title,
+            notes: fields.notes ?? null,
+            priority: fields.priority || 'normal',
+            due_date: fields.due_date ?? null,
+            due_time: fields.due_date ? fields.due_time ?? null : null,
+            due_phrase: fields.due_phrase ?? null,
+            recurrence: fields.parent_id ? null : fields.recurrence ?? null,
+            parent_id: fields.parent_id ?? null,
+            source_entry_id: fields.source_entry_id ?? null,
+            position,
+        })
+        .select('*')
+        .single();
+    if (error) throw new Error(`Failed to create task: ${error.message}`);
+    return data as Task;
+}
+
+/**
+ * Mark a task done (optionally by the brain dump that reported it). A
+ * recurring task gets its next occurrence, which is returned. Only the
+ * call that moves the task out of pending creates it, so a double tap or
+ * a brain dump racing the UI can't repeat the task twice.
+ */
+export async function completeTask(userId: string, task: Task, entryId?: string): Promise<Task | null> {
+    const supabase = getUserSupabase(userId);
+    const now = new Date().toISOString();
+
+    const { data: completed, error } = await supabase
+        .from('tasks')
+        .update({ status: 'done', completed_at: now, completed_entry_id: entryId ?? null, snoozed_until: null, updated_at: now })
+        .eq('id', task.id)
+        .eq('status', 'pending')
+        .select('id');
+    if (error) throw new Error(`Failed to complete task: ${error.message}`);
+
+    if (completed?.length !== 1 || !task.recurrence || task.parent_id) return null;
+
+    const nextDue = nextDueDate(task.recurrence, task.due_date || now.split('T')[0]);
+    if (!nextDue) return null;
+
+    const next = await createTask(userId, {
+        title: task.title,
+        notes: task.notes,
+        priority: task.priority,
+        due_date: nextDue,
+        due_time: task.due_time,
+        recurrence: task.recurrence,
+        source_entry_id: task.source_entry_id,
+    });
+
+    const { data: subtasks } = await supabase
+        .from('tasks')
+        .select('title, notes, priority, position')
+        .eq('parent_id', task.id)
+        .neq('status', 'cancelled')
+        .order('position', { ascending: true });
+    if (subtasks && subtasks.length > 0) {
+        const { error: subError } = await supabase
+            .from('tasks')
+            .insert(subtasks.map(subtask => ({ ...subtask, parent_id: next.id })));
+        if (subError) console.error('[Tasks] Failed to carry subtasks to the next occurrence:', subError.message);
+    }
+
+    console.log(`[Tasks] "${task.title}" repeats — next due ${nextDue}`);
+    return next;
+}
+
+export async function setTaskStatus(userId: string, task: Task, status: TaskStatus, entryId?: string): Promise<Task | null> {
+    if (status === 'done') return completeTask(userId, task, entryId);
+
+    const { error } = await getUserSupabase(userId)
+        .from('tasks')
+        .update({ status, completed_at: null, completed_entry_id: null, updated_at: new Date().toISOString() })
+        .eq('id', task.id);
+    if (error) throw new Error(`Failed to update task: ${error.message}`);
+    return null;
+}
+
+// ---- From brain dumps ----
+function sameTitle(a: string, b: string): boolean {
+    const normalize = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return normalize(a) === normalize(b);
+}
+
+/**
+ * Apply an extraction's task fields: complete or drop the open tasks it
+ * reported on, and add its own task unless it's one that already exists.
+ * `openTasks` must be the list the extractor was shown (refs are positions in it);
+ * `due` is the entry's due phrase already resolved in the user's timezone.
+ */
+export async function syncTasksFromEntry(
+    userId: string,
+    entryId: string,
+    extraction: ExtractionResult,
+    openTasks: Task[],
+    due: DueDate | null = null
+): Promise<{ created: number; updated: number }> {
+    const byRef = (ref: string | null) => (ref ? openTasks[parseInt(ref.slice(1), 10) - 1] ?? null : null);
+    const touched = new Set<string>();
+    let created = 0;
+
+    for (const update of extraction.task_updates || []) {
+        const task = byRef(update.ref);
+        if (!task || touched.has(task.id)) continue;
+        await setTaskStatus(userId, task, update.status, entryId);
+        touched.add(task.id);
+        console.log(`[Tasks] Entry ${entryId} marked "${task.title}" ${update.status}`);
+    }
+
+    if (extraction.is_task) {
+        const linked = byRef(extraction.task_ref) || openTasks.find(task => sameTitle(task.title, extraction.title)) || null;
+        const status = extraction.task_status || 'pending';
+
+        if (linked) {
+            if (status !== 'pending' && !touched.has(linked.id)) {
+                await setTaskStatus(userId, linked, status, entryId);
+                touched.add(linked.id);
+                console.log(`[Tasks] Entry ${entryId} marked "${linked.title}" ${status}`);
+            } else if (status === 'pending' && due && !linked.due_date) {
+                // "Still need to call the bank — by Friday" gives an undated task its date
+                const { error } = await getUserSupabase(userId)
+                    .from('tasks')
+                    .update({ due_date: due.date, due_time: due.time, due_phrase: extraction.task_due_phrase, reminded_at: null, updated_at: new Date().toISOString() })
+                    .eq('id', linked.id);
+                if (error) throw new Error(`Failed to date task: ${error.message}`);
+                touched.add(linked.id);
+                console.log(`[Tasks] Entry ${entryId} set "${linked.title}" due ${due.date}${due.time ? ` ${due.time}` : ''}`);
+            }
+        } else if (status === 'pending') {
+            // Re-processing an entry keeps the task it already made (and any edits to it)
+            const { data: existing } = await getUserSupabase(userId)
+                .from('tasks')
+                .select('id')
+                .eq('source_entry_id', entryId)
+                .limit(1);
+            if (!existing || existing.length === 0) {
+                await createTask(userId, {
+                    title: extraction.title,
+                    notes: extraction.content || null,
+                    priority: extraction.task_priority || 'normal',
+                    due_date: due?.date ?? null,
+                    due_time: due?.time ?? null,
+                    due_phrase: due ? extraction.task_due_phrase : null,
+                    recurrence: extraction.task_recurrence,
+                    source_entry_id: entryId,
+                });
+                created++;
+            }
+        }
+    }
+
+    return { created, updated: touched.size };
+}
@@ -0,0 +1,172 @@
+// ============================================================
+// INNER SELF — Chat Threads
+// Every chat message (conversations row) belongs to a thread: one
+// persona, one conversation, titled after its first exchange by a
+// queued thread_title job. The chat route reads a thread's history
+// from here rather than trusting the client's copy.
+//
+// Titles are written from the conversation, so they're sealed with
+// the vault like conversations.content.
+// ============================================================
+import { getUserSupabase } from './supabase';
+import { getCitations, type Citation } from './embeddings';
+import type { Vault } from './vault';
+import type { AIPersona } from '@/types';
+
+/** Messages of history sent back to the model with each new message */
+export const THREAD_HISTORY_LIMIT = 10;
+const THREAD_LIST_LIMIT = 50;
+const THREAD_COLUMNS = 'id, title, persona, archived, created_at, last_message_at';
+
+export interface ChatThread {
+    id: string;
+    title: string | null;
+    persona: AIPersona;
+    archived: boolean;
+    created_at: string;
+    last_message_at: string;
+}
+
+export interface ThreadMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    persona_used: AIPersona | null;
+    context_entry_ids: string[] | null; // entries the reply cited
+    created_at: string;
+    citations?: Citation[];
+}
+
+export class ThreadNotFoundError extends Error {
+    constructor(threadId: string) {
+        super(`Chat thread ${threadId} not found`);
+        this.name = 'ThreadNotFoundError';
+    }
+}
+
+function openThread(row: ChatThread, vault: Vault): ChatThread {
+    return { ...row, title: vault.open(row.title) };
+}
+
+export async function createThread(userId: string, persona: AIPersona): Promise<ChatThread> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('chat_threads')
+        .insert({ persona })
+        .select(THREAD_COLUMNS)
+        .single();
+    if (error || !data) throw new Error(`Failed to create thread: ${error?.message}`);
+    return data as ChatThread;
+}
+
+export async function getThread(userId: string, threadId: string, vault: Vault): Promise<ChatThread> {
+    const { data } = await getUserSupabase(userId)
+        .from('chat_threads')
+        .select(THREAD_COLUMNS)
+        .eq('id', threadId)
+        .maybeSingle();
+    if (!data) throw new ThreadNotFoundError(threadId);
+    return openThread(data as ChatThread, vault);
+}
+
+/** Most recently active first. Archived threads only when asked for. */
+export async function listThreads(userId: string, vault: Vault, options?: { archived?: boolean }): Promise<ChatThread[]> {
+    const { data, error } = await getUserSupabase(userId)
+        .from('chat_threads')
+        .select(THREAD_COLUMNS)
+        .eq('archived', !!options?.archived)
+        .order('last_message_at', { ascending: false })
+        .limit(THREAD_LIST_LIMIT);
+    if (error) throw new Error(`Failed to list threads: ${error.message}`);
+    return ((data || []) as ChatThread[]).map(thread => openThread(thread, vault));
+}
+
+/** A thread's messages, oldest first — the last `limit` of them when given. */
+export async function getThreadMessages(userId: string, threadId: string, vault: Vault, limit?: number): Promise<ThreadMessage[]> {
+    let query = getUserSupabase(userId)
+        .from('conversations')
+        .select('id, role, content, persona_used, context_entry_ids, created_at')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: false });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load thread messages: ${error.message}`);
+    return ((data || []) as ThreadMessage[])
+        .reverse()
+        .map(m => ({ ...m, content: vault.open(m.content) || '' }));
+}
+
+/** Fill in citation chips (date + snippet) for replies that cited entries. */
+export async function attachCitations(userId: string, messages: ThreadMessage[]): Promise<ThreadMessage[]> {
+    const citations = await getCitations(userId, messages.flatMap(m => m.context_entry_ids || []));
+    return messages.map(m => m.context_entry_ids?.length
+        ? { ...m, citations: m.context_entry_ids.map(id => citations.get(id)).filter((c): c is Citation => !!c) }
+        : m);
+}
+
+/**
+ * Store one user message and its reply in the thread. Both rows get
+ * explicit timestamps so the reply always sorts after the message.
+ * Returns the user message's id (chat extraction jobs point at it).
+ */
+export async function appendExchange(
+    userId: string,
+    vault: Vault,
+    thread: ChatThread,
+    message: string,
+    reply: string,
+    citedEntryIds: string[] = []
+): Promise<string> {
+    const supabase = getUserSupabase(userId);
+    const sentAt = new Date();
+    const repliedAt = new Date(sentAt.getTime() + 1);
+
+    const { data, error } = await supabase
+        .from('conversations')
+        .insert([
+            { thread_id: thread.id, role: 'user', content: vault.seal(message), persona_used: thread.persona, created_at: sentAt.toISOString() },
+            {
+                thread_id: thread.id,
+                role: 'assistant',
+                content: vault.seal(reply),
+                persona_used: thread.persona,
+                context_entry_ids: citedEntryIds,
+                created_at: repliedAt.toISOString(),
+            },
+        ])
+        .select('id, role');
+    if (error || !data) throw new Error(`Failed to save chat messages: ${error?.message}`);
+
+    await supabase.from('chat_threads').update({ last_message_at: repliedAt.toISOString() }).eq('id', thread.id);
+    return data.find(row => row.role === 'user')!.id;
+}
+
+export async function updateThread(
+    userId: string,
+    threadId: string,
+    vault: Vault,
+    updates: { title?: string; archived?: boolean }
+): Promise<ChatThread> {
+    const changes: Record<string, unknown> = {};
+    if (updates.title !== undefined) changes.title = vault.seal(updates.title.trim().substring(0, 120));
+    if (updates.archived !== undefined) changes.archived = updates.archived;
+
+    const { data } = await getUserSupabase(userId)
+        .from('chat_threads')
+        .update(changes)
+        .eq('id', threadId)
+        .select(THREAD_COLUMNS)
+        .maybeSingle();
+    if (!data) throw new ThreadNotFoundError(threadId);
+    return openThread(data as ChatThread, vault);
+}
+
+/** Deletes the thread and (by cascade) its messages. */
+export async function deleteThread(userId: string, threadId: string): Promise<void> {
+    const { data } = await getUserSupabase(userId)
+        .from('chat_threads')
+        .delete()
+        .eq('id', threadId)
+        .select('id');
+    if (!data || data.length === 0) throw new ThreadNotFoundError(threadId);
+}
@@ -0,0 +1,69 @@
+// ============================================================
+// INNER SELF — Time-Lock Encryption for Letters
+// Letters are encrypted to a future round of the drand randomness
+// beacon (tlock). The decryption key only exists once the beacon
+// publishes that round, so not even someone with full database
+// access can read a letter before its unlock_at.
+// ============================================================
+import { timelockEncrypt, timelockDecrypt, mainnetClient, roundAt, defaultChainInfo, Buffer } from 'tlock-js';
+import { getUserSupabase } from './supabase';
+import { isEncrypted } from './vault';
+
+const TIMELOCK_PREFIX = 'tlock:v1:';
+const BACKFILL_BATCH = 20;
+
+export function isTimeLocked(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(TIMELOCK_PREFIX);
+}
+
+export async function timeLock(text: string, unlockAt: Date): Promise<string> {
+    const round = roundAt(unlockAt.getTime(), defaultChainInfo);
+    const ciphertext = await timelockEncrypt(round, Buffer.from(text, 'utf8'), mainnetClient());
+    return TIMELOCK_PREFIX + ciphertext;
+}
+
+/**
+ * Decrypt once the beacon round has been published. Throws before
+ * then, or if the drand network can't be reached.
+ */
+export async function timeUnlock(value: string): Promise<string> {
+    const plaintext = await timelockDecrypt(value.substring(TIMELOCK_PREFIX.length), mainnetClient());
+    return plaintext.toString('utf8');
+}
+
+/**
+ * Time-lock letters written before time-locking existed, which are still
+ * stored as plaintext or vault ciphertext with a future unlock_at. The
+ * stored value is wrapped as-is, so no vault key is needed. Run from the
+ * jobs cron; once every letter is done it finds nothing.
+ */
+export async function timeLockPendingLetters(userId: string): Promise<number> {
+    const supabase = getUserSupabase(userId);
+    const { data: letters, error } = await supabase
+        .from('letters_to_future')
+        .select('id, letter_text, unlock_at')
+        .gt('unlock_at', new Date().toISOString())
+        .not('letter_text', 'like', `${TIMELOCK_PREFIX}%`)
+        .limit(BACKFILL_BATCH);
+    if (error) throw new Error(`Failed to read letters: ${error.message}`);
+
+    let locked = 0;
+    for (const letter of letters || []) {
+        if (!letter.letter_text) continue;
+        try {
+            const sealedText = await timeLock(letter.letter_text, new Date(letter.unlock_at));
+            const { error: updateError } = await supabase
+                .from('letters_to_future')
+                .update({ letter_text: sealedText, vault_sealed: isEncrypted(letter.letter_text) })
+                .eq('id', letter.id)
+                .eq('letter_text', letter.letter_text);
+            if (updateError) throw updateError;
+            locked++;
+        } catch (lockError) {
+            // Left as is; the next run tries again
+            console.error(`[Letters] Time-locking letter ${letter.id} failed:`, lockError);
+        }
+    }
+    if (locked > 0) console.log(`[Letters] Time-locked ${locked} earlier letter(s) for user ${userId}`);
+    return locked;
+}
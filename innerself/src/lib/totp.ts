@@ -0,0 +1,92 @@
+// ============================================================
+// INNER SELF — TOTP (RFC 6238)
+// 6-digit, 30-second codes compatible with Google Authenticator,
+// 1Password, Authy etc. Secrets are stored base32-encoded.
+// ============================================================
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SEC = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1; // accept the previous and next code for clock skew
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+    message.writeUInt32BE(counter % 2 ** 32, 4);
+    const digest = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return code.toString().padStart(DIGITS, '0');
+}
+
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * otpauth:// URI for authenticator apps (paste or render as a QR code).
+ */
+export function totpUri(secret: string, accountName: string): string {
+    const issuer = 'Inner Self';
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&digits=${DIGITS}&period=${STEP_SEC}`;
+}
+
+/**
+ * The time step a code belongs to, or null if it's wrong. Steps at or
+ * before `lastStep` (the last code accepted) are refused, so a code can't
+ * be replayed within its validity window — see consumeTotpCode in auth.ts.
+ */
+export function verifyTotp(secret: string, code: string, lastStep: number | null = null): number | null {
+    const cleanCode = String(code || '').replace(/\s/g, '');
+    if (!/^\d{6}$/.test(cleanCode)) return null;
+
+    const key = base32Decode(secret);
+    const counter = Math.floor(Date.now() / 1000 / STEP_SEC);
+    for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+        const step = counter + drift;
+        if (lastStep !== null && step <= lastStep) continue;
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(cleanCode))) {
+            return step;
+        }
+    }
+    return null;
+}
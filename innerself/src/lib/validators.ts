@@ -4,6 +4,21 @@
 // Every route that touches life_events, people, insights, etc.
 // MUST go through these functions.
 // ============================================================
+import { PERSONAS } from './personas';
+import type {
+    AIPersona,
+    BackgroundFeatures,
+    DetectedCourage,
+    DetectedDream,
+    DetectedHealthMetric,
+    DetectedLifeEvent,
+    EntryCategory,
+    ExtractedTaskUpdate,
+    ExtractionResult,
+    IdentityPersona,
+    PersonMention,
+    TaskPriority,
+} from '@/types';
 
 const MIN_SANE_YEAR = 1985;
 const VALID_CATEGORIES = ['career', 'relationship', 'family', 'health', 'finance', 'personal', 'education', 'achievement', 'professional_achievement', 'personal_development', 'loss'];
@@ -261,3 +276,368 @@ export function validatePerson(raw: {
         tags: validateStringArray(raw.tags),
     };
 }
+
+// ============================================================
+// STRUCTURED OUTPUT SCHEMAS
+// Runtime schemas for model JSON. Every field is coerced into shape;
+// anything that had to be invented or thrown away is reported so the
+// caller can send the model a targeted "fix these fields" re-ask.
+// ============================================================
+
+const ENTRY_CATEGORIES: EntryCategory[] = ['emotion', 'task', 'reflection', 'goal', 'memory', 'idea', 'gratitude', 'vent'];
+const IDENTITY_PERSONAS: IdentityPersona[] = ['Professional', 'Son', 'Builder', 'Seeker', 'Achiever', 'Wounded', 'Friend'];
+const AI_PERSONAS = Object.keys(PERSONAS) as AIPersona[];
+const CORE_NEEDS = ['security', 'recognition', 'love', 'autonomy', 'competence', 'belonging'];
+const DEFENSE_MECHANISMS = ['intellectualizing', 'deflecting', 'minimizing', 'projecting', 'humor', 'suppression'];
+const COGNITIVE_PATTERNS = ['catastrophizing', 'black_white', 'should_statements', 'overgeneralization'];
+const SELF_TALK_TONES: ExtractionResult['self_talk_tone'][] = ['critical', 'neutral', 'compassionate'];
+const TASK_STATUSES: NonNullable<ExtractionResult['task_status']>[] = ['pending', 'done', 'cancelled'];
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'normal', 'high', 'urgent'];
+const TASK_RECURRENCES: NonNullable<ExtractionResult['task_recurrence']>[] = ['daily', 'weekly', 'monthly'];
+const TASK_UPDATE_STATUSES: ExtractedTaskUpdate['status'][] = ['done', 'cancelled'];
+const TASK_REF_PATTERN = /^T\d+$/;
+const NULL_STRINGS = ['null', 'none', 'n/a', 'na', 'unknown', 'undefined', ''];
+
+export interface FieldIssue {
+    field: string;
+    problem: string;
+    received: unknown;
+    action: 'coerced' | 'defaulted' | 'dropped';
+}
+
+export interface SchemaResult<T> {
+    value: T;
+    issues: FieldIssue[];
+}
+
+/**
+ * Issues worth a re-ask: fields that were defaulted or dropped.
+ * Coercions ("Mother" → "mother", "7" → 7) and bad array items are only reported.
+ */
+export function fixableIssues(issues: FieldIssue[]): FieldIssue[] {
+    return issues.filter(i => i.action !== 'coerced' && !i.field.includes('['));
+}
+
+// ---- Field readers (push to issues, always return a usable value) ----
+
+function isNullish(raw: unknown): boolean {
+    return raw === null || raw === undefined || (typeof raw === 'string' && NULL_STRINGS.includes(raw.trim().toLowerCase()));
+}
+
+function asRecord(raw: unknown): Record<string, unknown> {
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+}
+
+function matchEnum<T extends string>(raw: unknown, allowed: readonly T[]): { value: T; exact: boolean } | null {
+    if (typeof raw !== 'string') return null;
+    const trimmed = raw.trim();
+    if ((allowed as readonly string[]).includes(trimmed)) return { value: trimmed as T, exact: true };
+    const lower = trimmed.toLowerCase().replace(/[\s-]+/g, '_');
+    const caseMatch = allowed.find(a => a.toLowerCase() === lower);
+    if (caseMatch) return { value: caseMatch, exact: false };
+    // "Mother (grief)" / "coach — action" → first allowed value named in the string
+    const contained = allowed.find(a => lower.includes(a.toLowerCase()));
+    return contained ? { value: contained, exact: false } : null;
+}
+
+function readEnum<T extends string>(issues: FieldIssue[], field: string, raw: unknown, allowed: readonly T[], fallback: T): T {
+    const match = matchEnum(raw, allowed);
+    const problem = `must be ONE of: ${allowed.join(' | ')}`;
+    if (!match) {
+        issues.push({ field, problem, received: raw, action: 'defaulted' });
+        return fallback;
+    }
+    if (!match.exact) issues.push({ field, problem, received: raw, action: 'coerced' });
+    return match.value;
+}
+
+function readEnumNullable<T extends string>(issues: FieldIssue[], field: string, raw: unknown, allowed: readonly T[]): T | null {
+    if (isNullish(raw)) return null;
+    const match = matchEnum(raw, allowed);
+    const problem = `must be ONE of: ${allowed.join(' | ')} | null`;
+    if (!match) {
+        issues.push({ field, problem, received: raw, action: 'dropped' });
+        return null;
+    }
+    if (!match.exact) issues.push({ field, problem, received: raw, action: 'coerced' });
+    return match.value;
+}
+
+function readScore(issues: FieldIssue[], field: string, raw: unknown): number {
+    const num = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+    const problem = 'must be an integer 1-10';
+    if (isNaN(num)) {
+        issues.push({ field, problem, received: raw, action: 'defaulted' });
+        return 5;
+    }
+    const clamped = validateMoodScore(num);
+    if (clamped !== raw) issues.push({ field, problem, received: raw, action: 'coerced' });
+    return clamped;
+}
+
+function readString(issues: FieldIssue[], field: string, raw: unknown, fallback: string): string {
+    if (typeof raw === 'string' && raw.trim().length > 0) return raw.trim();
+    if (typeof raw === 'number') {
+        issues.push({ field, problem: 'must be a string', received: raw, action: 'coerced' });
+        return String(raw);
+    }
+    issues.push({ field, problem: 'required non-empty string', received: raw, action: 'defaulted' });
+    return fallback;
+}
+
+function readStringNullable(issues: FieldIssue[], field: string, raw: unknown): string | null {
+    if (isNullish(raw)) return null;
+    if (typeof raw === 'string') return raw.trim();
+    issues.push({ field, problem: 'must be a string or null', received: raw, action: 'dropped' });
+    return null;
+}
+
+function readStringList(issues: FieldIssue[], field: string, raw: unknown): string[] {
+    if (isNullish(raw)) return [];
+    if (typeof raw === 'string') {
+        issues.push({ field, problem: 'must be an array of strings', received: raw, action: 'coerced' });
+        return [raw.trim()];
+    }
+    if (!Array.isArray(raw)) {
+        issues.push({ field, problem: 'must be an array of strings', received: raw, action: 'dropped' });
+        return [];
+    }
+    const clean = validateStringArray(raw);
+    if (clean.length !== raw.length) {
+        issues.push({ field: `${field}[]`, problem: 'non-string or empty items removed', received: raw, action: 'dropped' });
+    }
+    return clean;
+}
+
+function readBoolean(issues: FieldIssue[], field: string, raw: unknown): boolean {
+    if (typeof raw === 'boolean') return raw;
+    if (raw === 'true' || raw === 'false') {
+        issues.push({ field, problem: 'must be a boolean', received: raw, action: 'coerced' });
+        return raw === 'true';
+    }
+    if (isNullish(raw)) return false;
+    issues.push({ field, problem: 'must be a boolean', received: raw, action: 'defaulted' });
+    return false;
+}
+
+function readDateNullable(issues: FieldIssue[], field: string, raw: unknown): string | null {
+    if (isNullish(raw)) return null;
+    const date = typeof raw === 'string' ? validateDateNullable(raw) : null;
+    if (!date) {
+        issues.push({ field, problem: 'must be YYYY-MM-DD or null', received: raw, action: 'dropped' });
+        return null;
+    }
+    if (date !== raw) issues.push({ field, problem: 'must be YYYY-MM-DD or null', received: raw, action: 'coerced' });
+    return date;
+}
+
+function readArray<T>(
+    issues: FieldIssue[],
+    field: string,
+    raw: unknown,
+    readItem: (item: Record<string, unknown>, path: string) => T | null
+): T[] {
+    if (isNullish(raw)) return [];
+    if (!Array.isArray(raw)) {
+        issues.push({ field, problem: 'must be an array', received: raw, action: 'dropped' });
+        return [];
+    }
+    const out: T[] = [];
+    raw.forEach((item, i) => {
+        const value = readItem(asRecord(item), `${field}[${i}]`);
+        if (value) out.push(value);
+    });
+    return out;
+}
+
+// ---- ExtractionResult ----
+
+function readPersonMention(issues: FieldIssue[], item: Record<string, unknown>, path: string): PersonMention | null {
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (name.length < 2 || /^(user|person|someone|example|test|null|undefined|n\/a)$/i.test(name)) {
+        issues.push({ field: path, problem: 'person needs a real name', received: item, action: 'dropped' });
+        return null;
+    }
+    return {
+        name,
+        relationship: typeof item.relationship === 'string' ? item.relationship.trim() : '',
+        sentiment: typeof item.sentiment === 'string' ? item.sentiment.trim() : 'neutral',
+        context: typeof item.context === 'string' ? item.context.trim() : '',
+    };
+}
+
+function readTaskUpdate(issues: FieldIssue[], item: Record<string, unknown>, path: string): ExtractedTaskUpdate | null {
+    const ref = typeof item.ref === 'string' ? item.ref.trim().toUpperCase() : '';
+    const status = matchEnum(item.status, TASK_UPDATE_STATUSES);
+    if (!TASK_REF_PATTERN.test(ref) || !status) {
+        issues.push({ field: path, problem: 'must be {"ref": "T<n>", "status": "done | cancelled"}', received: item, action: 'dropped' });
+        return null;
+    }
+    return { ref, status: status.value };
+}
+
+function readTaskRef(issues: FieldIssue[], field: string, raw: unknown): string | null {
+    if (isNullish(raw)) return null;
+    const ref = typeof raw === 'string' ? raw.trim().toUpperCase() : '';
+    if (!TASK_REF_PATTERN.test(ref)) {
+        issues.push({ field, problem: 'must be an OPEN TASKS ref like "T2" or null', received: raw, action: 'dropped' });
+        return null;
+    }
+    return ref;
+}
+
+/**
+ * Validate Silent Extractor output. Always returns a DB-safe ExtractionResult.
+ */
+export function validateExtractionResult(raw: unknown): SchemaResult<ExtractionResult> {
+    const issues: FieldIssue[] = [];
+    const r = asRecord(raw);
+
+    const isTask = readBoolean(issues, 'is_task', r.is_task);
+    const title = readString(issues, 'title', r.title, 'Untitled entry');
+
+    const value: ExtractionResult = {
+        category: readEnum(issues, 'category', r.category, ENTRY_CATEGORIES, 'reflection'),
+        title: sanitizeTitle(title) || 'Untitled entry',
+        content: readString(issues, 'content', r.content, ''),
+        mood_score: readScore(issues, 'mood_score', r.mood_score),
+        surface_emotion: readString(issues, 'surface_emotion', r.surface_emotion, 'neutral'),
+        deeper_emotion: readStringNullable(issues, 'deeper_emotion', r.deeper_emotion),
+        core_need: readEnumNullable(issues, 'core_need', r.core_need, CORE_NEEDS),
+        triggers: readStringList(issues, 'triggers', r.triggers),
+        defense_mechanism: readEnumNullable(issues, 'defense_mechanism', r.defense_mechanism, DEFENSE_MECHANISMS),
+        self_talk_tone: readEnum(issues, 'self_talk_tone', r.self_talk_tone, SELF_TALK_TONES, 'neutral'),
+        energy_level: readScore(issues, 'energy_level', r.energy_level),
+        cognitive_pattern: readEnumNullable(issues, 'cognitive_pattern', r.cognitive_pattern, COGNITIVE_PATTERNS),
+        beliefs_revealed: readStringList(issues, 'beliefs_revealed', r.beliefs_revealed),
+        avoidance_signal: readStringNullable(issues, 'avoidance_signal', r.avoidance_signal),
+        growth_edge: readStringNullable(issues, 'growth_edge', r.growth_edge),
+        identity_persona: readEnum(issues, 'identity_persona', r.identity_persona, IDENTITY_PERSONAS, 'Seeker'),
+        body_signals: readStringList(issues, 'body_signals', r.body_signals),
+        is_task: isTask,
+        task_status: isTask ? readEnumNullable(issues, 'task_status', r.task_status, TASK_STATUSES) : null,
+        task_due_date: isTask ? readDateNullable(issues, 'task_due_date', r.task_due_date) : null,
+        task_due_phrase: isTask ? readStringNullable(issues, 'task_due_phrase', r.task_due_phrase) : null,
+        task_priority: isTask ? readEnumNullable(issues, 'task_priority', r.task_priority, TASK_PRIORITIES) : null,
+        task_recurrence: isTask ? readEnumNullable(issues, 'task_recurrence', r.task_recurrence, TASK_RECURRENCES) : null,
+        task_ref: isTask ? readTaskRef(issues, 'task_ref', r.task_ref) : null,
+        task_updates: readArray(issues, 'task_updates', r.task_updates, (item, path) => readTaskUpdate(issues, item, path)),
+        occurred_on: readDateNullable(issues, 'occurred_on', r.occurred_on),
+        people_mentioned: readArray(issues, 'people_mentioned', r.people_mentioned, (item, path) => readPersonMention(issues, item, path)),
+        ai_persona_used: readEnum(issues, 'ai_persona_used', r.ai_persona_used, AI_PERSONAS, 'friend'),
+        ai_response: readString(issues, 'ai_response', r.ai_response, ''),
+        follow_up_question: readStringNullable(issues, 'follow_up_question', r.follow_up_question),
+    };
+
+    return { value, issues };
+}
+
+// ---- BackgroundFeatures ----
+
+function readLifeEvent(issues: FieldIssue[], raw: unknown): DetectedLifeEvent | null {
+    if (isNullish(raw)) return null;
+    const r = asRecord(raw);
+    const title = sanitizeTitle(typeof r.title === 'string' ? r.title : null);
+    if (!title || isPromptLeakage(title)) {
+        issues.push({ field: 'life_event_detected', problem: 'must be null or an event with a real title', received: raw, action: 'dropped' });
+        return null;
+    }
+    const category = typeof r.category === 'string' ? r.category.trim().toLowerCase() : '';
+    const validCategory = validateCategory(category);
+    if (validCategory !== category) {
+        issues.push({ field: 'life_event_detected.category', problem: `must be ONE of: ${VALID_CATEGORIES.join(' | ')}`, received: r.category, action: 'coerced' });
+    }
+    const eventDate = readDateNullable(issues, 'life_event_detected.event_date', r.event_date);
+    return {
+        title,
+        description: typeof r.description === 'string' ? r.description.trim() : '',
+        significance: readScore(issues, 'life_event_detected.significance', r.significance),
+        category: validCategory,
+        emotions: readStringList(issues, 'life_event_detected.emotions', r.emotions),
+        people_involved: readStringList(issues, 'life_event_detected.people_involved', r.people_involved),
+        ...(eventDate ? { event_date: eventDate } : {}),
+    };
+}
+
+function readHealthMetric(issues: FieldIssue[], item: Record<string, unknown>, path: string): DetectedHealthMetric | null {
+    const metric = typeof item.metric === 'string' ? item.metric.trim() : '';
+    const value = typeof item.value === 'number' ? String(item.value) : typeof item.value === 'string' ? item.value.trim() : '';
+    if (!metric || !value) {
+        issues.push({ field: path, problem: 'metric and value are required', received: item, action: 'dropped' });
+        return null;
+    }
+    return {
+        metric,
+        value,
+        unit: typeof item.unit === 'string' ? item.unit.trim() : '',
+        status: typeof item.status === 'string' ? item.status.trim().toLowerCase() : 'unknown',
+        date: typeof item.date === 'string' ? item.date.trim() : '',
+    };
+}
+
+function readDream(issues: FieldIssue[], raw: unknown): DetectedDream | null {
+    if (isNullish(raw)) return null;
+    const r = asRecord(raw);
+    if (typeof r.dream_text !== 'string' || !r.dream_text.trim()) {
+        issues.push({ field: 'dream_detected', problem: 'must be null or a dream with dream_text', received: raw, action: 'dropped' });
+        return null;
+    }
+    return {
+        dream_text: r.dream_text.trim(),
+        dream_type: readEnum(issues, 'dream_detected.dream_type', r.dream_type, VALID_DREAM_TYPES, 'normal'),
+        symbols: readArray(issues, 'dream_detected.symbols', r.symbols, (item, path) => {
+            if (typeof item.symbol !== 'string' || !item.symbol.trim()) {
+                issues.push({ field: path, problem: 'symbol is required', received: item, action: 'dropped' });
+                return null;
+            }
+            return {
+                symbol: item.symbol.trim(),
+                interpretation: typeof item.interpretation === 'string' ? item.interpretation.trim() : '',
+            };
+        }),
+        emotions: readStringList(issues, 'dream_detected.emotions', r.emotions),
+        themes: readStringList(issues, 'dream_detected.themes', r.themes),
+        waking_connections: typeof r.waking_connections === 'string' ? r.waking_connections.trim() : '',
+        significance: readScore(issues, 'dream_detected.significance', r.significance),
+    };
+}
+
+function readCourage(issues: FieldIssue[], raw: unknown): DetectedCourage | null {
+    if (isNullish(raw)) return null;
+    const r = asRecord(raw);
+    if (typeof r.description !== 'string' || !r.description.trim()) {
+        issues.push({ field: 'courage_detected', problem: 'must be null or a moment with a description', received: raw, action: 'dropped' });
+        return null;
+    }
+    return {
+        description: r.description.trim(),
+        courage_type: readEnum(issues, 'courage_detected.courage_type', r.courage_type, VALID_COURAGE_TYPES, 'boundary'),
+        significance: readScore(issues, 'courage_detected.significance', r.significance),
+        people_involved: readStringList(issues, 'courage_detected.people_involved', r.people_involved),
+        outcome: typeof r.outcome === 'string' ? r.outcome.trim() : '',
+    };
+}
+
+/**
+ * Validate background analyzer output (life event, health, insights, dream, courage).
+ */
+export function validateBackgroundFeatures(raw: unknown): SchemaResult<BackgroundFeatures> {
+    const issues: FieldIssue[] = [];
+    const r = asRecord(raw);
+
+    const insights = readStringList(issues, 'insights', r.insights);
+    const realInsights = insights.filter(text => !isPromptLeakage(text));
+    if (realInsights.length !== insights.length) {
+        issues.push({ field: 'insights[]', problem: 'prompt leakage removed', received: insights, action: 'dropped' });
+    }
+
+    const value: BackgroundFeatures = {
+        life_event_detected: readLifeEvent(issues, r.life_event_detected),
+        health_metrics: readArray(issues, 'health_metrics', r.health_metrics, (item, path) => readHealthMetric(issues, item, path)),
+        insights: realInsights,
+        dream_detected: readDream(issues, r.dream_detected),
+        courage_detected: readCourage(issues, r.courage_detected),
+    };
+
+    return { value, issues };
+}
@@ -0,0 +1,243 @@
+// ============================================================
+// INNER SELF — Encryption at Rest (opt-in "vault" mode)
+//
+// The browser derives a 256-bit key from the user's passphrase
+// (PBKDF2-SHA256, per-user salt) and hands it to /api/vault,
+// which checks it against a stored fingerprint and parks it in an
+// httpOnly, browser-session-only cookie. The server never stores
+// the key or the passphrase; each request that needs plaintext
+// decrypts with the cookie key and forgets it.
+//
+// Encrypted (AES-256-GCM, "enc:v1:<iv>:<ciphertext+tag>"):
+//   raw_entries.raw_text, conversations.content, chat_threads.title,
+//   letters_to_future.letter_text
+//
+// Still plaintext — everything the AI derives, so crons and search
+// keep working without the key:
+//   extracted_entities (title, content, emotions, ...), embeddings
+//   (vectors + content_text — summaries only: chunks of an entry's
+//   raw text are embedded only while the vault is off, and deleted
+//   when it's turned on), people_map, life_events_timeline,
+//   insights, tasks, dreams, courage_log, beliefs, health_metrics,
+//   user_persona_summary, weekly_reports, onboarding_answers and
+//   deepening_questions.answer.
+//
+// Voice recordings (audio.ts) aren't kept at all while the vault is
+// on; ones kept before it was turned on stay until their retention
+// window runs out.
+//
+// Letters are additionally time-locked against the drand beacon
+// (see timelock.ts), so nobody can read them before unlock_at.
+// ============================================================
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getServiceSupabase, getUserSupabase } from './supabase';
+import { isTimeLocked } from './timelock';
+
+export const VAULT_COOKIE = 'inner-self-vault';
+export const VAULT_PBKDF2_ITERATIONS = 310000;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const LOCKED_PLACEHOLDER = '🔒 Encrypted — unlock your journal to read this.';
+
+export class VaultLockedError extends Error {
+    constructor() {
+        super('Journal is encrypted and locked. Unlock it with your passphrase first.');
+        this.name = 'VaultLockedError';
+    }
+}
+
+/** 423 Locked — the client should prompt for the passphrase and retry. */
+export function vaultLockedResponse(): NextResponse {
+    return NextResponse.json({ error: new VaultLockedError().message, vault_locked: true }, { status: 423 });
+}
+
+export interface Vault {
+    enabled: boolean;
+    unlocked: boolean;
+    /** Encrypt for storage. Plaintext passthrough when vault mode is off; throws VaultLockedError when locked. */
+    seal(text: string): string;
+    /** Decrypt a stored value. Plaintext passes through; locked values become a placeholder. */
+    open(value: string | null): string | null;
+    /** Keyed fingerprint for exact-match dedup of encrypted text (null when vault mode is off). */
+    fingerprint(text: string): string | null;
+}
+
+// ---- Primitives ----
+export function isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptText(key: Buffer, plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+    return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+export function decryptText(key: Buffer, value: string): string {
+    const [ivB64, dataB64] = value.substring(ENCRYPTED_PREFIX.length).split(':');
+    const data = Buffer.from(dataB64, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivB64, 'base64'));
+    decipher.setAuthTag(data.subarray(data.length - 16));
+    return Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]).toString('utf8');
+}
+
+/** Stored instead of the key so a wrong passphrase can be rejected up front. */
+export function keyCheck(key: Buffer): string {
+    return crypto.createHmac('sha256', key).update('inner-self-vault-check').digest('hex');
+}
+
+export function parseKey(encoded: string | undefined | null): Buffer | null {
+    if (!encoded) return null;
+    const key = Buffer.from(encoded, 'base64');
+    return key.length === 32 ? key : null;
+}
+
+// ---- Per-request vault ----
+interface VaultSettings {
+    encryption_enabled: boolean;
+    encryption_salt: string | null;
+    encryption_key_check: string | null;
+}
+
+export async function getVaultSettings(userId: string): Promise<VaultSettings> {
+    const { data } = await getServiceSupabase()
+        .from('app_users')
+        .select('encryption_enabled, encryption_salt, encryption_key_check')
+        .eq('id', userId)
+        .single();
+    return {
+        encryption_enabled: !!data?.encryption_enabled,
+        encryption_salt: data?.encryption_salt ?? null,
+        encryption_key_check: data?.encryption_key_check ?? null,
+    };
+}
+
+export function createVault(enabled: boolean, key: Buffer | null): Vault {
+    const unlocked = enabled && !!key;
+    return {
+        enabled,
+        unlocked,
+        seal(text) {
+            if (!enabled) return text;
+            if (!key) throw new VaultLockedError();
+            return encryptText(key, text);
+        },
+        open(value) {
+            if (!isEncrypted(value)) return value;
+            if (!key) return LOCKED_PLACEHOLDER;
+            try {
+                return decryptText(key, value);
+            } catch {
+                return LOCKED_PLACEHOLDER;
+            }
+        },
+        fingerprint(text) {
+            if (!enabled || !key) return null;
+            return crypto.createHmac('sha256', key).update(text.trim()).digest('hex');
+        },
+    };
+}
+
+/**
+ * The vault for the current request: the user's setting plus the key
+ * from the session cookie (verified against the stored fingerprint).
+ * Outside a request (scripts, crons) there is no key, so encrypted
+ * values stay sealed.
+ */
+export async function getVault(userId: string): Promise<Vault> {
+    const settings = await getVaultSettings(userId);
+    if (!settings.encryption_enabled) return createVault(false, null);
+
+    let key: Buffer | null = null;
+    try {
+        key = parseKey((await cookies()).get(VAULT_COOKIE)?.value);
+    } catch {
+        // Not inside a request — no key available
+    }
+
+    if (key && keyCheck(key) !== settings.encryption_key_check) key = null;
+    return createVault(true, key);
+}
+
+export function setVaultCookie(response: NextResponse, key: Buffer): void {
+    // No maxAge: the key is dropped when the browser session ends
+    response.cookies.set(VAULT_COOKIE, key.toString('base64'), {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'strict',
+        path: '/',
+    });
+}
+
+export function clearVaultCookie(response: NextResponse): void {
+    response.cookies.set(VAULT_COOKIE, '', { httpOnly: true, secure: true, sameSite: 'strict', maxAge: 0, path: '/' });
+}
+
+// ---- Bulk re-encryption (turning vault mode on or off) ----
+const VAULT_COLUMNS: { table: string; column: string }[] = [
+    { table: 'raw_entries', column: 'raw_text' },
+    { table: 'conversations', column: 'content' },
+    { table: 'chat_threads', column: 'title' },
+    { table: 'letters_to_future', column: 'letter_text' },
+];
+const REWRITE_BATCH_SIZE = 200;
+
+/**
+ * Rewrite every vault column from one vault state to another
+ * (plaintext → encrypted on enable, encrypted → plaintext on disable).
+ * Time-locked letters are left alone — they can't be opened yet, and
+ * the letters route applies the vault when they unlock.
+ */
+export async function rewriteVaultColumns(userId: string, from: Vault, to: Vault): Promise<number> {
+    const supabase = getUserSupabase(userId);
+    let rewritten = 0;
+
+    for (const { table, column } of VAULT_COLUMNS) {
+        for (let offset = 0; ; offset += REWRITE_BATCH_SIZE) {
+            const { data: rows, error } = await supabase
+                .from(table)
+                .select(`id, ${column}`)
+                .order('id', { ascending: true })
+                .range(offset, offset + REWRITE_BATCH_SIZE - 1);
+
+            if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+            if (!rows || rows.length === 0) break;
+
+            for (const row of rows as unknown as Record<string, string | null>[]) {
+                const value = row[column];
+                if (!value || isTimeLocked(value) || isEncrypted(value) === to.enabled) continue;
+
+                const plaintext = isEncrypted(value) ? decryptWith(from, value) : value;
+                if (plaintext === null) continue;
+
+                const updates: Record<string, unknown> = { [column]: to.seal(plaintext) };
+                if (table === 'raw_entries') updates.text_hmac = to.fingerprint(plaintext);
+
+                const { error: updateError } = await supabase.from(table).update(updates).eq('id', row.id);
+                if (updateError) throw new Error(`Failed to rewrite ${table}: ${updateError.message}`);
+                rewritten++;
+            }
+
+            if (rows.length < REWRITE_BATCH_SIZE) break;
+        }
+    }
+
+    // Raw text chunks (chunk_index > 0) are plaintext copies of raw_entries.raw_text
+    if (to.enabled) {
+        const { error } = await supabase
+            .from('embeddings')
+            .delete()
+            .eq('source_type', 'entry')
+            .gt('chunk_index', 0);
+        if (error) throw new Error(`Failed to remove raw text embeddings: ${error.message}`);
+    }
+
+    return rewritten;
+}
+
+function decryptWith(vault: Vault, value: string): string | null {
+    const opened = vault.open(value);
+    return opened === LOCKED_PLACEHOLDER ? null : opened;
+}
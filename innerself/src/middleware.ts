@@ -1,56 +1,49 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-
-// Edge-compatible hash using Web Crypto API
-async function hashToken(secret: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-        'raw',
-        encoder.encode(secret),
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['sign']
-    );
-    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode('inner-self-auth-v1'));
-    return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
-}
+import { validateSession, SESSION_COOKIE, USER_ID_HEADER } from '@/lib/auth';
 
 export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
-    // Allow access to the login page, login API, and static assets
+    // Never trust a user id sent by the client
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.delete(USER_ID_HEADER);
+
+    // Allow access to the login page, login/logout/register/passkey-login APIs, cron jobs (CRON_SECRET), the calendar feed (its own token), the service worker and static assets
     if (
         pathname === '/login' ||
         pathname === '/api/auth' ||
+        pathname === '/api/auth/register' ||
+        pathname === '/api/auth/passkey/login' ||
+        pathname.startsWith('/api/cron/') ||
+        pathname === '/api/cleanup' ||
+        pathname === '/api/calendar/feed' ||
+        pathname === '/sw.js' ||
         pathname.startsWith('/_next') ||
         pathname.startsWith('/favicon') ||
         pathname.endsWith('.png') ||
         pathname.endsWith('.json') ||
         pathname.endsWith('.ico')
     ) {
-        return NextResponse.next();
+        return NextResponse.next({ request: { headers: requestHeaders } });
     }
 
-    // Check for the auth cookie
-    const authToken = request.cookies.get('inner-self-auth')?.value;
-    const secret = process.env.ACCESS_SECRET;
-
-    if (!secret) {
-        // If no secret is configured, allow access (dev mode)
-        return NextResponse.next();
-    }
+    // Look the session token up server-side (expired or revoked = logged out)
+    const authToken = request.cookies.get(SESSION_COOKIE)?.value;
+    const userId = authToken ? await validateSession(authToken) : null;
 
-    // Compare against hashed token (secure) OR raw secret (backward compat with existing sessions)
-    const expectedHash = await hashToken(secret);
-    if (authToken !== expectedHash && authToken !== secret) {
+    if (!userId) {
         // Redirect to login page
         const loginUrl = new URL('/login', request.url);
         return NextResponse.redirect(loginUrl);
     }
 
-    return NextResponse.next();
+    requestHeaders.set(USER_ID_HEADER, userId);
+    return NextResponse.next({ request: { headers: requestHeaders } });
 }
 
 export const config = {
+    // Node runtime: sessions are looked up with node crypto + the service client
+    runtime: 'nodejs',
     matcher: ['/((?!_next/static|_next/image).*)'],
 };
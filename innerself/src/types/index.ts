@@ -2,15 +2,29 @@
 // INNER SELF — Type Definitions
 // ============================================================
 
+// --- Users ---
+export interface UserProfile {
+  id: string;
+  username: string;
+  display_name: string;
+  age: number | null;
+  location: string | null;
+  pronouns: string | null;
+  about: string | null;
+  timezone: string; // IANA name — due phrases and reminders use the user's local time
+}
+
 // --- Raw Entry (Immutable Source of Truth) ---
 export interface RawEntry {
   id: string;
-  created_at: string;
+  created_at: string; // when it was written (imports and backdated entries keep the original)
+  inserted_at: string; // when the row was stored
   raw_text: string;
   audio_url: string | null;
   audio_duration_sec: number | null;
   source: 'text' | 'voice' | 'image';
   input_metadata: InputMetadata | null;
+  client_id: string | null; // set when sent from the offline outbox (idempotency key)
   deleted_at: string | null;
 }
 
@@ -18,6 +32,10 @@ export interface InputMetadata {
   device?: string;
   time_of_day?: string;
   entry_length_chars?: number;
+  imported_from?: string;
+  queued_offline?: boolean; // captured in the browser outbox and synced later
+  backdated_to?: string; // YYYY-MM-DD the user explicitly dated the entry to
+  extraction_issues?: { field: string; problem: string; action: string }[];
 }
 
 // --- Extracted Entity (AI Analysis) ---
@@ -44,6 +62,7 @@ export interface ExtractedEntity {
   is_task: boolean;
   task_status: 'pending' | 'done' | 'cancelled' | null;
   task_due_date: string | null;
+  occurred_at: string; // the day the entry is about; created_at is when it was written
   people_mentioned: PersonMention[];
   ai_response: string;
   ai_persona_used: AIPersona;
@@ -69,6 +88,31 @@ export type IdentityPersona =
   | 'Wounded'
   | 'Friend';
 
+// --- Tasks ---
+export type TaskStatus = 'pending' | 'done' | 'cancelled';
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface Task {
+  id: string;
+  parent_id: string | null; // set on subtasks (one level deep)
+  title: string;
+  notes: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  due_date: string | null; // YYYY-MM-DD, in the user's timezone
+  due_time: string | null; // HH:MM:SS local; null = any time that day
+  due_phrase: string | null; // what the entry said, e.g. "tomorrow at 5pm"
+  recurrence: string | null; // 'daily' | 'weekly' | 'monthly' | 'yearly' | 'RRULE:...'
+  snoozed_until: string | null;
+  reminded_at: string | null; // when the reminder cron last reminded about it
+  position: number; // order among siblings
+  source_entry_id: string | null; // the brain dump it was extracted from
+  completed_entry_id: string | null; // the brain dump that reported it done
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // --- People Map ---
 export interface PersonMap {
   id: string;
@@ -153,10 +197,16 @@ export interface SelfTalkRatio {
 // --- Embeddings ---
 export interface Embedding {
   id: string;
-  entry_id: string;
+  source_type: 'entry' | 'document';
+  entry_id: string | null;
+  document_id: string | null;
+  chunk_index: number; // 0 is an entry's summary; raw text and document chunks follow
+  chunk_start: number | null; // character offsets into the source text
+  chunk_end: number | null;
   embedding: number[];
+  model: string; // "provider:name@dimensions" that produced the vector
   content_text: string;
-  metadata: EmbeddingMetadata;
+  metadata: EmbeddingMetadata | DocumentEmbeddingMetadata;
 }
 
 export interface EmbeddingMetadata {
@@ -167,6 +217,11 @@ export interface EmbeddingMetadata {
   persona: string;
 }
 
+export interface DocumentEmbeddingMetadata {
+  file_name: string;
+  date: string;
+}
+
 // --- Conversations ---
 export interface Conversation {
   id: string;
@@ -178,12 +233,30 @@ export interface Conversation {
 }
 
 // --- Insights ---
+export type InsightStatus = 'new' | 'read' | 'dismissed';
+export type InsightFeedback = 'helpful' | 'not_helpful';
+
 export interface Insight {
   id: string;
   created_at: string;
   insight_text: string;
   type: string;
   source_entry_id: string;
+  confidence: number | null;
+  status: InsightStatus;
+  read_at: string | null;
+  snoozed_until: string | null; // hidden from the inbox until then
+  feedback: InsightFeedback | null;
+  feedback_at: string | null;
+}
+
+// --- Notifications ---
+export interface NotificationPreferences {
+  enabled: boolean;
+  insight_types: string[]; // insights.type values that are pushed
+  quiet_start: string | null; // HH:MM local; null = no quiet hours
+  quiet_end: string | null;
+  max_per_day: number;
 }
 
 // --- Weekly Reports ---
@@ -331,14 +404,70 @@ export interface ExtractionResult {
   is_task: boolean;
   task_status: 'pending' | 'done' | 'cancelled' | null;
   task_due_date: string | null;
+  task_due_phrase: string | null; // the due words as said; resolved deterministically by lib/due-dates
+  task_priority: TaskPriority | null;
+  task_recurrence: 'daily' | 'weekly' | 'monthly' | null;
+  task_ref: string | null; // "T3" — the open task this entry's task already is (see describeOpenTasks)
+  task_updates: ExtractedTaskUpdate[]; // open tasks this entry reports finishing or dropping
+  occurred_on: string | null; // YYYY-MM-DD when the entry recounts an earlier day
   people_mentioned: PersonMention[];
   ai_persona_used: AIPersona;
   ai_response: string;
   follow_up_question: string | null;
 }
 
+export interface ExtractedTaskUpdate {
+  ref: string;
+  status: 'done' | 'cancelled';
+}
+
+// --- Background Features (deep analysis pass) ---
+export interface DetectedLifeEvent {
+  title: string;
+  description: string;
+  significance: number;
+  category: string;
+  emotions: string[];
+  people_involved: string[];
+  event_date?: string;
+}
+
+export interface DetectedHealthMetric {
+  metric: string;
+  value: string;
+  unit: string;
+  status: string;
+  date: string;
+}
+
+export interface DetectedDream {
+  dream_text: string;
+  dream_type: string;
+  symbols: { symbol: string; interpretation: string }[];
+  emotions: string[];
+  themes: string[];
+  waking_connections: string;
+  significance: number;
+}
+
+export interface DetectedCourage {
+  description: string;
+  courage_type: string;
+  significance: number;
+  people_involved: string[];
+  outcome: string;
+}
+
+export interface BackgroundFeatures {
+  life_event_detected: DetectedLifeEvent | null;
+  health_metrics: DetectedHealthMetric[];
+  insights: string[];
+  dream_detected: DetectedDream | null;
+  courage_detected: DetectedCourage | null;
+}
+
 // --- App State ---
-export type TabName = 'dump' | 'log' | 'tasks' | 'life' | 'mirror' | 'chat';
+export type TabName = 'dump' | 'log' | 'tasks' | 'inbox' | 'life' | 'mirror' | 'chat' | 'search';
 
 export interface AppState {
   activeTab: TabName;